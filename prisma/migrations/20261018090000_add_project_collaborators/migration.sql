@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "project_collaborators" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'viewer',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "invite_token" TEXT NOT NULL,
+    "invited_by" TEXT NOT NULL,
+    "invited_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "accepted_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_collaborators_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_collaborators_invite_token_key" ON "project_collaborators"("invite_token");
+
+-- CreateIndex
+CREATE INDEX "project_collaborators_project_id_idx" ON "project_collaborators"("project_id");
+
+-- CreateIndex
+CREATE INDEX "project_collaborators_user_id_idx" ON "project_collaborators"("user_id");
+
+-- CreateIndex
+CREATE INDEX "project_collaborators_status_idx" ON "project_collaborators"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_collaborators_project_id_email_key" ON "project_collaborators"("project_id", "email");
+
+-- AddForeignKey
+ALTER TABLE "project_collaborators" ADD CONSTRAINT "project_collaborators_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_collaborators" ADD CONSTRAINT "project_collaborators_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "project_versions" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "version_number" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" JSONB,
+    "content_hash" TEXT NOT NULL,
+    "word_count" INTEGER NOT NULL DEFAULT 0,
+    "change_source" TEXT NOT NULL DEFAULT 'save',
+    "restored_from_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_versions_project_id_idx" ON "project_versions"("project_id");
+
+-- CreateIndex
+CREATE INDEX "project_versions_user_id_idx" ON "project_versions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "project_versions_created_at_idx" ON "project_versions"("created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_versions_project_id_version_number_key" ON "project_versions"("project_id", "version_number");
+
+-- AddForeignKey
+ALTER TABLE "project_versions" ADD CONSTRAINT "project_versions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_versions" ADD CONSTRAINT "project_versions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "corpus_index_enabled" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_members" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "corpus_documents" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "word_count" INTEGER NOT NULL DEFAULT 0,
+    "fingerprint_count" INTEGER NOT NULL DEFAULT 0,
+    "indexed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "corpus_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "corpus_fingerprints" (
+    "id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "positions" INTEGER[],
+
+    CONSTRAINT "corpus_fingerprints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organization_id_user_id_key" ON "organization_members"("organization_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "organization_members_user_id_idx" ON "organization_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "corpus_documents_organization_id_project_id_key" ON "corpus_documents"("organization_id", "project_id");
+
+-- CreateIndex
+CREATE INDEX "corpus_documents_user_id_idx" ON "corpus_documents"("user_id");
+
+-- CreateIndex
+CREATE INDEX "corpus_fingerprints_organization_id_hash_idx" ON "corpus_fingerprints"("organization_id", "hash");
+
+-- CreateIndex
+CREATE INDEX "corpus_fingerprints_document_id_idx" ON "corpus_fingerprints"("document_id");
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "corpus_documents" ADD CONSTRAINT "corpus_documents_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "corpus_documents" ADD CONSTRAINT "corpus_documents_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "corpus_fingerprints" ADD CONSTRAINT "corpus_fingerprints_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "corpus_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "originality_scans" ADD COLUMN "provider" TEXT;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "originality_exclusions" JSONB;
+
+-- AlterTable
+ALTER TABLE "originality_scans" ADD COLUMN "raw_score" DOUBLE PRECISION,
+ADD COLUMN "exclusion_settings" JSONB;
+
+-- AlterTable
+ALTER TABLE "similarity_matches" ADD COLUMN "own_work" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "excluded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "exclusion_reason" TEXT;
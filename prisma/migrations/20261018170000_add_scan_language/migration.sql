@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "originality_scans" ADD COLUMN "language" TEXT,
+ADD COLUMN "cross_language" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "similarity_matches" ADD COLUMN "cross_language" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "source_language" TEXT;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "writer_style_profiles" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "profile" JSONB NOT NULL,
+    "source_project_ids" TEXT[],
+    "project_count" INTEGER NOT NULL DEFAULT 0,
+    "word_count" INTEGER NOT NULL DEFAULT 0,
+    "built_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "writer_style_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "writer_style_profiles_user_id_key" ON "writer_style_profiles"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "writer_style_profiles" ADD CONSTRAINT "writer_style_profiles_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "real_time_activities" ADD COLUMN "paste_hash" TEXT,
+ADD COLUMN "paste_fingerprints" TEXT[],
+ADD COLUMN "paste_origin" TEXT,
+ADD COLUMN "paste_origin_ref" TEXT;
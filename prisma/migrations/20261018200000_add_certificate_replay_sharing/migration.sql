@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "certificates" ADD COLUMN "replay_shared" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "replay_shared_at" TIMESTAMP(3);
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "certificates" ADD COLUMN "manifest" JSONB,
+ADD COLUMN "signature" TEXT,
+ADD COLUMN "signing_key_id" TEXT,
+ADD COLUMN "content_hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "certificate_signing_keys" (
+    "id" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL DEFAULT 'Ed25519',
+    "public_key" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retired_at" TIMESTAMP(3),
+
+    CONSTRAINT "certificate_signing_keys_pkey" PRIMARY KEY ("id")
+);
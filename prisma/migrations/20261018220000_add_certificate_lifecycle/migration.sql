@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "certificates" ADD COLUMN "status_reason" TEXT,
+ADD COLUMN "status_changed_at" TIMESTAMP(3),
+ADD COLUMN "status_changed_by" TEXT,
+ADD COLUMN "previous_certificate_id" TEXT;
+
+-- Existing certificates were recorded as 'completed'
+UPDATE "certificates" SET "status" = 'issued' WHERE "status" = 'completed';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "certificates_previous_certificate_id_key" ON "certificates"("previous_certificate_id");
+
+-- CreateIndex
+CREATE INDEX "certificates_status_idx" ON "certificates"("status");
+
+-- AddForeignKey
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_previous_certificate_id_fkey" FOREIGN KEY ("previous_certificate_id") REFERENCES "certificates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "source_interactions" ADD COLUMN "observed_open_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "observed_reading_time_ms" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "pages_viewed" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN "page_count" INTEGER,
+ADD COLUMN "highlight_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "note_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "source_reading_sessions" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "source_url" TEXT NOT NULL,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_active_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "active_ms" INTEGER NOT NULL DEFAULT 0,
+    "pages_viewed" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "page_count" INTEGER,
+    "request_count" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "source_reading_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "source_reading_sessions_user_id_source_id_last_active_at_idx" ON "source_reading_sessions"("user_id", "source_id", "last_active_at");
+
+-- CreateIndex
+CREATE INDEX "source_reading_sessions_project_id_idx" ON "source_reading_sessions"("project_id");
+
+-- AddForeignKey
+ALTER TABLE "source_reading_sessions" ADD CONSTRAINT "source_reading_sessions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "source_reading_sessions" ADD CONSTRAINT "source_reading_sessions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "source_full_texts" (
+    "id" TEXT NOT NULL,
+    "source_key" TEXT NOT NULL,
+    "user_id" TEXT,
+    "file_id" TEXT,
+    "source_url" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ready',
+    "error" TEXT,
+    "pages" JSONB,
+    "page_count" INTEGER NOT NULL DEFAULT 0,
+    "char_count" INTEGER NOT NULL DEFAULT 0,
+    "extracted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "source_full_texts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "source_full_texts_source_key_key" ON "source_full_texts"("source_key");
+
+-- CreateIndex
+CREATE INDEX "source_full_texts_user_id_idx" ON "source_full_texts"("user_id");
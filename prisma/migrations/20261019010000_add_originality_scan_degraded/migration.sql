@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "originality_scans" ADD COLUMN "degraded" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "originality_scans" ADD COLUMN "job_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "originality_scans_job_id_key" ON "originality_scans"("job_id");
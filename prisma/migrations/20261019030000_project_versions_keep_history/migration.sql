@@ -0,0 +1,9 @@
+-- DropForeignKey
+ALTER TABLE "project_versions" DROP CONSTRAINT "project_versions_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "project_versions" ALTER COLUMN "user_id" DROP NOT NULL,
+ADD COLUMN "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AddForeignKey
+ALTER TABLE "project_versions" ADD CONSTRAINT "project_versions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
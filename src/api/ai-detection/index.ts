@@ -6,12 +6,12 @@ const router = Router();
 
 /**
  * @route POST /api/ai-detection/scan
- * @desc Scan text for AI-generated content
+ * @desc Scan text for AI-generated content (optional engine: "gptzero" | "stylometry")
  * @access Private
  */
 router.post("/scan", async (req: Request, res: Response) => {
     try {
-        const { content } = req.body;
+        const { content, engine } = req.body;
 
         if (!content || typeof content !== "string") {
             return res.status(400).json({
@@ -20,7 +20,14 @@ router.post("/scan", async (req: Request, res: Response) => {
             });
         }
 
-        const results = await AIDetectionService.detectAI(content);
+        if (engine !== undefined && engine !== "gptzero" && engine !== "stylometry") {
+            return res.status(400).json({
+                success: false,
+                message: "engine must be \"gptzero\" or \"stylometry\"",
+            });
+        }
+
+        const results = await AIDetectionService.detectAI(content, engine);
 
         res.json({
             success: true,
@@ -196,7 +196,7 @@ router.get("/dashboard", async (req: Request, res: Response) => {
       }
     }
 
-    const authorshipVerified = latestCertificate?.status === "completed";
+    const authorshipVerified = latestCertificate?.status === "issued";
 
     return res.status(200).json({
       success: true,
@@ -192,7 +192,7 @@ export const createCertificate = async (req: Request, res: Response) => {
         file_name,
         file_path,
         file_size,
-        status: "completed", // Default to completed since this is for downloaded certificates
+        status: "issued", // Downloaded certificates are issued as soon as they are recorded
         certificate_type: certificate_type || "authorship",
         metadata: metadata || {},
       },
@@ -354,7 +354,8 @@ export const updateCertificate = async (req: Request, res: Response) => {
     }
 
     const { id } = req.params;
-    const { title, status, metadata } = req.body;
+    // Status changes go through revoke / reissue so they keep their reason and history
+    const { title, metadata } = req.body;
 
     const certificate = await prisma.certificate.findFirst({
       where: { id, user_id: user.id },
@@ -368,7 +369,6 @@ export const updateCertificate = async (req: Request, res: Response) => {
       where: { id },
       data: {
         title,
-        status,
         metadata,
         updated_at: new Date(),
       },
@@ -571,6 +571,12 @@ export const downloadCertificate = async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Certificate not found" });
     }
 
+    if (certificate.status === "expired") {
+      return res
+        .status(410)
+        .json({ error: "Certificate has expired and its file was removed" });
+    }
+
     // Import dynamically to avoid circular dependencies if any
     const { SupabaseStorageService } =
       await import("../../services/supabaseStorageService");
@@ -0,0 +1,65 @@
+import express, { Request, Response } from "express";
+import {
+  CertificateEligibilityService,
+  CertificateType,
+} from "../../services/certificateEligibilityService";
+import { ProjectAccessService } from "../../services/projectAccessService";
+import { authenticateExpressRequest } from "../../middleware/auth";
+import logger from "../../monitoring/logger";
+import { getSafeString } from "../../utils/requestHelpers";
+
+const router = express.Router();
+
+const CERTIFICATE_TYPES: CertificateType[] = ["authorship", "originality", "completion"];
+
+/**
+ * GET /api/authorship/certificates/eligibility/:projectId?type=originality|completion
+ * Whether the project meets the requirements for a certificate type, with the
+ * evidence the certificate would show and the checks that failed
+ */
+router.get(
+  "/certificates/eligibility/:projectId",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const type = (getSafeString(req.query.type) || "authorship") as CertificateType;
+      if (!CERTIFICATE_TYPES.includes(type)) {
+        return res.status(400).json({
+          success: false,
+          error: `type must be one of: ${CERTIFICATE_TYPES.join(", ")}`,
+        });
+      }
+
+      const projectId = req.params.projectId as string;
+      await ProjectAccessService.assertAccess(projectId, userId, "owner");
+
+      const eligibility = await CertificateEligibilityService.check(projectId, userId, type);
+
+      return res.status(200).json({
+        success: true,
+        data: eligibility,
+      });
+    } catch (error: any) {
+      logger.error("Error checking certificate eligibility", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      const notFound = error.message?.includes("not found") || error.message?.includes("access denied");
+      return res.status(notFound ? 404 : 500).json({
+        success: false,
+        error: error.message || "Failed to check certificate eligibility",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,11 +1,11 @@
 import { Request, Response } from "express";
 import { prisma } from "../../lib/prisma";
 import { getSupabaseClient } from "../../lib/supabase/client";
-import { AuthorshipCertificateGenerator } from "../../services/authorshipCertificateGenerator";
-import { SubscriptionService } from "../../services/subscriptionService";
-import { randomUUID } from "crypto";
-import { SecretsService } from "../../services/secrets-service";
+import { CertificateEligibilityService } from "../../services/certificateEligibilityService";
 import { EntitlementService } from "../../services/EntitlementService";
+import { JobQueueService } from "../../services/jobQueueService";
+import { SupabaseStorageService } from "../../services/supabaseStorageService";
+import { prefersAsync, sendJobAccepted, waitForJob } from "../../utils/jobResponse";
 
 export const generateCertificate = async (req: Request, res: Response) => {
   try {
@@ -50,6 +50,10 @@ export const generateCertificate = async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Project ID is required" });
     }
 
+    if (!["authorship", "originality", "completion"].includes(certificateType)) {
+      return res.status(400).json({ error: "Invalid certificate type" });
+    }
+
     // Get Project and User details
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -70,7 +74,18 @@ export const generateCertificate = async (req: Request, res: Response) => {
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Check Plan Limits (Atomic Pre-flight)
+    // Originality / completion requirements (re-checked by the job before rendering)
+    const eligibility = await CertificateEligibilityService.check(projectId, user.id, certificateType);
+    if (!eligibility.eligible) {
+      return res.status(422).json({
+        error: `Project does not qualify for a ${certificateType} certificate`,
+        code: "CERTIFICATE_REQUIREMENTS_NOT_MET",
+        data: { failures: eligibility.failures },
+      });
+    }
+
+    // Check Plan Limits (Atomic Pre-flight) - this consumes the use, so it runs only
+    // once every check that could still turn the request down has passed
     try {
       await EntitlementService.assertCanUse(user.id, "certificate");
     } catch (e: any) {
@@ -84,145 +99,44 @@ export const generateCertificate = async (req: Request, res: Response) => {
       });
     }
 
-    // Fetch plan details for metadata and watermark logic
-    const plan = await SubscriptionService.getActivePlan(user.id);
-    const limits = SubscriptionService.getPlanLimits(plan);
-
-    // WRAP EVERYTHING in try/catch for timeout mapping
-    try {
-      // Generate Certificate HTML (reuse for both PDF and preview)
-      const stats = await import("../../services/authorshipReportService").then(
-        (m) =>
-          m.AuthorshipReportService.generateAuthorshipReport(projectId, user.id)
-      );
-      const frontendUrl = await SecretsService.getFrontendUrl();
-      const qrCodeDataUrl = includeQRCode
-        ? await import("qrcode").then((qr) =>
-          qr.default.toDataURL(`${frontendUrl}/verify/${projectId}`, {
-            errorCorrectionLevel: "H",
-            margin: 1,
-            width: 200,
-            color: { dark: "#000000", light: "#FFFFFF" },
-          })
-        )
-        : null;
-
-      // Generate HTML first
-      const html = await AuthorshipCertificateGenerator.generateCertificateHTML(
-        {
-          projectId,
-          userId: user.id,
-          userName: prismaUser.full_name || "ColabWize User",
-          projectTitle: project.title || "Untitled Project",
-          certificateType,
-          includeQRCode,
-          verificationUrl: `${frontendUrl}/verify/${projectId}`,
-          watermark: limits.watermark,
-        },
-        stats,
-        qrCodeDataUrl
-      );
-
-      // Generate PDF from HTML
-      const buffer = await AuthorshipCertificateGenerator.convertHTMLToPDF(html);
-
-      // Generate preview image from same HTML
-      const previewBuffer =
-        await AuthorshipCertificateGenerator.generatePreviewImage(html);
-
-      // Upload PDF to Supabase
-      const fileName = `certificate-${projectId}-${randomUUID()}.pdf`;
-      const { path: pdfPath } =
-        await import("../../services/supabaseStorageService").then((m) =>
-          m.SupabaseStorageService.uploadFile(
-            buffer,
-            fileName,
-            "application/pdf",
-            user.id,
-            {
-              userId: user.id,
-              fileName: fileName,
-              fileType: "application/pdf",
-              fileSize: buffer.length,
-              projectId: projectId,
-              createdAt: new Date(),
-            }
-          )
-        );
-
-      // Upload Preview Image to Supabase
-      const previewFileName = `preview-${projectId}-${randomUUID()}.png`;
-      const { publicUrl: previewPublicUrl } =
-        await import("../../services/supabaseStorageService").then((m) =>
-          m.SupabaseStorageService.uploadFile(
-            previewBuffer,
-            previewFileName,
-            "image/png",
-            user.id,
-            {
-              userId: user.id,
-              fileName: previewFileName,
-              fileType: "image/png",
-              fileSize: previewBuffer.length,
-              projectId: projectId,
-              createdAt: new Date(),
-            }
-          )
-        );
-
-      // Create Certificate Record with preview URL
-      await prisma.certificate.create({
-        data: {
-          user_id: user.id,
-          project_id: projectId,
-          title: `${certificateType} Certificate - ${project.title}`,
-          file_name: fileName,
-          file_path: pdfPath, // Path in Supabase bucket
-          file_size: buffer.length,
-          status: "completed",
-          certificate_type: certificateType,
-          metadata: {
-            generated_at: new Date().toISOString(),
-            plan_at_generation: plan,
-            previewUrl: previewPublicUrl, // Public URL for frontend display
-          },
-        },
-      });
+    // Rendering (Puppeteer) and uploads run in the job worker
+    const job = await JobQueueService.enqueue(
+      "certificate_generation",
+      user.id,
+      { projectId, certificateType, includeQRCode },
+      { projectId }
+    );
 
-      // Deduct Credits / Entitlement (HANDLED AT START NOW)
-      // const consumption = await SubscriptionService.consumeAction(user.id, "certificate");
-
-      // Send PDF buffer directly
-      res.setHeader("Content-Type", "application/pdf");
-      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
-      res.setHeader("Content-Length", buffer.length);
-      return res.send(buffer);
-
-    } catch (innerError: any) {
-      console.error("Generation internal error:", innerError);
-
-      // TIMEOUT MAPPING RULE
-      const isTimeout = innerError.message?.includes("timeout") || innerError.name === "TimeoutError";
-
-      if (isTimeout) {
-        // Master Prompt Rule 4: If timeout occurs, assuming limits might be tight or system stressed,
-        // check limits one last time or default to limit error rather than "Technical Timeout".
-        // Actually, if it's a timeout, it likely means the heavier operations failed.
-        // We map this to PLAN_LIMIT_REACHED to prompt upgrade/support rather than showing "Navigation Timeout".
-        return res.status(403).json({
-          error: "Generation timed out. This may be due to high demand.",
-          code: "PLAN_LIMIT_REACHED", // Treating as resource exhaustion
-          data: { upgrade_url: "/pricing" }
-        });
-      }
+    if (prefersAsync(req)) {
+      return sendJobAccepted(req, res, job);
+    }
 
-      // Genuine System Failure
+    // Clients that did not opt in get the PDF, as before the job queue
+    const finished = await waitForJob(job.id);
+    if (!finished) {
+      return sendJobAccepted(req, res, job);
+    }
+    if (finished.status !== "completed") {
       return res.status(500).json({
-        error: "We couldn't complete this request due to a system issue.",
-        code: "GENERATION_FAILED"
+        error: finished.error || "Certificate generation failed",
+        code: "GENERATION_FAILED",
       });
     }
 
+    const { certificateId } = finished.result as { certificateId: string };
+    const certificate = await prisma.certificate.findUnique({
+      where: { id: certificateId },
+      select: { file_name: true, file_path: true },
+    });
+    if (!certificate) {
+      return res.status(500).json({ error: "Certificate not found", code: "GENERATION_FAILED" });
+    }
+    const buffer = await SupabaseStorageService.downloadFile(certificate.file_path);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${certificate.file_name}"`);
+    res.setHeader("Content-Length", buffer.length);
+    return res.send(buffer);
   } catch (error: any) {
     console.error("Error generating certificate [Top Level]:", error);
     // Safety net
@@ -9,6 +9,10 @@ import {
 } from "./certificates";
 import { getTimeToVerification } from "./certificates";
 import activityRouter from "./activity";
+import styleRouter from "./style";
+import replayRouter from "./replay";
+import lifecycleRouter from "./lifecycle";
+import eligibilityRouter from "./eligibility";
 import { generateCertificate } from "./generate";
 import verifyRouter from "../certificates/verify";
 
@@ -20,6 +24,18 @@ router.use("/", verifyRouter);
 // Activity Tracking Routes (MVP Core)
 router.use("/", activityRouter);
 
+// Writing Style Profile Routes
+router.use("/", styleRouter);
+
+// Writing Replay Routes
+router.use("/", replayRouter);
+
+// Certificate Revocation and Re-issue Routes
+router.use("/", lifecycleRouter);
+
+// Certificate Eligibility Routes (originality / completion requirements)
+router.use("/", eligibilityRouter);
+
 // GET /api/authorship/certificates - Get all certificates for the authenticated user
 router.get("/certificates", getCertificates);
 
@@ -0,0 +1,155 @@
+import express, { Request, Response } from "express";
+import { CertificateEligibilityService } from "../../services/certificateEligibilityService";
+import { CertificateLifecycleService } from "../../services/certificateLifecycleService";
+import { EntitlementService } from "../../services/EntitlementService";
+import { authenticateExpressRequest } from "../../middleware/auth";
+import logger from "../../monitoring/logger";
+import { prefersAsync, sendJobAccepted, waitForJob } from "../../utils/jobResponse";
+
+const router = express.Router();
+
+function lifecycleErrorStatus(message: string = ""): number {
+  if (message.includes("not found")) return 404;
+  if (message.includes("not linked")) return 400;
+  if (message.includes("already") || message.includes("cannot be re-issued")) return 409;
+  return 500;
+}
+
+/**
+ * POST /api/authorship/certificates/:id/revoke
+ * Revoke a certificate ({ reason }); verifiers will see it as revoked with the reason
+ */
+router.post(
+  "/certificates/:id/revoke",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const { reason } = req.body;
+      if (!reason || typeof reason !== "string" || !reason.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: "A reason for the revocation is required",
+        });
+      }
+
+      const certificate = await CertificateLifecycleService.revoke(
+        req.params.id as string,
+        userId,
+        reason.trim().substring(0, 1000)
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          certificateId: certificate.id,
+          status: certificate.status,
+          statusReason: certificate.status_reason,
+          statusChangedAt: certificate.status_changed_at,
+        },
+      });
+    } catch (error: any) {
+      logger.error("Error revoking certificate", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(lifecycleErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to revoke certificate",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/authorship/certificates/:id/reissue
+ * Generate a new certificate for the project's current state that supersedes
+ * this one (runs as a background job, like /generate). The certificate is only
+ * charged once it can be re-issued and the project still meets its requirements.
+ */
+router.post(
+  "/certificates/:id/reissue",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const previous = await CertificateLifecycleService.assertReissuable(req.params.id as string, userId);
+      await CertificateLifecycleService.assertNoPendingReissue(previous.id);
+
+      const eligibility = await CertificateEligibilityService.check(
+        previous.project_id!,
+        userId,
+        previous.certificate_type
+      );
+      if (!eligibility.eligible) {
+        return res.status(422).json({
+          success: false,
+          error: `Project does not qualify for a ${previous.certificate_type} certificate`,
+          code: "CERTIFICATE_REQUIREMENTS_NOT_MET",
+          data: { failures: eligibility.failures },
+        });
+      }
+
+      try {
+        await EntitlementService.assertCanUse(userId, "certificate");
+      } catch (e: any) {
+        return res.status(e.code === "INSUFFICIENT_CREDITS" ? 402 : 403).json({
+          success: false,
+          error: e.message || "Monthly limit reached",
+          code: "PLAN_LIMIT_REACHED",
+        });
+      }
+
+      const job = await CertificateLifecycleService.reissue(previous, userId);
+
+      if (prefersAsync(req)) {
+        return sendJobAccepted(req, res, job);
+      }
+
+      // Clients that did not opt in wait for the new certificate, like /generate
+      const finished = await waitForJob(job.id);
+      if (!finished) {
+        return sendJobAccepted(req, res, job);
+      }
+      if (finished.status !== "completed") {
+        return res.status(500).json({
+          success: false,
+          error: finished.error || "Failed to re-issue certificate",
+          code: "GENERATION_FAILED",
+        });
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: { ...(finished.result as Record<string, unknown>), supersedes: previous.id },
+      });
+    } catch (error: any) {
+      logger.error("Error re-issuing certificate", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(lifecycleErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to re-issue certificate",
+      });
+    }
+  }
+);
+
+export default router;
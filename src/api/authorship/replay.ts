@@ -0,0 +1,172 @@
+import express, { Request, Response } from "express";
+import { AuthorshipReplayService } from "../../services/authorshipReplayService";
+import { authenticateExpressRequest } from "../../middleware/auth";
+import logger from "../../monitoring/logger";
+import { getSafeString } from "../../utils/requestHelpers";
+
+const router = express.Router();
+
+function replayErrorStatus(message: string = ""): number {
+  if (message.includes("not found") || message.includes("access denied")) return 404;
+  if (message.includes("not linked")) return 400;
+  return 500;
+}
+
+function parseDate(value: unknown): Date | null | undefined {
+  const raw = getSafeString(value);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/authorship/replay/:projectId/state?at=<ISO timestamp>
+ * Reconstruct the document as it stood at a point in time
+ */
+router.get(
+  "/replay/:projectId/state",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const at = parseDate(req.query.at);
+      if (at === null) {
+        return res.status(400).json({
+          success: false,
+          error: "at must be a valid timestamp",
+        });
+      }
+
+      const state = await AuthorshipReplayService.getStateAt(
+        req.params.projectId as string,
+        userId,
+        at || new Date()
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: state,
+      });
+    } catch (error: any) {
+      logger.error("Error reconstructing document state", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(replayErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to reconstruct document state",
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/authorship/replay/:projectId/stream?until=&snapshotEvery=
+ * Compressed replay stream (periodic snapshots plus deltas) for scrubbing
+ */
+router.get(
+  "/replay/:projectId/stream",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const until = parseDate(req.query.until);
+      if (until === null) {
+        return res.status(400).json({
+          success: false,
+          error: "until must be a valid timestamp",
+        });
+      }
+
+      const stream = await AuthorshipReplayService.getReplayStream(
+        req.params.projectId as string,
+        userId,
+        {
+          until,
+          snapshotEvery: parseInt(getSafeString(req.query.snapshotEvery) || "") || undefined,
+        }
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: stream,
+      });
+    } catch (error: any) {
+      logger.error("Error building replay stream", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(replayErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to build replay stream",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/authorship/certificates/:id/replay-sharing
+ * Owner consent for certificate verifiers to view the writing replay ({ shared: boolean })
+ */
+router.put(
+  "/certificates/:id/replay-sharing",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const { shared } = req.body;
+      if (typeof shared !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          error: "shared must be a boolean",
+        });
+      }
+
+      const result = await AuthorshipReplayService.setCertificateReplaySharing(
+        req.params.id as string,
+        userId,
+        shared
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error("Error updating replay sharing", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(replayErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to update replay sharing",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,148 @@
+import express, { Request, Response } from "express";
+import { WriterStyleProfileService } from "../../services/writerStyleProfileService";
+import { authenticateExpressRequest } from "../../middleware/auth";
+import logger from "../../monitoring/logger";
+
+const router = express.Router();
+
+function styleErrorStatus(message: string = ""): number {
+  if (message.includes("not found") || message.includes("access denied")) return 404;
+  if (message.startsWith("Not enough completed work")) return 409;
+  if (message.startsWith("Text is too short")) return 400;
+  return 500;
+}
+
+function toProfileResponse(stored: any) {
+  return {
+    builtAt: stored.built_at,
+    projectCount: stored.project_count,
+    wordCount: stored.word_count,
+    profile: stored.profile,
+  };
+}
+
+/**
+ * GET /api/authorship/style-profile
+ * Get the user's writing style profile (built from completed projects on first use)
+ */
+router.get(
+  "/style-profile",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const stored = await WriterStyleProfileService.getProfile(userId);
+
+      return res.status(200).json({
+        success: true,
+        data: toProfileResponse(stored),
+      });
+    } catch (error: any) {
+      logger.error("Error getting style profile", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(styleErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to get style profile",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/authorship/style-profile/rebuild
+ * Rebuild the user's writing style profile from their completed projects
+ */
+router.post(
+  "/style-profile/rebuild",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const stored = await WriterStyleProfileService.rebuildProfile(userId);
+
+      return res.status(200).json({
+        success: true,
+        data: toProfileResponse(stored),
+      });
+    } catch (error: any) {
+      logger.error("Error rebuilding style profile", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(styleErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to rebuild style profile",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/authorship/style-consistency
+ * Score how consistent a text ({ text }) or a project ({ projectId }) is with
+ * a writing style profile (the caller's for text, the project owner's for a
+ * project), overall and per section
+ */
+router.post(
+  "/style-consistency",
+  authenticateExpressRequest,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+      }
+
+      const { text, projectId } = req.body;
+      if ((!text || typeof text !== "string") && (!projectId || typeof projectId !== "string")) {
+        return res.status(400).json({
+          success: false,
+          error: "Either text or projectId is required",
+        });
+      }
+
+      const result = await WriterStyleProfileService.scoreConsistency(userId, {
+        text: typeof text === "string" ? text : undefined,
+        projectId: typeof projectId === "string" ? projectId : undefined,
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error("Error scoring style consistency", {
+        error: error.message,
+        stack: error.stack,
+      });
+
+      return res.status(styleErrorStatus(error.message)).json({
+        success: false,
+        error: error.message || "Failed to score style consistency",
+      });
+    }
+  }
+);
+
+export default router;
@@ -3,6 +3,7 @@ import logger from "../../monitoring/logger";
 import { initializePrisma } from "../../lib/prisma-async";
 import { RealTimeAuthorshipTrackingService } from "../../services/realTimeAuthorshipTrackingService";
 import { EntitlementService } from "../../services/EntitlementService";
+import { ProjectAccessService } from "../../services/projectAccessService";
 
 const router = express.Router();
 
@@ -77,6 +78,45 @@ router.post("/", async (req, res) => {
     }
 });
 
+/**
+ * POST /api/behavioral-tracking/activities
+ * Editor change events for the authorship record (content changes, pastes).
+ * Body: { projectId, sessionId?, activities: [{ eventType, timestamp, contentChange?,
+ * pastedText?, pasteHint?, ... }] } - paste events with pastedText get their
+ * provenance (reader file, other project, external) resolved and stored.
+ */
+router.post("/activities", async (req, res) => {
+    try {
+        const userId = (req as any).user?.id;
+        if (!userId) {
+            return res.status(401).json({ success: false, message: "Unauthorized" });
+        }
+
+        const { projectId, sessionId, activities } = req.body || {};
+        if (typeof projectId !== "string" || !projectId || !Array.isArray(activities)) {
+            return res.status(400).json({ success: false, message: "Invalid payload: projectId and activities[] required" });
+        }
+
+        await ProjectAccessService.assertAccess(projectId, userId, "editor");
+
+        const result = await RealTimeAuthorshipTrackingService.ingestActivities(
+            userId,
+            projectId,
+            typeof sessionId === "string" ? sessionId : undefined,
+            activities
+        );
+
+        res.status(200).json({ success: true, data: result });
+    } catch (error: any) {
+        logger.error("Error saving editor activities", { error: error.message });
+
+        if (error.message?.includes("not found") || error.message?.includes("access denied")) {
+            return res.status(404).json({ success: false, message: error.message });
+        }
+        res.status(500).json({ success: false, message: "Internal server error" });
+    }
+});
+
 // Analyze patterns to generate "Writing DNA" report
 router.post("/analyze/:projectId", async (req, res) => {
     try {
@@ -1,10 +1,47 @@
 import express, { Request, Response } from "express";
+import multer from "multer";
+import os from "os";
+import fs from "fs/promises";
 import { prisma } from "../../lib/prisma";
 import { sendJsonResponse, sendErrorResponse } from "../../lib/api-response";
 import logger from "../../monitoring/logger";
+import { uploadLimiter } from "../../middleware/rateLimiter";
+import { AuthorshipReplayService } from "../../services/authorshipReplayService";
+import { CertificateLifecycleService } from "../../services/certificateLifecycleService";
+import {
+  CertificateManifest,
+  CertificateSigningService,
+} from "../../services/certificateSigningService";
+import { DocumentUploadService } from "../../services/documentUploadService";
+import { getSafeString } from "../../utils/requestHelpers";
 
 const router = express.Router();
 
+// Documents uploaded for comparison are read once and deleted
+const upload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+/**
+ * Plain text of a verifier's document: an uploaded file (`file`) or `text` in the body
+ */
+async function readSubmittedDocument(req: Request): Promise<string | null> {
+  const file = (req as any).file as Express.Multer.File | undefined;
+  if (!file) {
+    return typeof req.body?.text === "string" ? req.body.text : null;
+  }
+
+  try {
+    const { content, format } = await DocumentUploadService.extractTextFromDocument(file);
+    return format === "html" ? content.replace(/<[^>]*>/g, " ") : content;
+  } finally {
+    await fs.unlink(file.path).catch(() => undefined);
+  }
+}
+
 /**
  * GET /api/certificates/verify/:certificateId
  * Public verification endpoint
@@ -39,16 +76,44 @@ router.get("/verify/:certificateId", async (req: Request, res: Response) => {
       return sendErrorResponse(res, 404, "Certificate not found");
     }
 
+    const verification = await CertificateSigningService.verifyManifest(
+      certificate.manifest,
+      certificate.signature
+    );
+    // The signed manifest must be about this certificate
+    const manifestMatches = (certificate.manifest as any)?.certificateId === certificate.id;
+    // Superseded, revoked and expired certificates keep verifiable signatures but are no longer current
+    const lifecycle = await CertificateLifecycleService.describe(certificate);
+
+    // Unsigned certificates (issued before signing, or with no signing key configured)
+    // cannot be checked against anything, so they are reported as unverified, never valid
+    const verificationStatus = !verification.signed
+      ? "unverified"
+      : verification.signatureValid && manifestMatches
+        ? "verified"
+        : "invalid";
+
     // Return limited public data
     const publicData = {
       id: certificate.id,
-      isValid: true,
+      isValid: verificationStatus === "verified" && lifecycle.status === "issued",
+      verificationStatus,
+      signed: verification.signed,
+      signature: {
+        ...verification,
+        ...(verification.signed && !manifestMatches
+          ? { reason: "Manifest belongs to a different certificate" }
+          : {}),
+      },
+      manifest: certificate.manifest,
+      signatureValue: certificate.signature,
       issuedAt: certificate.created_at,
       recipient: certificate.user?.full_name || "ColabWize User",
       projectTitle: certificate.project?.title || "Untitled Project",
       wordCount: certificate.project?.word_count || 0,
       metadata: certificate.metadata,
-      status: certificate.status,
+      ...lifecycle,
+      replayAvailable: certificate.replay_shared,
     };
 
     return sendJsonResponse(res, 200, publicData);
@@ -58,4 +123,125 @@ router.get("/verify/:certificateId", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/certificates/verify/:certificateId/document
+ * Check whether a document (multipart `file`, or `text`) is the one that was certified
+ */
+router.post(
+  "/verify/:certificateId/document",
+  uploadLimiter,
+  upload.single("file"),
+  async (req: Request, res: Response) => {
+    try {
+      const { certificateId } = req.params;
+
+      const certificate = await prisma.certificate.findUnique({
+        where: { id: certificateId as string },
+        select: { id: true, manifest: true, signature: true },
+      });
+
+      if (!certificate) {
+        return sendErrorResponse(res, 404, "Certificate not found");
+      }
+
+      const text = await readSubmittedDocument(req);
+      if (!text || !text.trim()) {
+        return sendErrorResponse(res, 400, "A document file or text is required");
+      }
+
+      const verification = await CertificateSigningService.verifyManifest(
+        certificate.manifest,
+        certificate.signature
+      );
+      if (!verification.signatureValid) {
+        // Without a valid signature there is no trustworthy hash to compare against
+        return sendJsonResponse(res, 200, { signature: verification, document: null });
+      }
+
+      const document = CertificateSigningService.matchDocument(
+        certificate.manifest as unknown as CertificateManifest,
+        text
+      );
+
+      return sendJsonResponse(res, 200, { signature: verification, document });
+    } catch (error: any) {
+      logger.error("Error matching document to certificate", { error: error.message });
+      return sendErrorResponse(res, 500, "Failed to check document");
+    }
+  }
+);
+
+/**
+ * POST /api/certificates/verify-manifest
+ * Verify a manifest and signature on their own (e.g. copied from a certificate),
+ * optionally against a document's `text`
+ */
+router.post("/verify-manifest", async (req: Request, res: Response) => {
+  try {
+    const { manifest, signature, text } = req.body;
+
+    if (!manifest || typeof manifest !== "object" || typeof signature !== "string") {
+      return sendErrorResponse(res, 400, "manifest (object) and signature (string) are required");
+    }
+
+    const verification = await CertificateSigningService.verifyManifest(manifest, signature);
+    const document =
+      verification.signatureValid && typeof text === "string" && text.trim()
+        ? CertificateSigningService.matchDocument(manifest, text)
+        : null;
+
+    return sendJsonResponse(res, 200, { signature: verification, document });
+  } catch (error: any) {
+    logger.error("Error verifying manifest", { error: error.message });
+    return sendErrorResponse(res, 500, "Failed to verify manifest");
+  }
+});
+
+/**
+ * GET /api/certificates/keys
+ * Public keys certificates are signed with (current and retired)
+ */
+router.get("/keys", async (req: Request, res: Response) => {
+  try {
+    const keys = await CertificateSigningService.listPublicKeys();
+    return sendJsonResponse(res, 200, { keys });
+  } catch (error: any) {
+    logger.error("Error listing certificate keys", { error: error.message });
+    return sendErrorResponse(res, 500, "Failed to list certificate keys");
+  }
+});
+
+/**
+ * GET /api/certificates/verify/:certificateId/replay
+ * Writing replay of the certified project, up to issuance - only if the owner shared it
+ */
+router.get("/verify/:certificateId/replay", uploadLimiter, async (req: Request, res: Response) => {
+  try {
+    const { certificateId } = req.params;
+
+    if (!certificateId) {
+      return sendErrorResponse(res, 400, "Certificate ID is required");
+    }
+
+    const stream = await AuthorshipReplayService.getCertificateReplay(
+      certificateId as string,
+      parseInt(getSafeString(req.query.snapshotEvery) || "") || undefined
+    );
+
+    return sendJsonResponse(res, 200, stream);
+  } catch (error: any) {
+    if (error.message === "Certificate not found") {
+      return sendErrorResponse(res, 404, error.message);
+    }
+    if (error.message?.includes("has not shared")) {
+      return sendErrorResponse(res, 403, error.message);
+    }
+    if (error.message?.includes("revoked")) {
+      return sendErrorResponse(res, 410, error.message);
+    }
+    logger.error("Error loading certificate replay", { error: error.message });
+    return sendErrorResponse(res, 500, "Failed to load writing replay");
+  }
+});
+
 export default router;
@@ -100,6 +100,9 @@ router.post("/session", async (req: Request, res: Response) => {
     const session = await AIChatService.createSession(userId, projectId);
     return sendJsonResponse(res, 200, session);
   } catch (error: any) {
+    if (error.message?.includes("access denied")) {
+      return sendErrorResponse(res, 404, error.message);
+    }
     return sendErrorResponse(res, 500, error.message);
   }
 });
@@ -2,6 +2,7 @@
 import express, { Request, Response } from "express";
 import { prisma } from "../../lib/prisma";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 import { OpenAIService } from "../../services/openaiService";
 
 const router = express.Router();
@@ -12,6 +13,7 @@ const router = express.Router();
  */
 router.post(
     "/:projectId/:citationId/analyze",
+    requireProjectRole("editor"),
     async (req: Request, res: Response) => {
         try {
             const userId = (req as any).user?.id;
@@ -24,8 +26,8 @@ router.post(
 
             const { projectId, citationId } = req.params;
 
-            const citation = await prisma.citation.findUnique({
-                where: { id: citationId },
+            const citation = await prisma.citation.findFirst({
+                where: { id: citationId as string, project_id: projectId as string },
                 select: { id: true, abstract: true, title: true }
             });
 
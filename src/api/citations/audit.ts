@@ -8,12 +8,32 @@ import {
 } from "../../types/citationAudit";
 import { getStyleRules } from "../../services/citationAudit/styleRules";
 import { RiskAnalysisService } from "../../services/citationAudit/riskAnalysisService";
+import { CitationDocumentExtractor } from "../../services/citationAudit/documentExtractor";
+import { CITATION_PATTERN_TYPES } from "../../services/citationAudit/CitationPatternObserver";
+import { openEventStream, EventStream } from "../../utils/eventStream";
+import { ProgressEvent } from "../../types/progress";
+import { LanguageDetectionService } from "../../services/languageDetectionService";
+
+// Words that mark a claim-bearing citation context, per document language
+const CLAIM_SIGNALS: Record<string, string[]> = {
+    en: ["show", "suggest", "found", "demonstrate", "according to", "percent", "increase", "decrease", "study", "research"],
+    es: ["muestra", "sugiere", "encontr", "demuestra", "según", "de acuerdo con", "por ciento", "aument", "disminu", "estudio", "investigación"],
+    pt: ["mostra", "sugere", "encontr", "demonstra", "segundo", "de acordo com", "por cento", "aument", "diminu", "estudo", "pesquisa"],
+    fr: ["montre", "suggère", "trouvé", "démontre", "selon", "pour cent", "augment", "diminu", "étude", "recherche"],
+};
 
 const router = express.Router();
 
-router.post("/audit", async (req: Request, res: Response) => {
+/**
+ * Tiered audit handler. With `streaming`, the response becomes an SSE stream:
+ * `stage` events while the tiers run, then a single `result` (or `error`) event.
+ */
+const handleAudit = (streaming: boolean) => async (req: Request, res: Response) => {
     console.log("\n\n🚀🚀🚀 TIERED AUDIT ENDPOINT CALLED! 🚀🚀🚀\n");
 
+    let stream: EventStream | undefined;
+    const reportStage = (event: ProgressEvent) => stream?.send("stage", event);
+
     try {
         // 1. Authentication Check
         const authHeader = req.headers.authorization;
@@ -27,17 +47,43 @@ router.post("/audit", async (req: Request, res: Response) => {
         let userId: string;
 
         try {
-            const client = await getSupabaseClient();
-            if (!client) throw new Error("Supabase client missing");
-            const { data: { user }, error } = await client.auth.getUser(token);
-            if (error || !user) throw new Error("Invalid token");
-            userId = user.id;
+            if ((req as any).accessToken) {
+                // Personal access token, already verified (and scope-checked) at the mount
+                userId = (req as any).user.id;
+            } else {
+                const client = await getSupabaseClient();
+                if (!client) throw new Error("Supabase client missing");
+                const { data: { user }, error } = await client.auth.getUser(token);
+                if (error || !user) throw new Error("Invalid token");
+                userId = user.id;
+            }
         } catch (e) {
             return res.status(401).json({ error: "Invalid or expired token" });
         }
 
-        const { declaredStyle, patterns, referenceList, sections, citationLibrary, wordCount } = req.body as AuditRequest & { wordCount?: number };
-        const docWordCount = wordCount || 1000;
+        const { declaredStyle, citationLibrary, wordCount, text, document, documentMeta } = req.body as AuditRequest & { wordCount?: number };
+        let { patterns, referenceList, sections } = req.body as AuditRequest;
+
+        // Server-side extraction mode: raw text or a Tiptap document instead of pre-extracted patterns
+        let extractedText: string | undefined;
+        if (!patterns && (typeof text === "string" || (document && typeof document === "object"))) {
+            const extraction = typeof text === "string"
+                ? CitationDocumentExtractor.fromText(text)
+                : CitationDocumentExtractor.fromTiptap(document, citationLibrary);
+            ({ patterns, referenceList, sections } = extraction);
+            extractedText = extraction.text;
+        }
+
+        // Declared language wins; otherwise detect it from the text (or the citation contexts)
+        const language = documentMeta?.language && documentMeta.language !== "auto"
+            ? documentMeta.language.toLowerCase().split("-")[0]
+            : LanguageDetectionService.detect(
+                extractedText ?? (patterns || []).map(p => p.context || "").join(" ")
+            ).language;
+
+        const docWordCount = wordCount
+            || (extractedText ? extractedText.split(/\s+/).filter(Boolean).length : 0)
+            || 1000;
 
         // 2. Entitlement Check
         const { EntitlementService } = await import("../../services/EntitlementService");
@@ -53,6 +99,14 @@ router.post("/audit", async (req: Request, res: Response) => {
             });
         }
 
+        // Auth and entitlement errors above are plain JSON; from here on the client gets events
+        if (streaming) {
+            stream = openEventStream(res);
+            if (extractedText !== undefined) {
+                reportStage({ stage: "extracting", message: `Extracted ${patterns?.length || 0} citation patterns and ${referenceList?.entries.length || 0} references` });
+            }
+        }
+
         console.log("📋 Forensic Audit Request:", { style: declaredStyle, patterns: patterns?.length, normalized: !!citationLibrary });
 
         // Load Style Rules
@@ -66,6 +120,7 @@ router.post("/audit", async (req: Request, res: Response) => {
         // Checks format, existence, and uniqueness.
         // =========================================================================
         tiersExecuted.push(AuditTier.STRUCTURAL);
+        reportStage({ stage: "checking_style", message: `Checking ${declaredStyle} formatting` });
 
         // 1.1 Inline Pattern Checks (Style Violations)
         if (patterns) {
@@ -105,8 +160,10 @@ router.post("/audit", async (req: Request, res: Response) => {
 
         // 1.3 Citation Matching (Normalization-Aware)
         const { CitationMatcher } = await import("../../services/citationAudit/citationMatcher");
-        const validPatterns = patterns || [];
+        // Stylistic sub-patterns (et al., and/&) were checked above; only citations get matched
+        const validPatterns = (patterns || []).filter(p => CITATION_PATTERN_TYPES.includes(p.patternType));
         const validEntries = referenceList?.entries || [];
+        reportStage({ stage: "matching", message: `Matching ${validPatterns.length} citations to ${validEntries.length} references` });
 
         const matchedPairs = CitationMatcher.matchCitations(validPatterns, validEntries, declaredStyle, citationLibrary);
 
@@ -180,7 +237,7 @@ router.post("/audit", async (req: Request, res: Response) => {
         // =========================================================================
 
         // Signal-based filtering for Tier 2 to prioritize high-impact verification
-        const claimSignals = ["show", "suggest", "found", "demonstrate", "according to", "percent", "%", "increase", "decrease", "study", "research"];
+        const claimSignals = [...(CLAIM_SIGNALS[language] || []), ...CLAIM_SIGNALS.en, "%"];
         const claimAuditCitations = matchedPairs.filter(pair => {
             if (!pair.inline.context) return false;
             return claimSignals.some(signal => pair.inline.context?.toLowerCase().includes(signal));
@@ -193,10 +250,11 @@ router.post("/audit", async (req: Request, res: Response) => {
             console.log(`🔍 [Tier 2] Verifying ${claimAuditCitations.length} claim-bearing citations.`);
 
             const { ExternalVerificationService } = await import("../../services/citationAudit/externalVerification");
-            const rawResults = await ExternalVerificationService.verifyCitationPairs(claimAuditCitations);
+            const rawResults = await ExternalVerificationService.verifyCitationPairs(claimAuditCitations, reportStage, { userId });
 
             // 🔁 REMEDIATION: If a citation is unsupported or ambiguous, find alternatives
             const { AcademicSearchService } = await import("../../services/academicSearchService");
+            reportStage({ stage: "searching_alternatives", message: "Searching for alternative sources" });
 
             verificationResults = await Promise.all(rawResults.map(async (res) => {
                 // If support is questionable, try to find better papers
@@ -254,6 +312,7 @@ router.post("/audit", async (req: Request, res: Response) => {
         if (shouldRunRisk) {
             tiersExecuted.push(AuditTier.RISK);
             console.log("⚠️ Tier 3 Triggered: Risk signals detected.");
+            reportStage({ stage: "risk_analysis", message: "Analyzing risk signals" });
 
             const riskResult = await RiskAnalysisService.analyzeRisks(
                 matchedPairs.map(p => ({ text: p.inline.text, context: p.inline.context }))
@@ -296,6 +355,7 @@ router.post("/audit", async (req: Request, res: Response) => {
         // -5 per Structural flag
         // -10 per Risk flag
         // -5 per Verification Failure
+        reportStage({ stage: "scoring", message: "Calculating integrity index" });
         let integrityIndex = 100;
         integrityIndex -= (flags.filter(f => f.tier === AuditTier.STRUCTURAL).length * 5);
         integrityIndex -= (flags.filter(f => f.tier === AuditTier.RISK).length * 10);
@@ -304,6 +364,8 @@ router.post("/audit", async (req: Request, res: Response) => {
 
         const response: AuditResponse = {
             style: declaredStyle,
+            language,
+            extraction: extractedText !== undefined ? { sections: sections || [], patterns: patterns || [], referenceList: referenceList || null } : undefined,
             flags: flags,
             verificationResults: verificationResults,
             integrityIndex: integrityIndex,
@@ -311,12 +373,28 @@ router.post("/audit", async (req: Request, res: Response) => {
             tierMetadata: tierMetadata
         };
 
+        if (stream) {
+            stream.send("result", response);
+            stream.close();
+            return;
+        }
+
         res.status(200).json(response);
 
     } catch (error) {
         console.error("Audit Backend Error:", error);
+        if (stream) {
+            stream.send("error", { error: "Internal Audit Error" });
+            stream.close();
+            return;
+        }
         res.status(500).json({ error: "Internal Audit Error" });
     }
-});
+};
+
+router.post("/audit", handleAudit(false));
+
+// Same audit, streamed as Server-Sent Events (stage -> ... -> result)
+router.post("/audit/stream", handleAudit(true));
 
 export default router;
@@ -2,6 +2,7 @@ import express, { Request, Response } from "express";
 import rateLimit from "express-rate-limit";
 import { CitationConfidenceService } from "../../services/citationConfidenceService";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 
 import { getSafeString } from "../../utils/requestHelpers";
 
@@ -13,6 +14,7 @@ const router = express.Router();
  */
 router.get(
   "/confidence/:projectId",
+  requireProjectRole("viewer"),
 
   async (req: Request, res: Response) => {
     try {
@@ -72,6 +74,7 @@ router.get(
  */
 router.get(
   "/recency/:projectId",
+  requireProjectRole("viewer"),
 
   async (req: Request, res: Response) => {
     try {
@@ -126,11 +129,12 @@ router.get(
 
 /**
  * POST /api/citations/verify-single
- * Real-time verification of a single citation
+ * Real-time verification of a single citation of the project in the body (projectId)
  */
 router.post(
   "/verify-single",
   // Rate limit? Maybe lighter limit
+  requireProjectRole("viewer"),
   async (req: Request, res: Response) => {
     try {
       const { title, doi } = req.body;
@@ -149,10 +153,11 @@ router.post(
 
 /**
  * POST /api/citations/auto-fix
- * Find correct metadata for fuzzy citation
+ * Find correct metadata for a fuzzy citation of the project in the body (projectId)
  */
 router.post(
   "/auto-fix",
+  requireProjectRole("viewer"),
   async (req: Request, res: Response) => {
     try {
       const { query } = req.body;
@@ -2,6 +2,7 @@ import express from "express";
 import { ConsensusAnalysisService } from "../../services/consensusAnalysisService";
 import { authenticateExpressRequest as authenticate } from "../../middleware/auth";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 import { initializePrisma } from "../../lib/prisma-async";
 
 const router = express.Router();
@@ -10,7 +11,7 @@ const router = express.Router();
  * POST /api/citations/:projectId/consensus
  * Analyze consensus on a specific claim across project citations
  */
-router.post("/:projectId/consensus", authenticate, async (req, res) => {
+router.post("/:projectId/consensus", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const { projectId } = req.params;
         const { claim, citationIds } = req.body;
@@ -79,7 +80,7 @@ router.post("/:projectId/consensus", authenticate, async (req, res) => {
  * GET /api/citations/:projectId/consensus-topics
  * Get all consensus topics for a project
  */
-router.get("/:projectId/consensus-topics", authenticate, async (req, res) => {
+router.get("/:projectId/consensus-topics", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const { projectId } = req.params;
 
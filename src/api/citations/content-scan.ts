@@ -3,7 +3,7 @@ import { CitationConfidenceService } from "../../services/citationConfidenceServ
 import logger from "../../monitoring/logger";
 import {
 } from "../../middleware/usageMiddleware";
-import { prisma } from "../../lib/prisma";
+import { ProjectAccessService } from "../../services/projectAccessService";
 
 const router = express.Router();
 
@@ -36,11 +36,9 @@ router.post(
 
       // If projectId is provided but no content, fetch from project
       if (!textToScan && projectId) {
-        const project = await prisma.project.findUnique({
-          where: { id: projectId },
-        });
+        const role = await ProjectAccessService.getRole(projectId, userId);
 
-        if (!project || project.user_id !== userId) {
+        if (!role) {
           return res.status(404).json({
             success: false,
             error: "Project not found or access denied",
@@ -1,6 +1,7 @@
 import express, { Request, Response } from "express";
 import { CitationConfidenceService } from "../../services/citationConfidenceService";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 import { checkUsageLimit } from "../../middleware/usageMiddleware";
 
 const router = express.Router();
@@ -12,6 +13,7 @@ const router = express.Router();
 router.post(
   "/:projectId",
   // checkUsageLimit("citation_check"), // Optional: limit adding citations? Probably not needed.
+  requireProjectRole("editor"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user?.id;
@@ -23,7 +25,7 @@ router.post(
       }
 
       const { projectId } = req.params;
-      const { title, author, year, type, doi, url, source, abstract, formatted_citations } = req.body as any;
+      const { title, author, year, type, doi, url, source, abstract } = req.body as any;
 
       if (!projectId) {
         return res.status(400).json({
@@ -51,7 +53,6 @@ router.post(
           url,
           source,
           abstract,
-          formatted_citations,
         }
       );
 
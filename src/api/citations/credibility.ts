@@ -1,15 +1,16 @@
 import express from "express";
 import { CredibilityScoreService } from "../../services/credibilityScoreService";
 import { authenticateExpressRequest as authenticate } from "../../middleware/auth";
+import { requireProjectRole } from "../../middleware/projectAccess";
 import logger from "../../monitoring/logger";
 
 const router = express.Router();
 
 /**
  * POST /api/citations/credibility-score
- * Calculate credibility score for a single paper
+ * Calculate credibility score for a single paper (body: projectId and the paper)
  */
-router.post("/credibility-score", authenticate, async (req, res) => {
+router.post("/credibility-score", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const paper = req.body;
 
@@ -40,9 +41,9 @@ router.post("/credibility-score", authenticate, async (req, res) => {
 
 /**
  * POST /api/citations/batch-credibility
- * Calculate credibility scores for multiple papers
+ * Calculate credibility scores for multiple papers (body: projectId, papers)
  */
-router.post("/batch-credibility", authenticate, async (req, res) => {
+router.post("/batch-credibility", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const { papers } = req.body;
 
@@ -0,0 +1,42 @@
+import express from "express";
+import { CitationExportService } from "../../services/citationLibrary/citationExportService";
+import { LIBRARY_FORMATS } from "../../services/citationLibrary/citationImportService";
+import { LibraryFormat } from "../../types/citationLibrary";
+import { authenticateExpressRequest as authenticate } from "../../middleware/auth";
+import { requireProjectRole } from "../../middleware/projectAccess";
+import { getSafeString } from "../../utils/requestHelpers";
+import logger from "../../monitoring/logger";
+
+const router = express.Router();
+
+/**
+ * GET /api/citations/:projectId/export?format=bibtex|ris|csljson
+ * Download the project's citation library for LaTeX/Overleaf or a reference manager
+ */
+router.get("/:projectId/export", authenticate, requireProjectRole("viewer"), async (req, res) => {
+    try {
+        const { projectId } = req.params;
+        const format = (getSafeString(req.query.format) || "bibtex").toLowerCase() as LibraryFormat;
+
+        if (!LIBRARY_FORMATS.includes(format)) {
+            return res.status(400).json({
+                success: false,
+                error: `Unsupported format. Use one of: ${LIBRARY_FORMATS.join(", ")}`,
+            });
+        }
+
+        const result = await CitationExportService.exportLibrary(projectId as string, format);
+
+        res.setHeader("Content-Type", result.contentType);
+        res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="citations-${projectId}.${result.extension}"`
+        );
+        return res.send(result.content);
+    } catch (error: any) {
+        logger.error("Failed to export citation library", { projectId: req.params.projectId, error: error.message });
+        return res.status(500).json({ success: false, error: "Failed to export citations" });
+    }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import express from "express";
 import { ResearchGapService } from "../../services/researchGapService";
 import { authenticateExpressRequest as authenticate } from "../../middleware/auth";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 
 const router = express.Router();
 
@@ -9,7 +10,7 @@ const router = express.Router();
  * GET /api/citations/:projectId/gaps
  * Returns research gap analysis for a project's citations
  */
-router.get("/:projectId/gaps", authenticate, async (req, res) => {
+router.get("/:projectId/gaps", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const { projectId } = req.params;
 
@@ -2,6 +2,7 @@ import express from "express";
 import { AnalysisGraphService } from "../../services/analysisGraphService";
 import { authenticateExpressRequest as authenticate } from "../../middleware/auth";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 
 const router = express.Router();
 
@@ -9,12 +10,10 @@ const router = express.Router();
  * GET /api/citations/:projectId/graph
  * Returns graph data (nodes/links) for the visual insight map
  */
-router.get("/:projectId/graph", authenticate, async (req, res) => {
+router.get("/:projectId/graph", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const { projectId } = req.params;
 
-        // In production, verify user owns projectProject
-
         const graphData = await AnalysisGraphService.getProjectGraph(projectId as string);
 
         res.json(graphData);
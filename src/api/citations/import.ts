@@ -2,6 +2,9 @@ import express, { Request, Response } from "express";
 import logger from "../../monitoring/logger";
 import { CrossRefService } from "../../services/crossRefService";
 import axios from "axios";
+import multer from "multer";
+import { requireProjectRole } from "../../middleware/projectAccess";
+import { CitationImportService } from "../../services/citationLibrary/citationImportService";
 
 const router = express.Router();
 
@@ -120,4 +123,64 @@ router.post("/url", async (req: Request, res: Response) => {
     }
 });
 
+const libraryUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB limit
+    },
+});
+
+/**
+ * POST /api/citations/import/library
+ * Import a BibTeX, RIS or CSL-JSON library into a project.
+ * Accepts a multipart upload (`file`) or JSON `{ projectId, format?, content }`.
+ */
+router.post(
+    "/library",
+    libraryUpload.single("file"),
+    requireProjectRole("editor"),
+    async (req: AuthenticatedRequest, res: Response) => {
+        try {
+            const userId = req.user?.id;
+            if (!userId) {
+                return res.status(401).json({ success: false, message: "Authentication required" });
+            }
+
+            const { projectId, format } = req.body;
+            const file = (req as any).file as Express.Multer.File | undefined;
+            const content: string | undefined = file
+                ? file.buffer.toString("utf-8")
+                : req.body.content;
+
+            if (!content || typeof content !== "string" || !content.trim()) {
+                return res.status(400).json({ success: false, message: "A library file or content is required" });
+            }
+
+            const detected = CitationImportService.detectFormat(content, file?.originalname, format);
+            if (!detected) {
+                return res.status(400).json({
+                    success: false,
+                    message: "Unsupported library format. Use BibTeX, RIS or CSL-JSON",
+                });
+            }
+
+            const report = await CitationImportService.importLibrary(
+                projectId as string,
+                userId,
+                detected,
+                content
+            );
+
+            return res.json({
+                success: true,
+                data: report,
+            });
+        } catch (error: any) {
+            logger.error("Library import failed", { error: error.message, projectId: req.body?.projectId });
+            const status = error.message?.includes("access denied") ? 404 : 500;
+            return res.status(status).json({ success: false, message: error.message || "Failed to import library" });
+        }
+    }
+);
+
 export default router;
@@ -11,6 +11,7 @@ import intentRouter from "./intent";
 import credibilityRouter from "./credibility";
 import consensusRouter from "./consensus";
 import importRouter from "./import";
+import exportRouter from "./export";
 
 const router = express.Router();
 
@@ -34,6 +35,7 @@ router.use("/", gapsRouter); // Mounts as /:projectId/gaps
 router.use("/", intentRouter); // Mounts as /:citationId/classify-intent and /batch-classify-intents
 router.use("/", credibilityRouter); // Mounts as /credibility-score and /batch-credibility
 router.use("/", consensusRouter); // Mounts as /:projectId/consensus
+router.use("/", exportRouter); // Mounts as /:projectId/export
 router.use("/import", importRouter);
 
 export default router;
@@ -1,15 +1,16 @@
 import express from "express";
 import { CitationIntentService } from "../../services/citationIntentService";
 import { authenticateExpressRequest as authenticate } from "../../middleware/auth";
+import { requireProjectRole } from "../../middleware/projectAccess";
 import logger from "../../monitoring/logger";
 
 const router = express.Router();
 
 /**
  * POST /api/citations/:citationId/classify-intent
- * Classify a single citation's intent based on context
+ * Classify a single citation's intent based on context (body: projectId, context)
  */
-router.post("/:citationId/classify-intent", authenticate, async (req, res) => {
+router.post("/:citationId/classify-intent", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const { citationId } = req.params;
         const { context } = req.body;
@@ -45,9 +46,9 @@ router.post("/:citationId/classify-intent", authenticate, async (req, res) => {
 
 /**
  * POST /api/citations/batch-classify-intents
- * Classify multiple citations at once
+ * Classify multiple citations of one project at once (body: projectId, citations)
  */
-router.post("/batch-classify-intents", authenticate, async (req, res) => {
+router.post("/batch-classify-intents", authenticate, requireProjectRole("viewer"), async (req, res) => {
     try {
         const { citations } = req.body;
 
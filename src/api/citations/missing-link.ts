@@ -5,6 +5,7 @@ import rateLimit from "express-rate-limit";
 import { prisma } from "../../lib/prisma";
 import { checkUsageLimit } from "../../middleware/usageMiddleware";
 import { sendJsonResponse, sendErrorResponse } from "../../lib/api-response";
+import { requireProjectRole } from "../../middleware/projectAccess";
 
 const router = express.Router();
 
@@ -24,6 +25,7 @@ const missingLinkLimiter = rateLimit({
 router.post(
   "/find-missing-link",
   missingLinkLimiter,
+  requireProjectRole("viewer"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user?.id;
@@ -58,7 +60,8 @@ router.post(
       const suggestions = await MissingLinkService.suggestPapers(
         keywords,
         field || "default",
-        3 // Always return 3 suggestions
+        3, // Always return 3 suggestions
+        citationStyle
       );
 
       return sendJsonResponse(res, 200, {
@@ -1,6 +1,7 @@
 import express, { Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -11,6 +12,7 @@ const prisma = new PrismaClient();
  */
 router.put(
     "/:projectId/:citationId",
+    requireProjectRole("editor"),
     async (req: Request, res: Response) => {
         try {
             const userId = (req as any).user?.id;
@@ -31,6 +33,18 @@ router.put(
                 });
             }
 
+            const existing = await prisma.citation.findFirst({
+                where: { id: citationId as string, project_id: projectId as string },
+                select: { id: true }
+            });
+
+            if (!existing) {
+                return res.status(404).json({
+                    success: false,
+                    error: "Citation not found",
+                });
+            }
+
             const citation = await (prisma.citation as any).update({
                 where: {
                     id: citationId
@@ -5,6 +5,7 @@ import fs from "fs";
 import { authenticateExpressRequest } from "../../middleware/auth";
 import { DocumentUploadService } from "../../services/documentUploadService";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
 import { getSafeString } from "../../utils/requestHelpers";
 
 // Extend the Express Request type to include user property
@@ -237,10 +238,11 @@ router.get(
 router.put(
   "/:projectId",
   authenticateExpressRequest,
+  requireProjectRole("editor"),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { projectId } = req.params;
-      const { title, description, content, word_count, citation_style } = req.body as any;
+      const { title, description, content, word_count, citation_style, change_source } = req.body as any;
       const userId = req.user!.id;
 
       // Validate required fields
@@ -256,7 +258,9 @@ router.put(
         description || "",
         content,
         word_count || 0,
-        citation_style
+        citation_style,
+        undefined,
+        change_source === "ai" ? "ai" : "save"
       );
 
       if (!updatedProject) {
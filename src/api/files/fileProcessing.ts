@@ -2,6 +2,8 @@ import { Router, Request, Response } from "express";
 import { authenticateExpressRequest } from "../../middleware/auth";
 import logger from "../../monitoring/logger";
 import fileProcessing from "../../hybrid/serverless/file-processing";
+import { JobQueueService } from "../../services/jobQueueService";
+import { prefersAsync, sendJobAccepted, waitForJob } from "../../utils/jobResponse";
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -19,6 +21,41 @@ router.post(
   authenticateExpressRequest,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
+      // PDF rendering (Puppeteer) is too slow for the request; hand it to the job worker
+      if (req.body.fileType === "export-pdf") {
+        const job = await JobQueueService.enqueue(
+          "export_pdf",
+          req.user!.id,
+          { fileData: req.body.fileData },
+          {
+            projectId: req.body.fileData?.projectId || req.body.fileData?.id,
+            maxAttempts: 1, // The export charges credits itself, so a retry could charge twice
+          }
+        );
+
+        if (prefersAsync(req)) {
+          return sendJobAccepted(req, res, job, "PDF export queued");
+        }
+
+        // Clients that did not opt in get the export result, as before the job queue
+        const finished = await waitForJob(job.id);
+        if (!finished) {
+          return sendJobAccepted(req, res, job, "PDF export queued");
+        }
+        if (finished.status !== "completed") {
+          return res.status(500).json({
+            success: false,
+            message: finished.error || "File processing failed",
+          });
+        }
+
+        return res.status(200).json({
+          success: true,
+          result: finished.result,
+          message: "File processed successfully",
+        });
+      }
+
       // Create a mock request object that matches the expected interface in file-processing.ts
       const mockRequest = {
         json: async () => ({
@@ -0,0 +1,242 @@
+import { Router, Request, Response } from "express";
+import { JobQueueService } from "../../services/jobQueueService";
+import { getSafeString } from "../../utils/requestHelpers";
+import { JobStatus, JobStatusResponse, JobType } from "../../types/jobs";
+import logger from "../../monitoring/logger";
+import { openEventStream } from "../../utils/eventStream";
+
+const EVENT_POLL_INTERVAL_MS = 1000;
+const TERMINAL_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    full_name?: string;
+  };
+}
+
+type JobListener = (update: JobStatusResponse | Error) => void;
+
+interface JobWatch {
+  userId: string;
+  listeners: Set<JobListener>;
+  timer: NodeJS.Timeout;
+  polling: boolean;
+}
+
+// Event streams watching the same job share one poller
+const jobWatches = new Map<string, JobWatch>();
+
+/**
+ * Subscribe to a job's status every EVENT_POLL_INTERVAL_MS (an Error if the
+ * lookup fails). Returns the unsubscribe function; the poller stops with the
+ * last subscriber. Callers must have checked that the user owns the job.
+ */
+function watchJob(jobId: string, userId: string, listener: JobListener): () => void {
+  let watch = jobWatches.get(jobId);
+  if (!watch) {
+    const created: JobWatch = {
+      userId,
+      listeners: new Set(),
+      polling: false,
+      timer: setInterval(() => pollJob(jobId, created), EVENT_POLL_INTERVAL_MS),
+    };
+    jobWatches.set(jobId, created);
+    watch = created;
+  }
+
+  const current = watch;
+  current.listeners.add(listener);
+
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0 && jobWatches.get(jobId) === current) {
+      clearInterval(current.timer);
+      jobWatches.delete(jobId);
+    }
+  };
+}
+
+async function pollJob(jobId: string, watch: JobWatch) {
+  if (watch.polling) return;
+  watch.polling = true;
+
+  let update: JobStatusResponse | Error;
+  try {
+    update = await JobQueueService.getJob(jobId, watch.userId);
+  } catch (error: any) {
+    logger.error("Error streaming job events", { error: error.message, jobId });
+    update = error instanceof Error ? error : new Error(String(error));
+  } finally {
+    watch.polling = false;
+  }
+
+  for (const listener of Array.from(watch.listeners)) {
+    listener(update);
+  }
+}
+
+const router = Router();
+
+// List the current user's recent jobs: ?status=running&type=export_pdf&limit=20
+router.get("/", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const jobs = await JobQueueService.listJobs(userId, {
+      status: getSafeString(req.query.status) as JobStatus | undefined,
+      type: getSafeString(req.query.type) as JobType | undefined,
+      limit: Number(getSafeString(req.query.limit)) || undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error: any) {
+    logger.error("Error listing jobs", { error: error.message });
+
+    return res.status(500).json({
+      success: false,
+      error: error.message || "Failed to list jobs",
+    });
+  }
+});
+
+// Status, progress and (once completed) the result of a job
+router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const job = await JobQueueService.getJob(req.params.id as string, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: job,
+    });
+  } catch (error: any) {
+    logger.error("Error fetching job", {
+      error: error.message,
+      jobId: req.params.id,
+    });
+
+    const status = error.message?.includes("not found") ? 404 : 500;
+    return res.status(status).json({
+      success: false,
+      error: error.message || "Failed to fetch job",
+    });
+  }
+});
+
+// Progress of a job as Server-Sent Events: `stage` on every change, then
+// `result` (completed) or `error` (failed/cancelled) and the stream closes
+router.get("/:id/events", async (req: AuthenticatedRequest, res: Response) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: "Authentication required",
+    });
+  }
+
+  const jobId = req.params.id as string;
+
+  let job;
+  try {
+    job = await JobQueueService.getJob(jobId, userId);
+  } catch (error: any) {
+    const status = error.message?.includes("not found") ? 404 : 500;
+    return res.status(status).json({
+      success: false,
+      error: error.message || "Failed to fetch job",
+    });
+  }
+
+  const stream = openEventStream(res);
+  let lastSnapshot = "";
+
+  const emit = (current: JobStatusResponse) => {
+    const snapshot = [current.status, current.progress, current.progressMessage, current.progressStage].join("|");
+    if (snapshot !== lastSnapshot) {
+      lastSnapshot = snapshot;
+      stream.send("stage", {
+        status: current.status,
+        stage: current.progressStage || current.status,
+        message: current.progressMessage,
+        progress: current.progress,
+      });
+    }
+
+    if (TERMINAL_STATUSES.includes(current.status)) {
+      if (current.status === "completed") {
+        stream.send("result", current.result);
+      } else {
+        stream.send("error", { status: current.status, error: current.error });
+      }
+      stream.close();
+    }
+  };
+
+  emit(job);
+  if (stream.closed) return;
+
+  const unsubscribe = watchJob(jobId, userId, (update) => {
+    if (update instanceof Error) {
+      stream.send("error", { error: "Failed to fetch job" });
+      stream.close();
+      return;
+    }
+    emit(update);
+  });
+
+  res.on("close", unsubscribe);
+});
+
+// Cancel a queued or running job
+router.post("/:id/cancel", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const job = await JobQueueService.cancel(req.params.id as string, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: job,
+    });
+  } catch (error: any) {
+    logger.error("Error cancelling job", {
+      error: error.message,
+      jobId: req.params.id,
+    });
+
+    let status = 500;
+    if (error.message?.includes("not found")) status = 404;
+    else if (error.message?.startsWith("Job is already")) status = 409;
+
+    return res.status(status).json({
+      success: false,
+      error: error.message || "Failed to cancel job",
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,328 @@
+import { Router, Request, Response } from "express";
+import { OrganizationService } from "../../services/organizationService";
+import logger from "../../monitoring/logger";
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    full_name?: string;
+  };
+}
+
+const router = Router();
+
+const statusForError = (message: string = ""): number => {
+  if (message.includes("not found") || message.includes("access denied")) return 404;
+  if (message.includes("requires the organization admin role")) return 403;
+  if (message.includes("different email")) return 403;
+  if (message.includes("already")) return 409;
+  if (message.startsWith("Invalid") || message.includes("is required")) return 400;
+  return 500;
+};
+
+// Organizations the current user belongs to
+router.get("/", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const organizations = await OrganizationService.listForUser(userId);
+
+    return res.status(200).json({
+      success: true,
+      data: organizations,
+    });
+  } catch (error: any) {
+    logger.error("Error listing organizations", { error: error.message });
+
+    return res.status(500).json({
+      success: false,
+      error: error.message || "Failed to list organizations",
+    });
+  }
+});
+
+// Create an organization; the creator becomes its admin
+router.post("/", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const organization = await OrganizationService.createOrganization(userId, req.body?.name);
+
+    return res.status(201).json({
+      success: true,
+      data: organization,
+    });
+  } catch (error: any) {
+    logger.error("Error creating organization", { error: error.message });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to create organization",
+    });
+  }
+});
+
+// List members
+router.get("/:id/members", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const members = await OrganizationService.listMembers(req.params.id as string, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: members,
+    });
+  } catch (error: any) {
+    logger.error("Error listing organization members", {
+      error: error.message,
+      organizationId: req.params.id,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to list members",
+    });
+  }
+});
+
+// List pending invitations (admin only)
+router.get("/:id/invitations", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const invitations = await OrganizationService.listInvitations(req.params.id as string, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: invitations,
+    });
+  } catch (error: any) {
+    logger.error("Error listing organization invitations", {
+      error: error.message,
+      organizationId: req.params.id,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to list invitations",
+    });
+  }
+});
+
+// Invite a member by email (admin only): { email, role? }
+router.post("/:id/invitations", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const { email, role } = req.body || {};
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: "email is required",
+      });
+    }
+
+    const invitation = await OrganizationService.inviteMember(req.params.id as string, userId, email, role);
+
+    return res.status(201).json({
+      success: true,
+      data: invitation,
+    });
+  } catch (error: any) {
+    logger.error("Error inviting organization member", {
+      error: error.message,
+      organizationId: req.params.id,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to invite member",
+    });
+  }
+});
+
+// Accept an invitation with the token from the invite email: { token }
+router.post("/:id/invitations/accept", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = req.user;
+    if (!user?.id) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const { token } = req.body || {};
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        error: "Invitation token is required",
+      });
+    }
+
+    const member = await OrganizationService.acceptInvitation(
+      req.params.id as string,
+      token,
+      user.id,
+      user.email
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: member,
+    });
+  } catch (error: any) {
+    logger.error("Error accepting organization invitation", {
+      error: error.message,
+      organizationId: req.params.id,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to accept invitation",
+    });
+  }
+});
+
+// Withdraw a pending invitation (admin only)
+router.delete("/:id/invitations/:invitationId", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    await OrganizationService.revokeInvitation(
+      req.params.id as string,
+      userId,
+      req.params.invitationId as string
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Invitation revoked",
+    });
+  } catch (error: any) {
+    logger.error("Error revoking organization invitation", {
+      error: error.message,
+      organizationId: req.params.id,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to revoke invitation",
+    });
+  }
+});
+
+// Remove a member (admin), or leave the organization (own user id)
+router.delete("/:id/members/:userId", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    await OrganizationService.removeMember(
+      req.params.id as string,
+      userId,
+      req.params.userId as string
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Member removed",
+    });
+  } catch (error: any) {
+    logger.error("Error removing organization member", {
+      error: error.message,
+      organizationId: req.params.id,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to remove member",
+    });
+  }
+});
+
+// Opt the organization in or out of the internal corpus index (admin only): { enabled }
+router.patch("/:id/corpus", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    if (typeof req.body?.enabled !== "boolean") {
+      return res.status(400).json({
+        success: false,
+        error: "enabled (boolean) is required",
+      });
+    }
+
+    const organization = await OrganizationService.setCorpusIndexing(
+      req.params.id as string,
+      userId,
+      req.body.enabled
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: organization,
+    });
+  } catch (error: any) {
+    logger.error("Error updating corpus indexing", {
+      error: error.message,
+      organizationId: req.params.id,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to update corpus indexing",
+    });
+  }
+});
+
+export default router;
@@ -5,6 +5,7 @@ import {
   checkUsageLimit,
   incrementFeatureUsage,
 } from "../../middleware/usageMiddleware";
+import { requireProjectRole } from "../../middleware/projectAccess";
 
 const upload = multer({ dest: "uploads/" }); // Temporary storage for comparisons
 
@@ -12,11 +13,14 @@ const router = express.Router();
 
 /**
  * POST /api/originality/compare
- * Compare two drafts for self-plagiarism
+ * Compare two drafts for self-plagiarism. Drafts named by project
+ * (projectId, previousProjectId) need at least viewer access to it.
  */
 router.post(
   "/compare",
-  upload.single("file"), // Allow file upload
+  upload.single("file"), // Allow file upload (parses the body the role checks read)
+  requireProjectRole("viewer", "previousProjectId", { optional: true }),
+  requireProjectRole("viewer", "projectId", { optional: true }),
   checkUsageLimit("originality_scan"),
   incrementFeatureUsage("originality_scan"),
   DraftComparisonController.compareDrafts
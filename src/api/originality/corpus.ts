@@ -0,0 +1,153 @@
+import { Router, Request, Response } from "express";
+import { prisma } from "../../lib/prisma";
+import logger from "../../monitoring/logger";
+import { CorpusIndexService } from "../../services/corpusIndexService";
+import { OrganizationService } from "../../services/organizationService";
+import { ProjectAccessService } from "../../services/projectAccessService";
+import { ExportService } from "../../services/exportService";
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    full_name?: string;
+  };
+}
+
+// Mounted under /api/originality/corpus
+const router = Router();
+
+const statusForError = (message: string = ""): number => {
+  if (message.includes("not found") || message.includes("access denied")) return 404;
+  if (message.includes("requires the organization admin role")) return 403;
+  if (message.includes("not enabled")) return 409;
+  return 500;
+};
+
+/**
+ * POST /api/originality/corpus/scan
+ * Internal corpus scan: compares the project against other members' documents
+ * in the organization index, then stores the project in the index.
+ * Body: { organizationId, projectId, content? } (content defaults to the saved project)
+ */
+router.post("/scan", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const { organizationId, projectId, content } = req.body || {};
+    if (!organizationId || !projectId) {
+      return res.status(400).json({
+        success: false,
+        error: "organizationId and projectId are required",
+      });
+    }
+
+    const role = await OrganizationService.assertMember(organizationId, userId);
+    await ProjectAccessService.assertAccess(projectId, userId, "editor");
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { corpus_index_enabled: true },
+    });
+    if (!organization?.corpus_index_enabled) {
+      throw new Error("The internal corpus index is not enabled for this organization");
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, user_id: true, title: true, content: true },
+    });
+    if (!project) {
+      throw new Error("Project not found or access denied");
+    }
+
+    // The index entry is filed under the project owner; a collaborator can only
+    // submit it to an organization the owner belongs to as well
+    if (project.user_id !== userId && !(await OrganizationService.getRole(organizationId, project.user_id))) {
+      return res.status(403).json({
+        success: false,
+        error: "The project owner is not a member of this organization",
+      });
+    }
+
+    const text =
+      typeof content === "string" && content.trim()
+        ? content
+        : ExportService.extractTextFromTipTap(project.content);
+
+    if (!text.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: "The project has no content to scan",
+      });
+    }
+
+    // Compare first so the document never matches its own previous submission
+    const result = await CorpusIndexService.findOverlaps(organizationId, project.user_id, text, role);
+    await CorpusIndexService.indexDocument(organizationId, project, text);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    logger.error("Error running corpus scan", {
+      error: error.message,
+      projectId: req.body?.projectId,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to run corpus scan",
+    });
+  }
+});
+
+/**
+ * DELETE /api/originality/corpus/:organizationId/:projectId
+ * Withdraw a project from the organization index (project owner or organization admin)
+ */
+router.delete("/:organizationId/:projectId", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const organizationId = req.params.organizationId as string;
+    const projectId = req.params.projectId as string;
+
+    const role = await OrganizationService.assertMember(organizationId, userId);
+    if (role !== "admin") {
+      await ProjectAccessService.assertAccess(projectId, userId, "owner");
+    }
+
+    await CorpusIndexService.removeDocument(organizationId, projectId);
+
+    return res.status(200).json({
+      success: true,
+      message: "Document removed from the organization corpus",
+    });
+  } catch (error: any) {
+    logger.error("Error removing corpus document", {
+      error: error.message,
+      projectId: req.params.projectId,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to remove document",
+    });
+  }
+});
+
+export default router;
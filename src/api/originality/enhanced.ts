@@ -9,6 +9,9 @@ import {
 } from "../../middleware/usageMiddleware";
 import { SubscriptionService } from "../../services/subscriptionService";
 import { getSafeString } from "../../utils/requestHelpers";
+import { JobQueueService } from "../../services/jobQueueService";
+import { prefersAsync, sendJobAccepted, waitForJob } from "../../utils/jobResponse";
+import { requireProjectRole } from "../../middleware/projectAccess";
 
 const router = express.Router();
 
@@ -36,6 +39,7 @@ const rephraseLimiter = rateLimit({
 router.post(
   "/scan",
   scanLimiter,
+  requireProjectRole("editor"),
   checkUsageLimit("originality_scan"),
   async (req: Request, res: Response) => {
     try {
@@ -78,26 +82,41 @@ router.post(
         });
       }
 
-      logger.info("Starting enhanced originality scan", { userId, projectId });
+      logger.info("Queueing enhanced originality scan", { userId, projectId });
 
-      // Plan fetched above
-      // const plan = await SubscriptionService.getActivePlan(userId);
-
-      // Perform enhanced scan with academic database integration + Copyleaks
-      // Use OriginalityMapService to orchestrate both
-      const { OriginalityMapService } = await import("../../services/originalityMapService");
-      const result = await OriginalityMapService.startScan(
-        projectId,
+      // Scan runs in the job worker; with `Prefer: respond-async` the client polls GET /api/jobs/:jobId
+      const job = await JobQueueService.enqueue(
+        "originality_scan",
         userId,
-        content
+        { projectId, content, plan: planName },
+        {
+          projectId,
+          maxAttempts: 2, // Usage is counted once, below; a retry resumes the job's scan instead of rescanning
+        }
       );
 
-      // Increment usage counter after successful scan
+      // Usage is counted when the scan is accepted
       await incrementFeatureUsage("originality_scan")(req, res, () => { });
 
+      if (prefersAsync(req)) {
+        return sendJobAccepted(req, res, job);
+      }
+
+      // Clients that did not opt in get the scan result, as before the job queue
+      const finished = await waitForJob(job.id);
+      if (!finished) {
+        return sendJobAccepted(req, res, job);
+      }
+      if (finished.status !== "completed") {
+        return res.status(500).json({
+          success: false,
+          message: finished.error || "Failed to scan document",
+        });
+      }
+
       return res.status(200).json({
         success: true,
-        data: result,
+        data: finished.result,
       });
     } catch (error: any) {
       logger.error("Error in enhanced scan endpoint", { error: error.message });
@@ -169,7 +188,7 @@ router.get("/scan/:scanId", async (req: Request, res: Response) => {
  * GET /api/originality/enhanced/project/:projectId
  * Get all enhanced scans for a project
  */
-router.get("/project/:projectId", async (req: Request, res: Response) => {
+router.get("/project/:projectId", requireProjectRole("viewer"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.id;
 
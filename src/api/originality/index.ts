@@ -8,11 +8,18 @@ import { SubscriptionService } from "../../services/subscriptionService";
 import { CreditService } from "../../services/CreditService";
 import compareRouter from "./compare";
 import enhancedRouter from "./enhanced";
-import webhookRouter from "./webhook";
+import corpusRouter from "./corpus";
 import { prisma } from "../../lib/prisma";
 import { EnhancedOriginalityDetectionService } from "../../services/enhancedOriginalityDetectionService";
 import { getSafeString } from "../../utils/requestHelpers";
 import { EntitlementService } from "../../services/EntitlementService";
+import { requireProjectRole } from "../../middleware/projectAccess";
+import { JobQueueService } from "../../services/jobQueueService";
+import { SupabaseStorageService } from "../../services/supabaseStorageService";
+import { prefersAsync, sendJobAccepted, waitForJob } from "../../utils/jobResponse";
+import { OriginalityReportGenerator } from "../../services/originalityReportGenerator";
+import { OriginalityExclusionService } from "../../services/originalityExclusionService";
+import { OriginalityScanComparisonService } from "../../services/originalityScanComparisonService";
 
 const router = express.Router();
 
@@ -21,8 +28,8 @@ router.use("/", compareRouter);
 // Enhanced originality detection routes
 router.use("/enhanced", enhancedRouter);
 
-// Webhook routes (No rate limit, as they come from Copyleaks)
-router.use("/webhook", webhookRouter);
+// Internal corpus (organization fingerprint index) routes
+router.use("/corpus", corpusRouter);
 
 // Rate limiters
 const scanLimiter = rateLimit({
@@ -44,10 +51,12 @@ const rephraseLimiter = rateLimit({
 /**
  * POST /api/originality/scan
  * Scan document for originality
+ * Body: { projectId, content, exclusions?, crossLanguage? }
  */
 router.post(
   "/scan",
   scanLimiter,
+  requireProjectRole("editor"),
   // checkUsageLimit removed - using internal check for variable cost
   async (req: Request, res: Response) => {
     try {
@@ -60,7 +69,7 @@ router.post(
         });
       }
 
-      const { projectId, content } = req.body as any;
+      const { projectId, content, exclusions, crossLanguage } = req.body as any;
 
       // Validation
       if (!projectId || !content) {
@@ -77,6 +86,27 @@ router.post(
         });
       }
 
+      if (crossLanguage !== undefined && typeof crossLanguage !== "boolean") {
+        return res.status(400).json({
+          success: false,
+          message: "crossLanguage must be a boolean",
+        });
+      }
+
+      // Per-scan exclusion rules on top of the user's defaults
+      let exclusionSettings;
+      try {
+        exclusionSettings = await OriginalityExclusionService.resolveSettings(
+          userId,
+          OriginalityExclusionService.parseInput(exclusions)
+        );
+      } catch (e: any) {
+        return res.status(400).json({
+          success: false,
+          message: e.message,
+        });
+      }
+
       // Get user's plan to determine limits
       const plan = await SubscriptionService.getActivePlan(userId);
       const limits = SubscriptionService.getPlanLimits(plan);
@@ -103,21 +133,40 @@ router.post(
         });
       }
 
-      logger.info("Starting originality scan", { userId, projectId, plan });
+      logger.info("Queueing originality scan", { userId, projectId, plan });
 
-      // Perform scan
-      const result = await OriginalityMapService.scanDocument(
-        projectId,
+      // Scan runs in the job worker; with `Prefer: respond-async` the client polls GET /api/jobs/:jobId
+      const job = await JobQueueService.enqueue(
+        "originality_scan",
         userId,
-        content,
-        plan
+        { projectId, content, plan, exclusions: exclusionSettings, crossLanguage: !!crossLanguage },
+        {
+          projectId,
+          maxAttempts: 2, // Credits are taken once, here; a retry resumes the job's scan instead of rescanning
+        }
       );
 
       // incrementFeatureUsage removed - assertCanUse consumed logic.
 
+      if (prefersAsync(req)) {
+        return sendJobAccepted(req, res, job);
+      }
+
+      // Clients that did not opt in get the scan result, as before the job queue
+      const finished = await waitForJob(job.id);
+      if (!finished) {
+        return sendJobAccepted(req, res, job);
+      }
+      if (finished.status !== "completed") {
+        return res.status(500).json({
+          success: false,
+          message: finished.error || "Failed to scan document",
+        });
+      }
+
       return res.status(200).json({
         success: true,
-        data: result,
+        data: finished.result,
       });
     } catch (error: any) {
       logger.error("Error in scan endpoint", { error: error.message });
@@ -180,6 +229,211 @@ router.get("/scan/:scanId", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/originality/scan/:scanId/exclusions
+ * Change a completed scan's exclusion rules; rescored from its stored matches
+ */
+router.put("/scan/:scanId/exclusions", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const result = await OriginalityMapService.updateScanExclusions(
+      req.params.scanId as string,
+      userId,
+      OriginalityExclusionService.parseInput(req.body)
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    logger.error("Error updating scan exclusions", { error: error.message });
+
+    if (
+      error.message.includes("not found") ||
+      error.message.includes("access denied")
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: "Scan not found",
+      });
+    }
+
+    if (
+      error.message.includes("Invalid exclusion settings") ||
+      error.message.includes("only be changed on completed scans")
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update scan exclusions",
+    });
+  }
+});
+
+/**
+ * GET /api/originality/exclusions
+ * The user's default exclusion rules
+ */
+router.get("/exclusions", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const settings = await OriginalityExclusionService.getUserSettings(userId);
+
+    return res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error: any) {
+    logger.error("Error getting exclusion settings", { error: error.message });
+
+    return res.status(500).json({
+      success: false,
+      message: error.message || "Failed to get exclusion settings",
+    });
+  }
+});
+
+/**
+ * PUT /api/originality/exclusions
+ * Update the user's default exclusion rules (partial updates allowed)
+ */
+router.put("/exclusions", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const settings = await OriginalityExclusionService.updateUserSettings(
+      userId,
+      OriginalityExclusionService.parseInput(req.body)
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error: any) {
+    logger.error("Error updating exclusion settings", { error: error.message });
+
+    if (error.message.includes("Invalid exclusion settings")) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update exclusion settings",
+    });
+  }
+});
+
+/**
+ * GET /api/originality/scan/:scanId/report
+ * Download the originality report PDF (highlighted matches + source appendix).
+ * Rendered by the job worker: with `Prefer: respond-async` the response is 202 and
+ * the job result has a download link; otherwise the request waits for the PDF.
+ */
+router.get("/scan/:scanId/report", async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const { scanId } = req.params;
+
+    // Not found / not completed are answered here rather than as a failed job
+    const scan = await OriginalityReportGenerator.assertReportable(scanId as string, userId);
+
+    const job = await JobQueueService.enqueue(
+      "originality_report",
+      userId,
+      { scanId },
+      { projectId: scan.projectId }
+    );
+
+    if (prefersAsync(req)) {
+      return sendJobAccepted(req, res, job);
+    }
+
+    const finished = await waitForJob(job.id);
+    if (!finished) {
+      return sendJobAccepted(req, res, job);
+    }
+    if (finished.status !== "completed") {
+      throw new Error(finished.error || "Failed to generate originality report");
+    }
+
+    const { fileName, filePath } = finished.result as { fileName: string; filePath: string };
+    const buffer = await SupabaseStorageService.downloadFile(filePath);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.setHeader("Content-Length", buffer.length.toString());
+    return res.send(buffer);
+  } catch (error: any) {
+    logger.error("Error generating originality report", {
+      error: error.message,
+      scanId: req.params.scanId,
+    });
+
+    if (
+      error.message.includes("not found") ||
+      error.message.includes("access denied")
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: "Scan not found",
+      });
+    }
+
+    if (error.message.includes("only available for completed scans")) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: error.message || "Failed to generate originality report",
+    });
+  }
+});
+
 /**
  * GET /api/originality/history
  * Get all scans for current user
@@ -215,7 +469,7 @@ router.get("/history", async (req: Request, res: Response) => {
  * GET /api/originality/project/:projectId
  * Get all scans for a project
  */
-router.get("/project/:projectId", async (req: Request, res: Response) => {
+router.get("/project/:projectId", requireProjectRole("viewer"), async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.id;
 
@@ -247,6 +501,13 @@ router.get("/project/:projectId", async (req: Request, res: Response) => {
   } catch (error: any) {
     logger.error("Error getting project scans", { error: error.message });
 
+    if (error.message.includes("access denied")) {
+      return res.status(404).json({
+        success: false,
+        message: "Project not found",
+      });
+    }
+
     return res.status(500).json({
       success: false,
       message: error.message || "Failed to get project scans",
@@ -254,6 +515,63 @@ router.get("/project/:projectId", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/originality/project/:projectId/compare?from=<scanId>&to=<scanId>
+ * Diff two scans of a project: resolved, persisting and new matches plus the score trend.
+ * Defaults to the two most recent completed scans.
+ */
+router.get("/project/:projectId/compare", requireProjectRole("viewer"), async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user?.id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+    }
+
+    const result = await OriginalityScanComparisonService.compareScans(
+      req.params.projectId as string,
+      userId,
+      getSafeString(req.query.from),
+      getSafeString(req.query.to)
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    logger.error("Error comparing scans", { error: error.message });
+
+    if (
+      error.message.includes("not found") ||
+      error.message.includes("access denied")
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (
+      error.message.includes("At least two completed scans") ||
+      error.message.includes("two different scans")
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      message: error.message || "Failed to compare scans",
+    });
+  }
+});
+
 /**
  * POST /api/originality/rephrase
  * Get rephrase suggestions for flagged text
@@ -1,47 +1,50 @@
 import express, { Request, Response } from "express";
 import logger from "../../monitoring/logger";
 import { OriginalityMapService } from "../../services/originalityMapService";
+import { CopyleaksService } from "../../services/copyleaksService";
 
 const router = express.Router();
 
 /**
  * POST /api/originality/webhook/copyleaks/{status}
  * Webhook handler for Copyleaks async results
+ * CRITICAL: Mounted outside the auth middleware (Copyleaks has no session);
+ * requests are authenticated by the per-scan X-Webhook-Token we gave Copyleaks
  */
 router.post("/copyleaks/:status", async (req: Request, res: Response) => {
     try {
         const { status } = req.params;
-        const payload = req.body;
+        const payload = req.body || {};
 
-        // Copyleaks sends headers to verify origin, but for now we'll rely on the scanId validity
         // The developerPayload we sent contains the scanId
+        let scanId = "";
+        if (payload.developerPayload) {
+            try {
+                scanId = JSON.parse(payload.developerPayload).scanId || "";
+            } catch (e) {
+                logger.error("Failed to parse developerPayload", { error: e });
+            }
+        }
 
-        logger.info(`Received Copyleaks webhook: ${status}`, {
-            scanId: payload.developerPayload ? JSON.parse(payload.developerPayload).scanId : 'unknown'
-        });
+        const token = req.headers["x-webhook-token"] as string | undefined;
+        if (!(await CopyleaksService.verifyWebhookToken(scanId, token))) {
+            logger.warn("Rejected Copyleaks webhook with invalid token", { status, scanId: scanId || "unknown" });
+            return res.status(401).send();
+        }
 
-        if (status === "completed") {
-            // Extract Scan ID from developer payload
-            let scanId = "";
-            if (payload.developerPayload) {
-                try {
-                    const data = JSON.parse(payload.developerPayload);
-                    scanId = data.scanId;
-                } catch (e) {
-                    logger.error("Failed to parse developerPayload", { error: e });
-                }
-            }
+        logger.info(`Received Copyleaks webhook: ${status}`, { scanId });
 
-            if (scanId) {
-                // Process the successful scan result
-                await OriginalityMapService.processCopyleaksResult(scanId, payload);
-            }
+        if (status === "completed") {
+            // Process the successful scan result
+            await OriginalityMapService.processCopyleaksResult(scanId, payload);
         } else if (status === "error") {
-            logger.error("Copyleaks scan failed", { payload });
-            // Handle failure (update DB status to failed)
+            await OriginalityMapService.failCopyleaksScan(
+                scanId,
+                payload.error?.message || "Copyleaks reported an error"
+            );
         }
 
-        // Always modify 200 OK to acknowledge receipt
+        // Always 200 OK to acknowledge receipt
         return res.status(200).send();
     } catch (error: any) {
         logger.error("Error processing Copyleaks webhook", { error: error.message });
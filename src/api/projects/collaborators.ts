@@ -0,0 +1,211 @@
+import { Router, Request, Response } from "express";
+import { CollaborationService } from "../../services/collaborationService";
+import { ProjectAccessService } from "../../services/projectAccessService";
+import { requireProjectRole } from "../../middleware/projectAccess";
+import logger from "../../monitoring/logger";
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    full_name?: string;
+  };
+}
+
+// Mounted under /api/projects/:projectId/collaborators
+const router = Router({ mergeParams: true });
+
+const statusForError = (message: string = ""): number => {
+  if (message.includes("not found") || message.includes("access denied")) return 404;
+  if (message.includes("already")) return 409;
+  if (message.includes("different email")) return 403;
+  if (message.includes("Role must be")) return 400;
+  return 500;
+};
+
+// List collaborators (any role can see who else is on the project)
+router.get(
+  "/",
+  requireProjectRole("viewer"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId } = req.params;
+      const result = await CollaborationService.listCollaborators(projectId as string);
+
+      return res.status(200).json({
+        success: true,
+        data: { ...result, currentRole: req.projectRole },
+      });
+    } catch (error: any) {
+      logger.error("Error listing collaborators", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      return res.status(statusForError(error.message)).json({
+        success: false,
+        error: error.message || "Failed to list collaborators",
+      });
+    }
+  }
+);
+
+// Invite a collaborator by email
+router.post(
+  "/",
+  requireProjectRole("owner"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId } = req.params;
+      const { email, role = "viewer" } = req.body as any;
+
+      if (!email || typeof email !== "string" || !email.includes("@")) {
+        return res.status(400).json({
+          success: false,
+          error: "A valid email is required",
+        });
+      }
+
+      if (!ProjectAccessService.isCollaboratorRole(role)) {
+        return res.status(400).json({
+          success: false,
+          error: "Role must be one of editor, commenter, viewer",
+        });
+      }
+
+      const collaborator = await CollaborationService.inviteCollaborator(
+        projectId as string,
+        req.user!.id,
+        email,
+        role
+      );
+
+      return res.status(201).json({
+        success: true,
+        data: collaborator,
+      });
+    } catch (error: any) {
+      logger.error("Error inviting collaborator", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      return res.status(statusForError(error.message)).json({
+        success: false,
+        error: error.message || "Failed to invite collaborator",
+      });
+    }
+  }
+);
+
+// Accept an invitation (the invitee has no project role yet)
+router.post("/accept", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const { token } = req.body as any;
+
+    if (!token) {
+      return res.status(400).json({
+        success: false,
+        error: "Invitation token is required",
+      });
+    }
+
+    const collaborator = await CollaborationService.acceptInvitation(
+      projectId as string,
+      token,
+      req.user!.id,
+      req.user!.email
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: collaborator,
+    });
+  } catch (error: any) {
+    logger.error("Error accepting collaboration invite", {
+      error: error.message,
+      projectId: req.params.projectId,
+    });
+
+    return res.status(statusForError(error.message)).json({
+      success: false,
+      error: error.message || "Failed to accept invitation",
+    });
+  }
+});
+
+// Change a collaborator's role
+router.patch(
+  "/:collaboratorId",
+  requireProjectRole("owner"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId, collaboratorId } = req.params;
+      const { role } = req.body as any;
+
+      if (!ProjectAccessService.isCollaboratorRole(role)) {
+        return res.status(400).json({
+          success: false,
+          error: "Role must be one of editor, commenter, viewer",
+        });
+      }
+
+      const collaborator = await CollaborationService.updateRole(
+        projectId as string,
+        collaboratorId as string,
+        role
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: collaborator,
+      });
+    } catch (error: any) {
+      logger.error("Error updating collaborator role", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      return res.status(statusForError(error.message)).json({
+        success: false,
+        error: error.message || "Failed to update collaborator",
+      });
+    }
+  }
+);
+
+// Revoke a collaborator (owners) or leave the project (self)
+router.delete(
+  "/:collaboratorId",
+  requireProjectRole("viewer"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId, collaboratorId } = req.params;
+
+      const collaborator = await CollaborationService.revokeCollaborator(
+        projectId as string,
+        collaboratorId as string,
+        req.user!.id
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: collaborator,
+        message: "Collaborator access revoked",
+      });
+    } catch (error: any) {
+      logger.error("Error revoking collaborator", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      return res.status(statusForError(error.message)).json({
+        success: false,
+        error: error.message || "Failed to revoke collaborator",
+      });
+    }
+  }
+);
+
+export default router;
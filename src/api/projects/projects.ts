@@ -2,6 +2,9 @@ import { Router, Request, Response } from "express";
 import { authenticateExpressRequest } from "../../middleware/auth";
 import { DocumentUploadService } from "../../services/documentUploadService";
 import logger from "../../monitoring/logger";
+import { requireProjectRole } from "../../middleware/projectAccess";
+import collaboratorsRouter from "./collaborators";
+import versionsRouter from "./versions";
 
 // Extend the Express Request type to include user property
 interface AuthenticatedRequest extends Request {
@@ -14,6 +17,12 @@ interface AuthenticatedRequest extends Request {
 
 const router = Router();
 
+// Collaborators API (invite / accept / revoke)
+router.use("/:projectId/collaborators", collaboratorsRouter);
+
+// Version history API (list / diff / restore)
+router.use("/:projectId/versions", versionsRouter);
+
 // Get all projects for a user
 router.get(
   "/",
@@ -91,10 +100,11 @@ router.get(
 router.put(
   "/:projectId",
   authenticateExpressRequest,
+  requireProjectRole("editor"),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { projectId } = req.params;
-      const { title, description, content, citation_style } = req.body as any;
+      const { title, description, content, citation_style, change_source } = req.body as any;
       const userId = req.user!.id;
 
       // Validate required fields
@@ -110,7 +120,9 @@ router.put(
         description || "",
         content,
         content ? JSON.stringify(content).length : 0,
-        citation_style
+        citation_style,
+        undefined,
+        change_source === "ai" ? "ai" : "save"
       );
 
       if (!updatedProject) {
@@ -0,0 +1,151 @@
+import { Router, Request, Response } from "express";
+import { ProjectVersionService } from "../../services/projectVersionService";
+import { requireProjectRole } from "../../middleware/projectAccess";
+import { getSafeString } from "../../utils/requestHelpers";
+import logger from "../../monitoring/logger";
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    full_name?: string;
+  };
+}
+
+// Mounted under /api/projects/:projectId/versions
+const router = Router({ mergeParams: true });
+
+// List the version history of a project
+router.get(
+  "/",
+  requireProjectRole("viewer"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId } = req.params;
+      const versions = await ProjectVersionService.listVersions(projectId as string);
+
+      return res.status(200).json({
+        success: true,
+        data: versions,
+      });
+    } catch (error: any) {
+      logger.error("Error listing project versions", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      return res.status(500).json({
+        success: false,
+        error: error.message || "Failed to list versions",
+      });
+    }
+  }
+);
+
+// Diff two versions: /diff?from=<versionId>&to=<versionId>
+router.get(
+  "/diff",
+  requireProjectRole("viewer"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId } = req.params;
+      const from = getSafeString(req.query.from);
+      const to = getSafeString(req.query.to);
+
+      if (!from || !to) {
+        return res.status(400).json({
+          success: false,
+          error: "Both 'from' and 'to' version IDs are required",
+        });
+      }
+
+      const diff = await ProjectVersionService.diffVersions(
+        projectId as string,
+        from,
+        to
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: diff,
+      });
+    } catch (error: any) {
+      logger.error("Error diffing project versions", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      const status = error.message?.includes("not found") ? 404 : 500;
+      return res.status(status).json({
+        success: false,
+        error: error.message || "Failed to diff versions",
+      });
+    }
+  }
+);
+
+// Get a single version with its content
+router.get(
+  "/:versionId",
+  requireProjectRole("viewer"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId, versionId } = req.params;
+      const version = await ProjectVersionService.getVersion(
+        projectId as string,
+        versionId as string
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: version,
+      });
+    } catch (error: any) {
+      logger.error("Error fetching project version", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      const status = error.message?.includes("not found") ? 404 : 500;
+      return res.status(status).json({
+        success: false,
+        error: error.message || "Failed to fetch version",
+      });
+    }
+  }
+);
+
+// Restore a version (the current content is kept as its own version)
+router.post(
+  "/:versionId/restore",
+  requireProjectRole("editor"),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { projectId, versionId } = req.params;
+      const result = await ProjectVersionService.restoreVersion(
+        projectId as string,
+        versionId as string,
+        req.user!.id
+      );
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+        message: "Version restored successfully",
+      });
+    } catch (error: any) {
+      logger.error("Error restoring project version", {
+        error: error.message,
+        projectId: req.params.projectId,
+      });
+
+      const status = error.message?.includes("not found") ? 404 : 500;
+      return res.status(status).json({
+        success: false,
+        error: error.message || "Failed to restore version",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,12 +1,41 @@
 import express from "express";
 import axios from "axios";
 import logger from "../../monitoring/logger";
+import { ProjectAccessService } from "../../services/projectAccessService";
+import { SourceReadingService } from "../../services/sourceReadingService";
 
 const router = express.Router();
 
+/**
+ * Open or resume a reading session when the viewer says which project the source
+ * is read for. Tracking never blocks the PDF itself.
+ */
+async function trackReading(req: express.Request, url: string): Promise<string | null> {
+    const userId = (req as any).user?.id;
+    const { projectId, sourceId } = req.query;
+    if (!userId || !projectId || typeof projectId !== "string") return null;
+
+    try {
+        await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+        const { sessionId } = await SourceReadingService.recordProxyRequest({
+            userId,
+            projectId,
+            sourceId: typeof sourceId === "string" && sourceId ? sourceId : url,
+            sourceUrl: url,
+        });
+        return sessionId;
+    } catch (error: any) {
+        logger.warn("Could not record source reading", { projectId, url, error: error.message });
+        return null;
+    }
+}
+
 /**
  * @route GET /api/proxy/pdf
- * @desc Proxy a PDF file from an external URL to bypass CORS
+ * @desc Proxy a PDF file from an external URL to bypass CORS. With `projectId`
+ * (and optionally `sourceId` - DOI or file id; defaults to the URL) the request
+ * opens or resumes a reading session, returned in the X-Reading-Session header.
+ * Range requests are forwarded so viewers can load large PDFs incrementally.
  * @access Private
  */
 router.get("/pdf", async (req, res) => {
@@ -17,7 +46,7 @@ router.get("/pdf", async (req, res) => {
             return res.status(400).json({ success: false, message: "URL is required" });
         }
 
-        logger.info(`Proxying PDF request`, { url });
+        logger.info(`Proxying PDF request`, { url, range: req.headers.range });
 
         const response = await axios({
             method: "GET",
@@ -25,7 +54,8 @@ router.get("/pdf", async (req, res) => {
             responseType: "stream",
             headers: {
                 // Mimic a browser to avoid some basic blocking
-                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
+                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+                ...(req.headers.range ? { Range: req.headers.range } : {}),
             }
         });
 
@@ -53,7 +83,22 @@ router.get("/pdf", async (req, res) => {
             res.setHeader("Content-Length", response.headers["content-length"]);
         }
 
+        // Forward partial-content headers for range requests
+        if (response.headers["accept-ranges"]) {
+            res.setHeader("Accept-Ranges", response.headers["accept-ranges"]);
+        }
+        if (response.headers["content-range"]) {
+            res.setHeader("Content-Range", response.headers["content-range"]);
+        }
+
+        const sessionId = await trackReading(req, url);
+        if (sessionId) {
+            res.setHeader("X-Reading-Session", sessionId);
+            res.setHeader("Access-Control-Expose-Headers", "X-Reading-Session, Content-Range, Accept-Ranges");
+        }
+
         // Pipe the stream
+        res.status(response.status);
         response.data.pipe(res);
 
     } catch (error: any) {
@@ -67,4 +112,34 @@ router.get("/pdf", async (req, res) => {
     }
 });
 
+/**
+ * @route POST /api/proxy/pdf/activity
+ * @desc Reading beat from the PDF viewer: { sessionId, pages: number[], pageCount }.
+ * Reading time is measured on the server between beats.
+ * @access Private
+ */
+router.post("/pdf/activity", async (req, res) => {
+    try {
+        const userId = (req as any).user?.id;
+        const { sessionId, pages, pageCount } = req.body || {};
+
+        if (!sessionId || typeof sessionId !== "string") {
+            return res.status(400).json({ success: false, message: "sessionId is required" });
+        }
+
+        const session = await SourceReadingService.recordActivity(sessionId, userId, {
+            pages: Array.isArray(pages) ? pages : undefined,
+            pageCount: typeof pageCount === "number" ? pageCount : undefined,
+        });
+
+        return res.json({ success: true, data: session });
+    } catch (error: any) {
+        if (error.message === "Reading session not found") {
+            return res.status(404).json({ success: false, message: error.message });
+        }
+        logger.error("Error recording reading activity", { error: error.message });
+        return res.status(500).json({ success: false, message: "Failed to record reading activity" });
+    }
+});
+
 export default router;
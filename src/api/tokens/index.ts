@@ -0,0 +1,123 @@
+import { Router, Request, Response } from "express";
+import { PersonalAccessTokenService } from "../../services/personalAccessTokenService";
+import { TOKEN_SCOPES } from "../../types/accessTokens";
+import logger from "../../monitoring/logger";
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    email: string;
+    full_name?: string;
+  };
+}
+
+const router = Router();
+
+const errorStatus = (message: string = "") => {
+  if (message.includes("not found")) return 404;
+  if (message.startsWith("Token is already")) return 409;
+  if (message.startsWith("Invalid") || message.startsWith("Token name") || message.startsWith("Token limit")) {
+    return 400;
+  }
+  return 500;
+};
+
+// Scopes that can be granted to a token
+router.get("/scopes", (_req: AuthenticatedRequest, res: Response) => {
+  return res.status(200).json({
+    success: true,
+    data: TOKEN_SCOPES,
+  });
+});
+
+// List the current user's tokens (never includes the token itself)
+router.get("/", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const tokens = await PersonalAccessTokenService.listTokens(userId);
+
+    return res.status(200).json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error: any) {
+    logger.error("Error listing access tokens", { error: error.message });
+
+    return res.status(500).json({
+      success: false,
+      error: error.message || "Failed to list access tokens",
+    });
+  }
+});
+
+// Create a token: { name, scopes: ["citations:audit", ...], expiresInDays? }
+// The token is only shown in this response
+router.post("/", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const { name, scopes, expiresInDays } = req.body || {};
+    const token = await PersonalAccessTokenService.createToken(userId, {
+      name,
+      scopes: Array.isArray(scopes) ? scopes : [],
+      expiresInDays,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: token,
+    });
+  } catch (error: any) {
+    logger.error("Error creating access token", { error: error.message });
+
+    return res.status(errorStatus(error.message)).json({
+      success: false,
+      error: error.message || "Failed to create access token",
+    });
+  }
+});
+
+// Revoke a token
+router.delete("/:id", async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      });
+    }
+
+    const token = await PersonalAccessTokenService.revokeToken(req.params.id as string, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: token,
+    });
+  } catch (error: any) {
+    logger.error("Error revoking access token", {
+      error: error.message,
+      tokenId: req.params.id,
+    });
+
+    return res.status(errorStatus(error.message)).json({
+      success: false,
+      error: error.message || "Failed to revoke access token",
+    });
+  }
+});
+
+export default router;
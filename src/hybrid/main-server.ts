@@ -10,16 +10,18 @@ import { authenticateExpressRequest } from "../middleware/auth";
 import { RecycleBinService } from "../services/recycleBinService";
 import { SecretsService } from "../services/secrets-service";
 import { initializePrisma } from "../lib/prisma-async";
-import { apiLimiter, authLimiter, uploadLimiter } from "../middleware/rateLimiter";
+import { apiLimiter, authLimiter, publicVerificationLimiter, uploadLimiter } from "../middleware/rateLimiter";
 
 // Import routers
 import authRouter from "../api/auth/index";
 import surveyRouter from "../api/survey/index";
 import originalityRouter from "../api/originality/index";
+import originalityWebhookRouter from "../api/originality/webhook";
 import citationsRouter from "../api/citations/index";
 import annotationsRouter from "../api/annotations/index";
 
 import authorshipRouter from "../api/authorship/index";
+import certificateVerifyRouter from "../api/certificates/verify";
 import aiDetectionRouter from "../api/ai-detection/index";
 import analyticsRouter from "../api/analytics/index";
 import subscriptionRouter from "../api/subscription/index";
@@ -44,8 +46,13 @@ import sourcesRouter from "../api/sources/index";
 import unsplashRouter from "../api/integrations/unsplash";
 import searchAlertsRouter from "../api/search-alerts/index";
 import researchRouter from "../api/research/index";
+import jobsRouter from "../api/jobs/index";
+import tokensRouter from "../api/tokens/index";
+import organizationsRouter from "../api/organizations/index";
+import { tokenOrSessionAuth } from "../middleware/accessTokenAuth";
 import { initializeSubscriptionJobs } from "../jobs/subscriptionJobs";
 import { initializeSearchAlertJobs } from "../jobs/searchAlertJobs";
+import { JobWorker, jobWorkerOptionsFromEnv } from "../workers/jobWorker";
 
 const app: Application = express();
 // Port assignment moved to startServer function
@@ -241,11 +248,26 @@ app.use("/api/auth", authLimiter, authRouter);
 // Survey API (Authentication required)
 app.use("/api/survey", authMiddleware, surveyRouter);
 
+// Copyleaks status webhooks (No session auth or rate limit; verified by per-scan token)
+app.use("/api/originality/webhook", originalityWebhookRouter);
+
 // Originality Map API (MVP Feature #1)
-app.use("/api/originality", authMiddleware, originalityRouter);
+app.use(
+  "/api/originality",
+  tokenOrSessionAuth({ read: "originality:read", write: "originality:scan" }),
+  originalityRouter
+);
 
 // Citations API (MVP Feature #2 - Citation Confidence + Missing Link)
-app.use("/api/citations", authMiddleware, citationsRouter);
+app.use(
+  "/api/citations",
+  tokenOrSessionAuth({
+    read: "citations:read",
+    write: "citations:write",
+    routes: { "POST /audit": "citations:audit", "POST /audit/stream": "citations:audit" },
+  }),
+  citationsRouter
+);
 
 // Annotations API (Feature 2: PDF Annotator)
 app.use("/api/annotations", authMiddleware, annotationsRouter);
@@ -253,6 +275,9 @@ app.use("/api/annotations", authMiddleware, annotationsRouter);
 // Authorship Certificate API (MVP Feature #4)
 app.use("/api/authorship", authMiddleware, authorshipRouter);
 
+// Certificate Verification API (Public - signature, document and key checks)
+app.use("/api/certificates", publicVerificationLimiter, certificateVerifyRouter);
+
 // AI Detection API
 app.use("/api/ai-detection", authMiddleware, aiDetectionRouter);
 
@@ -266,7 +291,7 @@ app.use("/api/subscription", subscriptionRouter);
 app.use("/api/documents", authMiddleware, uploadLimiter, documentUploadRouter);
 
 // File Processing API (Import/Export)
-app.use("/api/files", authMiddleware, fileProcessingRouter);
+app.use("/api/files", tokenOrSessionAuth({ read: "exports:read", write: "exports:write" }), fileProcessingRouter);
 
 // Images API (Upload to Supabase)
 app.use("/api/images", authMiddleware, uploadLimiter, imageRouter);
@@ -281,7 +306,11 @@ app.use("/api/users", authMiddleware, usersRouter);
 // Moved to line ~88 to support raw body parsing
 // app.use("/api/webhooks", webhookRouter);
 
-app.use("/api/projects", authMiddleware, projectsRouter);
+app.use(
+  "/api/projects",
+  tokenOrSessionAuth({ read: "projects:read", write: "projects:write" }),
+  projectsRouter
+);
 
 // Feedback API (Authentication required for most routes, public endpoint available)
 app.use("/api/feedback", feedbackRouter);
@@ -325,6 +354,15 @@ app.use("/api/search-alerts", authMiddleware, searchAlertsRouter);
 // Research Assistant API
 app.use("/api/research", authMiddleware, researchRouter);
 
+// Background Jobs API (status of queued scans, exports, certificates)
+app.use("/api/jobs", tokenOrSessionAuth({ read: "jobs:read", write: "jobs:write" }), jobsRouter);
+
+// Organizations API (membership and internal corpus opt-in)
+app.use("/api/organizations", authMiddleware, organizationsRouter);
+
+// Personal Access Tokens API (session only: a token cannot mint or revoke tokens)
+app.use("/api/tokens", authMiddleware, tokensRouter);
+
 // 404 handler
 app.use((req, res) => {
   res.status(404).json({
@@ -364,6 +402,13 @@ const startServer = async () => {
         initializeSearchAlertJobs();
         logger.info("✅ Scheduled jobs initialized");
 
+        // Background job worker (set JOB_WORKER_MODE=external when running `npm run worker` separately)
+        if ((process.env.JOB_WORKER_MODE || "embedded") === "embedded") {
+          const jobWorker = new JobWorker(jobWorkerOptionsFromEnv());
+          jobWorker.start();
+          process.once("SIGTERM", () => jobWorker.stop());
+        }
+
       } catch (initError: any) {
         logger.error("❌ Failed to initialize services:", initError);
         console.error("❌ Critical Service Failure:", initError);
@@ -2,6 +2,8 @@ import { prisma } from "../../lib/prisma";
 import logger from "../../monitoring/logger";
 import { ExportService } from "../../services/exportService";
 import { StorageService } from "../../services/storageService";
+import { ProjectAccessService } from "../../services/projectAccessService";
+import { ProgressReporter } from "../../types/progress";
 
 // Define a generic request interface that works for both web Request and our mock
 import { ContentNormalizer } from "../../services/contentNormalizer";
@@ -136,7 +138,7 @@ async function processDocumentImport(fileData: any, userId: string) {
 
 // Generate PDF export
 // Generate PDF export
-async function generatePDFExport(fileData: any, userId: string) {
+export async function generatePDFExport(fileData: any, userId: string, onProgress?: ProgressReporter) {
   try {
     // Validate user exists
     const user = await prisma.user.findUnique({
@@ -205,12 +207,16 @@ async function generatePDFExport(fileData: any, userId: string) {
       };
     } else {
       // Fetch project from DB by ID
-      project = await prisma.project.findUnique({
-        where: {
-          id: fileData.projectId,
-          user_id: userId,
-        },
-      });
+      // Owner or any collaborator may export
+      const role = await ProjectAccessService.getRole(fileData.projectId, userId);
+
+      project = role
+        ? await prisma.project.findUnique({
+          where: {
+            id: fileData.projectId,
+          },
+        })
+        : null;
 
       if (!project) {
         throw new Error("Project not found or access denied");
@@ -219,9 +225,11 @@ async function generatePDFExport(fileData: any, userId: string) {
 
     // Generate PDF using ExportService
     // Normalize content (resolve images, fix tables)
+    await onProgress?.({ stage: "normalizing_content", message: "Preparing document", progress: 10 });
     const { ContentNormalizer } = await import("../../services/contentNormalizer");
     const normalizedContent = await ContentNormalizer.normalizeContent(project.content);
 
+    await onProgress?.({ stage: "rendering_pdf", message: "Rendering PDF", progress: 30 });
     const exportResult = await ExportService.exportProject(
       project.id,
       userId,
@@ -248,6 +256,7 @@ async function generatePDFExport(fileData: any, userId: string) {
     );
 
     // Upload the file to Supabase Storage
+    await onProgress?.({ stage: "uploading", message: "Uploading PDF", progress: 85 });
     const { SupabaseStorageService } =
       await import("../../services/supabaseStorageService");
 
@@ -363,12 +372,16 @@ async function generateDOCXExport(fileData: any, userId: string) {
       };
     } else {
       // Fetch project from DB by ID
-      project = await prisma.project.findUnique({
-        where: {
-          id: fileData.projectId,
-          user_id: userId,
-        },
-      });
+      // Owner or any collaborator may export
+      const role = await ProjectAccessService.getRole(fileData.projectId, userId);
+
+      project = role
+        ? await prisma.project.findUnique({
+          where: {
+            id: fileData.projectId,
+          },
+        })
+        : null;
 
       if (!project) {
         throw new Error("Project not found or access denied");
@@ -515,12 +528,16 @@ async function generateTXTExport(fileData: any, userId: string) {
       };
     } else {
       // Fetch project from DB by ID
-      project = await prisma.project.findUnique({
-        where: {
-          id: fileData.projectId,
-          user_id: userId,
-        },
-      });
+      // Owner or any collaborator may export
+      const role = await ProjectAccessService.getRole(fileData.projectId, userId);
+
+      project = role
+        ? await prisma.project.findUnique({
+          where: {
+            id: fileData.projectId,
+          },
+        })
+        : null;
 
       if (!project) {
         throw new Error("Project not found or access denied");
@@ -663,12 +680,16 @@ async function generateLaTeXExport(fileData: any, userId: string) {
       };
     } else {
       // Fetch project from DB by ID
-      project = await prisma.project.findUnique({
-        where: {
-          id: fileData.projectId,
-          user_id: userId,
-        },
-      });
+      // Owner or any collaborator may export
+      const role = await ProjectAccessService.getRole(fileData.projectId, userId);
+
+      project = role
+        ? await prisma.project.findUnique({
+          where: {
+            id: fileData.projectId,
+          },
+        })
+        : null;
 
       if (!project) {
         throw new Error("Project not found or access denied");
@@ -809,12 +830,16 @@ async function generateRTFExport(fileData: any, userId: string) {
       };
     } else {
       // Fetch project from DB by ID
-      project = await prisma.project.findUnique({
-        where: {
-          id: fileData.projectId,
-          user_id: userId,
-        },
-      });
+      // Owner or any collaborator may export
+      const role = await ProjectAccessService.getRole(fileData.projectId, userId);
+
+      project = role
+        ? await prisma.project.findUnique({
+          where: {
+            id: fileData.projectId,
+          },
+        })
+        : null;
 
       if (!project) {
         throw new Error("Project not found or access denied");
@@ -0,0 +1,85 @@
+import { JobHandler, JobType } from "../types/jobs";
+import { NonRetryableJobError } from "../services/jobQueueService";
+import { OriginalityExclusionInput } from "../types/originalityExclusions";
+
+// Errors that a retry cannot fix
+const PERMANENT_ERRORS =
+  /not found|access denied|INSUFFICIENT_CREDITS|Storage limit exceeded|does not qualify|re-issued|not linked|only available for completed/i;
+
+const permanentOrRethrow = (error: any): never => {
+  if (PERMANENT_ERRORS.test(error?.message || "")) {
+    throw new NonRetryableJobError(error.message);
+  }
+  throw error;
+};
+
+const originalityScan: JobHandler<{
+  projectId: string;
+  content: string;
+  plan?: string;
+  exclusions?: OriginalityExclusionInput;
+  crossLanguage?: boolean;
+}> = async (payload, context) => {
+  const { OriginalityMapService } = await import("../services/originalityMapService");
+
+  const result = await OriginalityMapService.scanDocument(
+    payload.projectId,
+    context.userId,
+    payload.content,
+    payload.plan,
+    context.reportStage,
+    { exclusions: payload.exclusions, crossLanguage: payload.crossLanguage, jobId: context.jobId }
+  ).catch(permanentOrRethrow);
+
+  return result;
+};
+
+const citationBatchAnalysis: JobHandler<{ projectId: string; force?: boolean }> = async (
+  payload,
+  context
+) => {
+  const { CitationBatchAnalysisService } = await import("../services/citationBatchAnalysisService");
+
+  return CitationBatchAnalysisService.analyzeProject(
+    payload.projectId,
+    context.userId,
+    payload.force,
+    context.reportStage
+  ).catch(permanentOrRethrow);
+};
+
+const certificateGeneration: JobHandler<{
+  projectId: string;
+  certificateType?: "authorship" | "originality" | "completion";
+  includeQRCode?: boolean;
+  previousCertificateId?: string;
+}> = async (payload, context) => {
+  const { CertificateGenerationService } = await import("../services/certificateGenerationService");
+
+  return CertificateGenerationService.generateAndStore(
+    { ...payload, userId: context.userId },
+    context.reportStage
+  ).catch(permanentOrRethrow);
+};
+
+const exportPdf: JobHandler<{ fileData: any }> = async (payload, context) => {
+  const { generatePDFExport } = await import("../hybrid/serverless/file-processing");
+
+  return generatePDFExport(payload.fileData, context.userId, context.reportStage).catch(permanentOrRethrow);
+};
+
+const originalityReport: JobHandler<{ scanId: string }> = async (payload, context) => {
+  const { OriginalityReportGenerator } = await import("../services/originalityReportGenerator");
+
+  return OriginalityReportGenerator.generateAndStore(payload.scanId, context.userId, context.reportStage).catch(
+    permanentOrRethrow
+  );
+};
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  originality_scan: originalityScan,
+  citation_batch_analysis: citationBatchAnalysis,
+  certificate_generation: certificateGeneration,
+  export_pdf: exportPdf,
+  originality_report: originalityReport,
+};
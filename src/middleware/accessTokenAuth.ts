@@ -0,0 +1,76 @@
+import {
+  Request as ExpressRequest,
+  Response as ExpressResponse,
+  NextFunction,
+} from "express";
+import { authenticateExpressRequest } from "./auth";
+import { PersonalAccessTokenService } from "../services/personalAccessTokenService";
+import { RouteScopes, TokenScope } from "../types/accessTokens";
+import logger from "../monitoring/logger";
+
+/**
+ * Scope a token-authenticated request needs for this route, or null if tokens can't use it
+ */
+function requiredScope(req: ExpressRequest, scopes: RouteScopes): TokenScope | null {
+  const route = `${req.method} ${req.path}`;
+  if (scopes.routes?.[route]) {
+    return scopes.routes[route];
+  }
+
+  const isRead = req.method === "GET" || req.method === "HEAD";
+  return (isRead ? scopes.read : scopes.write) || null;
+}
+
+/**
+ * Accepts either a Supabase session (same as authMiddleware) or a personal
+ * access token holding the scope this router requires. Routers not mounted
+ * with this middleware stay session-only.
+ */
+export function tokenOrSessionAuth(scopes: RouteScopes) {
+  return async (
+    req: ExpressRequest,
+    res: ExpressResponse,
+    next: NextFunction
+  ): Promise<void> => {
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : null;
+
+    if (!token || !PersonalAccessTokenService.isAccessToken(token)) {
+      return authenticateExpressRequest(req, res, next);
+    }
+
+    try {
+      const auth = await PersonalAccessTokenService.authenticate(token);
+      if (!auth) {
+        res.status(401).json({
+          success: false,
+          message: "Invalid, expired or revoked access token",
+        });
+        return;
+      }
+
+      const scope = requiredScope(req, scopes);
+      if (!scope || !auth.scopes.includes(scope)) {
+        res.status(403).json({
+          success: false,
+          message: scope
+            ? `Access token is missing the required scope: ${scope}`
+            : "This endpoint is not available to access tokens",
+        });
+        return;
+      }
+
+      (req as any).user = auth.user;
+      (req as any).accessToken = { id: auth.tokenId, scopes: auth.scopes };
+      next();
+    } catch (error) {
+      logger.error("Access token authentication error", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      res.status(500).json({
+        success: false,
+        message: "Internal authentication error",
+      });
+    }
+  };
+}
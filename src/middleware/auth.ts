@@ -52,6 +52,12 @@ export async function authenticateExpressRequest(
   next: NextFunction
 ): Promise<void> {
   try {
+    // Already authenticated by a personal access token (see tokenOrSessionAuth)
+    if ((req as any).accessToken && (req as any).user) {
+      next();
+      return;
+    }
+
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  ProjectAccessService,
+  ProjectRole,
+} from "../services/projectAccessService";
+import logger from "../monitoring/logger";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Caller's role on the request's project, set by requireProjectRole */
+      projectRole?: ProjectRole;
+    }
+  }
+}
+
+/**
+ * Middleware to require a minimum collaboration role on the project
+ * referenced by the request (route param first, then body, then query).
+ * The resolved role is attached as `req.projectRole`.
+ * With `optional`, requests that name no project pass through unchecked
+ * (for routes that also accept content directly).
+ */
+export const requireProjectRole = (
+  minRole: ProjectRole,
+  field: string = "projectId",
+  options: { optional?: boolean } = {}
+) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const userId = (req as any).user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: "Authentication required",
+        });
+        return;
+      }
+
+      const projectId =
+        req.params?.[field] || req.body?.[field] || req.query?.[field];
+
+      if (!projectId && options.optional) {
+        next();
+        return;
+      }
+
+      if (!projectId || typeof projectId !== "string") {
+        res.status(400).json({
+          success: false,
+          error: `${field} is required`,
+        });
+        return;
+      }
+
+      const role = await ProjectAccessService.getRole(projectId, userId);
+
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          error: "Project not found or access denied",
+        });
+        return;
+      }
+
+      if (!ProjectAccessService.hasRole(role, minRole)) {
+        res.status(403).json({
+          success: false,
+          error: `This action requires the ${minRole} role on this project`,
+          data: { role },
+        });
+        return;
+      }
+
+      req.projectRole = role;
+      next();
+    } catch (error: any) {
+      logger.error("Error in project access middleware", {
+        error: error.message,
+        minRole,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: "Failed to check project access",
+      });
+    }
+  };
+};
@@ -52,6 +52,23 @@ export const uploadLimiter = rateLimit({
   }
 });
 
+// Public Certificate Verification Limiter
+// 30 requests per minute - these routes need no account, so they get less than the API default
+export const publicVerificationLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    success: false,
+    message: "Too many verification requests, please try again later."
+  },
+  handler: (req, res, next, options) => {
+    logger.warn(`Verification rate limit exceeded: ${req.ip} -> ${req.originalUrl}`);
+    res.status(options.statusCode).send(options.message);
+  }
+});
+
 // Admin Operation Limiter (Internal)
 export const adminOperationRateLimiter = rateLimit({
   windowMs: 60 * 1000,
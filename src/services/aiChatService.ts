@@ -5,6 +5,7 @@ import logger from "../monitoring/logger";
 import { SecretsService } from "./secrets-service";
 import { SubscriptionService } from "./subscriptionService";
 import { AcademicSearchService } from "./academicSearchService";
+import { ProjectAccessService } from "./projectAccessService";
 import { z } from "zod";
 
 interface ChatContext {
@@ -193,8 +194,13 @@ Claim Type: ${input.claimType}
 
   /**
    * Create a new chat session
+   * Project-scoped sessions require at least the commenter role on the project
    */
   static async createSession(userId: string, projectId?: string) {
+    if (projectId) {
+      await ProjectAccessService.assertAccess(projectId, userId, "commenter");
+    }
+
     return prisma.chatSession.create({
       data: {
         user_id: userId,
@@ -1,10 +1,17 @@
 import logger from "../monitoring/logger";
+import { StylometryDetectionService, StylometryFeatures } from "./stylometryDetectionService";
+
+export type AIDetectionEngine = "gptzero" | "stylometry";
 
 export interface AIDetectionResult {
     overallScore: number; // 0-100 probability of being AI
     classification: "human" | "mixed" | "ai";
     sentences: AISentenceResult[];
     scannedAt: Date;
+    engine?: AIDetectionEngine;
+    features?: StylometryFeatures; // Stylometry engine only
+    reliability?: "low" | "normal"; // Stylometry engine only: "low" for short texts
+    secondOpinion?: AIDetectionResult; // Local result attached when the external score is borderline
 }
 
 export interface AISentenceResult {
@@ -15,24 +22,44 @@ export interface AISentenceResult {
     positionEnd: number;
 }
 
+// GPTZero scores in this range get a local second opinion
+const BORDERLINE_MIN = 30;
+const BORDERLINE_MAX = 70;
+
 export class AIDetectionService {
     /**
-     * Detect AI-generated content in a document using GPTZero API
+     * Detect AI-generated content in a document.
+     * GPTZero is used when configured; the built-in stylometry detector runs when it
+     * is not (or when asked for explicitly) and is attached as a second opinion to
+     * borderline GPTZero scores.
      */
-    static async detectAI(content: string): Promise<AIDetectionResult> {
+    static async detectAI(content: string, engine?: AIDetectionEngine): Promise<AIDetectionResult> {
         const GPTZERO_API_KEY = process.env.GPTZERO_API_KEY;
 
-        if (!GPTZERO_API_KEY) {
+        if (engine === "gptzero" && !GPTZERO_API_KEY) {
             logger.error("GPTZero API key not configured");
             throw new Error("AI detection service is not configured. Please contact support.");
         }
 
+        if (engine === "stylometry" || !GPTZERO_API_KEY) {
+            logger.info("Starting AI detection scan with stylometry", {
+                contentLength: content.length
+            });
+            return StylometryDetectionService.detect(content);
+        }
+
         try {
             logger.info("Starting AI detection scan with GPTZero", {
                 contentLength: content.length
             });
 
-            return await this.detectWithGPTZero(content, GPTZERO_API_KEY);
+            const result = await this.detectWithGPTZero(content, GPTZERO_API_KEY);
+
+            if (result.overallScore >= BORDERLINE_MIN && result.overallScore <= BORDERLINE_MAX) {
+                result.secondOpinion = StylometryDetectionService.detect(content);
+            }
+
+            return result;
         } catch (error: any) {
             logger.error("Error in AI detection service", {
                 error: error.message,
@@ -104,6 +131,7 @@ export class AIDetectionService {
                 classification: this.classifyOverall(overallScore),
                 sentences,
                 scannedAt: new Date(),
+                engine: "gptzero",
             };
         } catch (error: any) {
             if (error.response) {
@@ -1,5 +1,6 @@
 import { initializePrisma } from "../lib/prisma-async";
 import logger from "../monitoring/logger";
+import { SourceReadingService } from "./sourceReadingService";
 
 export interface AnnotationData {
     fileId: string;
@@ -72,7 +73,7 @@ export class AnnotationService {
             await this.ensureFileExists(data.fileId, data.userId);
 
             const prisma = await initializePrisma();
-            return await prisma.annotation.create({
+            const annotation = await prisma.annotation.create({
                 data: {
                     file_id: data.fileId,
                     user_id: data.userId,
@@ -82,6 +83,9 @@ export class AnnotationService {
                     coordinates: data.coordinates,
                 },
             });
+
+            await this.syncSourceInteractions(data.userId, data.fileId);
+            return annotation;
         } catch (error: any) {
             logger.error("Error creating annotation", { data, error: error.message });
             throw error;
@@ -94,7 +98,7 @@ export class AnnotationService {
     static async updateAnnotation(id: string, userId: string, content?: string) {
         try {
             const prisma = await initializePrisma();
-            return await prisma.annotation.update({
+            const annotation = await prisma.annotation.update({
                 where: {
                     id,
                     user_id: userId,
@@ -104,6 +108,10 @@ export class AnnotationService {
                     updated_at: new Date(),
                 },
             });
+
+            // Adding text to a highlight makes it a note
+            await this.syncSourceInteractions(userId, annotation.file_id);
+            return annotation;
         } catch (error: any) {
             logger.error("Error updating annotation", { id, userId, error: error.message });
             throw error;
@@ -116,16 +124,30 @@ export class AnnotationService {
     static async deleteAnnotation(id: string, userId: string) {
         try {
             const prisma = await initializePrisma();
-            await prisma.annotation.delete({
+            const annotation = await prisma.annotation.delete({
                 where: {
                     id,
                     user_id: userId,
                 },
             });
+
+            await this.syncSourceInteractions(userId, annotation.file_id);
             return true;
         } catch (error: any) {
             logger.error("Error deleting annotation", { id, userId, error: error.message });
             throw error;
         }
     }
+
+    /**
+     * Keep the highlight/note counts of the source's reading record current;
+     * a failure here must not fail the annotation itself
+     */
+    private static async syncSourceInteractions(userId: string, fileId: string) {
+        try {
+            await SourceReadingService.syncAnnotationCounts(userId, fileId);
+        } catch (error: any) {
+            logger.warn("Error syncing annotation counts", { fileId, userId, error: error.message });
+        }
+    }
 }
@@ -2,8 +2,14 @@ import logger from "../monitoring/logger";
 import { AuthorshipReportService } from "./authorshipReportService";
 import QRCode from "qrcode";
 import { config } from "../config/env";
+import {
+  CertificateEligibilityService,
+  CompletionEvidence,
+  OriginalityEvidence,
+} from "./certificateEligibilityService";
 
 export interface CertificateOptions {
+  certificateId?: string; // Printed on the certificate; stored certificates pass their own id
   projectId: string;
   userId: string;
   userName: string;
@@ -13,6 +19,8 @@ export interface CertificateOptions {
   verificationUrl?: string;
   description?: string;
   watermark?: boolean; // New option for watermark
+  originality?: OriginalityEvidence; // Required for originality certificates
+  completion?: CompletionEvidence; // Required for completion certificates
 }
 
 export class AuthorshipCertificateGenerator {
@@ -29,12 +37,21 @@ export class AuthorshipCertificateGenerator {
         type: options.certificateType || "authorship",
       });
 
-      // Get authorship statistics
-      const stats = await AuthorshipReportService.generateAuthorshipReport(
+      // Originality and completion certificates embed (and require) passing checks
+      const eligibility = await CertificateEligibilityService.assertEligible(
         options.projectId,
-        options.userId
+        options.userId,
+        options.certificateType || "authorship"
       );
 
+      // Get authorship statistics
+      const stats =
+        eligibility.completion?.stats ??
+        (await AuthorshipReportService.generateAuthorshipReport(
+          options.projectId,
+          options.userId
+        ));
+
       // Generate QR code for bottom-right corner
       const qrCodeDataUrl =
         options.includeQRCode && options.verificationUrl
@@ -43,7 +60,11 @@ export class AuthorshipCertificateGenerator {
 
       // Generate certificate HTML
       const html = await this.generateCertificateHTML(
-        options,
+        {
+          ...options,
+          originality: options.originality ?? eligibility.originality,
+          completion: options.completion ?? eligibility.completion,
+        },
         stats,
         qrCodeDataUrl
       );
@@ -75,31 +96,20 @@ export class AuthorshipCertificateGenerator {
     stats: any,
     qrCodeDataUrl: string | null
   ): Promise<string> {
-    const certificateId = `COLABWIZE-${options.projectId.substring(0, 8).toUpperCase()}`;
+    const certificateId =
+      options.certificateId || `COLABWIZE-${options.projectId.substring(0, 8).toUpperCase()}`;
     const issueDate = new Date().toLocaleDateString("en-US", {
       year: "numeric",
       month: "long",
       day: "numeric",
     });
 
-    const certificateTitle = "Certificate of Authorship and Academic Integrity";
+    const certificateTitle = this.getCertificateTitle(options.certificateType);
 
-    // Format hours for description
-    const hours = Math.floor(stats.totalTimeInvestedMinutes / 60);
-
-    // Logic for automated content text
-    const automatedContentText =
-      stats.aiAssistedPercentage === 0
-        ? "no automated content detected by the ColabWize platform"
-        : `${stats.aiAssistedPercentage}% detected automated content`;
-
-    // Exact requested phrasing
     const certificateDescription =
-      options.description ||
-      `<em>This document certifies that</em> the above-named individual has demonstrated genuine authorship of 
-       '<strong>${options.projectTitle || "Untitled Project"}</strong>' through over <strong>${hours} hours</strong> of documented manual work 
-       and <strong>${stats.manualEditsCount.toLocaleString()} tracked revisions</strong>, with <strong>${stats.automatedContentDetectText || automatedContentText}</strong>. 
-       This certificate validates the process of creation, ensuring transparency and academic honesty.`;
+      options.description || this.getDefaultDescription(options, stats);
+
+    const statItems = this.getStatItems(options, stats);
 
     // Academic Palette
     const colors = {
@@ -478,18 +488,15 @@ export class AuthorshipCertificateGenerator {
         </div>
 
         <div class="stats-row">
+          ${statItems
+        .map(
+          (item) => `
           <div class="stat-item">
-            <div class="stat-value">Over ${hours} Hours</div>
-            <div class="stat-label">Logged Time</div>
-          </div>
-          <div class="stat-item">
-             <div class="stat-value">${stats.manualEditsCount.toLocaleString()}</div>
-             <div class="stat-label">Total Revisions</div>
-          </div>
-           <div class="stat-item">
-             <div class="stat-value">${stats.aiAssistedPercentage === 0 ? "0%" : stats.aiAssistedPercentage + "%"}</div>
-             <div class="stat-label">Automated Content</div>
-          </div>
+            <div class="stat-value">${item.value}</div>
+            <div class="stat-label">${item.label}</div>
+          </div>`
+        )
+        .join("")}
         </div>
       </div>
 
@@ -545,28 +552,86 @@ export class AuthorshipCertificateGenerator {
   }
 
   /**
-   * Get certificate title based on type (Obsolete with new single title, but kept for interface compliance)
+   * Get certificate title based on type
    */
   private static getCertificateTitle(type?: string): string {
-    return "Certificate of Authorship and Academic Integrity";
+    switch (type) {
+      case "originality":
+        return "Certificate of Originality";
+      case "completion":
+        return "Certificate of Completion and Citation Integrity";
+      default:
+        return "Certificate of Authorship and Academic Integrity";
+    }
   }
 
   /**
    * Get default description based on certificate type
    */
-  private static getDefaultDescription(
-    type: string | undefined,
-    stats: any,
-    userName: string,
-    projectTitle: string
-  ): string {
+  private static getDefaultDescription(options: CertificateOptions, stats: any): string {
+    const projectTitle = options.projectTitle || "Untitled Project";
     const hours = Math.floor(stats.totalTimeInvestedMinutes / 60);
 
-    // Default to the new detailed description logic for all types as requested for MVP uniformity
-    return `This document certifies that <strong>${userName}</strong> has demonstrated genuine authorship of 
-            "<strong>${projectTitle || "Untitled Project"}</strong>" through over <strong>${hours} hours</strong> of documented manual work 
-        and <strong>${stats.manualEditsCount.toLocaleString()} tracked revisions</strong>, with <strong>${stats.aiAssistedPercentage}% detected automated content</strong>. 
-            This certificate validates the process of creation, ensuring transparency and academic honesty.`;
+    if (options.certificateType === "originality" && options.originality) {
+      const scan = options.originality;
+      return `<em>This document certifies that</em> '<strong>${projectTitle}</strong>' was checked for originality on 
+       <strong>${formatDate(scan.scannedAt)}</strong> and showed <strong>${scan.score}% similarity</strong> 
+       to <strong>${scan.sourceCount.toLocaleString()} ${scan.sourceCount === 1 ? "source" : "sources"}</strong> before any exclusion rules${scan.filteredScore !== scan.score ? ` (${scan.filteredScore}% after the author's exclusions)` : ""}. 
+       This certificate attests to the originality of the text as submitted at the time of the scan.`;
+    }
+
+    if (options.certificateType === "completion" && options.completion) {
+      const audit = options.completion.citationAudit;
+      return `<em>This document certifies that</em> the above-named individual completed 
+       '<strong>${projectTitle}</strong>' over <strong>${hours} hours</strong> of documented work across 
+       <strong>${stats.activeDays} active ${stats.activeDays === 1 ? "day" : "days"}</strong>, with 
+       <strong>${audit.matched} of ${audit.totalCitations} citations</strong> linked to ${audit.style} reference entries. 
+       This certificate validates the completeness of the work and the integrity of its citations.`;
+    }
+
+    // Logic for automated content text
+    const automatedContentText =
+      stats.aiAssistedPercentage === 0
+        ? "no automated content detected by the ColabWize platform"
+        : `${stats.aiAssistedPercentage}% detected automated content`;
+
+    // Exact requested phrasing
+    return `<em>This document certifies that</em> the above-named individual has demonstrated genuine authorship of 
+       '<strong>${projectTitle}</strong>' through over <strong>${hours} hours</strong> of documented manual work 
+       and <strong>${stats.manualEditsCount.toLocaleString()} tracked revisions</strong>, with <strong>${stats.automatedContentDetectText || automatedContentText}</strong>. 
+       This certificate validates the process of creation, ensuring transparency and academic honesty.`;
+  }
+
+  /**
+   * The three figures shown under the description, per certificate type
+   */
+  private static getStatItems(options: CertificateOptions, stats: any): Array<{ value: string; label: string }> {
+    const hours = Math.floor(stats.totalTimeInvestedMinutes / 60);
+    const automatedContent = stats.aiAssistedPercentage === 0 ? "0%" : stats.aiAssistedPercentage + "%";
+
+    if (options.certificateType === "originality" && options.originality) {
+      const scan = options.originality;
+      return [
+        { value: `${scan.score}%`, label: "Similarity Score" },
+        { value: scan.sourceCount.toLocaleString(), label: "Matched Sources" },
+        { value: formatDate(scan.scannedAt), label: "Scan Date" },
+      ];
+    }
+
+    if (options.certificateType === "completion" && options.completion) {
+      const audit = options.completion.citationAudit;
+      return [
+        { value: `Over ${hours} Hours`, label: "Logged Time" },
+        { value: `${audit.matched}/${audit.totalCitations}`, label: "Citations Verified" },
+        { value: automatedContent, label: "Automated Content" },
+      ];
+    }
+
+    return [
+      { value: `Over ${hours} Hours`, label: "Logged Time" },
+      { value: stats.manualEditsCount.toLocaleString(), label: "Total Revisions" },
+      { value: automatedContent, label: "Automated Content" },
+    ];
   }
 
   /**
@@ -606,7 +671,7 @@ export class AuthorshipCertificateGenerator {
   /**
    * Generate QR code as data URL
    */
-  private static async generateQRCodeDataURL(url: string): Promise<string> {
+  static async generateQRCodeDataURL(url: string): Promise<string> {
     try {
       const qrDataUrl = await QRCode.toDataURL(url, {
         errorCorrectionLevel: "H",
@@ -667,7 +732,7 @@ export class AuthorshipCertificateGenerator {
   /**
    * Helper to launch browser with fallbacks
    */
-  private static async launchBrowser() {
+  static async launchBrowser() {
     // Dynamic import to prevent startup blocking
     const puppeteerModule = await import("puppeteer");
     const puppeteer = puppeteerModule.default;
@@ -727,3 +792,11 @@ export class AuthorshipCertificateGenerator {
     }
   }
 }
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,321 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { ExportService } from "./exportService";
+import { ProjectAccessService } from "./projectAccessService";
+
+const MAX_EVENTS = 50000;
+const DEFAULT_SNAPSHOT_EVERY = 200; // Deltas between full-text snapshots in a replay stream
+const MIN_SNAPSHOT_EVERY = 100;
+const MAX_SNAPSHOT_CHARS = 5_000_000; // Snapshots are spaced further apart to stay under this in total
+const MERGE_GAP_MS = 1000; // Contiguous typing within this gap becomes one delta
+const RESYNC_SEARCH_RADIUS = 2000; // Characters around cursor_position searched for a drifted edit
+
+/**
+ * One change to the document: delete `d` characters at `p`, then insert `i` there.
+ * `t` is milliseconds since the first recorded change (kept short - streams are large).
+ */
+export interface ReplayDelta {
+  t: number;
+  p: number;
+  d: number;
+  i: string;
+}
+
+export interface ReplaySnapshot {
+  index: number; // Number of deltas applied before this snapshot
+  t: number;
+  text: string;
+}
+
+export interface ReplayIntegrity {
+  events: number;
+  appliedCleanly: number; // content_before found exactly at cursor_position
+  resynced: number; // content_before found near cursor_position
+  unmatched: number; // Applied at cursor_position without confirmation
+  matchesCurrentDocument: boolean; // Replay ends on the project's saved text
+}
+
+export interface ReplayStream {
+  projectId: string;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  snapshotEvery: number;
+  snapshots: ReplaySnapshot[];
+  deltas: ReplayDelta[];
+  integrity: ReplayIntegrity;
+}
+
+interface ReplayEvent {
+  timestamp: Date;
+  cursor_position: number | null;
+  content_before: string | null;
+  content_after: string | null;
+}
+
+/**
+ * Authorship Replay Service
+ * Rebuilds how a document was written from the change events in RealTimeActivity
+ * (content_before replaced by content_after at cursor_position). Events carrying
+ * the whole document are recognised as such; events whose content_before isn't
+ * where the cursor says are re-anchored nearby, and the replay reports how many
+ * changes applied cleanly so reviewers can judge its fidelity.
+ */
+export class AuthorshipReplayService {
+  /**
+   * The document as it stood at `at`
+   */
+  static async getStateAt(projectId: string, userId: string, at: Date) {
+    await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+
+    const events = await this.loadEvents(projectId, at);
+    const { text, integrity } = this.replay(events);
+
+    return {
+      projectId,
+      at,
+      text,
+      wordCount: text.split(/\s+/).filter(Boolean).length,
+      eventsApplied: events.length,
+      lastEventAt: events.length ? events[events.length - 1].timestamp : null,
+      integrity,
+    };
+  }
+
+  /**
+   * Compressed replay stream for scrubbing: periodic snapshots plus deltas
+   */
+  static async getReplayStream(
+    projectId: string,
+    userId: string,
+    options: { until?: Date; snapshotEvery?: number } = {}
+  ): Promise<ReplayStream> {
+    await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+    return this.buildStream(projectId, options.until, options.snapshotEvery);
+  }
+
+  /**
+   * Let (or stop letting) verifiers of a certificate view its project's replay
+   */
+  static async setCertificateReplaySharing(certificateId: string, userId: string, shared: boolean) {
+    const certificate = await prisma.certificate.findFirst({
+      where: { id: certificateId, user_id: userId },
+      select: { id: true, project_id: true },
+    });
+    if (!certificate) throw new Error("Certificate not found");
+    if (!certificate.project_id) throw new Error("Certificate is not linked to a project");
+
+    const updated = await prisma.certificate.update({
+      where: { id: certificateId },
+      data: { replay_shared: shared, replay_shared_at: shared ? new Date() : null },
+      select: { id: true, replay_shared: true, replay_shared_at: true },
+    });
+
+    logger.info("Certificate replay sharing changed", { certificateId, shared });
+
+    return {
+      certificateId: updated.id,
+      replayShared: updated.replay_shared,
+      replaySharedAt: updated.replay_shared_at,
+    };
+  }
+
+  /**
+   * Replay of a certified project up to the moment the certificate was issued,
+   * for verifiers - only when the owner has consented
+   */
+  static async getCertificateReplay(certificateId: string, snapshotEvery?: number): Promise<ReplayStream> {
+    const certificate = await prisma.certificate.findUnique({
+      where: { id: certificateId },
+      select: { project_id: true, replay_shared: true, created_at: true, status: true },
+    });
+
+    if (!certificate) throw new Error("Certificate not found");
+    if (certificate.status === "revoked") throw new Error("The certificate has been revoked");
+    if (!certificate.replay_shared || !certificate.project_id) {
+      throw new Error("The certificate owner has not shared the writing replay");
+    }
+
+    return this.buildStream(certificate.project_id, certificate.created_at, snapshotEvery);
+  }
+
+  private static async buildStream(projectId: string, until?: Date, snapshotEvery?: number): Promise<ReplayStream> {
+    const events = await this.loadEvents(projectId, until);
+    const startedAt = events.length ? events[0].timestamp : null;
+
+    const { text, deltas, integrity } = this.replay(events, startedAt);
+    const every = snapshotInterval(
+      deltas,
+      Math.max(MIN_SNAPSHOT_EVERY, Math.min(5000, snapshotEvery || DEFAULT_SNAPSHOT_EVERY))
+    );
+
+    // Snapshot i holds the text after `index` deltas; the frontend seeks to the
+    // nearest snapshot and applies the remaining deltas
+    const snapshots: ReplaySnapshot[] = [{ index: 0, t: 0, text: "" }];
+    let state = "";
+    deltas.forEach((delta, i) => {
+      state = applyDelta(state, delta);
+      if ((i + 1) % every === 0) snapshots.push({ index: i + 1, t: delta.t, text: state });
+    });
+
+    // The replay is only as good as the events; say whether it lands on the saved document
+    let matchesCurrentDocument = false;
+    if (!until || until >= new Date()) {
+      const project = await prisma.project.findUnique({ where: { id: projectId }, select: { content: true } });
+      matchesCurrentDocument = squash(ExportService.extractTextFromTipTap(project?.content)) === squash(text);
+    }
+
+    return {
+      projectId,
+      startedAt,
+      endedAt: events.length ? events[events.length - 1].timestamp : null,
+      snapshotEvery: every,
+      snapshots,
+      deltas,
+      integrity: { ...integrity, matchesCurrentDocument },
+    };
+  }
+
+  private static async loadEvents(projectId: string, until?: Date): Promise<ReplayEvent[]> {
+    return prisma.realTimeActivity.findMany({
+      where: {
+        project_id: projectId,
+        ...(until ? { timestamp: { lte: until } } : {}),
+        OR: [{ content_before: { not: null } }, { content_after: { not: null } }],
+      },
+      select: { timestamp: true, cursor_position: true, content_before: true, content_after: true },
+      orderBy: [{ timestamp: "asc" }, { created_at: "asc" }],
+      take: MAX_EVENTS,
+    });
+  }
+
+  private static replay(
+    events: ReplayEvent[],
+    startedAt: Date | null = null
+  ): { text: string; deltas: ReplayDelta[]; integrity: Omit<ReplayIntegrity, "matchesCurrentDocument"> } {
+    const integrity = { events: events.length, appliedCleanly: 0, resynced: 0, unmatched: 0 };
+    const deltas: ReplayDelta[] = [];
+    const origin = startedAt ? startedAt.getTime() : 0;
+    let text = "";
+
+    for (const event of events) {
+      const before = event.content_before || "";
+      const after = event.content_after || "";
+      let position: number;
+      let removed = before.length;
+
+      if (before && before === text) {
+        // Whole-document event
+        position = 0;
+        integrity.appliedCleanly++;
+      } else if (event.cursor_position !== null && text.startsWith(before, event.cursor_position)) {
+        position = event.cursor_position;
+        integrity.appliedCleanly++;
+      } else {
+        const found = before ? this.findNear(text, before, event.cursor_position ?? text.length) : -1;
+        if (found >= 0) {
+          position = found;
+          integrity.resynced++;
+        } else if (text && before.length >= text.length * 0.8) {
+          // A whole-document event after the replay drifted: take its text as the new state
+          position = 0;
+          removed = text.length;
+          integrity.resynced++;
+        } else {
+          // Trust the cursor; replace nothing we can't see
+          position = Math.min(Math.max(0, event.cursor_position ?? text.length), text.length);
+          removed = 0;
+          integrity.unmatched++;
+        }
+      }
+      const delta = minimalDelta(text, position, removed, after, event.timestamp.getTime() - origin);
+      if (!delta) continue;
+
+      text = applyDelta(text, delta);
+
+      // Merge contiguous typing into the previous delta
+      const previous = deltas[deltas.length - 1];
+      if (
+        previous &&
+        delta.d === 0 &&
+        previous.p + previous.i.length === delta.p &&
+        delta.t - previous.t <= MERGE_GAP_MS
+      ) {
+        previous.i += delta.i;
+        previous.t = delta.t;
+      } else {
+        deltas.push(delta);
+      }
+    }
+
+    return { text, deltas, integrity };
+  }
+
+  /**
+   * Closest occurrence of `needle` to `position` within the search radius
+   */
+  private static findNear(text: string, needle: string, position: number): number {
+    const from = Math.max(0, position - RESYNC_SEARCH_RADIUS);
+    const to = Math.min(text.length, position + RESYNC_SEARCH_RADIUS + needle.length);
+    const window = text.slice(from, to);
+
+    let best = -1;
+    for (let i = window.indexOf(needle); i >= 0; i = window.indexOf(needle, i + 1)) {
+      const candidate = from + i;
+      if (best < 0 || Math.abs(candidate - position) < Math.abs(best - position)) best = candidate;
+    }
+    return best;
+  }
+}
+
+/**
+ * Replace `removed` characters at `position` with `inserted`, trimmed to the
+ * part that actually changes (null when nothing does)
+ */
+function minimalDelta(text: string, position: number, removed: number, inserted: string, t: number): ReplayDelta | null {
+  const old = text.slice(position, position + removed);
+
+  let prefix = 0;
+  while (prefix < old.length && prefix < inserted.length && old[prefix] === inserted[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < old.length - prefix &&
+    suffix < inserted.length - prefix &&
+    old[old.length - 1 - suffix] === inserted[inserted.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const d = old.length - prefix - suffix;
+  const i = inserted.slice(prefix, inserted.length - suffix);
+  if (d === 0 && !i) return null;
+
+  return { t, p: position + prefix, d, i };
+}
+
+/**
+ * The requested snapshot interval, doubled until the snapshots' text fits in MAX_SNAPSHOT_CHARS
+ */
+function snapshotInterval(deltas: ReplayDelta[], requested: number): number {
+  const lengths: number[] = [];
+  let length = 0;
+  for (const delta of deltas) {
+    length = Math.max(0, length - delta.d) + delta.i.length;
+    lengths.push(length);
+  }
+
+  const totalChars = (every: number) =>
+    lengths.reduce((sum, l, i) => ((i + 1) % every === 0 ? sum + l : sum), 0);
+
+  let every = requested;
+  while (every < lengths.length && totalChars(every) > MAX_SNAPSHOT_CHARS) every *= 2;
+  return every;
+}
+
+function applyDelta(text: string, delta: ReplayDelta): string {
+  return text.slice(0, delta.p) + delta.i + text.slice(delta.p + delta.d);
+}
+
+function squash(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
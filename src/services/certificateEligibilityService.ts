@@ -0,0 +1,230 @@
+import { prisma } from "../lib/prisma";
+import { CitationStyle } from "../types/citationAudit";
+import { AuthorshipReportService, AuthorshipStats } from "./authorshipReportService";
+import { CitationMatcher } from "./citationAudit/citationMatcher";
+import { CITATION_PATTERN_TYPES } from "./citationAudit/CitationPatternObserver";
+import { CitationDocumentExtractor } from "./citationAudit/documentExtractor";
+import { getStyleRules, STYLE_RULES } from "./citationAudit/styleRules";
+import { SecretsService } from "./secrets-service";
+import { OriginalityExclusionService } from "./originalityExclusionService";
+import { OriginalityExclusionSettings } from "../types/originalityExclusions";
+import { ProjectVersionService } from "./projectVersionService";
+
+export type CertificateType = "authorship" | "originality" | "completion";
+
+export interface OriginalityEvidence {
+  scanId: string;
+  score: number; // Similarity percentage before exclusion rules - what the limit applies to
+  filteredScore: number; // After the user's exclusion rules, for reference
+  exclusions: OriginalityExclusionSettings; // Rules behind filteredScore
+  classification: string;
+  sourceCount: number; // Distinct sources among all matches
+  matchCount: number;
+  scannedAt: Date;
+  provider: string | null;
+  contentHash: string; // The scanned text, which is the project's current text
+}
+
+/**
+ * Structural (Tier 1) citation audit of the saved document - the part of
+ * /api/citations/audit that needs no external lookups
+ */
+export interface CitationAuditEvidence {
+  style: CitationStyle;
+  totalCitations: number;
+  matched: number;
+  unmatched: number;
+  orphanReferences: number;
+  styleViolations: number;
+  referenceSectionFound: boolean;
+  matchRate: number; // 0-1 share of inline citations linked to a reference entry
+}
+
+export interface CompletionEvidence {
+  stats: AuthorshipStats;
+  citationAudit: CitationAuditEvidence;
+}
+
+export interface CertificateEligibility {
+  certificateType: CertificateType;
+  eligible: boolean;
+  failures: string[]; // Why the project does not qualify yet
+  originality?: OriginalityEvidence;
+  completion?: CompletionEvidence;
+}
+
+/**
+ * Certificate Eligibility Service
+ * Originality and completion certificates attest to results, not just activity:
+ * an originality certificate needs a recent scan under the similarity limit, a
+ * completion certificate a clean citation audit and limited AI assistance. The
+ * limits come from CERTIFICATE_* settings (see SecretsService). The evidence
+ * gathered here is what the certificate prints.
+ */
+export class CertificateEligibilityService {
+  static async check(projectId: string, userId: string, certificateType: CertificateType): Promise<CertificateEligibility> {
+    if (certificateType === "originality") return this.checkOriginality(projectId);
+    if (certificateType === "completion") return this.checkCompletion(projectId, userId);
+    return { certificateType, eligible: true, failures: [] };
+  }
+
+  /**
+   * Evidence for a certificate, or an error listing the checks that failed
+   */
+  static async assertEligible(projectId: string, userId: string, certificateType: CertificateType) {
+    const eligibility = await this.check(projectId, userId, certificateType);
+    if (!eligibility.eligible) {
+      throw new Error(`Project does not qualify for a ${certificateType} certificate: ${eligibility.failures.join("; ")}`);
+    }
+    return eligibility;
+  }
+
+  private static async checkOriginality(projectId: string): Promise<CertificateEligibility> {
+    const thresholds = await SecretsService.getCertificateThresholds();
+    const failures: string[] = [];
+
+    const [project, scan] = await Promise.all([
+      prisma.project.findUnique({ where: { id: projectId }, select: { content: true } }),
+      prisma.originalityScan.findFirst({
+        where: { project_id: projectId, scan_status: "completed" },
+        orderBy: { scanned_at: "desc" },
+        include: { matches: { select: { matched_source: true } } },
+      }),
+    ]);
+    if (!project) throw new Error("Project not found");
+
+    if (!scan) {
+      return {
+        certificateType: "originality",
+        eligible: false,
+        failures: ["No completed originality scan - run a scan first"],
+      };
+    }
+
+    // The certificate vouches for the current text, so the scan must have seen exactly that
+    if (normalizeText(scan.scanned_content || "") !== normalizeText(ProjectVersionService.toPlainText(project.content))) {
+      failures.push("The document has changed since the latest scan - scan it again");
+    }
+    // The offline provider only compares against local documents, never the web
+    if (scan.provider === "local" || scan.degraded) {
+      failures.push("The latest scan did not search the web (provider unavailable) - scan it again");
+    }
+
+    const ageDays = (Date.now() - new Date(scan.scanned_at).getTime()) / (24 * 60 * 60 * 1000);
+    if (ageDays > thresholds.maxScanAgeDays) {
+      failures.push(`Latest scan is ${Math.floor(ageDays)} days old (at most ${thresholds.maxScanAgeDays} allowed)`);
+    }
+
+    // Exclusion rules are the user's to set, so the limit applies to the unfiltered score
+    const rawScore = scan.raw_score ?? scan.overall_score;
+    if (rawScore > thresholds.maxSimilarityScore) {
+      failures.push(
+        `Similarity score ${Math.round(rawScore)}% (before exclusions) exceeds the ${thresholds.maxSimilarityScore}% limit`
+      );
+    }
+
+    return {
+      certificateType: "originality",
+      eligible: failures.length === 0,
+      failures,
+      originality: {
+        scanId: scan.id,
+        score: Math.round(rawScore * 10) / 10,
+        filteredScore: Math.round(scan.overall_score * 10) / 10,
+        exclusions: OriginalityExclusionService.validate(scan.exclusion_settings),
+        classification: scan.classification,
+        sourceCount: new Set(scan.matches.map((m: any) => m.matched_source)).size,
+        matchCount: scan.matches.length,
+        scannedAt: scan.scanned_at,
+        provider: scan.provider,
+        contentHash: scan.content_hash,
+      },
+    };
+  }
+
+  private static async checkCompletion(projectId: string, userId: string): Promise<CertificateEligibility> {
+    const thresholds = await SecretsService.getCertificateThresholds();
+    const failures: string[] = [];
+
+    const [stats, citationAudit] = await Promise.all([
+      AuthorshipReportService.generateAuthorshipReport(projectId, userId),
+      this.auditCitations(projectId),
+    ]);
+
+    if (citationAudit.totalCitations === 0) {
+      failures.push("The document has no citations");
+    } else if (citationAudit.matchRate < thresholds.minCitationMatchRate) {
+      failures.push(
+        `${citationAudit.unmatched} of ${citationAudit.totalCitations} citations have no reference entry ` +
+          `(at least ${Math.round(thresholds.minCitationMatchRate * 100)}% must match)`
+      );
+    }
+    if (!citationAudit.referenceSectionFound) {
+      failures.push("No reference section found");
+    }
+    if (stats.aiAssistedPercentage > thresholds.maxAiAssistedPercentage) {
+      failures.push(
+        `AI-assisted content is ${stats.aiAssistedPercentage}% (at most ${thresholds.maxAiAssistedPercentage}% allowed)`
+      );
+    }
+
+    return {
+      certificateType: "completion",
+      eligible: failures.length === 0,
+      failures,
+      completion: { stats, citationAudit },
+    };
+  }
+
+  private static async auditCitations(projectId: string): Promise<CitationAuditEvidence> {
+    const [project, citations] = await Promise.all([
+      prisma.project.findUnique({ where: { id: projectId }, select: { content: true, citation_style: true } }),
+      prisma.citation.findMany({
+        where: { project_id: projectId },
+        select: { id: true, title: true, author: true, year: true },
+      }),
+    ]);
+    if (!project) throw new Error("Project not found");
+
+    const style = resolveStyle(project.citation_style);
+    const library: Record<string, any> = Object.fromEntries(
+      citations.map((c: any) => [c.id, { title: c.title, author: c.author, year: c.year }])
+    );
+
+    const { patterns, referenceList } = CitationDocumentExtractor.fromTiptap(project.content, library);
+    const rules = getStyleRules(style);
+    const inline = patterns.filter((p) => CITATION_PATTERN_TYPES.includes(p.patternType));
+    const entries = referenceList?.entries || [];
+
+    const pairs = CitationMatcher.matchCitations(inline, entries, style, library);
+    const matched = pairs.filter((pair) => pair.reference).length;
+    const citedReferences = new Set(pairs.map((pair) => pair.reference?.index).filter((i) => i !== undefined));
+
+    return {
+      style,
+      totalCitations: inline.length,
+      matched,
+      unmatched: inline.length - matched,
+      orphanReferences: entries.length - citedReferences.size,
+      styleViolations: patterns.filter((p) => rules.disallowedInlinePatterns.includes(p.patternType)).length,
+      referenceSectionFound: !!referenceList,
+      matchRate: inline.length ? Math.round((matched / inline.length) * 100) / 100 : 0,
+    };
+  }
+}
+
+/**
+ * The words of a text: the editor's plain text and the text extracted from stored
+ * content differ in whitespace, punctuation and list numbering only
+ */
+function normalizeText(text: string): string {
+  return (text.toLowerCase().match(/\p{L}[\p{L}\p{N}]*/gu) || []).join(" ");
+}
+
+/**
+ * Projects store the style lowercase ("apa"); the audit rules are keyed "APA"
+ */
+function resolveStyle(style: string | null | undefined): CitationStyle {
+  const key = Object.keys(STYLE_RULES).find((s) => s.toLowerCase() === (style || "apa").toLowerCase());
+  return (key || "APA") as CitationStyle;
+}
@@ -0,0 +1,206 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { AuthorshipCertificateGenerator } from "./authorshipCertificateGenerator";
+import { AuthorshipReportService } from "./authorshipReportService";
+import { CertificateEligibilityService } from "./certificateEligibilityService";
+import { CertificateLifecycleService } from "./certificateLifecycleService";
+import { CertificateSigningService } from "./certificateSigningService";
+import { ExportService } from "./exportService";
+import { SubscriptionService } from "./subscriptionService";
+import { SecretsService } from "./secrets-service";
+import { randomUUID } from "crypto";
+import { ProgressReporter } from "../types/progress";
+
+export interface CertificateGenerationRequest {
+  projectId: string;
+  userId: string;
+  certificateType?: "authorship" | "originality" | "completion";
+  includeQRCode?: boolean;
+  previousCertificateId?: string; // Re-issue: supersede this certificate once the new one exists
+}
+
+/**
+ * Certificate Generation Service
+ * Renders a certificate (HTML -> PDF + preview image via Puppeteer), uploads both
+ * to storage and records the certificate. Runs as a background job; see the
+ * `certificate_generation` job handler.
+ */
+export class CertificateGenerationService {
+  static async generateAndStore(
+    request: CertificateGenerationRequest,
+    onProgress?: ProgressReporter
+  ) {
+    const { projectId, userId, certificateType = "authorship", includeQRCode = true, previousCertificateId } = request;
+
+    // The previous certificate may have been revoked or re-issued since the job was queued
+    if (previousCertificateId) {
+      await CertificateLifecycleService.assertReissuable(previousCertificateId, userId);
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    const prismaUser = await prisma.user.findUnique({ where: { id: userId } });
+    if (!prismaUser) {
+      throw new Error("User profile not found");
+    }
+
+    // Fetch plan details for metadata and watermark logic
+    const plan = await SubscriptionService.getActivePlan(userId);
+    const limits = SubscriptionService.getPlanLimits(plan);
+
+    // Originality and completion certificates are only issued when their checks pass
+    await onProgress?.({ stage: "checking_eligibility", message: "Checking certificate requirements", progress: 5 });
+    const eligibility = await CertificateEligibilityService.assertEligible(projectId, userId, certificateType);
+
+    await onProgress?.({ stage: "collecting_statistics", message: "Collecting authorship statistics", progress: 10 });
+    const stats =
+      eligibility.completion?.stats ?? (await AuthorshipReportService.generateAuthorshipReport(projectId, userId));
+
+    // The id exists before rendering so the QR code can point at this certificate
+    const certificateId = randomUUID();
+    const frontendUrl = await SecretsService.getFrontendUrl();
+    const verificationUrl = `${frontendUrl}/verify/${certificateId}`;
+    const qrCodeDataUrl = includeQRCode
+      ? await import("qrcode").then((qr) =>
+        qr.default.toDataURL(verificationUrl, {
+          errorCorrectionLevel: "H",
+          margin: 1,
+          width: 200,
+          color: { dark: "#000000", light: "#FFFFFF" },
+        })
+      )
+      : null;
+
+    // Generate HTML first (reused for both PDF and preview)
+    const html = await AuthorshipCertificateGenerator.generateCertificateHTML(
+      {
+        certificateId,
+        projectId,
+        userId,
+        userName: prismaUser.full_name || "ColabWize User",
+        projectTitle: project.title || "Untitled Project",
+        certificateType,
+        includeQRCode,
+        verificationUrl,
+        watermark: limits.watermark,
+        originality: eligibility.originality,
+        completion: eligibility.completion,
+      },
+      stats,
+      qrCodeDataUrl
+    );
+
+    await onProgress?.({ stage: "rendering_pdf", message: "Rendering PDF", progress: 30 });
+    const buffer = await AuthorshipCertificateGenerator.convertHTMLToPDF(html);
+
+    await onProgress?.({ stage: "rendering_preview", message: "Rendering preview", progress: 60 });
+    const previewBuffer = await AuthorshipCertificateGenerator.generatePreviewImage(html);
+
+    await onProgress?.({ stage: "uploading", message: "Uploading certificate", progress: 80 });
+    const { SupabaseStorageService } = await import("./supabaseStorageService");
+
+    // Upload PDF to Supabase
+    const fileName = `certificate-${projectId}-${randomUUID()}.pdf`;
+    const { path: pdfPath } = await SupabaseStorageService.uploadFile(
+      buffer,
+      fileName,
+      "application/pdf",
+      userId,
+      {
+        userId,
+        fileName,
+        fileType: "application/pdf",
+        fileSize: buffer.length,
+        projectId,
+        createdAt: new Date(),
+      }
+    );
+
+    // Upload Preview Image to Supabase
+    const previewFileName = `preview-${projectId}-${randomUUID()}.png`;
+    const { publicUrl: previewPublicUrl } = await SupabaseStorageService.uploadFile(
+      previewBuffer,
+      previewFileName,
+      "image/png",
+      userId,
+      {
+        userId,
+        fileName: previewFileName,
+        fileType: "image/png",
+        fileSize: previewBuffer.length,
+        projectId,
+        createdAt: new Date(),
+      }
+    );
+
+    // Sign the certificate's claims so they can be verified without trusting our database
+    const issuedAt = new Date();
+    const signed = await CertificateSigningService.signCertificate({
+      certificateId,
+      certificateType,
+      issuedAt,
+      userId,
+      userName: prismaUser.full_name || "ColabWize User",
+      projectId,
+      projectTitle: project.title || "Untitled Project",
+      documentText: ExportService.extractTextFromTipTap(project.content),
+      stats,
+      supersedes: previousCertificateId,
+      originality: eligibility.originality,
+      citationAudit: eligibility.completion?.citationAudit,
+    });
+
+    // Create Certificate Record with preview URL
+    const create = prisma.certificate.create({
+      data: {
+        id: certificateId,
+        created_at: issuedAt,
+        user_id: userId,
+        project_id: projectId,
+        title: `${certificateType} Certificate - ${project.title}`,
+        file_name: fileName,
+        file_path: pdfPath, // Path in Supabase bucket
+        file_size: buffer.length,
+        status: "issued",
+        previous_certificate_id: previousCertificateId,
+        certificate_type: certificateType,
+        metadata: {
+          generated_at: new Date().toISOString(),
+          plan_at_generation: plan,
+          previewUrl: previewPublicUrl, // Public URL for frontend display
+          ...(eligibility.originality ? { originality: eligibility.originality } : {}),
+          ...(eligibility.completion ? { citation_audit: eligibility.completion.citationAudit } : {}),
+        },
+        manifest: (signed?.manifest as any) ?? undefined,
+        signature: signed?.signature,
+        signing_key_id: signed?.keyId,
+        content_hash: signed?.contentHash,
+      },
+    });
+    const [certificate] = previousCertificateId
+      ? await prisma.$transaction([
+        create,
+        CertificateLifecycleService.supersedeOperation(previousCertificateId, certificateId),
+      ])
+      : [await create];
+
+    logger.info("Certificate generated and stored", {
+      certificateId: certificate.id,
+      signed: !!signed,
+      supersedes: previousCertificateId,
+      projectId,
+      userId,
+    });
+
+    return {
+      certificateId: certificate.id,
+      fileName,
+      fileSize: buffer.length,
+      previewUrl: previewPublicUrl,
+      downloadPath: `/api/authorship/certificates/${certificate.id}/download`,
+    };
+  }
+}
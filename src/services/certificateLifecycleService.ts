@@ -0,0 +1,209 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { JobQueueService } from "./jobQueueService";
+import { SecretsService } from "./secrets-service";
+
+export type CertificateStatus = "issued" | "superseded" | "revoked" | "expired";
+
+export interface CertificateLifecycle {
+  status: CertificateStatus;
+  statusReason: string | null;
+  statusChangedAt: Date | null;
+  previousCertificateId: string | null;
+  supersededBy: string | null;
+  latestValidCertificateId: string | null; // End of the re-issue chain, if it is still issued
+}
+
+const MAX_CHAIN_LENGTH = 100;
+
+/**
+ * Certificate Lifecycle Service
+ * A certificate is issued, and may later be superseded (re-issued after the
+ * project changed), revoked (withdrawn, e.g. after the work was found to be
+ * misrepresented) or expired (past the plan's retention; the PDF is gone but
+ * the record stays verifiable). Re-issued certificates link to the one they
+ * replace, so a verifier holding an old certificate can find the current one.
+ */
+export class CertificateLifecycleService {
+  /**
+   * Revoke a certificate. Owners can revoke their own; administrators (ADMIN_USER_IDS) any.
+   */
+  static async revoke(certificateId: string, userId: string, reason: string) {
+    const certificate = await prisma.certificate.findUnique({
+      where: { id: certificateId },
+      select: { id: true, user_id: true, status: true },
+    });
+
+    if (!certificate || (certificate.user_id !== userId && !(await this.isAdmin(userId)))) {
+      throw new Error("Certificate not found");
+    }
+    if (certificate.status === "revoked") {
+      throw new Error("Certificate is already revoked");
+    }
+
+    const updated = await prisma.certificate.update({
+      where: { id: certificateId },
+      data: {
+        status: "revoked",
+        status_reason: reason,
+        status_changed_at: new Date(),
+        status_changed_by: userId,
+      },
+    });
+
+    logger.info("Certificate revoked", { certificateId, revokedBy: userId, byOwner: certificate.user_id === userId });
+
+    return updated;
+  }
+
+  /**
+   * Queue a new certificate for the same project that supersedes this one once
+   * generated. `previous` is the certificate returned by assertReissuable.
+   */
+  static async reissue(
+    previous: { id: string; project_id: string | null; certificate_type: string },
+    userId: string
+  ) {
+    return JobQueueService.enqueue(
+      "certificate_generation",
+      userId,
+      {
+        projectId: previous.project_id,
+        certificateType: previous.certificate_type,
+        previousCertificateId: previous.id,
+      },
+      { projectId: previous.project_id ?? undefined }
+    );
+  }
+
+  /**
+   * Throws when a re-issue of the certificate is already queued or running;
+   * only one certificate can supersede it (previous_certificate_id is unique)
+   */
+  static async assertNoPendingReissue(certificateId: string) {
+    const pending = await prisma.job.findFirst({
+      where: {
+        type: "certificate_generation",
+        status: { in: ["queued", "running"] },
+        payload: { path: ["previousCertificateId"], equals: certificateId },
+      },
+      select: { id: true },
+    });
+
+    if (pending) throw new Error(`Certificate is already being re-issued (job ${pending.id})`);
+  }
+
+  /**
+   * The certificate the user wants to re-issue - theirs, linked to a project,
+   * not revoked and not already superseded
+   */
+  static async assertReissuable(certificateId: string, userId: string) {
+    const certificate = await prisma.certificate.findFirst({
+      where: { id: certificateId, user_id: userId },
+      select: {
+        id: true,
+        project_id: true,
+        certificate_type: true,
+        status: true,
+        superseded_by: { select: { id: true } },
+      },
+    });
+
+    if (!certificate) throw new Error("Certificate not found");
+    if (!certificate.project_id) throw new Error("Certificate is not linked to a project");
+    if (certificate.status === "revoked") throw new Error("Revoked certificates cannot be re-issued");
+    if (certificate.superseded_by) throw new Error("Certificate has already been re-issued");
+
+    return certificate;
+  }
+
+  /**
+   * The update marking a certificate superseded by its re-issue; run it in the
+   * same transaction that creates the new certificate
+   */
+  static supersedeOperation(previousCertificateId: string, newCertificateId: string) {
+    return prisma.certificate.update({
+      where: { id: previousCertificateId },
+      data: {
+        status: "superseded",
+        status_reason: `Re-issued as ${newCertificateId}`,
+        status_changed_at: new Date(),
+        status_changed_by: null,
+      },
+    });
+  }
+
+  /**
+   * Certificates matching `where` that can still expire (issued or superseded)
+   */
+  static async findExpirable(where: Record<string, any>) {
+    return prisma.certificate.findMany({
+      where: { ...where, status: { in: ["issued", "superseded"] } },
+      select: { id: true, file_path: true },
+    });
+  }
+
+  /**
+   * Mark a certificate past retention as expired, once its stored file is gone
+   */
+  static async markExpired(certificateId: string) {
+    await prisma.certificate.updateMany({
+      where: { id: certificateId, status: { in: ["issued", "superseded"] } },
+      data: {
+        status: "expired",
+        status_reason: "Retention period ended",
+        status_changed_at: new Date(),
+        status_changed_by: null,
+      },
+    });
+  }
+
+  /**
+   * Status, reason and re-issue links of a certificate, for verifiers
+   */
+  static async describe(certificate: {
+    id: string;
+    status: string;
+    status_reason?: string | null;
+    status_changed_at?: Date | null;
+    previous_certificate_id?: string | null;
+  }): Promise<CertificateLifecycle> {
+    const chain = await this.followReissues(certificate.id);
+    const latest = chain[chain.length - 1];
+
+    return {
+      status: certificate.status as CertificateStatus,
+      statusReason: certificate.status_reason ?? null,
+      statusChangedAt: certificate.status_changed_at ?? null,
+      previousCertificateId: certificate.previous_certificate_id ?? null,
+      supersededBy: chain.length > 1 ? chain[1].id : null,
+      latestValidCertificateId: latest?.status === "issued" ? latest.id : null,
+    };
+  }
+
+  /**
+   * The certificate followed by each one that re-issued it, oldest first
+   */
+  private static async followReissues(certificateId: string): Promise<Array<{ id: string; status: string }>> {
+    const chain: Array<{ id: string; status: string }> = [];
+    let next: string | null = certificateId;
+
+    while (next && chain.length < MAX_CHAIN_LENGTH) {
+      const current: any = await prisma.certificate.findUnique({
+        where: { id: next },
+        select: { id: true, status: true, superseded_by: { select: { id: true } } },
+      });
+      if (!current) break;
+
+      chain.push({ id: current.id, status: current.status });
+      next = current.superseded_by?.id ?? null;
+    }
+
+    return chain;
+  }
+
+  private static async isAdmin(userId: string): Promise<boolean> {
+    const adminUserIds = await SecretsService.getAdminUserIds();
+    return adminUserIds.includes(userId);
+  }
+}
@@ -1,10 +1,11 @@
 import { prisma } from "../lib/prisma";
 import logger from "../monitoring/logger";
+import { CertificateLifecycleService } from "./certificateLifecycleService";
 import { SubscriptionService } from "./subscriptionService";
 
 /**
  * Certificate Retention Service
- * Handles automatic deletion of old certificates based on plan limits
+ * Handles automatic expiry of old certificates based on plan limits
  */
 export class CertificateRetentionService {
   /**
@@ -22,48 +23,51 @@ export class CertificateRetentionService {
         return 0;
       }
 
-      // 0 = no retention (delete immediately after download/creation)
+      // 0 = no retention (expire one day after download/creation)
+      const cutoffDate = new Date();
       if (retentionDays === 0) {
-        const deleted = await prisma.certificate.deleteMany({
-          where: {
-            user_id: userId,
-            created_at: {
-              lt: new Date(Date.now() - 24 * 60 * 60 * 1000), // Older than 1 day
-            },
-          },
-        });
-
-        logger.info("Deleted pay-as-you-go certificates", {
-          userId,
-          count: deleted.count,
-        });
-        return deleted.count;
+        cutoffDate.setTime(cutoffDate.getTime() - 24 * 60 * 60 * 1000);
+      } else {
+        cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
       }
 
-      // Calculate cutoff date
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
-
-      // Delete certificates older than retention period
-      const deleted = await prisma.certificate.deleteMany({
-        where: {
-          user_id: userId,
-          created_at: {
-            lt: cutoffDate,
-          },
+      // Expire (rather than delete) certificates older than the retention period:
+      // the PDF is removed, the record stays so verifiers see why it is no longer valid
+      const due = await CertificateLifecycleService.findExpirable({
+        user_id: userId,
+        created_at: {
+          lt: cutoffDate,
         },
       });
-
-      if (deleted.count > 0) {
-        logger.info("Cleaned up expired certificates", {
-          userId,
-          plan,
-          retentionDays,
-          deletedCount: deleted.count,
-        });
+      if (!due.length) return 0;
+
+      // One certificate at a time: the status only changes once its file is deleted,
+      // so a failed deletion leaves it for the next run instead of stranding the file
+      const { SupabaseStorageService } = await import("./supabaseStorageService");
+      let expiredCount = 0;
+      for (const certificate of due) {
+        try {
+          await SupabaseStorageService.deleteFile(certificate.file_path);
+          await CertificateLifecycleService.markExpired(certificate.id);
+          expiredCount++;
+        } catch (error: any) {
+          logger.warn("Failed to expire certificate; will retry on the next run", {
+            userId,
+            certificateId: certificate.id,
+            error: error.message,
+          });
+        }
       }
 
-      return deleted.count;
+      logger.info("Expired certificates past retention", {
+        userId,
+        plan,
+        retentionDays,
+        expiredCount,
+        failedCount: due.length - expiredCount,
+      });
+
+      return expiredCount;
     } catch (error: any) {
       logger.error("Error cleaning up certificates", {
         userId,
@@ -84,15 +88,16 @@ export class CertificateRetentionService {
         select: { id: true },
       });
 
-      let totalDeleted = 0;
+      let totalExpired = 0;
       for (const user of users) {
-        const deleted = await this.cleanupExpiredCertificates(user.id);
-        totalDeleted += deleted;
+        // Already logged; one user's failure must not stop the others
+        const expired = await this.cleanupExpiredCertificates(user.id).catch(() => 0);
+        totalExpired += expired;
       }
 
       logger.info("Certificate cleanup job completed", {
         usersProcessed: users.length,
-        certificatesDeleted: totalDeleted,
+        certificatesExpired: totalExpired,
       });
     } catch (error: any) {
       logger.error("Error in certificate cleanup job", {
@@ -116,6 +121,7 @@ export class CertificateRetentionService {
         id: true,
         created_at: true,
         title: true,
+        status: true,
       },
     });
 
@@ -131,6 +137,7 @@ export class CertificateRetentionService {
       certificates: certificates.map((cert: any) => ({
         id: cert.id,
         title: cert.title,
+        status: cert.status,
         created_at: cert.created_at,
         expires_at:
           retentionDays > 0
@@ -0,0 +1,313 @@
+import crypto, { KeyObject } from "crypto";
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { AuthorshipStats } from "./authorshipReportService";
+import { CitationAuditEvidence, OriginalityEvidence } from "./certificateEligibilityService";
+import { FingerprintService } from "./fingerprintService";
+import { SecretsService } from "./secrets-service";
+
+const MANIFEST_VERSION = 2; // 2: originality and citation audit claims
+const SIGNATURE_ALGORITHM = "Ed25519";
+const CONTENT_NORMALIZATION = "nfc-collapse-whitespace-v1";
+const FINGERPRINT_WINDOW = 8;
+const FINGERPRINT_SAMPLE_SIZE = 128; // Smallest window hashes - a stable sample for fuzzy document matching
+const SIMILAR_DOCUMENT_THRESHOLD = 0.8;
+
+/**
+ * The signed claims of a certificate. Everything a verifier needs is in here;
+ * the signature covers its canonical JSON (keys sorted, no whitespace).
+ */
+export interface CertificateManifest {
+  version: number;
+  certificateId: string;
+  certificateType: string;
+  issuedAt: string;
+  issuer: string;
+  keyId: string;
+  supersedes?: string; // Certificate this one re-issues
+  subject: { userId: string; name: string };
+  document: {
+    projectId: string;
+    title: string;
+    wordCount: number;
+    contentHash: string; // SHA-256 (hex) of the normalized plain text
+    hashAlgorithm: "sha256";
+    normalization: string;
+    fingerprints: string[]; // 8-word window hash sample, for matching re-exported copies
+  };
+  activity: {
+    totalTimeInvestedMinutes: number;
+    totalSessions: number;
+    activeDays: number;
+    manualEditsCount: number;
+    aiAssistedPercentage: number;
+    firstEditDate: string | null;
+    lastEditDate: string | null;
+  };
+  // Originality certificates: the scan the certificate vouches for
+  originality?: {
+    scanId: string;
+    provider: string | null;
+    scannedAt: string;
+    score: number; // Before exclusion rules - what the similarity limit applies to
+    filteredScore: number;
+    exclusions: OriginalityEvidence["exclusions"];
+    classification: string;
+    sourceCount: number;
+    matchCount: number;
+  };
+  citationAudit?: CitationAuditEvidence; // Completion certificates
+}
+
+export interface SignatureVerification {
+  signed: boolean;
+  signatureValid: boolean;
+  keyId: string | null;
+  keyRetired: boolean; // Signed with a rotated-out key (still valid)
+  reason?: string;
+}
+
+export interface DocumentMatch {
+  match: "exact" | "similar" | "different";
+  similarity: number; // 0-1 share of the signed fingerprint sample found in the document
+}
+
+interface SigningKey {
+  keyId: string;
+  privateKey: KeyObject;
+}
+
+let signingKey: SigningKey | null = null;
+
+/**
+ * Certificate Signing Service
+ * Signs certificate manifests with the platform's Ed25519 key and verifies them.
+ * Public keys are kept (never deleted) in CertificateSigningKey, so rotating
+ * CERTIFICATE_SIGNING_KEY retires the old key without invalidating certificates
+ * it signed; verifiers can fetch the public keys and check manifests themselves.
+ */
+export class CertificateSigningService {
+  /**
+   * Build and sign the manifest for a new certificate; null when no signing key
+   * is configured (the certificate is then issued unsigned)
+   */
+  static async signCertificate(params: {
+    certificateId: string;
+    certificateType: string;
+    issuedAt: Date;
+    userId: string;
+    userName: string;
+    projectId: string;
+    projectTitle: string;
+    documentText: string;
+    stats: AuthorshipStats;
+    supersedes?: string;
+    originality?: OriginalityEvidence;
+    citationAudit?: CitationAuditEvidence;
+  }): Promise<{ manifest: CertificateManifest; signature: string; keyId: string; contentHash: string } | null> {
+    const key = await this.getSigningKey();
+    if (!key) {
+      logger.warn("CERTIFICATE_SIGNING_KEY not configured - issuing unsigned certificate", {
+        certificateId: params.certificateId,
+      });
+      return null;
+    }
+
+    const contentHash = this.contentHash(params.documentText);
+    const manifest: CertificateManifest = {
+      version: MANIFEST_VERSION,
+      certificateId: params.certificateId,
+      certificateType: params.certificateType,
+      issuedAt: params.issuedAt.toISOString(),
+      issuer: "ColabWize",
+      keyId: key.keyId,
+      supersedes: params.supersedes,
+      subject: { userId: params.userId, name: params.userName },
+      document: {
+        projectId: params.projectId,
+        title: params.projectTitle,
+        wordCount: params.stats.wordCount,
+        contentHash,
+        hashAlgorithm: "sha256",
+        normalization: CONTENT_NORMALIZATION,
+        fingerprints: this.fingerprintSample(params.documentText),
+      },
+      activity: {
+        totalTimeInvestedMinutes: params.stats.totalTimeInvestedMinutes,
+        totalSessions: params.stats.totalSessions,
+        activeDays: params.stats.activeDays,
+        manualEditsCount: params.stats.manualEditsCount,
+        aiAssistedPercentage: params.stats.aiAssistedPercentage,
+        firstEditDate: toIsoOrNull(params.stats.firstEditDate),
+        lastEditDate: toIsoOrNull(params.stats.lastEditDate),
+      },
+      originality: params.originality && {
+        scanId: params.originality.scanId,
+        provider: params.originality.provider,
+        scannedAt: new Date(params.originality.scannedAt).toISOString(),
+        score: params.originality.score,
+        filteredScore: params.originality.filteredScore,
+        exclusions: params.originality.exclusions,
+        classification: params.originality.classification,
+        sourceCount: params.originality.sourceCount,
+        matchCount: params.originality.matchCount,
+      },
+      citationAudit: params.citationAudit && { ...params.citationAudit },
+    };
+
+    const signature = crypto
+      .sign(null, Buffer.from(canonicalJson(manifest)), key.privateKey)
+      .toString("base64url");
+
+    return { manifest, signature, keyId: key.keyId, contentHash };
+  }
+
+  /**
+   * Check a manifest's signature against the published key it names
+   */
+  static async verifyManifest(manifest: any, signature: string | null | undefined): Promise<SignatureVerification> {
+    if (!manifest || !signature) {
+      return { signed: false, signatureValid: false, keyId: null, keyRetired: false, reason: "Certificate is not signed" };
+    }
+
+    const keyId = typeof manifest.keyId === "string" ? manifest.keyId : null;
+    const key = keyId ? await prisma.certificateSigningKey.findUnique({ where: { id: keyId } }) : null;
+    if (!key) {
+      return { signed: true, signatureValid: false, keyId, keyRetired: false, reason: "Unknown signing key" };
+    }
+
+    let valid = false;
+    try {
+      valid = crypto.verify(
+        null,
+        Buffer.from(canonicalJson(manifest)),
+        crypto.createPublicKey(key.public_key),
+        Buffer.from(signature, "base64url")
+      );
+    } catch (error: any) {
+      logger.warn("Certificate signature check failed", { keyId, error: error.message });
+    }
+
+    return {
+      signed: true,
+      signatureValid: valid,
+      keyId,
+      keyRetired: !!key.retired_at,
+      ...(valid ? {} : { reason: "Signature does not match the manifest" }),
+    };
+  }
+
+  /**
+   * Does a document a verifier holds match the one that was certified?
+   */
+  static matchDocument(manifest: CertificateManifest, documentText: string): DocumentMatch {
+    if (this.contentHash(documentText) === manifest.document.contentHash) {
+      return { match: "exact", similarity: 1 };
+    }
+
+    // Exports and PDF extraction change layout; fall back to the signed fingerprint sample
+    const signed = manifest.document.fingerprints || [];
+    if (!signed.length) return { match: "different", similarity: 0 };
+
+    const present = FingerprintService.generateFingerprints(documentText, FINGERPRINT_WINDOW);
+    const similarity = signed.filter((f) => present.has(f)).length / signed.length;
+
+    return {
+      match: similarity >= SIMILAR_DOCUMENT_THRESHOLD ? "similar" : "different",
+      similarity: Math.round(similarity * 100) / 100,
+    };
+  }
+
+  /**
+   * Published verification keys, newest first
+   */
+  static async listPublicKeys() {
+    const keys = await prisma.certificateSigningKey.findMany({ orderBy: { created_at: "desc" } });
+    return keys.map((key: any) => ({
+      keyId: key.id,
+      algorithm: key.algorithm,
+      publicKey: key.public_key,
+      createdAt: key.created_at,
+      retiredAt: key.retired_at,
+    }));
+  }
+
+  static contentHash(text: string): string {
+    return crypto.createHash("sha256").update(normalizeContent(text)).digest("hex");
+  }
+
+  private static fingerprintSample(text: string): string[] {
+    return Array.from(FingerprintService.generateFingerprints(text, FINGERPRINT_WINDOW).keys())
+      .sort()
+      .slice(0, FINGERPRINT_SAMPLE_SIZE);
+  }
+
+  /**
+   * The configured signing key; its public half is published on first use and
+   * any previously active key is marked retired
+   */
+  private static async getSigningKey(): Promise<SigningKey | null> {
+    const pem = await SecretsService.getCertificateSigningKey();
+    if (!pem) return null;
+
+    const privateKey = crypto.createPrivateKey(pem);
+    if (privateKey.asymmetricKeyType !== "ed25519") {
+      throw new Error("CERTIFICATE_SIGNING_KEY must be an Ed25519 private key");
+    }
+
+    const publicKey = crypto.createPublicKey(privateKey);
+    const keyId = crypto
+      .createHash("sha256")
+      .update(publicKey.export({ type: "spki", format: "der" }))
+      .digest("hex")
+      .substring(0, 16);
+
+    if (signingKey?.keyId === keyId) return signingKey;
+
+    await prisma.$transaction([
+      prisma.certificateSigningKey.upsert({
+        where: { id: keyId },
+        create: {
+          id: keyId,
+          algorithm: SIGNATURE_ALGORITHM,
+          public_key: publicKey.export({ type: "spki", format: "pem" }).toString(),
+        },
+        update: { retired_at: null },
+      }),
+      prisma.certificateSigningKey.updateMany({
+        where: { id: { not: keyId }, retired_at: null },
+        data: { retired_at: new Date() },
+      }),
+    ]);
+
+    logger.info("Certificate signing key active", { keyId });
+
+    signingKey = { keyId, privateKey };
+    return signingKey;
+  }
+}
+
+/**
+ * JSON with object keys sorted at every level - the exact bytes that are signed
+ */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function normalizeContent(text: string): string {
+  return (text || "").normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+function toIsoOrNull(date: Date | null | undefined): string | null {
+  if (!date) return null;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
@@ -10,6 +10,23 @@ export interface CitationFlag {
     message: string;
 }
 
+export interface PatternMatch {
+    patternType: PatternType;
+    text: string;
+    start: number;
+    end: number;
+}
+
+// Pattern types that mark an actual in-text citation (the rest are stylistic sub-patterns)
+export const CITATION_PATTERN_TYPES: PatternType[] = [
+    "NUMERIC_BRACKET",
+    "NUMERIC_PAREN",
+    "NUMERIC_SUPERSCRIPT",
+    "AUTHOR_YEAR",
+    "AUTHOR_YEAR_NO_COMMA",
+    "AUTHOR_PAGE",
+];
+
 /**
  * Citation Pattern Observer
  * 
@@ -23,11 +40,20 @@ export class CitationPatternObserver {
         // [1], [1, 2], [1]-[3]
         "NUMERIC_BRACKET": /\[\s*\d+(?:[\s,–-]+\d+)*\s*\]/g,
 
+        // (1), (1, 2), (1-3) — capped at 3 digits so "(2020)" is not read as a citation number
+        "NUMERIC_PAREN": /\(\s*\d{1,3}(?:\s*[,–-]\s*\d{1,3})*\s*\)/g,
+
+        // ¹, ¹²⁻¹⁴, or ^1,2 when superscript formatting was flattened to a caret
+        "NUMERIC_SUPERSCRIPT": /[¹²³⁰⁴-⁹]+(?:[,⁻–-][¹²³⁰⁴-⁹]+)*|\^\d+(?:[,–-]\d+)*/g,
+
         // (Smith, 2020) or (Smith et al., 2020)
-        "AUTHOR_YEAR": /\([A-Z][a-z]+(?: et al\.?)?,?\s*\d{4}[a-z]?\)/g,
+        "AUTHOR_YEAR": /\([A-Z][a-z]+(?: et al\.?)?,\s*\d{4}[a-z]?\)/g,
 
-        // (Smith 24) or (Smith, p. 24)
-        "AUTHOR_PAGE": /\([A-Z][a-z]+(?: et al\.?)?(?:,|\s)\s*(?:p\.|pp\.)?\s*\d+\)/g,
+        // (Smith 2020) or (Smith et al. 2020)
+        "AUTHOR_YEAR_NO_COMMA": /\([A-Z][a-z]+(?: et al\.?)?\s+\d{4}[a-z]?\)/g,
+
+        // (Smith 24) or (Smith, p. 24) — four-digit years are left to the author-year patterns
+        "AUTHOR_PAGE": /\([A-Z][a-z]+(?: et al\.?)?(?:,|\s)\s*(?:p\.|pp\.)?\s*(?!(?:1[5-9]|20)\d{2}[a-z]?\))\d+\)/g,
 
         // Specific sub-patterns for stylistic checks
         "et_al_no_period": /\b(?<!\.)et al(?!\.)\b/g, // et al without period
@@ -79,6 +105,35 @@ export class CitationPatternObserver {
         return flags;
     }
 
+    /**
+     * Find every occurrence of the given pattern types, ordered by position.
+     * Used for server-side extraction when the client sends raw text.
+     */
+    static findPatterns(text: string, types: PatternType[] = Object.keys(this.PATTERNS) as PatternType[]): PatternMatch[] {
+        const matches: PatternMatch[] = [];
+
+        for (const patternType of types) {
+            const regex = new RegExp(this.PATTERNS[patternType]); // Copy regex
+            if (!regex.global) continue; // Placeholders such as MIXED_STYLE
+
+            let match;
+            while ((match = regex.exec(text)) !== null) {
+                if (match[0].length === 0) {
+                    regex.lastIndex++;
+                    continue;
+                }
+                matches.push({
+                    patternType,
+                    text: match[0],
+                    start: match.index,
+                    end: match.index + match[0].length
+                });
+            }
+        }
+
+        return matches.sort((a, b) => a.start - b.start || b.end - a.end);
+    }
+
     /**
      * PROMPT 5: Live Consistency Watcher (Drift Detection)
      * Check for mixed citation styles (e.g. Numeric vs Author-Year).
@@ -89,15 +144,19 @@ export class CitationPatternObserver {
         let numericCount = 0;
         let authorYearCount = 0;
 
-        // Check Numeric
-        const numRegex = new RegExp(this.PATTERNS["NUMERIC_BRACKET"]); // Copy regex
-        numRegex.lastIndex = 0;
-        while (numRegex.exec(text) !== null) numericCount++;
+        // Check Numeric ([1] and (1); superscripts are skipped since units like m² look the same)
+        for (const patternType of ["NUMERIC_BRACKET", "NUMERIC_PAREN"] as PatternType[]) {
+            const numRegex = new RegExp(this.PATTERNS[patternType]); // Copy regex
+            numRegex.lastIndex = 0;
+            while (numRegex.exec(text) !== null) numericCount++;
+        }
 
-        // Check Author-Year
-        const ayRegex = new RegExp(this.PATTERNS["AUTHOR_YEAR"]);
-        ayRegex.lastIndex = 0;
-        while (ayRegex.exec(text) !== null) authorYearCount++;
+        // Check Author-Year (with or without the comma)
+        for (const patternType of ["AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA"] as PatternType[]) {
+            const ayRegex = new RegExp(this.PATTERNS[patternType]);
+            ayRegex.lastIndex = 0;
+            while (ayRegex.exec(text) !== null) authorYearCount++;
+        }
 
         // Threshold for determining mixing (at least 1 of each is technically mixed, 
         // but let's say we Flag it if we see both)
@@ -1,4 +1,10 @@
 import { ExtractedPattern, ReferenceEntry, CitationStyle } from "../../types/citationAudit";
+import { NUMERIC_STYLES } from "./styleRules";
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+    "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4",
+    "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9", "⁻": "-",
+};
 
 /**
  * Represents a matched pair of inline citation and its corresponding reference entry
@@ -54,9 +60,9 @@ export class CitationMatcher {
             // Fallback to style-based matching if no normalization match was found
             // (Only for unresolved or legacy nodes)
             if (matchedReferences.length === 0 && (!inline.citationId || inline.normalizationStatus === "unresolved")) {
-                if (style === "IEEE") {
-                    matchedReferences = this.matchIEEE(inline, referenceEntries);
-                } else if (style === "APA" || style === "MLA" || style === "Chicago") {
+                if (NUMERIC_STYLES.includes(style)) {
+                    matchedReferences = this.matchNumeric(inline, referenceEntries);
+                } else {
                     const match = this.matchAuthorYear(inline, referenceEntries);
                     if (match) matchedReferences.push(match);
                 }
@@ -129,9 +135,10 @@ export class CitationMatcher {
     }
 
     /**
-     * Match IEEE citations by number: [1], [1-3], [1, 3]
+     * Match numeric citations (IEEE, Vancouver, AMA) by number:
+     * [1], [1-3], [1, 3], (1), ¹⁻³, ^1,2
      */
-    private static matchIEEE(
+    private static matchNumeric(
         inline: ExtractedPattern,
         references: ReferenceEntry[]
     ): ReferenceEntry[] {
@@ -140,10 +147,12 @@ export class CitationMatcher {
         const requiredNumbers = new Set<number>();
 
         // 1. Extract all numbers from the text
-        // Handle [1], [1, 2], [1-3]
+        // Handle [1], [1, 2], [1-3] and the parenthetical/superscript equivalents
 
-        // Remove brackets
-        const content = text.replace(/[\[\]]/g, '');
+        // Normalize superscript digits, then remove brackets, parentheses and carets
+        const content = text
+            .replace(/[⁰¹²³⁴-⁹⁻]/g, (ch) => SUPERSCRIPT_DIGITS[ch])
+            .replace(/[\[\]()^]/g, '');
 
         // Split by comma
         const parts = content.split(',');
@@ -196,7 +205,8 @@ export class CitationMatcher {
     }
 
     /**
-     * Match APA/MLA citations by author and year: (Smith, 2020) → Smith... (2020)
+     * Match author-based citations (APA, MLA, Chicago, Harvard) by author and year:
+     * (Smith, 2020) or (Smith 2020) → Smith... (2020)
      */
     private static matchAuthorYear(
         inline: ExtractedPattern,
@@ -0,0 +1,344 @@
+import {
+    DocumentExtraction,
+    DocumentSection,
+    ExtractedPattern,
+    ReferenceEntry,
+    ReferenceListExtraction,
+} from "../../types/citationAudit";
+import { CITATION_PATTERN_TYPES, CitationPatternObserver } from "./CitationPatternObserver";
+import { STYLE_RULES } from "./styleRules";
+
+// Headings that open a reference section, on top of the titles the style rules require
+const REFERENCE_HEADINGS = Array.from(
+    new Set([
+        ...Object.values(STYLE_RULES).flatMap((rules) => rules.referenceList.requiredSectionTitle),
+        "Works Cited",
+        "Literature Cited",
+        "Reference List",
+        "Sources",
+    ].map((title) => title.toLowerCase()))
+);
+
+// Headings that close the reference section when they follow it
+const TRAILING_HEADING = /^(?:appendix|appendices|acknowledg(?:e)?ments?|tables?|figures?|supplementary)\b/i;
+
+const NUMBERED_ENTRY = /^\s*(?:\[\d+\]|\(\d+\)|\d+[.)])\s+/;
+
+// Lowercase particles of family names: "da Silva", "van der Berg", "d'Alembert"
+const NAME_PARTICLES = String.raw`(?:(?:da|das|de|del|della|den|der|des|di|do|dos|du|la|le|ten|ter|van|von|al|el|bin|ibn)\s+|[dl]['’](?=\p{Lu}))*`;
+
+// "Smith, J.", "Smith J,", "Smith JA." or "van der Berg, K." - how an unnumbered entry opens
+const ENTRY_AUTHOR_START = new RegExp(
+    String.raw`^\s*${NAME_PARTICLES}\p{Lu}[\p{L}'’-]+(?:,\s*\p{Lu}|\s+\p{Lu}{1,3}[.,\s])`,
+    "u"
+);
+
+// How a complete entry ends: a sentence period (not an initial), a DOI or URL, or a year
+const ENTRY_END = /(?:[^\s.]{2}\.|\bdoi:\s*\S+|https?:\/\/\S+|\b10\.\d{4,}\/\S+|(?<!\()\b(?:1[5-9]|20)\d{2})$/iu;
+
+const SUPERSCRIPT_MAP: Record<string, string> = {
+    "0": "⁰", "1": "¹", "2": "²", "3": "³", "4": "⁴",
+    "5": "⁵", "6": "⁶", "7": "⁷", "8": "⁸", "9": "⁹", "-": "⁻", "–": "⁻",
+};
+
+interface CitationNodeSpan {
+    start: number;
+    end: number;
+    citationId?: string;
+    resolved: boolean;
+}
+
+interface Line {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Citation Document Extractor
+ *
+ * Server-side equivalent of the editor's audit extraction: turns raw text or a
+ * Tiptap document into the sections, inline patterns and reference entries
+ * that `/api/citations/audit` expects.
+ */
+export class CitationDocumentExtractor {
+    /**
+     * Extract from plain text
+     */
+    static fromText(text: string): DocumentExtraction {
+        return this.extract(text.replace(/\r\n?/g, "\n"), []);
+    }
+
+    /**
+     * Extract from a Tiptap JSON document. Citation nodes keep their citationId
+     * so the matcher can use normalization (Tier 1) for the ones found in the
+     * citation library; the rest fall back to style-based matching.
+     */
+    static fromTiptap(document: any, citationLibrary?: Record<string, any>): DocumentExtraction {
+        let text = "";
+        const citationNodes: CitationNodeSpan[] = [];
+
+        const walk = (node: any) => {
+            if (!node) return;
+
+            if (node.type === "text") {
+                let value: string = node.text || "";
+                // Keep superscript citation numbers visible to the NUMERIC_SUPERSCRIPT pattern
+                if (node.marks?.some((mark: any) => mark.type === "superscript") && /^[\d,–-]+$/.test(value)) {
+                    value = value.replace(/[\d–-]/g, (ch) => SUPERSCRIPT_MAP[ch]);
+                }
+                text += value;
+                return;
+            }
+
+            if (node.type === "hardBreak") {
+                text += "\n";
+                return;
+            }
+
+            if (node.type === "citation") {
+                const fallback = node.attrs?.fallback || "[Citation]";
+                citationNodes.push({
+                    start: text.length,
+                    end: text.length + fallback.length,
+                    citationId: node.attrs?.citationId || undefined,
+                    resolved: Boolean(node.attrs?.citationId && citationLibrary?.[node.attrs.citationId]),
+                });
+                text += fallback;
+                return;
+            }
+
+            if (Array.isArray(node.content)) {
+                node.content.forEach(walk);
+            }
+
+            // Block nodes end a line so headings and reference entries stay separate
+            if (node.type === "paragraph" || node.type === "heading" || node.type === "codeBlock") {
+                text += "\n";
+            }
+        };
+
+        walk(document);
+
+        return this.extract(text, citationNodes);
+    }
+
+    private static extract(text: string, citationNodes: CitationNodeSpan[]): DocumentExtraction {
+        const lines = this.splitLines(text);
+
+        const headingIndex = this.findReferenceHeading(lines);
+        const heading = headingIndex >= 0 ? lines[headingIndex] : null;
+        const bodyEnd = heading ? heading.start : text.length;
+
+        const sections: DocumentSection[] = [
+            { title: "Body", type: "BODY", range: { start: 0, end: bodyEnd } },
+        ];
+
+        let referenceList: ReferenceListExtraction | null = null;
+
+        if (heading) {
+            const referenceLines: Line[] = [];
+            for (let i = headingIndex + 1; i < lines.length; i++) {
+                if (TRAILING_HEADING.test(lines[i].text.trim())) break;
+                referenceLines.push(lines[i]);
+            }
+
+            const sectionEnd = referenceLines.length > 0
+                ? referenceLines[referenceLines.length - 1].end
+                : heading.end;
+            const sectionTitle = this.headingTitle(heading.text);
+
+            sections.push({
+                title: sectionTitle,
+                type: "REFERENCE_SECTION",
+                range: { start: heading.start, end: sectionEnd },
+            });
+
+            referenceList = {
+                sectionTitle,
+                entries: this.splitEntries(text, referenceLines),
+            };
+        }
+
+        return {
+            text,
+            sections,
+            patterns: this.extractPatterns(text.slice(0, bodyEnd), citationNodes),
+            referenceList,
+        };
+    }
+
+    /**
+     * Inline citations in the body, plus the stylistic sub-patterns (et al., and/&)
+     * that the audit checks against the declared style
+     */
+    private static extractPatterns(body: string, citationNodes: CitationNodeSpan[]): ExtractedPattern[] {
+        const patterns: ExtractedPattern[] = [];
+        const nodes = citationNodes.filter((node) => node.end <= body.length);
+        const insideNode = (start: number, end: number) =>
+            nodes.some((node) => start < node.end && end > node.start);
+
+        let lastCitationEnd = -1;
+
+        for (const match of CitationPatternObserver.findPatterns(body)) {
+            const isCitation = CITATION_PATTERN_TYPES.includes(match.patternType);
+
+            if (isCitation) {
+                // Citation nodes are reported from the node itself; nested matches are dropped
+                if (insideNode(match.start, match.end) || match.start < lastCitationEnd) continue;
+                lastCitationEnd = match.end;
+            } else if (/_IN_PAREN$/.test(match.patternType) && !/\d/.test(match.text)) {
+                // "(cats and dogs)" is prose, not a parenthetical citation
+                continue;
+            }
+
+            patterns.push({
+                patternType: match.patternType,
+                text: match.text,
+                start: match.start,
+                end: match.end,
+                section: "BODY",
+                context: this.sentenceAround(body, match.start, match.end),
+                confidence: 1.0,
+            });
+        }
+
+        for (const node of nodes) {
+            const nodeText = body.slice(node.start, node.end);
+            const detected = CitationPatternObserver.findPatterns(nodeText, CITATION_PATTERN_TYPES)[0];
+
+            patterns.push({
+                patternType: detected?.patternType || "NUMERIC_BRACKET",
+                text: nodeText,
+                start: node.start,
+                end: node.end,
+                section: "BODY",
+                context: this.sentenceAround(body, node.start, node.end),
+                citationId: node.citationId,
+                normalizationStatus: node.citationId ? (node.resolved ? "resolved" : "unresolved") : undefined,
+                confidence: detected ? 1.0 : 0.5,
+            });
+        }
+
+        return patterns.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Split the reference section into entries. Wrapped lines are joined onto the
+     * entry they continue first (hanging indents, lines that open mid-sentence), then
+     * a new entry starts at each number, each blank line, or - without blank lines
+     * between entries - each remaining line. Numbered and unnumbered entries may mix.
+     */
+    private static splitEntries(text: string, lines: Line[]): ReferenceEntry[] {
+        const groups: Line[][] = [];
+        const numbered = lines.some((line) => NUMBERED_ENTRY.test(line.text));
+        const blankSeparated = lines.some((line, i) =>
+            !line.text.trim() &&
+            lines.slice(0, i).some((before) => before.text.trim()) &&
+            lines.slice(i + 1).some((after) => after.text.trim())
+        );
+
+        let current: Line[] | null = null;
+        for (const line of lines) {
+            if (!line.text.trim()) {
+                current = null;
+                continue;
+            }
+
+            if (current && this.continuesEntry(current, line, numbered, blankSeparated)) {
+                current.push(line);
+            } else {
+                current = [line];
+                groups.push(current);
+            }
+        }
+
+        return groups.map((group, index) => {
+            const start = group[0].start + (group[0].text.length - group[0].text.trimStart().length);
+            const last = group[group.length - 1];
+            const end = last.start + last.text.trimEnd().length;
+
+            return {
+                index,
+                rawText: text.slice(start, end).replace(/\s*\n\s*/g, " "),
+                start,
+                end,
+            };
+        });
+    }
+
+    /**
+     * Whether a line wraps the entry above it rather than starting a new one
+     */
+    private static continuesEntry(entry: Line[], line: Line, numbered: boolean, blankSeparated: boolean): boolean {
+        if (NUMBERED_ENTRY.test(line.text)) return false;
+
+        // Hanging indent: indented further than the entry's first line
+        if (this.indentOf(line) > this.indentOf(entry[0])) return true;
+
+        // The previous line stops mid-sentence
+        const previous = entry[entry.length - 1].text.trimEnd();
+        if (/(?:[-,&:;]|\band)$/.test(previous)) return true;
+
+        // This one picks up mid-sentence - unless the entry above is complete and this line
+        // opens with an author whose name starts with a particle ("da Silva, P.")
+        const opensLowercase = /^[\p{Ll}\d(]/u.test(line.text.trim());
+        if (opensLowercase && !(ENTRY_END.test(previous) && ENTRY_AUTHOR_START.test(line.text))) return true;
+
+        // Blank lines already mark where entries end
+        if (blankSeparated) return true;
+
+        // In a numbered list, an unnumbered line is its own entry only if it opens with an author
+        return numbered && !ENTRY_AUTHOR_START.test(line.text);
+    }
+
+    private static indentOf(line: Line): number {
+        return line.text.length - line.text.trimStart().length;
+    }
+
+    /**
+     * Last line that is only a reference heading ("References", "7. Bibliography", "## Works Cited:")
+     */
+    private static findReferenceHeading(lines: Line[]): number {
+        for (let i = lines.length - 1; i >= 0; i--) {
+            const title = this.headingTitle(lines[i].text).toLowerCase();
+            if (REFERENCE_HEADINGS.includes(title)) return i;
+        }
+        return -1;
+    }
+
+    private static headingTitle(line: string): string {
+        return line
+            .trim()
+            .replace(/^(?:#+\s*|\d+\.?\s+|[IVXLC]+\.\s+)/, "")
+            .replace(/\s*:\s*$/, "")
+            .trim();
+    }
+
+    private static splitLines(text: string): Line[] {
+        const lines: Line[] = [];
+        let start = 0;
+
+        for (const value of text.split("\n")) {
+            lines.push({ text: value, start, end: start + value.length });
+            start += value.length + 1;
+        }
+
+        return lines;
+    }
+
+    /**
+     * Sentence containing the citation, used by the claim-level (Tier 2) audit
+     */
+    private static sentenceAround(text: string, start: number, end: number): string {
+        const before = text.slice(0, start);
+        const boundary = Math.max(before.lastIndexOf("\n"), before.search(/[.!?]\s+[^.!?]*$/));
+        const sentenceStart = boundary >= 0 ? boundary + 1 : 0;
+
+        const after = text.slice(end);
+        const next = after.search(/[.!?](?:\s|$)|\n/);
+        const sentenceEnd = next >= 0 ? end + next + 1 : text.length;
+
+        return text.slice(sentenceStart, sentenceEnd).trim();
+    }
+}
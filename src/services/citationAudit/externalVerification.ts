@@ -6,6 +6,8 @@ import {
     VerificationProvenance
 } from "../../types/citationAudit";
 import { CitationPair } from "./citationMatcher";
+import { ProgressReporter } from "../../types/progress";
+import { SourceFullTextService } from "./sourceFullTextService";
 import logger from "../../monitoring/logger";
 
 /**
@@ -16,9 +18,14 @@ export class ExternalVerificationService {
     /**
      * Verify citation pairs using LIFO queue processing
      * @param pairs - Matched citation pairs (inline + reference)
+     * @param options.userId - Whose uploaded PDFs and reading sessions may supply full text
      * @returns Verification results for each inline citation
      */
-    static async verifyCitationPairs(pairs: CitationPair[]): Promise<VerificationResult[]> {
+    static async verifyCitationPairs(
+        pairs: CitationPair[],
+        onProgress?: ProgressReporter,
+        options: { userId?: string } = {}
+    ): Promise<VerificationResult[]> {
         const results: VerificationResult[] = [];
 
         // Process queue in LIFO order (Last In, First Out)
@@ -29,8 +36,15 @@ export class ExternalVerificationService {
 
             if (!pair) continue;
 
+            await onProgress?.({
+                stage: "verifying",
+                message: `Verifying ${results.length + 1}/${pairs.length} references`,
+                current: results.length + 1,
+                total: pairs.length,
+            });
+
             try {
-                const result = await this.verifyPair(pair);
+                const result = await this.verifyPair(pair, options);
                 results.push(result);
             } catch (error) {
                 logger.error("Verification error for citation", {
@@ -59,7 +73,7 @@ export class ExternalVerificationService {
     /**
      * Verify a single citation pair
      */
-    private static async verifyPair(pair: CitationPair): Promise<VerificationResult> {
+    private static async verifyPair(pair: CitationPair, options: { userId?: string } = {}): Promise<VerificationResult> {
         const inlineLocation = {
             start: pair.inline.start,
             end: pair.inline.end,
@@ -170,28 +184,55 @@ export class ExternalVerificationService {
         }
 
         // Case 5: Semantic Support Check
+        // Prefer the paper's full text (a PDF the user uploaded, or an open-access copy);
+        // fall back to the abstract when there is none
         let supportStatus: SupportStatus = "NOT_EVALUATED";
-        let semanticAnalysis = undefined;
+        let semanticAnalysis: VerificationResult["semanticAnalysis"] = undefined;
+        let evidence: VerificationResult["evidence"] = undefined;
+
+        if (options.userId && pair.inline.context) {
+            try {
+                const claim = pair.inline.context.replace(pair.inline.text, "").replace(/\s+/g, " ").trim();
+                const fullText = await SourceFullTextService.verifyClaim(options.userId, claim, {
+                    doi: pair.reference.extractedDOI || bestMatch.doi,
+                    url: bestMatch.url,
+                    title: bestMatch.title || pair.reference.extractedTitle,
+                    openAccessPdf: bestMatch.openAccessPdf,
+                });
+
+                if (fullText) {
+                    evidence = {
+                        basis: "full_text",
+                        documentSource: fullText.documentSource,
+                        passages: fullText.passages,
+                    };
+                }
+                if (fullText?.result) {
+                    supportStatus = this.toSupportStatus(fullText.result.status);
+                    semanticAnalysis = {
+                        reasoning: fullText.result.reasoning,
+                        confidence: fullText.result.confidence,
+                        quote: fullText.result.quote || undefined,
+                        page: fullText.result.page ?? undefined,
+                    };
+                }
+            } catch (e) {
+                logger.error("Full-text claim check failed", { error: (e as Error).message });
+            }
+        }
 
-        if (bestMatch?.abstract && pair.inline.context) {
+        if (!semanticAnalysis && bestMatch?.abstract && pair.inline.context) {
             try {
                 const { SemanticClaimService } = require("./semanticClaimService");
                 const analysis = await SemanticClaimService.verifyClaim(pair.inline.context, bestMatch.abstract);
 
-                // Map legacy/new status to SupportStatus
-                // Assuming we will fix SemanticClaimService to return exact types, 
-                // OR we map strings.
-                const rawStatus = analysis.status;
-                if (rawStatus === "SUPPORTED") supportStatus = "SUPPORTED";
-                else if (rawStatus === "PARTIALLY_SUPPORTED") supportStatus = "PLAUSIBLE";
-                else if (rawStatus === "DISPUTED") supportStatus = "CONTRADICTORY";
-                else if (rawStatus === "UNRELATED") supportStatus = "UNRELATED";
-                else supportStatus = "PLAUSIBLE"; // Default if unclear
-
+                supportStatus = this.toSupportStatus(analysis.status);
                 semanticAnalysis = {
                     reasoning: analysis.reasoning,
                     confidence: analysis.confidence || 0.8
                 };
+                // Passages found but not judged are still shown to the user
+                evidence = { ...evidence, basis: "abstract" };
             } catch (e) {
                 logger.error("Semantic check failed", { error: e });
             }
@@ -202,6 +243,9 @@ export class ExternalVerificationService {
         if (bestMatch.isRetracted) message = `🚨 RETRACTED SOURCE: ${bestMatch.title}`;
         else if (supportStatus === "CONTRADICTORY") message = `⚠️ Paper disputes claim: "${bestMatch.title}"`;
         else if (supportStatus === "UNRELATED") message = `⚠️ Paper may be unrelated: "${bestMatch.title}"`;
+        if (semanticAnalysis?.quote && !bestMatch.isRetracted) {
+            message += ` - p. ${semanticAnalysis.page}: "${semanticAnalysis.quote}"`;
+        }
 
         return {
             inlineLocation,
@@ -220,10 +264,22 @@ export class ExternalVerificationService {
                 abstract: bestMatch.abstract,
                 isRetracted: bestMatch.isRetracted
             },
-            semanticAnalysis
+            semanticAnalysis,
+            evidence
         };
     }
 
+    /**
+     * Map the semantic check's status onto the audit's SupportStatus
+     */
+    private static toSupportStatus(status: string): SupportStatus {
+        if (status === "SUPPORTED") return "SUPPORTED";
+        if (status === "PARTIALLY_SUPPORTED") return "PLAUSIBLE";
+        if (status === "DISPUTED") return "CONTRADICTORY";
+        if (status === "UNRELATED") return "UNRELATED";
+        return "PLAUSIBLE"; // Default if unclear
+    }
+
     /**
      * Build search query from reference data
      */
@@ -9,8 +9,19 @@ export interface SemanticSupportResult {
     confidence: number; // 0.0 to 1.0
 }
 
+export interface ClaimPassage {
+    page: number;
+    text: string;
+}
+
+export interface PassageSupportResult extends SemanticSupportResult {
+    quote: string | null; // Verbatim text from the passage that bears on the claim
+    page: number | null;
+}
+
 /**
- * Service to evaluate if a document claim is supported by a cited source's abstract
+ * Service to evaluate if a document claim is supported by a cited source's
+ * abstract, or by passages retrieved from its full text
  */
 export class SemanticClaimService {
     /**
@@ -73,4 +84,83 @@ Output strict JSON:
             };
         }
     }
+
+    /**
+     * Verify a claim against the most relevant passages of a source's full text.
+     * Returns null when the model could not be consulted, so callers can fall
+     * back to the abstract.
+     */
+    static async verifyClaimAgainstPassages(claim: string, passages: ClaimPassage[]): Promise<PassageSupportResult | null> {
+        if (!claim || !passages.length) return null;
+
+        const numbered = passages
+            .map((p, i) => `[${i + 1}] (page ${p.page}) "${p.text.substring(0, 1500)}"`)
+            .join("\n\n");
+
+        const prompt = `
+You are an academic verification assistant. Your job is to check if a specific claim is supported by passages taken from the full text of the cited paper.
+BE CONSERVATIVE and SKEPTICAL. Do not hallucinate support.
+
+CLAIM: "${claim.substring(0, 500)}"
+
+PASSAGES:
+${numbered}
+
+INSTRUCTIONS:
+Determine if the passages support the claim.
+- "SUPPORTED": A passage EXPLICITLY states findings or arguments that back the claim.
+- "PARTIALLY_SUPPORTED": A passage is relevant and supports a weaker or narrower version of the claim.
+- "DISPUTED": A passage EXPLICITLY contradicts the claim.
+- "UNRELATED": The passages do not address the claim.
+
+Output strict JSON:
+{
+  "status": "SUPPORTED" | "PARTIALLY_SUPPORTED" | "DISPUTED" | "UNRELATED",
+  "passage": <number of the passage that bears most on the claim, or null>,
+  "quote": "<the exact sentence(s) copied VERBATIM from that passage, at most 300 characters, or null>",
+  "reasoning": "A short, neutral sentence explaining the link. Use probabilistic language like 'suggests', 'indicates', 'mentions'. Avoid absolute terms like 'proves'.",
+  "confidence": <number between 0.0 and 1.0 reflecting how sure you are of this judgment>
+}
+`;
+
+        try {
+            const response = await OpenAIService.generateCompletion(prompt, {
+                maxTokens: 300,
+                temperature: 0.1,
+                model: "gpt-3.5-turbo"
+            });
+
+            const jsonStr = response.replace(/```json|```/g, "").trim();
+            const result = JSON.parse(jsonStr);
+
+            const passage = Number.isInteger(result.passage) ? passages[result.passage - 1] : undefined;
+            let quote: string | null = typeof result.quote === "string" ? result.quote.trim() : null;
+            let confidence = typeof result.confidence === 'number' ? result.confidence : 0.5;
+
+            // Only keep quotes that really are in the passage
+            if (quote && (!passage || !squash(passage.text).includes(squash(quote)))) {
+                logger.warn("Claim verification quote not found in passage", { passage: result.passage });
+                quote = null;
+                confidence = Math.min(confidence, 0.5);
+            }
+
+            return {
+                status: result.status as SemanticSupportStatus,
+                reasoning: result.reasoning,
+                confidence,
+                quote,
+                page: passage ? passage.page : null,
+            };
+        } catch (error: any) {
+            logger.error("Error in SemanticClaimService.verifyClaimAgainstPassages", {
+                error: error.message,
+                claim: claim.substring(0, 50) + "..."
+            });
+            return null;
+        }
+    }
+}
+
+function squash(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, " ").replace(/[\u2018\u2019]/g, "'").replace(/[\u201c\u201d]/g, '"').trim();
 }
@@ -0,0 +1,352 @@
+import axios from "axios";
+import pdfParse from "pdf-parse";
+import { compareTwoStrings } from "string-similarity";
+import { prisma } from "../../lib/prisma";
+import logger from "../../monitoring/logger";
+import { FingerprintService } from "../fingerprintService";
+import { LanguageDetectionService } from "../languageDetectionService";
+import { OpenAlexService } from "../openAlexService";
+import { assertPublicHttpUrl, publicHttpRequestOptions } from "../../utils/urlSafety";
+import { ClaimPassage, PassageSupportResult, SemanticClaimService } from "./semanticClaimService";
+
+const MAX_PDF_BYTES = 25 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 20000;
+const FAILED_RETRY_MS = 24 * 60 * 60 * 1000; // Retry sources that failed to extract after a day
+const TITLE_MATCH_THRESHOLD = 0.8;
+const PASSAGE_SENTENCES = 4;
+const PASSAGE_STRIDE = 2; // Passages overlap so a supporting sentence is never split from its context
+const MAX_PASSAGE_WORDS = 160;
+const TOP_PASSAGES = 3;
+const MIN_MATCHED_TERMS = 2;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export type FullTextSource = "uploaded_file" | "open_access";
+
+export interface PaperReference {
+    doi?: string;
+    url?: string;
+    title?: string;
+    openAccessPdf?: string;
+}
+
+export interface RetrievedPassage extends ClaimPassage {
+    score: number;
+}
+
+export interface FullTextDocument {
+    documentSource: FullTextSource;
+    fileId?: string;
+    url?: string;
+    pages: string[];
+}
+
+interface Chunk {
+    page: number;
+    text: string;
+    terms: string[];
+}
+
+/**
+ * Source Full Text Service
+ * Finds the full text of a cited paper - a PDF the user uploaded, or an
+ * open-access PDF (one they read through /api/proxy/pdf, or OpenAlex's OA
+ * link) - extracts it page by page, caches it in SourceFullText, and retrieves
+ * the passages most relevant to a claim (BM25 over overlapping sentence windows)
+ * so claims can be checked against what the paper actually says.
+ */
+export class SourceFullTextService {
+    /**
+     * The cited paper's full text, if the user uploaded it or it is open access
+     */
+    static async findFullText(userId: string, paper: PaperReference): Promise<FullTextDocument | null> {
+        const file = await this.findUploadedFile(userId, paper);
+        if (file) {
+            const pages = await this.loadFilePages(userId, file);
+            if (pages) return { documentSource: "uploaded_file", fileId: file.id, pages };
+        }
+
+        for (const url of await this.openAccessCandidates(userId, paper)) {
+            const pages = await this.loadUrlPages(url);
+            if (pages) return { documentSource: "open_access", url, pages };
+        }
+
+        return null;
+    }
+
+    /**
+     * Check a claim against the cited paper's full text. Null when no full text
+     * is available or nothing in it relates to the claim; `result` is null when
+     * passages were found but the model could not be consulted.
+     */
+    static async verifyClaim(userId: string, claim: string, paper: PaperReference): Promise<{
+        documentSource: FullTextSource;
+        passages: RetrievedPassage[];
+        result: PassageSupportResult | null;
+    } | null> {
+        const document = await this.findFullText(userId, paper);
+        if (!document) return null;
+
+        const passages = this.retrievePassages(document.pages, claim);
+        if (!passages.length) return null;
+
+        const result = await SemanticClaimService.verifyClaimAgainstPassages(claim, passages);
+        return { documentSource: document.documentSource, passages, result };
+    }
+
+    /**
+     * Passages of the document most relevant to the claim, best first
+     */
+    static retrievePassages(pages: string[], claim: string, limit: number = TOP_PASSAGES): RetrievedPassage[] {
+        const stopwords = new Set(LanguageDetectionService.stopwordsFor(LanguageDetectionService.detect(claim).language));
+        const termsOf = (text: string) =>
+            FingerprintService.tokenize(text)
+                .map((t) => t.word)
+                .filter((w) => w.length > 2 && !stopwords.has(w) && !/^\d+$/.test(w));
+
+        const claimTerms = Array.from(new Set(termsOf(claim)));
+        if (!claimTerms.length) return [];
+
+        const chunks: Chunk[] = this.chunk(pages).map((c) => ({ ...c, terms: termsOf(c.text) }));
+        if (!chunks.length) return [];
+
+        const averageLength = chunks.reduce((sum, c) => sum + c.terms.length, 0) / chunks.length;
+        const documentFrequency = new Map<string, number>();
+        for (const chunk of chunks) {
+            for (const term of new Set(chunk.terms)) {
+                documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+            }
+        }
+
+        const scored = chunks.map((chunk) => {
+            const frequency = new Map<string, number>();
+            chunk.terms.forEach((t) => frequency.set(t, (frequency.get(t) || 0) + 1));
+
+            let score = 0;
+            let matched = 0;
+            for (const term of claimTerms) {
+                const tf = frequency.get(term) || 0;
+                if (!tf) continue;
+                matched++;
+                const df = documentFrequency.get(term) || 0;
+                const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+                score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * chunk.terms.length) / averageLength));
+            }
+
+            return { page: chunk.page, text: chunk.text, score: Math.round(score * 100) / 100, matched };
+        });
+
+        // Overlapping windows: keep the best one per region of the text
+        const selected: RetrievedPassage[] = [];
+        for (const candidate of scored.filter((c) => c.matched >= MIN_MATCHED_TERMS).sort((a, b) => b.score - a.score)) {
+            if (selected.some((s) => s.page === candidate.page && overlaps(s.text, candidate.text))) continue;
+            selected.push({ page: candidate.page, text: candidate.text, score: candidate.score });
+            if (selected.length >= limit) break;
+        }
+
+        return selected;
+    }
+
+    /**
+     * Overlapping windows of whole sentences within each page
+     */
+    private static chunk(pages: string[]): Array<{ page: number; text: string }> {
+        const chunks: Array<{ page: number; text: string }> = [];
+
+        pages.forEach((pageText, index) => {
+            const sentences = pageText
+                .split(/(?<=[.!?])\s+(?=[\p{Lu}\d("“])/u)
+                .map((s) => s.trim())
+                .filter(Boolean);
+
+            for (let start = 0; start < sentences.length; start += PASSAGE_STRIDE) {
+                const words: string[] = [];
+                for (const sentence of sentences.slice(start, start + PASSAGE_SENTENCES)) {
+                    if (words.length && words.length + sentence.split(/\s+/).length > MAX_PASSAGE_WORDS) break;
+                    words.push(...sentence.split(/\s+/));
+                }
+                chunks.push({ page: index + 1, text: words.slice(0, MAX_PASSAGE_WORDS).join(" ") });
+                if (start + PASSAGE_SENTENCES >= sentences.length) break;
+            }
+        });
+
+        return chunks;
+    }
+
+    /**
+     * A PDF the user uploaded that is the cited paper (by DOI in its metadata, or by title)
+     */
+    private static async findUploadedFile(userId: string, paper: PaperReference) {
+        if (!paper.doi && !paper.title) return null;
+
+        const files = await prisma.file.findMany({
+            where: {
+                user_id: userId,
+                file_type: "application/pdf",
+                NOT: { file_path: { startsWith: "external://" } }, // Annotation placeholders for external papers
+            },
+            select: { id: true, file_name: true, file_path: true, metadata: true },
+            orderBy: { uploaded_at: "desc" },
+            take: 500,
+        });
+
+        const doi = paper.doi?.toLowerCase();
+        const title = normalizeTitle(paper.title || "");
+
+        return (
+            files.find((f: any) => doi && String((f.metadata as any)?.doi || "").toLowerCase() === doi) ||
+            files.find(
+                (f: any) => title.length > 10 &&
+                    compareTwoStrings(title, normalizeTitle(f.file_name.replace(/\.pdf$/i, ""))) >= TITLE_MATCH_THRESHOLD
+            ) ||
+            null
+        );
+    }
+
+    /**
+     * Open-access PDF URLs for the paper, most trustworthy first
+     */
+    private static async openAccessCandidates(userId: string, paper: PaperReference): Promise<string[]> {
+        const urls: string[] = [];
+        if (paper.openAccessPdf) urls.push(paper.openAccessPdf);
+
+        // The user already read it through the PDF proxy
+        const keys = [paper.doi, paper.url].filter((k): k is string => !!k);
+        if (keys.length) {
+            const session = await prisma.sourceReadingSession.findFirst({
+                where: { user_id: userId, source_id: { in: keys } },
+                orderBy: { last_active_at: "desc" },
+                select: { source_url: true },
+            });
+            if (session) urls.push(session.source_url);
+        }
+
+        if (!urls.length && paper.doi) {
+            try {
+                const [work] = await OpenAlexService.searchPapers(paper.doi, 1);
+                if (work?.openAccessPdf) urls.push(work.openAccessPdf);
+            } catch (error: any) {
+                logger.warn("Open-access lookup failed", { doi: paper.doi, error: error.message });
+            }
+        }
+
+        if (paper.url && /\.pdf($|[?#])/i.test(paper.url)) urls.push(paper.url);
+
+        return Array.from(new Set(urls));
+    }
+
+    private static async loadFilePages(userId: string, file: { id: string; file_path: string }): Promise<string[] | null> {
+        return this.loadCached(`file:${file.id}`, { user_id: userId, file_id: file.id }, async () => {
+            const { SupabaseStorageService } = await import("../supabaseStorageService");
+            return SupabaseStorageService.downloadFile(file.file_path);
+        });
+    }
+
+    private static async loadUrlPages(url: string): Promise<string[] | null> {
+        return this.loadCached(`url:${url}`, { source_url: url }, async () => {
+            // The URL comes from user-supplied citation data: stay off internal networks
+            assertPublicHttpUrl(url);
+            const response = await axios.get(url, {
+                ...publicHttpRequestOptions,
+                responseType: "arraybuffer",
+                timeout: FETCH_TIMEOUT_MS,
+                maxContentLength: MAX_PDF_BYTES,
+                maxRedirects: 5,
+                headers: {
+                    // Same browser user agent as the PDF proxy
+                    "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
+                },
+            });
+
+            if (String(response.headers["content-type"] || "").includes("text/html")) {
+                throw new Error("Source returned a webpage instead of a PDF");
+            }
+            return Buffer.from(response.data);
+        });
+    }
+
+    /**
+     * Cached page texts for a source, extracting (and caching) them on first use.
+     * Failures are cached too so an unreachable PDF isn't fetched on every audit.
+     */
+    private static async loadCached(
+        sourceKey: string,
+        owner: { user_id?: string; file_id?: string; source_url?: string },
+        fetchPdf: () => Promise<Buffer>
+    ): Promise<string[] | null> {
+        const cached = await prisma.sourceFullText.findUnique({ where: { source_key: sourceKey } });
+        if (cached?.status === "ready") return cached.pages as string[];
+        if (cached && Date.now() - cached.extracted_at.getTime() < FAILED_RETRY_MS) return null;
+
+        let pages: string[] | null = null;
+        let error: string | null = null;
+        try {
+            pages = await extractPages(await fetchPdf());
+            if (!pages.some((p) => p.trim())) {
+                pages = null;
+                error = "PDF contains no extractable text";
+            }
+        } catch (e: any) {
+            error = e.message;
+        }
+
+        const data = {
+            ...owner,
+            status: pages ? "ready" : "failed",
+            error,
+            pages: pages ?? undefined,
+            page_count: pages?.length || 0,
+            char_count: pages ? pages.reduce((sum, p) => sum + p.length, 0) : 0,
+            extracted_at: new Date(),
+        };
+        await prisma.sourceFullText.upsert({
+            where: { source_key: sourceKey },
+            create: { source_key: sourceKey, ...data },
+            update: data,
+        });
+
+        if (pages) {
+            logger.info("Source full text extracted", { sourceKey, pages: pages.length });
+        } else {
+            logger.warn("Source full text unavailable", { sourceKey, error });
+        }
+
+        return pages;
+    }
+}
+
+/**
+ * Plain text of each page of a PDF
+ */
+async function extractPages(buffer: Buffer): Promise<string[]> {
+    if (buffer.length > MAX_PDF_BYTES) throw new Error("PDF is too large");
+    if (buffer.subarray(0, 5).toString() !== "%PDF-") throw new Error("Not a PDF file");
+
+    const pages: string[] = [];
+    await pdfParse(buffer, {
+        pagerender: async (pageData: any) => {
+            const content = await pageData.getTextContent({ normalizeWhitespace: true });
+            let text = "";
+            let lastY: number | undefined;
+            for (const item of content.items) {
+                text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+                lastY = item.transform[5];
+            }
+
+            // Join words hyphenated across line breaks, then flatten the layout
+            pages[pageData.pageIndex] = text.replace(/(\p{Ll})-\n(\p{Ll})/gu, "$1$2").replace(/\s+/g, " ").trim();
+            return text;
+        },
+    });
+
+    return Array.from(pages, (p) => p || "");
+}
+
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function overlaps(a: string, b: string): boolean {
+    const head = b.substring(0, 60);
+    return a.includes(head) || b.includes(a.substring(0, 60));
+}
@@ -28,7 +28,7 @@ export const STYLE_RULES: Record<CitationStyle, StyleRuleConfig> = {
         style: "MLA",
         version: "9.0",
         allowedInlinePatterns: ["AUTHOR_PAGE", "et_al_with_period"],
-        disallowedInlinePatterns: ["NUMERIC_BRACKET", "AUTHOR_YEAR", "et_al_no_period", "AND_IN_PAREN"],
+        disallowedInlinePatterns: ["NUMERIC_BRACKET", "AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA", "et_al_no_period", "AND_IN_PAREN"],
         referenceList: {
             requiredSectionTitle: ["Works Cited"],
             numberingAllowed: false,
@@ -37,6 +37,7 @@ export const STYLE_RULES: Record<CitationStyle, StyleRuleConfig> = {
         messages: {
             "NUMERIC_BRACKET": "Numeric bracket citation detected. MLA requires Author-Page format.",
             "AUTHOR_YEAR": "Author-Year citation detected. MLA requires Author-Page format.",
+            "AUTHOR_YEAR_NO_COMMA": "Author-Year citation detected. MLA requires Author-Page format.",
             "et_al_no_period": "'et al' missing period. MLA requires 'et al.'",
             "AND_IN_PAREN": "MLA does not use parenthetical 'and'. Use Author-Page format.",
             "WRONG_SECTION_TITLE": "Incorrect section title. MLA requires 'Works Cited'.",
@@ -47,7 +48,8 @@ export const STYLE_RULES: Record<CitationStyle, StyleRuleConfig> = {
     "APA": {
         style: "APA",
         version: "7.0",
-        allowedInlinePatterns: ["AUTHOR_YEAR", "et_al_with_period", "AMPERSAND_IN_PAREN"],
+        // (Smith 2020) stays accepted as it was before the two author-year forms were told apart
+        allowedInlinePatterns: ["AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA", "et_al_with_period", "AMPERSAND_IN_PAREN"],
         disallowedInlinePatterns: ["NUMERIC_BRACKET", "AUTHOR_PAGE", "et_al_no_period", "AND_IN_PAREN"],
         referenceList: {
             requiredSectionTitle: ["References"],
@@ -69,7 +71,7 @@ export const STYLE_RULES: Record<CitationStyle, StyleRuleConfig> = {
         style: "IEEE",
         version: "2020",
         allowedInlinePatterns: ["NUMERIC_BRACKET"],
-        disallowedInlinePatterns: ["AUTHOR_YEAR", "AUTHOR_PAGE"],
+        disallowedInlinePatterns: ["AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA", "AUTHOR_PAGE"],
         referenceList: {
             requiredSectionTitle: ["References"],
             numberingAllowed: true, // [1] Required
@@ -77,6 +79,7 @@ export const STYLE_RULES: Record<CitationStyle, StyleRuleConfig> = {
         },
         messages: {
             "AUTHOR_YEAR": "Author-Year citation detected. IEEE requires numeric bracket format [1].",
+            "AUTHOR_YEAR_NO_COMMA": "Author-Year citation detected. IEEE requires numeric bracket format [1].",
             "AUTHOR_PAGE": "Author-Page citation detected. IEEE requires numeric bracket format [1].",
             "WRONG_SECTION_TITLE": "Incorrect section title. IEEE requires 'References'.",
             "NUMBERED_ENTRIES_DISALLOWED": "",
@@ -86,7 +89,7 @@ export const STYLE_RULES: Record<CitationStyle, StyleRuleConfig> = {
     "Chicago": {
         style: "Chicago",
         version: "17 (Author-Date)",
-        allowedInlinePatterns: ["AUTHOR_YEAR"], // Assuming Author-Date for this implementation
+        allowedInlinePatterns: ["AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA"], // Assuming Author-Date for this implementation
         disallowedInlinePatterns: ["NUMERIC_BRACKET"],
         referenceList: {
             requiredSectionTitle: ["Bibliography", "References"],
@@ -99,9 +102,74 @@ export const STYLE_RULES: Record<CitationStyle, StyleRuleConfig> = {
             "NUMBERED_ENTRIES_DISALLOWED": "Numbered reference entries detected. Chicago requires unnumbered entries.",
             "NUMBERED_ENTRIES_REQUIRED": ""
         }
+    },
+    "Harvard": {
+        style: "Harvard",
+        version: "Cite Them Right 12",
+        // Institutions disagree on the comma, so both (Smith, 2020) and (Smith 2020) pass
+        allowedInlinePatterns: ["AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA", "AND_IN_PAREN", "et_al_with_period"],
+        disallowedInlinePatterns: ["NUMERIC_BRACKET", "NUMERIC_PAREN", "AUTHOR_PAGE", "et_al_no_period"],
+        referenceList: {
+            requiredSectionTitle: ["Reference list", "References", "Bibliography"],
+            numberingAllowed: false,
+            alphabeticalRequired: true
+        },
+        messages: {
+            "NUMERIC_BRACKET": "Numeric bracket citation detected. Harvard requires Author-Year format.",
+            "NUMERIC_PAREN": "Numeric citation detected. Harvard requires Author-Year format.",
+            "AUTHOR_PAGE": "Author-Page citation detected. Harvard requires the year before the page, e.g. (Smith, 2020, p. 24).",
+            "et_al_no_period": "'et al' missing period. Harvard requires 'et al.'",
+            "WRONG_SECTION_TITLE": "Incorrect section title. Harvard requires 'Reference list' or 'References'.",
+            "NUMBERED_ENTRIES_DISALLOWED": "Numbered reference entries detected. Harvard requires unnumbered, alphabetical entries.",
+            "NUMBERED_ENTRIES_REQUIRED": ""
+        }
+    },
+    "Vancouver": {
+        style: "Vancouver",
+        version: "ICMJE / NLM 2nd ed.",
+        // ICMJE accepts brackets, parentheses or superscripts as long as one is used consistently
+        allowedInlinePatterns: ["NUMERIC_PAREN", "NUMERIC_BRACKET", "NUMERIC_SUPERSCRIPT"],
+        disallowedInlinePatterns: ["AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA", "AUTHOR_PAGE"],
+        referenceList: {
+            requiredSectionTitle: ["References"],
+            numberingAllowed: true,
+            alphabeticalRequired: false // Ordered by first citation
+        },
+        messages: {
+            "AUTHOR_YEAR": "Author-Year citation detected. Vancouver requires numbered citations, e.g. (1).",
+            "AUTHOR_YEAR_NO_COMMA": "Author-Year citation detected. Vancouver requires numbered citations, e.g. (1).",
+            "AUTHOR_PAGE": "Author-Page citation detected. Vancouver requires numbered citations, e.g. (1).",
+            "WRONG_SECTION_TITLE": "Incorrect section title. Vancouver requires 'References'.",
+            "NUMBERED_ENTRIES_DISALLOWED": "",
+            "NUMBERED_ENTRIES_REQUIRED": "Reference entries must be numbered in order of first citation in Vancouver style."
+        }
+    },
+    "AMA": {
+        style: "AMA",
+        version: "11",
+        allowedInlinePatterns: ["NUMERIC_SUPERSCRIPT"],
+        disallowedInlinePatterns: ["NUMERIC_BRACKET", "NUMERIC_PAREN", "AUTHOR_YEAR", "AUTHOR_YEAR_NO_COMMA", "AUTHOR_PAGE"],
+        referenceList: {
+            requiredSectionTitle: ["References"],
+            numberingAllowed: true,
+            alphabeticalRequired: false // Ordered by first citation
+        },
+        messages: {
+            "NUMERIC_BRACKET": "Bracketed citation number detected. AMA requires superscript numbers.",
+            "NUMERIC_PAREN": "Parenthetical citation number detected. AMA requires superscript numbers.",
+            "AUTHOR_YEAR": "Author-Year citation detected. AMA requires superscript numbers.",
+            "AUTHOR_YEAR_NO_COMMA": "Author-Year citation detected. AMA requires superscript numbers.",
+            "AUTHOR_PAGE": "Author-Page citation detected. AMA requires superscript numbers.",
+            "WRONG_SECTION_TITLE": "Incorrect section title. AMA requires 'References'.",
+            "NUMBERED_ENTRIES_DISALLOWED": "",
+            "NUMBERED_ENTRIES_REQUIRED": "Reference entries must be numbered in order of first citation in AMA style."
+        }
     }
 };
 
+// Styles whose inline citations are numbers pointing into a numbered reference list
+export const NUMERIC_STYLES: CitationStyle[] = ["IEEE", "Vancouver", "AMA"];
+
 export function getStyleRules(style: CitationStyle): StyleRuleConfig {
     // Default to MLA if unknown (or throw, but strictly we assume validated inputs)
     return STYLE_RULES[style] || STYLE_RULES["MLA"];
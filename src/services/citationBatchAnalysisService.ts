@@ -0,0 +1,119 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { OpenAIService } from "./openaiService";
+import { ProgressReporter } from "../types/progress";
+
+/**
+ * Citation Batch Analysis Service
+ * AI analysis of project citations (themes + matrix notes) for the Literature Matrix.
+ * Runs as a background job; see the `citation_batch_analysis` job handler.
+ */
+export class CitationBatchAnalysisService {
+  /**
+   * Analyze the project's citations that have an abstract.
+   * Without `force`, only citations missing themes or matrix notes are analyzed.
+   */
+  static async analyzeProject(
+    projectId: string,
+    userId: string,
+    force: boolean = false,
+    onProgress?: ProgressReporter
+  ) {
+    // 1. Fetch citations with abstracts
+    const citations = await prisma.citation.findMany({
+      where: {
+        project_id: projectId,
+        abstract: { not: null },
+        // If not forcing, only analyze those missing data
+        ...(force ? {} : {
+          OR: [
+            { themes: { equals: prisma.jsonNull } },
+            { themes: { equals: [] } },
+            { matrix_notes: null },
+            { matrix_notes: "" }
+          ]
+        })
+      },
+      select: { id: true, abstract: true, title: true }
+    });
+
+    if (citations.length === 0) {
+      return { total: 0, analyzed: 0, citations: [] };
+    }
+
+    logger.info(`Starting batch analysis for ${citations.length} citations`, { projectId, userId });
+
+    const updatedCitations = [];
+
+    // 2. Iterate and analyze
+    // Sequential to avoid overwhelming rate limits
+    for (let i = 0; i < citations.length; i++) {
+      const citation = citations[i];
+      try {
+        const analysis = await this.analyzeAbstract(citation);
+        if (analysis) {
+          const updated = await prisma.citation.update({
+            where: { id: citation.id },
+            data: {
+              themes: analysis.themes || [],
+              matrix_notes: analysis.matrix_notes || ""
+            }
+          });
+
+          updatedCitations.push(updated);
+        }
+      } catch (err: any) {
+        logger.error(`Error analyzing individual citation ${citation.id}`, { error: err.message });
+      }
+
+      await onProgress?.({
+        stage: "analyzing",
+        message: `Analyzed ${i + 1} of ${citations.length} citations`,
+        current: i + 1,
+        total: citations.length,
+        progress: ((i + 1) / citations.length) * 100,
+      });
+    }
+
+    return {
+      total: citations.length,
+      analyzed: updatedCitations.length,
+      citations: updatedCitations,
+    };
+  }
+
+  private static async analyzeAbstract(citation: { id: string; abstract: string | null }) {
+    const prompt = `
+Analyze the following academic abstract for a Literature Matrix.
+Goal: Identify if the paper explicitly covers a Research Gap, Methodology, or Specific Results.
+And provide a brief 1-2 sentence qualitative synthesis (Matrix Notes).
+
+Abstract:
+"${citation.abstract!.slice(0, 3000)}"
+
+Return ONLY a valid JSON object in this format:
+{
+  "themes": ["Gap", "Methodology", "Result"],
+  "matrix_notes": "Synthesis text here..."
+}
+Rules:
+- Include "Gap" in themes only if the abstract clearly defines a problem or lack of previous research.
+- Include "Methodology" in themes if the abstract describes the study design (e.g., survey, experiment).
+- Include "Result" in themes if specific findings are mentioned.
+- "matrix_notes" must be a concise (max 30 words) summary of the key contribution.
+`;
+
+    const rawResponse = await OpenAIService.generateCompletion(prompt, {
+      temperature: 0.3,
+      maxTokens: 500
+    });
+
+    try {
+      const cleanJson = rawResponse.replace(/```json/g, "").replace(/```/g, "").trim();
+      return JSON.parse(cleanJson) as { themes: string[], matrix_notes: string };
+    } catch (e) {
+      logger.error(`Failed to parse AI response for citation ${citation.id}`, { rawResponse });
+      return null; // Skip this one
+    }
+  }
+}
@@ -4,6 +4,8 @@ import { EmailService } from "./emailService";
 import { UsageService } from "./usageService";
 import axios from "axios";
 import { SecretsService } from "./secrets-service";
+import { ProjectAccessService } from "./projectAccessService";
+import { CitationFormatter } from "./citationFormatting/citationFormatter";
 
 export interface RecencyScore {
   score: number; // 0-100
@@ -357,18 +359,11 @@ export class CitationConfidenceService {
       url?: string;
       source?: string;
       abstract?: string;
-      formatted_citations?: any;
     }
   ): Promise<any> {
     try {
-      // Verify project ownership
-      const project = await prisma.project.findUnique({
-        where: { id: projectId },
-      });
-
-      if (!project || project.user_id !== userId) {
-        throw new Error("Project not found or access denied");
-      }
+      // Verify the user can edit the project (owner or editor collaborator)
+      await ProjectAccessService.assertAccess(projectId, userId, "editor");
 
       // Check if citation already exists
       const existing = await prisma.citation.findFirst({
@@ -455,7 +450,7 @@ export class CitationConfidenceService {
           url: citationData.url,
           source: citationData.source || "manual",
           abstract: citationData.abstract,
-          formatted_citations: citationData.formatted_citations,
+          formatted_citations: CitationFormatter.formatAll(citationData),
           is_reliable: isReliable,
         },
       });
@@ -0,0 +1,494 @@
+import {
+    CitationStyleDefinition,
+    CitationStyleId,
+    FormattableCitation,
+    FormattedSegment,
+    StyleLayoutNode,
+    StyleNameOptions,
+    StyleVariable,
+} from "../../types/citationFormatting";
+import { LibraryAuthor } from "../../types/citationLibrary";
+import { normalizeDOI, parseAuthorList, parseName } from "../citationLibrary/libraryUtils";
+import { CITATION_STYLES } from "./styles";
+
+const STYLE_ALIASES: Record<string, CitationStyleId> = {
+    apa7: "apa",
+    "apa 7": "apa",
+    mla9: "mla",
+    "mla 9": "mla",
+    "chicago-author-date": "chicago",
+    nlm: "vancouver",
+    icmje: "vancouver",
+    ama11: "ama",
+};
+
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+interface FormatOptions {
+    /** Position in the bibliography, used by numeric styles */
+    number?: number;
+}
+
+/**
+ * Citation Formatter
+ *
+ * Renders references and in-text citations from the style definitions in ./styles.
+ * Every export path (PDF, DOCX, TXT, LaTeX, RTF) and `Citation.formatted_citations`
+ * go through here, so one reference reads the same everywhere.
+ */
+export class CitationFormatter {
+    static readonly STYLES = Object.keys(CITATION_STYLES) as CitationStyleId[];
+
+    /**
+     * Resolve a user/project supplied style name ("APA", "apa7", "Vancouver") to a style id.
+     * Unknown values fall back to APA, the historical default.
+     */
+    static resolveStyle(style?: string | null): CitationStyleId {
+        const key = (style || "").toLowerCase().trim();
+        if ((this.STYLES as string[]).includes(key)) return key as CitationStyleId;
+        return STYLE_ALIASES[key] || "apa";
+    }
+
+    static isSupportedStyle(style?: string | null): boolean {
+        const key = (style || "").toLowerCase().trim();
+        return (this.STYLES as string[]).includes(key) || key in STYLE_ALIASES;
+    }
+
+    static getStyle(style?: string | null): CitationStyleDefinition {
+        return CITATION_STYLES[this.resolveStyle(style)];
+    }
+
+    static isNumeric(style?: string | null): boolean {
+        return this.getStyle(style).citationFormat === "numeric";
+    }
+
+    /**
+     * Bibliography entry as formatted segments (italics preserved)
+     */
+    static formatReferenceSegments(
+        citation: FormattableCitation,
+        style?: string | null,
+        options: FormatOptions = {}
+    ): FormattedSegment[] {
+        const definition = this.getStyle(style);
+        const layout = this.substituteAuthor(
+            definition.bibliography.layouts[this.layoutFor(citation)],
+            citation
+        );
+        const output = new SegmentBuilder();
+
+        if (definition.bibliography.numberLabel && options.number !== undefined) {
+            output.push({ text: definition.bibliography.numberLabel.replace("{n}", String(options.number)) });
+        }
+
+        for (const node of layout) {
+            output.pushAll(this.renderNode(node, citation, definition));
+        }
+
+        return output.finish();
+    }
+
+    /**
+     * Bibliography entry as plain text
+     */
+    static formatReference(
+        citation: FormattableCitation,
+        style?: string | null,
+        options: FormatOptions = {}
+    ): string {
+        return this.toText(this.formatReferenceSegments(citation, style, options));
+    }
+
+    /**
+     * Bibliography entry as HTML (titles/journals in <i>)
+     */
+    static formatReferenceHtml(
+        citation: FormattableCitation,
+        style?: string | null,
+        options: FormatOptions = {}
+    ): string {
+        return this.formatReferenceSegments(citation, style, options)
+            .map((segment) => {
+                const text = escapeHtml(segment.text);
+                return segment.italic ? `<i>${text}</i>` : text;
+            })
+            .join("");
+    }
+
+    /**
+     * In-text citation: "(Smith & Jones, 2020)", "(Smith et al.)", "[3]", "³"
+     */
+    static formatInText(
+        citation: FormattableCitation,
+        style?: string | null,
+        options: FormatOptions = {}
+    ): string {
+        const definition = this.getStyle(style);
+        const { prefix, suffix } = definition.citation;
+
+        if (definition.citationFormat === "numeric") {
+            const number = String(options.number ?? "?");
+            if (definition.citation.superscript) {
+                return number.replace(/\d/g, (d) => SUPERSCRIPT_DIGITS[Number(d)]);
+            }
+            return `${prefix}${number}${suffix}`;
+        }
+
+        const authors = this.getAuthors(citation);
+        const names = authors.length > 0
+            ? this.formatNames(authors, definition.citation.names)
+            : this.shortTitle(citation.title);
+
+        if (definition.citationFormat === "author") {
+            return `${prefix}${names}${suffix}`;
+        }
+
+        const year = this.getYear(citation, definition);
+        return `${prefix}${names}${definition.citation.yearDelimiter ?? ", "}${year}${suffix}`;
+    }
+
+    /**
+     * Every supported style, keyed by style id - the shape stored in `Citation.formatted_citations`
+     */
+    static formatAll(citation: FormattableCitation): Record<CitationStyleId, string> {
+        const result = {} as Record<CitationStyleId, string>;
+        for (const style of this.STYLES) {
+            result[style] = this.formatReference(citation, style);
+        }
+        return result;
+    }
+
+    /**
+     * Bibliography order for a style.
+     * Numeric styles number sources by first appearance in the document (citation
+     * nodes in the Tiptap content); author-date styles sort alphabetically.
+     * Uncited sources keep their original relative order at the end.
+     */
+    static orderCitations<T extends FormattableCitation>(
+        citations: T[],
+        style?: string | null,
+        content?: any
+    ): T[] {
+        const definition = this.getStyle(style);
+
+        if (definition.bibliography.sort === "citation-number") {
+            const order = this.collectCitationOrder(content);
+            const rank = (c: T) => {
+                const position = c.id ? order.indexOf(c.id) : -1;
+                return position === -1 ? Number.MAX_SAFE_INTEGER : position;
+            };
+            return citations
+                .map((citation, index) => ({ citation, index }))
+                .sort((a, b) => rank(a.citation) - rank(b.citation) || a.index - b.index)
+                .map(({ citation }) => citation);
+        }
+
+        const sortKey = (c: T) => {
+            const first = this.getAuthors(c)[0];
+            const name = first ? first.family || first.literal || first.given || "" : c.title || "";
+            return name.toLowerCase();
+        };
+
+        return [...citations].sort(
+            (a, b) =>
+                sortKey(a).localeCompare(sortKey(b)) ||
+                (Number(a.year) || 0) - (Number(b.year) || 0) ||
+                (a.title || "").localeCompare(b.title || "")
+        );
+    }
+
+    /**
+     * Ordered, numbered bibliography for an export
+     */
+    static buildBibliography<T extends FormattableCitation>(
+        citations: T[],
+        style?: string | null,
+        content?: any
+    ): { citation: T; number: number; segments: FormattedSegment[] }[] {
+        return this.orderCitations(citations, style, content).map((citation, index) => ({
+            citation,
+            number: index + 1,
+            segments: this.formatReferenceSegments(citation, style, { number: index + 1 }),
+        }));
+    }
+
+    static toText(segments: FormattedSegment[]): string {
+        return segments.map((segment) => segment.text).join("");
+    }
+
+    /**
+     * Author substitution (as CSL's `<substitute>`): with no authors, the title moves into the author slot
+     * ("Title. (2020)." rather than "(2020). Title.")
+     */
+    private static substituteAuthor(
+        layout: StyleLayoutNode[],
+        citation: FormattableCitation
+    ): StyleLayoutNode[] {
+        if (this.getAuthors(citation).length > 0) return layout;
+
+        const title = layout.find(
+            (node) => "variable" in node && node.variable === "title"
+        ) as Extract<StyleLayoutNode, { variable: StyleVariable }> | undefined;
+        if (!title) return layout;
+
+        return layout
+            .filter((node) => node !== title)
+            .map((node) =>
+                "variable" in node && node.variable === "author"
+                    ? { ...title, prefix: node.prefix, suffix: node.suffix === " " ? ". " : title.suffix }
+                    : node
+            );
+    }
+
+    /**
+     * Citation IDs in order of first appearance in Tiptap JSON
+     */
+    private static collectCitationOrder(content: any): string[] {
+        const order: string[] = [];
+
+        const walk = (node: any) => {
+            if (!node || typeof node !== "object") return;
+            if (node.type === "citation" && node.attrs?.citationId) {
+                if (!order.includes(node.attrs.citationId)) order.push(node.attrs.citationId);
+            }
+            if (Array.isArray(node.content)) node.content.forEach(walk);
+        };
+
+        walk(content);
+        return order;
+    }
+
+    private static renderNode(
+        node: StyleLayoutNode,
+        citation: FormattableCitation,
+        definition: CitationStyleDefinition
+    ): FormattedSegment[] {
+        if ("text" in node) {
+            return [{ text: node.text, italic: node.fontStyle === "italic" }];
+        }
+
+        if ("group" in node) {
+            const parts = node.group
+                .map((child) => this.renderNode(child, citation, definition))
+                .filter((segments) => segments.length > 0);
+
+            // CSL groups are suppressed when none of their variables rendered
+            if (parts.length === 0) return [];
+
+            const output = new SegmentBuilder();
+            if (node.prefix) output.push({ text: node.prefix });
+            parts.forEach((segments, index) => {
+                if (index > 0 && node.delimiter) output.push({ text: node.delimiter });
+                output.pushAll(segments);
+            });
+            if (node.suffix) output.push({ text: node.suffix });
+            return output.segments;
+        }
+
+        const value = this.getVariable(node.variable, citation, definition);
+        if (!value) return [];
+
+        const segments: FormattedSegment[] = [];
+        if (node.prefix) segments.push({ text: node.prefix });
+
+        let suffix = node.suffix || "";
+        if (node.quotes === "double") {
+            // US convention: trailing comma/period goes inside the quotes
+            const punctuation = /^[.,]/.test(suffix) && !/[.?!]$/.test(value) ? suffix[0] : "";
+            if (punctuation) suffix = suffix.slice(1);
+            segments.push({ text: `“${value}${punctuation}”` });
+        } else if (node.quotes === "single") {
+            segments.push({ text: `‘${value}’` });
+        } else {
+            segments.push({ text: value, italic: node.fontStyle === "italic" });
+        }
+
+        if (suffix) segments.push({ text: suffix });
+        return segments;
+    }
+
+    private static getVariable(
+        variable: StyleVariable,
+        citation: FormattableCitation,
+        definition: CitationStyleDefinition
+    ): string | undefined {
+        switch (variable) {
+            case "author": {
+                const authors = this.getAuthors(citation);
+                return authors.length > 0
+                    ? this.formatNames(authors, definition.bibliography.names)
+                    : undefined;
+            }
+            case "issued":
+                return this.getYear(citation, definition);
+            case "title":
+                return clean(citation.title)?.replace(/\.$/, "") || "Untitled";
+            case "container-title":
+                return clean(citation.journal);
+            case "volume":
+                return clean(citation.volume);
+            case "issue":
+                return clean(citation.issue);
+            case "page":
+                return clean(citation.pages)?.replace(/\s*[-–—]+\s*/g, definition.pageRangeDelimiter);
+            case "publisher":
+                return clean(citation.publisher);
+            case "DOI": {
+                const doi = normalizeDOI(citation.doi);
+                return doi ? `${definition.doiPrefix}${doi}` : undefined;
+            }
+            case "URL":
+                return normalizeDOI(citation.doi) ? undefined : clean(citation.url);
+        }
+    }
+
+    private static getYear(citation: FormattableCitation, definition: CitationStyleDefinition): string {
+        const year = citation.year ? String(citation.year).trim() : "";
+        return year && year !== "0" ? year : definition.noDateTerm;
+    }
+
+    /**
+     * Structured authors from any of the shapes the app passes around
+     */
+    private static getAuthors(citation: FormattableCitation): LibraryAuthor[] {
+        if (Array.isArray(citation.authors) && citation.authors.length > 0) {
+            return citation.authors
+                .map((author): LibraryAuthor => {
+                    if (typeof author === "string") return parseName(author);
+                    if (author.literal) return { literal: author.literal };
+                    return {
+                        family: author.family || author.lastName,
+                        given: author.given || author.firstName,
+                    };
+                })
+                .filter((author) => author.family || author.given || author.literal);
+        }
+        return parseAuthorList(citation.author);
+    }
+
+    private static formatNames(authors: LibraryAuthor[], options: StyleNameOptions): string {
+        const truncated = authors.length >= options.etAlMin;
+        const shown = truncated ? authors.slice(0, options.etAlUseFirst) : authors;
+        const names = shown.map((author, index) => this.formatName(author, options, index));
+
+        if (truncated) {
+            const separator =
+                options.delimiterPrecedesEtAl === "always" || names.length > 1
+                    ? options.delimiter
+                    : " ";
+            return names.join(options.delimiter) + separator + options.etAlTerm;
+        }
+
+        if (names.length === 1 || options.and === "none") {
+            return names.join(options.delimiter);
+        }
+
+        const andWord = options.and === "symbol" ? "&" : "and";
+        const last = names.pop()!;
+        const precedes =
+            options.delimiterPrecedesLast === "always" ||
+            (options.delimiterPrecedesLast === "contextual" && names.length > 1);
+
+        return `${names.join(options.delimiter)}${precedes ? options.delimiter.trimEnd() : ""} ${andWord} ${last}`;
+    }
+
+    private static formatName(author: LibraryAuthor, options: StyleNameOptions, index: number): string {
+        if (author.literal) return author.literal;
+
+        const family = author.family || "";
+        if (options.form === "short" || !author.given) return family || author.given || "";
+
+        const given = options.initialize
+            ? this.initialize(author.given, options.initializeWith)
+            : author.given;
+
+        const inverted =
+            options.nameAsSortOrder === "all" ||
+            (options.nameAsSortOrder === "first" && index === 0);
+
+        return inverted ? `${family}${options.sortSeparator}${given}` : `${given} ${family}`;
+    }
+
+    /**
+     * "John Ronald" -> "J. R." (". ") or "JR" ("")
+     */
+    private static initialize(given: string, initializeWith: string): string {
+        return given
+            .split(/[\s.]+/)
+            .filter(Boolean)
+            .map((part) =>
+                part
+                    .split("-")
+                    .map((piece) => piece.charAt(0).toUpperCase() + initializeWith.trim())
+                    .join("-")
+            )
+            .join(initializeWith.includes(" ") ? " " : "");
+    }
+
+    private static layoutFor(citation: FormattableCitation): keyof CitationStyleDefinition["bibliography"]["layouts"] {
+        const type = (citation.type || "").toLowerCase();
+        if (type.includes("web") || type === "website") return "webpage";
+        if (["book", "report", "thesis", "dataset"].includes(type)) return "book";
+        if (type.includes("article") || type.includes("journal") || type.includes("chapter") || type.includes("conference")) {
+            return "article";
+        }
+        return citation.journal ? "article" : "book";
+    }
+
+    private static shortTitle(title?: string | null): string {
+        const words = (title || "Untitled").split(/\s+/).slice(0, 3).join(" ");
+        return `“${words}”`;
+    }
+}
+
+/**
+ * Appends segments while smoothing the seams between layout pieces:
+ * no doubled periods ("J.." / "Why?.") and no doubled spaces.
+ */
+class SegmentBuilder {
+    segments: FormattedSegment[] = [];
+
+    push(segment: FormattedSegment) {
+        let text = segment.text;
+        const previous = this.text();
+
+        if (/[.?!]”?$/.test(previous) && text.startsWith(".")) text = text.slice(1);
+        if (/\s$/.test(previous) || previous === "") text = text.replace(/^\s+/, "");
+        if (!text) return;
+
+        const last = this.segments[this.segments.length - 1];
+        if (last && !!last.italic === !!segment.italic) {
+            last.text += text;
+        } else {
+            this.segments.push({ text, italic: segment.italic || undefined });
+        }
+    }
+
+    pushAll(segments: FormattedSegment[]) {
+        segments.forEach((segment) => this.push(segment));
+    }
+
+    finish(): FormattedSegment[] {
+        const last = this.segments[this.segments.length - 1];
+        if (last) last.text = last.text.trimEnd();
+        return this.segments.filter((segment) => segment.text.length > 0);
+    }
+
+    private text(): string {
+        return this.segments.map((segment) => segment.text).join("");
+    }
+}
+
+function clean(value?: string | number | null): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    const text = String(value).replace(/\s+/g, " ").trim();
+    return text.length > 0 ? text : undefined;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,481 @@
+import { CitationStyleDefinition, CitationStyleId, StyleNameOptions } from "../../types/citationFormatting";
+
+/**
+ * Citation style definitions
+ *
+ * Each style is a declarative description in our own schema: name options,
+ * in-text citation shape and bibliography layouts per reference kind. The schema
+ * borrows CSL's vocabulary (name options, groups, substitution) but it is not
+ * CSL - .csl files cannot be loaded, and the styles cover the common article,
+ * book and webpage cases rather than the full published style specifications.
+ * The formatter engine is style-agnostic - adding a journal style means adding
+ * an entry here, not another hand-written formatCitation.
+ */
+
+const shortNames = (overrides: Partial<StyleNameOptions>): StyleNameOptions => ({
+    nameAsSortOrder: "none",
+    initialize: false,
+    initializeWith: ". ",
+    sortSeparator: ", ",
+    delimiter: ", ",
+    and: "text",
+    delimiterPrecedesLast: "never",
+    etAlMin: 3,
+    etAlUseFirst: 1,
+    etAlTerm: "et al.",
+    form: "short",
+    ...overrides,
+});
+
+// Vancouver and AMA share the NLM name and journal layout
+const nlmNames = (etAlUseFirst: number): StyleNameOptions => ({
+    nameAsSortOrder: "all",
+    initialize: true,
+    initializeWith: "",
+    sortSeparator: " ",
+    delimiter: ", ",
+    and: "none",
+    delimiterPrecedesLast: "always",
+    etAlMin: 7,
+    etAlUseFirst,
+    etAlTerm: "et al",
+});
+
+const APA: CitationStyleDefinition = {
+    id: "apa",
+    title: "American Psychological Association 7th edition",
+    citationFormat: "author-date",
+    citation: {
+        names: shortNames({ and: "symbol" }),
+        prefix: "(",
+        suffix: ")",
+        yearDelimiter: ", ",
+    },
+    bibliography: {
+        names: {
+            nameAsSortOrder: "all",
+            initialize: true,
+            initializeWith: ". ",
+            sortSeparator: ", ",
+            delimiter: ", ",
+            and: "symbol",
+            delimiterPrecedesLast: "always",
+            etAlMin: 21,
+            etAlUseFirst: 19,
+            etAlTerm: "et al.",
+        },
+        sort: "author",
+        layouts: {
+            article: [
+                { variable: "author", suffix: ". " }, // Merges with a trailing initial; group authors need it
+                { variable: "issued", prefix: "(", suffix: "). " },
+                { variable: "title", suffix: ". " },
+                {
+                    group: [
+                        { variable: "container-title", fontStyle: "italic" },
+                        { variable: "volume", prefix: ", ", fontStyle: "italic" },
+                        { variable: "issue", prefix: "(", suffix: ")" },
+                        { variable: "page", prefix: ", " },
+                    ],
+                    suffix: ". ",
+                },
+                { variable: "DOI" },
+                { variable: "URL" },
+            ],
+            book: [
+                { variable: "author", suffix: ". " },
+                { variable: "issued", prefix: "(", suffix: "). " },
+                { variable: "title", suffix: ". ", fontStyle: "italic" },
+                { variable: "publisher", suffix: ". " },
+                { variable: "DOI" },
+                { variable: "URL" },
+            ],
+            webpage: [
+                { variable: "author", suffix: ". " },
+                { variable: "issued", prefix: "(", suffix: "). " },
+                { variable: "title", suffix: ". ", fontStyle: "italic" },
+                { variable: "container-title", suffix: ". " },
+                { variable: "URL" },
+            ],
+        },
+    },
+    noDateTerm: "n.d.",
+    doiPrefix: "https://doi.org/",
+    pageRangeDelimiter: "–",
+};
+
+const MLA: CitationStyleDefinition = {
+    id: "mla",
+    title: "Modern Language Association 9th edition",
+    citationFormat: "author",
+    citation: {
+        names: shortNames({}),
+        prefix: "(",
+        suffix: ")",
+    },
+    bibliography: {
+        names: {
+            nameAsSortOrder: "first",
+            initialize: false,
+            initializeWith: ". ",
+            sortSeparator: ", ",
+            delimiter: ", ",
+            and: "text",
+            delimiterPrecedesLast: "always",
+            etAlMin: 3,
+            etAlUseFirst: 1,
+            etAlTerm: "et al.",
+            delimiterPrecedesEtAl: "always",
+        },
+        sort: "author",
+        layouts: {
+            article: [
+                { variable: "author", suffix: ". " },
+                { variable: "title", suffix: ". ", quotes: "double" },
+                {
+                    group: [
+                        { variable: "container-title", fontStyle: "italic" },
+                        { variable: "volume", prefix: "vol. " },
+                        { variable: "issue", prefix: "no. " },
+                        { variable: "issued" },
+                        { variable: "page", prefix: "pp. " },
+                    ],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "DOI" },
+                { variable: "URL" },
+            ],
+            book: [
+                { variable: "author", suffix: ". " },
+                { variable: "title", suffix: ". ", fontStyle: "italic" },
+                {
+                    group: [{ variable: "publisher" }, { variable: "issued" }],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "DOI" },
+                { variable: "URL" },
+            ],
+            webpage: [
+                { variable: "author", suffix: ". " },
+                { variable: "title", suffix: ". ", quotes: "double" },
+                {
+                    group: [
+                        { variable: "container-title", fontStyle: "italic" },
+                        { variable: "issued" },
+                    ],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "URL" },
+            ],
+        },
+    },
+    noDateTerm: "n.d.",
+    doiPrefix: "https://doi.org/",
+    pageRangeDelimiter: "-",
+};
+
+const CHICAGO: CitationStyleDefinition = {
+    id: "chicago",
+    title: "Chicago Manual of Style 17th edition (author-date)",
+    citationFormat: "author-date",
+    citation: {
+        names: shortNames({ etAlMin: 4, delimiterPrecedesLast: "contextual" }),
+        prefix: "(",
+        suffix: ")",
+        yearDelimiter: " ",
+    },
+    bibliography: {
+        names: {
+            nameAsSortOrder: "first",
+            initialize: false,
+            initializeWith: ". ",
+            sortSeparator: ", ",
+            delimiter: ", ",
+            and: "text",
+            delimiterPrecedesLast: "always",
+            etAlMin: 11,
+            etAlUseFirst: 7,
+            etAlTerm: "et al.",
+        },
+        sort: "author",
+        layouts: {
+            article: [
+                { variable: "author", suffix: ". " },
+                { variable: "title", suffix: ". ", quotes: "double" },
+                {
+                    group: [
+                        { variable: "container-title", fontStyle: "italic" },
+                        { variable: "volume", prefix: " " },
+                        { variable: "issue", prefix: ", no. " },
+                        { variable: "issued", prefix: " (", suffix: ")" },
+                        { variable: "page", prefix: ": " },
+                    ],
+                    suffix: ". ",
+                },
+                { variable: "DOI" },
+                { variable: "URL" },
+            ],
+            book: [
+                { variable: "author", suffix: ". " },
+                { variable: "title", suffix: ". ", fontStyle: "italic" },
+                {
+                    group: [{ variable: "publisher" }, { variable: "issued" }],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "DOI" },
+                { variable: "URL" },
+            ],
+            webpage: [
+                { variable: "author", suffix: ". " },
+                { variable: "title", suffix: ". ", quotes: "double" },
+                { variable: "container-title", suffix: ". " },
+                { variable: "issued", suffix: ". " },
+                { variable: "URL" },
+            ],
+        },
+    },
+    noDateTerm: "n.d.",
+    doiPrefix: "https://doi.org/",
+    pageRangeDelimiter: "–",
+};
+
+const IEEE: CitationStyleDefinition = {
+    id: "ieee",
+    title: "IEEE",
+    citationFormat: "numeric",
+    citation: {
+        names: shortNames({}),
+        prefix: "[",
+        suffix: "]",
+    },
+    bibliography: {
+        names: {
+            nameAsSortOrder: "none",
+            initialize: true,
+            initializeWith: ". ",
+            sortSeparator: ", ",
+            delimiter: ", ",
+            and: "text",
+            delimiterPrecedesLast: "contextual",
+            etAlMin: 7,
+            etAlUseFirst: 1,
+            etAlTerm: "et al.",
+        },
+        sort: "citation-number",
+        numberLabel: "[{n}] ",
+        layouts: {
+            article: [
+                { variable: "author", suffix: ", " },
+                { variable: "title", suffix: ", ", quotes: "double" },
+                {
+                    group: [
+                        { variable: "container-title", fontStyle: "italic" },
+                        { variable: "volume", prefix: "vol. " },
+                        { variable: "issue", prefix: "no. " },
+                        { variable: "page", prefix: "pp. " },
+                        { variable: "issued" },
+                        { variable: "DOI" },
+                    ],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "URL", prefix: "[Online]. Available: " },
+            ],
+            book: [
+                { variable: "author", suffix: ", " },
+                { variable: "title", suffix: ". ", fontStyle: "italic" },
+                {
+                    group: [
+                        { variable: "publisher" },
+                        { variable: "issued" },
+                        { variable: "DOI" },
+                    ],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "URL", prefix: "[Online]. Available: " },
+            ],
+            webpage: [
+                { variable: "author", suffix: ", " },
+                { variable: "title", suffix: ", ", quotes: "double" },
+                {
+                    group: [
+                        { variable: "container-title", fontStyle: "italic" },
+                        { variable: "issued" },
+                    ],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "URL", prefix: "[Online]. Available: " },
+            ],
+        },
+    },
+    noDateTerm: "n.d.",
+    doiPrefix: "doi: ",
+    pageRangeDelimiter: "–",
+};
+
+const HARVARD: CitationStyleDefinition = {
+    id: "harvard",
+    title: "Harvard (Cite Them Right)",
+    citationFormat: "author-date",
+    citation: {
+        names: shortNames({ etAlMin: 4 }),
+        prefix: "(",
+        suffix: ")",
+        yearDelimiter: ", ",
+    },
+    bibliography: {
+        names: {
+            nameAsSortOrder: "all",
+            initialize: true,
+            initializeWith: ". ",
+            sortSeparator: ", ",
+            delimiter: ", ",
+            and: "text",
+            delimiterPrecedesLast: "never",
+            etAlMin: 4,
+            etAlUseFirst: 1,
+            etAlTerm: "et al.",
+        },
+        sort: "author",
+        layouts: {
+            article: [
+                { variable: "author", suffix: " " },
+                { variable: "issued", prefix: "(", suffix: ") " },
+                { variable: "title", suffix: ", ", quotes: "single" },
+                {
+                    group: [
+                        { variable: "container-title", fontStyle: "italic" },
+                        {
+                            group: [
+                                { variable: "volume" },
+                                { variable: "issue", prefix: "(", suffix: ")" },
+                            ],
+                        },
+                        { variable: "page", prefix: "pp. " },
+                    ],
+                    delimiter: ", ",
+                    suffix: ". ",
+                },
+                { variable: "DOI", prefix: "Available at: ", suffix: "." },
+                { variable: "URL", prefix: "Available at: ", suffix: "." },
+            ],
+            book: [
+                { variable: "author", suffix: " " },
+                { variable: "issued", prefix: "(", suffix: ") " },
+                { variable: "title", suffix: ". ", fontStyle: "italic" },
+                { variable: "publisher", suffix: ". " },
+                { variable: "DOI", prefix: "Available at: ", suffix: "." },
+                { variable: "URL", prefix: "Available at: ", suffix: "." },
+            ],
+            webpage: [
+                { variable: "author", suffix: " " },
+                { variable: "issued", prefix: "(", suffix: ") " },
+                { variable: "title", suffix: ". ", fontStyle: "italic" },
+                { variable: "container-title", suffix: ". " },
+                { variable: "URL", prefix: "Available at: ", suffix: "." },
+            ],
+        },
+    },
+    noDateTerm: "no date",
+    doiPrefix: "https://doi.org/",
+    pageRangeDelimiter: "–",
+};
+
+const nlmLayouts = (journalStyle?: "italic"): CitationStyleDefinition["bibliography"]["layouts"] => ({
+    article: [
+        { variable: "author", suffix: ". " },
+        { variable: "title", suffix: ". " },
+        { variable: "container-title", suffix: ". ", fontStyle: journalStyle },
+        {
+            group: [
+                { variable: "issued" },
+                {
+                    group: [
+                        { variable: "volume" },
+                        { variable: "issue", prefix: "(", suffix: ")" },
+                    ],
+                    prefix: ";",
+                },
+                { variable: "page", prefix: ":" },
+            ],
+            suffix: ". ",
+        },
+        { variable: "DOI" },
+        { variable: "URL", prefix: "Available from: " },
+    ],
+    book: [
+        { variable: "author", suffix: ". " },
+        { variable: "title", suffix: ". ", fontStyle: journalStyle },
+        {
+            group: [{ variable: "publisher" }, { variable: "issued" }],
+            delimiter: "; ",
+            suffix: ". ",
+        },
+        { variable: "DOI" },
+        { variable: "URL", prefix: "Available from: " },
+    ],
+    webpage: [
+        { variable: "author", suffix: ". " },
+        { variable: "title", suffix: " [Internet]. " },
+        { variable: "container-title", suffix: "; " },
+        { variable: "issued", suffix: ". " },
+        { variable: "URL", prefix: "Available from: " },
+    ],
+});
+
+const VANCOUVER: CitationStyleDefinition = {
+    id: "vancouver",
+    title: "Vancouver (ICMJE / NLM)",
+    citationFormat: "numeric",
+    citation: {
+        names: shortNames({}),
+        prefix: "(",
+        suffix: ")",
+    },
+    bibliography: {
+        names: nlmNames(6),
+        sort: "citation-number",
+        numberLabel: "{n}. ",
+        layouts: nlmLayouts(),
+    },
+    noDateTerm: "n.d.",
+    doiPrefix: "doi:",
+    pageRangeDelimiter: "-",
+};
+
+const AMA: CitationStyleDefinition = {
+    id: "ama",
+    title: "American Medical Association 11th edition",
+    citationFormat: "numeric",
+    citation: {
+        names: shortNames({}),
+        prefix: "",
+        suffix: "",
+        superscript: true,
+    },
+    bibliography: {
+        names: nlmNames(3),
+        sort: "citation-number",
+        numberLabel: "{n}. ",
+        layouts: nlmLayouts("italic"),
+    },
+    noDateTerm: "n.d.",
+    doiPrefix: "doi:",
+    pageRangeDelimiter: "-",
+};
+
+export const CITATION_STYLES: Record<CitationStyleId, CitationStyleDefinition> = {
+    apa: APA,
+    mla: MLA,
+    chicago: CHICAGO,
+    ieee: IEEE,
+    harvard: HARVARD,
+    vancouver: VANCOUVER,
+    ama: AMA,
+};
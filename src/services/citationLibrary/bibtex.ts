@@ -0,0 +1,387 @@
+import {
+    LibraryAuthor,
+    LibraryEntry,
+    LibraryEntryType,
+    LibraryParseResult,
+} from "../../types/citationLibrary";
+import { extractYear, normalizeDOI, normalizePages, parseName } from "./libraryUtils";
+
+const TYPE_MAP: Record<string, LibraryEntryType> = {
+    article: "journal-article",
+    book: "book",
+    booklet: "book",
+    inbook: "book-chapter",
+    incollection: "book-chapter",
+    inproceedings: "proceedings-article",
+    conference: "proceedings-article",
+    proceedings: "proceedings-article",
+    techreport: "report",
+    report: "report",
+    phdthesis: "thesis",
+    mastersthesis: "thesis",
+    thesis: "thesis",
+    online: "website",
+    electronic: "website",
+    www: "website",
+    dataset: "dataset",
+    misc: "other",
+    unpublished: "other",
+    manual: "other",
+};
+
+// Default month macros every BibTeX implementation predefines
+const DEFAULT_MACROS: Record<string, string> = {
+    jan: "January", feb: "February", mar: "March", apr: "April",
+    may: "May", jun: "June", jul: "July", aug: "August",
+    sep: "September", oct: "October", nov: "November", dec: "December",
+};
+
+// Common LaTeX accent commands -> combining characters
+const ACCENTS: Record<string, string> = {
+    "`": "̀", "'": "́", "^": "̂", "~": "̃",
+    "\"": "̈", "=": "̄", ".": "̇", "c": "̧",
+    "v": "̌", "u": "̆", "H": "̋", "k": "̨",
+};
+
+const SYMBOLS: Record<string, string> = {
+    ss: "ß", ae: "æ", AE: "Æ", oe: "œ", OE: "Œ", o: "ø", O: "Ø",
+    aa: "å", AA: "Å", l: "ł", L: "Ł", i: "ı", j: "ȷ", "&": "&",
+    "%": "%", "$": "$", "#": "#", "_": "_",
+};
+
+/**
+ * BibTeX parser
+ *
+ * Hand-rolled reader for the subset of BibTeX that reference managers export:
+ * entries, @string macros, `#` concatenation and brace/quote delimited values.
+ * Malformed entries are reported and skipped rather than failing the whole file.
+ */
+export function parseBibTeX(content: string): LibraryParseResult {
+    const result: LibraryParseResult = { entries: [], errors: [] };
+    const macros: Record<string, string> = { ...DEFAULT_MACROS };
+    let pos = 0;
+    let index = 0;
+
+    while (pos < content.length) {
+        const at = content.indexOf("@", pos);
+        if (at === -1) break;
+
+        const typeMatch = /^@\s*([a-zA-Z]+)\s*([{(])/.exec(content.slice(at, at + 64));
+        if (!typeMatch) {
+            pos = at + 1;
+            continue;
+        }
+
+        const entryType = typeMatch[1].toLowerCase();
+        const bodyStart = at + typeMatch[0].length;
+        const close = typeMatch[2] === "{" ? "}" : ")";
+        const bodyEnd = findClosing(content, bodyStart, typeMatch[2], close);
+
+        if (bodyEnd === -1) {
+            result.errors.push({ index, message: `Unterminated @${entryType} entry` });
+            break;
+        }
+
+        const body = content.slice(bodyStart, bodyEnd);
+        pos = bodyEnd + 1;
+
+        if (entryType === "comment" || entryType === "preamble") continue;
+
+        if (entryType === "string") {
+            // A broken macro only affects the entries that use it, which then keep the raw name
+            try {
+                Object.assign(macros, parseFields(body, macros));
+            } catch {
+                // ignore
+            }
+            continue;
+        }
+
+        const comma = body.indexOf(",");
+        const key = (comma === -1 ? body : body.slice(0, comma)).trim();
+
+        try {
+            const fields = comma === -1 ? {} : parseFields(body.slice(comma + 1), macros);
+            result.entries.push(toEntry(entryType, key, fields));
+        } catch (error: any) {
+            result.errors.push({ index, key, message: error.message });
+        }
+        index++;
+    }
+
+    return result;
+}
+
+/**
+ * Index of the delimiter closing the group that starts at `start`
+ */
+function findClosing(text: string, start: number, open: string, close: string): number {
+    let depth = 1;
+    let inQuote = false;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === "\\") {
+            i++;
+            continue;
+        }
+        if (open === "(" && ch === "\"") inQuote = !inQuote;
+        if (inQuote) continue;
+        if (ch === open) depth++;
+        else if (ch === close) {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Parse `name = value, ...` pairs from an entry body
+ */
+function parseFields(body: string, macros: Record<string, string>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    let pos = 0;
+
+    const skipWhitespace = () => {
+        while (pos < body.length && /[\s,]/.test(body[pos])) pos++;
+    };
+
+    while (true) {
+        skipWhitespace();
+        if (pos >= body.length) break;
+
+        const nameMatch = /^([^\s=,{}"#]+)\s*=\s*/.exec(body.slice(pos));
+        if (!nameMatch) {
+            throw new Error(`Unexpected content near "${body.slice(pos, pos + 20).trim()}"`);
+        }
+
+        const name = nameMatch[1].toLowerCase();
+        pos += nameMatch[0].length;
+
+        const parts: string[] = [];
+        while (true) {
+            while (pos < body.length && /\s/.test(body[pos])) pos++;
+            const ch = body[pos];
+
+            if (ch === "{") {
+                const end = findClosing(body, pos + 1, "{", "}");
+                if (end === -1) throw new Error(`Unbalanced braces in field "${name}"`);
+                parts.push(body.slice(pos + 1, end));
+                pos = end + 1;
+            } else if (ch === "\"") {
+                let end = pos + 1;
+                let depth = 0;
+                while (end < body.length && !(body[end] === "\"" && depth === 0)) {
+                    if (body[end] === "{") depth++;
+                    else if (body[end] === "}") depth--;
+                    end++;
+                }
+                if (end >= body.length) throw new Error(`Unterminated quote in field "${name}"`);
+                parts.push(body.slice(pos + 1, end));
+                pos = end + 1;
+            } else {
+                const bare = /^[^\s,#}]+/.exec(body.slice(pos));
+                if (!bare) throw new Error(`Missing value for field "${name}"`);
+                const token = bare[0];
+                parts.push(/^\d+$/.test(token) ? token : macros[token.toLowerCase()] ?? token);
+                pos += token.length;
+            }
+
+            while (pos < body.length && /\s/.test(body[pos])) pos++;
+            if (body[pos] === "#") {
+                pos++;
+                continue;
+            }
+            break;
+        }
+
+        fields[name] = parts.join("");
+    }
+
+    return fields;
+}
+
+/**
+ * Turn LaTeX markup into plain Unicode text
+ */
+export function cleanLatex(value: string): string {
+    const accent = (_m: string, mark: string, letter: string) =>
+        (letter + ACCENTS[mark]).normalize("NFC");
+
+    return value
+        .replace(/\\(textit|textbf|emph|textsc|texttt|mathrm|url)\s*/g, "")
+        // {\"o}, \"{o}, \"o
+        .replace(/\\([`'^~"=.])\s*\{?\\?([a-zA-Z])\}?/g, accent)
+        // \c{c}, \v c - letter accents need a brace or space after the command
+        .replace(/\\([cvuHk])(?:\s+|\{)\\?([a-zA-Z])\}?/g, accent)
+        .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i|j)(?![a-zA-Z])\s?/g, (_m, sym) => SYMBOLS[sym])
+        .replace(/\\([&%$#_])/g, (_m, sym) => SYMBOLS[sym])
+        .replace(/\\textbackslash\s?/g, "\\")
+        // Park escaped braces so the grouping-brace removal below keeps them
+        .replace(/\\\{/g, "\uE000")
+        .replace(/\\\}/g, "\uE001")
+        .replace(/--/g, "–")
+        .replace(/~/g, " ")
+        .replace(/[{}]/g, "")
+        .replace(/\uE000/g, "{")
+        .replace(/\uE001/g, "}")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * Split a BibTeX author list on top-level " and "
+ */
+function parseAuthors(value?: string): LibraryAuthor[] {
+    if (!value) return [];
+
+    const names: string[] = [];
+    let depth = 0;
+    let current = "";
+
+    for (let i = 0; i < value.length; i++) {
+        const ch = value[i];
+        if (ch === "{") depth++;
+        if (ch === "}") depth--;
+
+        if (depth === 0 && /^\s+and\s+/i.test(value.slice(i)) && /\s/.test(ch)) {
+            const match = /^\s+and\s+/i.exec(value.slice(i))!;
+            names.push(current);
+            current = "";
+            i += match[0].length - 1;
+            continue;
+        }
+        current += ch;
+    }
+    names.push(current);
+
+    return names
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0 && name.toLowerCase() !== "others")
+        .map((name) => {
+            // {World Health Organization} is a corporate author - don't split it
+            if (/^\{[^{}]*\}$/.test(name)) {
+                return { literal: cleanLatex(name) };
+            }
+            return parseName(cleanLatex(name));
+        });
+}
+
+function toEntry(entryType: string, key: string, raw: Record<string, string>): LibraryEntry {
+    const title = cleanLatex(raw.title || raw.booktitle || "");
+    if (!title) {
+        throw new Error("Entry has no title");
+    }
+
+    const field = (name: string) => (raw[name] ? cleanLatex(raw[name]) : undefined);
+    const authors = parseAuthors(raw.author);
+
+    const notes: string[] = [];
+    if (raw.note) notes.push(cleanLatex(raw.note));
+    if (raw.annote) notes.push(cleanLatex(raw.annote));
+
+    return {
+        key: key || undefined,
+        type: TYPE_MAP[entryType] || "other",
+        title,
+        authors: authors.length > 0 ? authors : parseAuthors(raw.editor),
+        year: extractYear(raw.year || raw.date),
+        journal: field("journal") || field("journaltitle") || (raw.title ? field("booktitle") : undefined),
+        volume: field("volume"),
+        issue: field("number") || field("issue"),
+        pages: normalizePages(raw.pages?.replace(/-+/g, "-")),
+        publisher: field("publisher") || field("institution") || field("school") || field("organization"),
+        doi: normalizeDOI(raw.doi),
+        url: raw.url?.trim() || undefined,
+        abstract: field("abstract"),
+        keywords: raw.keywords
+            ? cleanLatex(raw.keywords).split(/[,;]/).map((k) => k.trim()).filter(Boolean)
+            : undefined,
+        notes: notes.length > 0 ? notes : undefined,
+    };
+}
+
+const EXPORT_TYPES: Record<LibraryEntryType, string> = {
+    "journal-article": "article",
+    book: "book",
+    "book-chapter": "incollection",
+    "proceedings-article": "inproceedings",
+    report: "techreport",
+    thesis: "phdthesis",
+    website: "misc",
+    dataset: "misc",
+    other: "misc",
+};
+
+/**
+ * Serialize entries as a BibTeX database.
+ * Cite keys come from `entry.key`, so callers must make them unique.
+ */
+export function serializeBibTeX(entries: LibraryEntry[]): string {
+    return entries.map(serializeEntry).join("\n\n") + (entries.length > 0 ? "\n" : "");
+}
+
+function serializeEntry(entry: LibraryEntry): string {
+    const fields: [string, string | undefined][] = [
+        ["author", entry.authors.map(formatBibName).join(" and ") || undefined],
+        ["title", entry.title],
+        [entry.type === "book-chapter" || entry.type === "proceedings-article" ? "booktitle" : "journal",
+            entry.type === "book" ? undefined : entry.journal],
+        ["year", entry.year?.toString()],
+        ["volume", entry.volume],
+        ["number", entry.issue],
+        ["pages", entry.pages?.replace(/-/g, "--")],
+        [entry.type === "report" ? "institution" : entry.type === "thesis" ? "school" : "publisher",
+            entry.publisher],
+        ["doi", entry.doi],
+        ["url", entry.url],
+        ["abstract", entry.abstract],
+        ["keywords", entry.keywords?.join(", ")],
+        ["note", entry.notes?.join("\n\n")],
+    ];
+
+    const body = fields
+        .filter(([, value]) => value !== undefined && value !== "")
+        .map(([name, value]) => {
+            // DOIs and URLs are verbatim, author names were escaped one by one (formatBibName);
+            // everything else needs LaTeX escaping
+            const escaped = name === "doi" || name === "url" || name === "author" ? value! : escapeLatex(value!);
+            return `  ${name} = {${escaped}}`;
+        })
+        .join(",\n");
+
+    return `@${EXPORT_TYPES[entry.type] || "misc"}{${entry.key},\n${body}\n}`;
+}
+
+function formatBibName(author: LibraryAuthor): string {
+    if (author.literal) return `{${escapeLatex(author.literal)}}`;
+    if (!author.given) return escapeLatex(author.family || "");
+    return `${escapeLatex(author.family || "")}, ${escapeLatex(author.given)}`;
+}
+
+function escapeLatex(value: string): string {
+    return value
+        .replace(/\\/g, "\\textbackslash ")
+        .replace(/([&%$#_{}])/g, "\\$1");
+}
+
+/**
+ * Cite key in the usual reference-manager shape: family name + year + first title word
+ */
+export function generateCiteKey(entry: LibraryEntry): string {
+    const first = entry.authors[0];
+    const name = (first?.family || first?.literal || "anon").split(/\s+/).pop() || "anon";
+    const word = entry.title
+        .split(/\s+/)
+        .find((w) => w.replace(/[^a-zA-Z]/g, "").length > 3) || "";
+
+    return ascii(name) + (entry.year || "") + ascii(word);
+}
+
+function ascii(value: string): string {
+    return value
+        .normalize("NFKD")
+        .replace(/[^a-zA-Z0-9]/g, "")
+        .toLowerCase();
+}
@@ -0,0 +1,180 @@
+import { prisma } from "../../lib/prisma";
+import logger from "../../monitoring/logger";
+import { LibraryEntry, LibraryEntryType, LibraryFormat } from "../../types/citationLibrary";
+import { generateCiteKey, serializeBibTeX } from "./bibtex";
+import { serializeRIS } from "./ris";
+import { serializeCSLJSON } from "./cslJson";
+import { normalizeDOI, parseAuthorList } from "./libraryUtils";
+
+const ENTRY_TYPES: LibraryEntryType[] = [
+    "journal-article",
+    "book",
+    "book-chapter",
+    "proceedings-article",
+    "report",
+    "thesis",
+    "website",
+    "dataset",
+    "other",
+];
+
+// Looser type names other sources write into Citation.type
+const TYPE_ALIASES: Record<string, LibraryEntryType> = {
+    article: "journal-article",
+    journal: "journal-article",
+    "article-journal": "journal-article",
+    chapter: "book-chapter",
+    conference: "proceedings-article",
+    "paper-conference": "proceedings-article",
+    "conference-paper": "proceedings-article",
+    preprint: "journal-article",
+    "posted-content": "journal-article",
+    webpage: "website",
+    web: "website",
+    dissertation: "thesis",
+};
+
+const FORMAT_DETAILS: Record<LibraryFormat, { extension: string; contentType: string }> = {
+    bibtex: { extension: "bib", contentType: "application/x-bibtex; charset=utf-8" },
+    ris: { extension: "ris", contentType: "application/x-research-info-systems; charset=utf-8" },
+    csljson: { extension: "json", contentType: "application/vnd.citationstyles.csl+json; charset=utf-8" },
+};
+
+/**
+ * Citation Export Service
+ * Serializes a project's citation library for reference managers and LaTeX.
+ */
+export class CitationExportService {
+    /**
+     * Export all citations of a project in the requested format
+     */
+    static async exportLibrary(projectId: string, format: LibraryFormat) {
+        const citations = await prisma.citation.findMany({
+            where: { project_id: projectId },
+            orderBy: { created_at: "asc" },
+        });
+
+        const entries = this.toEntries(citations);
+
+        let content: string;
+        switch (format) {
+            case "bibtex":
+                content = serializeBibTeX(entries);
+                break;
+            case "ris":
+                content = serializeRIS(entries);
+                break;
+            case "csljson":
+                content = serializeCSLJSON(entries);
+                break;
+        }
+
+        logger.info("Citation library exported", {
+            projectId,
+            format,
+            count: entries.length,
+        });
+
+        return {
+            content,
+            count: entries.length,
+            ...FORMAT_DETAILS[format],
+        };
+    }
+
+    /**
+     * Map Citation rows to library entries with unique cite keys
+     */
+    static toEntries(citations: any[]): LibraryEntry[] {
+        const usedKeys = new Set<string>();
+
+        return citations.map((citation) => {
+            const entry = this.toEntry(citation);
+
+            // smith2020deep, smith2020deepa, ... smith2020deepz, smith2020deepaa ...
+            const base = generateCiteKey(entry) || citation.id;
+            let key = base;
+            for (let n = 1; usedKeys.has(key); n++) {
+                key = base + this.keySuffix(n);
+            }
+            usedKeys.add(key);
+            entry.key = key;
+
+            return entry;
+        });
+    }
+
+    /**
+     * Letter suffix for the nth duplicate cite key: a..z, then aa, ab ...
+     */
+    private static keySuffix(n: number): string {
+        let suffix = "";
+        while (n > 0) {
+            n--;
+            suffix = String.fromCharCode(97 + (n % 26)) + suffix;
+            n = Math.floor(n / 26);
+        }
+        return suffix;
+    }
+
+    private static toEntry(citation: any): LibraryEntry {
+        const themes = this.toStringList(citation.themes);
+
+        return {
+            type: this.toEntryType(citation.type),
+            title: citation.title,
+            authors: parseAuthorList(citation.author),
+            year: citation.year || undefined,
+            journal: citation.journal || undefined,
+            volume: citation.volume || undefined,
+            issue: citation.issue || undefined,
+            pages: citation.pages || undefined,
+            publisher: citation.publisher || undefined,
+            doi: normalizeDOI(citation.doi),
+            url: citation.url || undefined,
+            abstract: citation.abstract || undefined,
+            keywords: themes.length > 0 ? themes : undefined,
+            notes: this.buildNotes(citation),
+        };
+    }
+
+    /**
+     * Literature-matrix notes and stored formatted citations, in that order
+     * (themes are exported as keywords)
+     */
+    private static buildNotes(citation: any): string[] | undefined {
+        const notes: string[] = [];
+
+        if (citation.matrix_notes?.trim()) {
+            notes.push(citation.matrix_notes.trim());
+        }
+
+        const formatted = citation.formatted_citations;
+        if (typeof formatted === "string" && formatted.trim()) {
+            notes.push(formatted.trim());
+        } else if (formatted && typeof formatted === "object" && !Array.isArray(formatted)) {
+            for (const [style, text] of Object.entries(formatted)) {
+                if (typeof text === "string" && text.trim()) {
+                    notes.push(`${style.toUpperCase()}: ${text.trim()}`);
+                }
+            }
+        }
+
+        return notes.length > 0 ? notes : undefined;
+    }
+
+    private static toEntryType(type?: string | null): LibraryEntryType {
+        const normalized = (type || "").toLowerCase().trim();
+        if (ENTRY_TYPES.includes(normalized as LibraryEntryType)) {
+            return normalized as LibraryEntryType;
+        }
+        return TYPE_ALIASES[normalized] || "other";
+    }
+
+    private static toStringList(value: any): string[] {
+        if (!Array.isArray(value)) return [];
+        return value
+            .map((item) => (typeof item === "string" ? item : item?.name || item?.label))
+            .filter((item): item is string => typeof item === "string" && item.trim().length > 0);
+    }
+}
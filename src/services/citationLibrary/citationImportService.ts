@@ -0,0 +1,263 @@
+import { prisma } from "../../lib/prisma";
+import logger from "../../monitoring/logger";
+import { ProjectAccessService } from "../projectAccessService";
+import { CitationFormatter } from "../citationFormatting/citationFormatter";
+import {
+    ImportEntryReport,
+    LibraryEntry,
+    LibraryFormat,
+    LibraryImportReport,
+    LibraryParseResult,
+} from "../../types/citationLibrary";
+import { parseBibTeX } from "./bibtex";
+import { parseRIS } from "./ris";
+import { parseCSLJSON } from "./cslJson";
+import { formatAuthorList, normalizeDOI, normalizeTitle } from "./libraryUtils";
+
+export const LIBRARY_FORMATS: LibraryFormat[] = ["bibtex", "ris", "csljson"];
+
+// Fields an import may fill in on an existing citation (never overwrites)
+const MERGEABLE_FIELDS = [
+    "doi",
+    "url",
+    "volume",
+    "issue",
+    "pages",
+    "publisher",
+    "journal",
+    "abstract",
+] as const;
+
+/**
+ * Citation Import Service
+ * Imports reference-manager libraries (Zotero, Mendeley, JabRef exports) into a project.
+ */
+export class CitationImportService {
+    /**
+     * Resolve the format from an explicit value, the file name, or the content itself
+     */
+    static detectFormat(content: string, fileName?: string, format?: string): LibraryFormat | null {
+        const explicit = format?.toLowerCase().replace(/[^a-z]/g, "");
+        if (explicit) {
+            if (explicit === "bib") return "bibtex";
+            if (explicit === "json" || explicit === "csl") return "csljson";
+            return LIBRARY_FORMATS.includes(explicit as LibraryFormat)
+                ? (explicit as LibraryFormat)
+                : null;
+        }
+
+        const extension = fileName?.toLowerCase().split(".").pop();
+        if (extension === "bib" || extension === "bibtex") return "bibtex";
+        if (extension === "ris") return "ris";
+        if (extension === "json") return "csljson";
+
+        const trimmed = content.replace(/^﻿/, "").trimStart();
+        if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "csljson";
+        if (/^TY  - /m.test(trimmed)) return "ris";
+        if (/@\s*[a-zA-Z]+\s*[{(]/.test(trimmed)) return "bibtex";
+
+        return null;
+    }
+
+    static parse(format: LibraryFormat, content: string): LibraryParseResult {
+        switch (format) {
+            case "bibtex":
+                return parseBibTeX(content);
+            case "ris":
+                return parseRIS(content);
+            case "csljson":
+                return parseCSLJSON(content);
+        }
+    }
+
+    /**
+     * Import a library file into a project.
+     * Entries matching an existing citation (by DOI, then normalized title) are merged
+     * into it; entries that cannot be stored (no title/year) are rejected.
+     */
+    static async importLibrary(
+        projectId: string,
+        userId: string,
+        format: LibraryFormat,
+        content: string
+    ): Promise<LibraryImportReport> {
+        await ProjectAccessService.assertAccess(projectId, userId, "editor");
+
+        const parsed = this.parse(format, content);
+
+        const existing = await prisma.citation.findMany({
+            where: { project_id: projectId },
+        });
+
+        const byDOI = new Map<string, any>();
+        const byTitle = new Map<string, any>();
+        const index = (citation: any) => {
+            const doi = normalizeDOI(citation.doi);
+            if (doi) byDOI.set(doi, citation);
+            const title = normalizeTitle(citation.title);
+            if (title) byTitle.set(title, citation);
+        };
+        existing.forEach(index);
+
+        // Parse failures keep their position in the file so the report lines up
+        const reports: ImportEntryReport[] = parsed.errors.map((error) => ({
+            index: error.index,
+            key: error.key,
+            status: "rejected",
+            reason: error.message,
+        }));
+
+        const entryIndexes = this.entryIndexes(parsed);
+
+        for (let i = 0; i < parsed.entries.length; i++) {
+            const entry = parsed.entries[i];
+            const report: ImportEntryReport = {
+                index: entryIndexes[i],
+                key: entry.key,
+                title: entry.title,
+                status: "rejected",
+            };
+
+            try {
+                if (!entry.year) {
+                    report.reason = "Entry has no publication year";
+                    reports.push(report);
+                    continue;
+                }
+
+                const doi = normalizeDOI(entry.doi);
+                const match =
+                    (doi && byDOI.get(doi)) || byTitle.get(normalizeTitle(entry.title));
+
+                if (match) {
+                    const { citation, mergedFields } = await this.mergeInto(match, entry);
+                    index(citation);
+                    reports.push({
+                        ...report,
+                        status: "merged",
+                        citationId: citation.id,
+                        mergedFields,
+                    });
+                    continue;
+                }
+
+                const bibliographic = {
+                    title: entry.title,
+                    author: formatAuthorList(entry.authors),
+                    year: entry.year,
+                    type: entry.type,
+                    doi,
+                    url: entry.url,
+                    volume: entry.volume,
+                    issue: entry.issue,
+                    pages: entry.pages,
+                    publisher: entry.publisher,
+                    journal: entry.journal,
+                };
+
+                const citation = await prisma.citation.create({
+                    data: {
+                        project_id: projectId,
+                        user_id: userId,
+                        ...bibliographic,
+                        abstract: entry.abstract,
+                        source: format,
+                        formatted_citations: CitationFormatter.formatAll(bibliographic),
+                        themes: entry.keywords?.length ? entry.keywords : undefined,
+                        matrix_notes: entry.notes?.join("\n") || undefined,
+                    },
+                });
+
+                index(citation);
+                reports.push({ ...report, status: "created", citationId: citation.id });
+            } catch (error: any) {
+                logger.error("Failed to import library entry", {
+                    projectId,
+                    key: entry.key,
+                    error: error.message,
+                });
+                reports.push({ ...report, reason: "Failed to save citation" });
+            }
+        }
+
+        reports.sort((a, b) => a.index - b.index);
+
+        const summary: LibraryImportReport = {
+            format,
+            total: reports.length,
+            created: reports.filter((r) => r.status === "created").length,
+            merged: reports.filter((r) => r.status === "merged").length,
+            rejected: reports.filter((r) => r.status === "rejected").length,
+            entries: reports,
+        };
+
+        logger.info("Citation library imported", {
+            projectId,
+            userId,
+            format,
+            total: summary.total,
+            created: summary.created,
+            merged: summary.merged,
+            rejected: summary.rejected,
+        });
+
+        return summary;
+    }
+
+    /**
+     * Fill empty fields on an existing citation from an imported entry
+     */
+    private static async mergeInto(citation: any, entry: LibraryEntry) {
+        const data: Record<string, any> = {};
+
+        for (const field of MERGEABLE_FIELDS) {
+            const value = field === "doi" ? normalizeDOI(entry.doi) : entry[field];
+            if (value && !citation[field]) {
+                data[field] = value;
+            }
+        }
+
+        if ((!citation.author || citation.author === "Unknown") && entry.authors.length > 0) {
+            data.author = formatAuthorList(entry.authors);
+        }
+
+        const notes = entry.notes?.join("\n");
+        if (notes && !(citation.matrix_notes || "").includes(notes)) {
+            data.matrix_notes = citation.matrix_notes
+                ? `${citation.matrix_notes}\n${notes}`
+                : notes;
+        }
+
+        const mergedFields = Object.keys(data);
+        if (mergedFields.length === 0) {
+            return { citation, mergedFields };
+        }
+
+        if (mergedFields.some((field) => field !== "abstract" && field !== "matrix_notes")) {
+            data.formatted_citations = CitationFormatter.formatAll({ ...citation, ...data });
+        }
+
+        const updated = await prisma.citation.update({
+            where: { id: citation.id },
+            data,
+        });
+
+        return { citation: updated, mergedFields };
+    }
+
+    /**
+     * Original position of each parsed entry, skipping the slots taken by parse errors
+     */
+    private static entryIndexes(parsed: LibraryParseResult): number[] {
+        const taken = new Set(parsed.errors.map((e) => e.index));
+        const indexes: number[] = [];
+        let next = 0;
+
+        for (let i = 0; i < parsed.entries.length; i++) {
+            while (taken.has(next)) next++;
+            indexes.push(next++);
+        }
+
+        return indexes;
+    }
+}
@@ -0,0 +1,189 @@
+import {
+    LibraryAuthor,
+    LibraryEntry,
+    LibraryEntryType,
+    LibraryParseResult,
+} from "../../types/citationLibrary";
+import { extractYear, normalizeDOI, normalizePages } from "./libraryUtils";
+
+const TYPE_MAP: Record<string, LibraryEntryType> = {
+    "article-journal": "journal-article",
+    "article-magazine": "journal-article",
+    "article-newspaper": "journal-article",
+    article: "journal-article",
+    book: "book",
+    chapter: "book-chapter",
+    "paper-conference": "proceedings-article",
+    report: "report",
+    thesis: "thesis",
+    webpage: "website",
+    "post-weblog": "website",
+    post: "website",
+    dataset: "dataset",
+};
+
+/**
+ * CSL-JSON parser
+ *
+ * Accepts an array of CSL items, a single item, or an `{ items: [...] }` wrapper
+ * (the shape some Zotero exports use).
+ */
+export function parseCSLJSON(content: string): LibraryParseResult {
+    const result: LibraryParseResult = { entries: [], errors: [] };
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(content.replace(/^﻿/, ""));
+    } catch (error: any) {
+        result.errors.push({ index: 0, message: `Invalid JSON: ${error.message}` });
+        return result;
+    }
+
+    const items: any[] = Array.isArray(parsed)
+        ? parsed
+        : Array.isArray(parsed?.items)
+          ? parsed.items
+          : [parsed];
+
+    items.forEach((item, index) => {
+        try {
+            result.entries.push(toEntry(item));
+        } catch (error: any) {
+            result.errors.push({
+                index,
+                key: item && typeof item === "object" ? stringValue(item.id) : undefined,
+                message: error.message,
+            });
+        }
+    });
+
+    return result;
+}
+
+function toEntry(item: any): LibraryEntry {
+    if (!item || typeof item !== "object") {
+        throw new Error("Item is not an object");
+    }
+
+    const title = stringValue(item.title);
+    if (!title) {
+        throw new Error("Item has no title");
+    }
+
+    const authors = parseNames(item.author);
+    const note = stringValue(item.note);
+
+    return {
+        key: stringValue(item.id),
+        type: TYPE_MAP[item.type] || "other",
+        title,
+        authors: authors.length > 0 ? authors : parseNames(item.editor),
+        year: parseIssued(item.issued),
+        journal: stringValue(item["container-title"]),
+        volume: stringValue(item.volume),
+        issue: stringValue(item.issue),
+        pages: normalizePages(stringValue(item.page)),
+        publisher: stringValue(item.publisher),
+        doi: normalizeDOI(stringValue(item.DOI)),
+        url: stringValue(item.URL),
+        abstract: stringValue(item.abstract),
+        keywords: stringValue(item.keyword)
+            ?.split(/[,;]/)
+            .map((k) => k.trim())
+            .filter(Boolean),
+        notes: note ? [note] : undefined,
+    };
+}
+
+function parseNames(names: any): LibraryAuthor[] {
+    if (!Array.isArray(names)) return [];
+
+    return names
+        .filter((name) => name && typeof name === "object")
+        .map((name) => {
+            if (name.literal) return { literal: String(name.literal) };
+            const family = [name["non-dropping-particle"], name.family]
+                .filter(Boolean)
+                .join(" ");
+            return {
+                family: family || undefined,
+                given: stringValue(name.given),
+            };
+        })
+        .filter((name) => name.literal || name.family || name.given);
+}
+
+/**
+ * Year from a CSL date: `{ "date-parts": [[2020, 5]] }`, `{ raw: "2020-05" }` or a literal
+ */
+function parseIssued(issued: any): number | undefined {
+    if (!issued) return undefined;
+    if (typeof issued !== "object") return extractYear(issued);
+
+    const year = issued["date-parts"]?.[0]?.[0];
+    if (year !== undefined && year !== null && !isNaN(Number(year))) {
+        return Number(year);
+    }
+    return extractYear(issued.raw || issued.literal);
+}
+
+// Some exporters emit numbers or single-element arrays where strings are expected
+function stringValue(value: any): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value)) return stringValue(value[0]);
+    const text = String(value).trim();
+    return text.length > 0 ? text : undefined;
+}
+
+const EXPORT_TYPES: Record<LibraryEntryType, string> = {
+    "journal-article": "article-journal",
+    book: "book",
+    "book-chapter": "chapter",
+    "proceedings-article": "paper-conference",
+    report: "report",
+    thesis: "thesis",
+    website: "webpage",
+    dataset: "dataset",
+    other: "document",
+};
+
+/**
+ * Convert an entry to a CSL-JSON item
+ */
+export function toCSLItem(entry: LibraryEntry): Record<string, any> {
+    const item: Record<string, any> = {
+        id: entry.key,
+        type: EXPORT_TYPES[entry.type] || "document",
+        title: entry.title,
+        author: entry.authors.map((author) =>
+            author.literal
+                ? { literal: author.literal }
+                : { family: author.family, given: author.given }
+        ),
+        issued: entry.year ? { "date-parts": [[entry.year]] } : undefined,
+        "container-title": entry.journal,
+        volume: entry.volume,
+        issue: entry.issue,
+        page: entry.pages,
+        publisher: entry.publisher,
+        DOI: entry.doi,
+        URL: entry.url,
+        abstract: entry.abstract,
+        keyword: entry.keywords?.join(", "),
+        note: entry.notes?.join("\n\n"),
+    };
+
+    // Drop empty fields so the output stays readable
+    Object.keys(item).forEach((key) => {
+        if (item[key] === undefined || item[key] === "") delete item[key];
+    });
+
+    return item;
+}
+
+/**
+ * Serialize entries as a CSL-JSON array
+ */
+export function serializeCSLJSON(entries: LibraryEntry[]): string {
+    return JSON.stringify(entries.map(toCSLItem), null, 2);
+}
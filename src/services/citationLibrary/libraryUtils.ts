@@ -0,0 +1,135 @@
+import { LibraryAuthor } from "../../types/citationLibrary";
+
+/**
+ * Shared helpers for the reference-manager parsers and serializers
+ */
+
+/**
+ * Strip resolver prefixes so DOIs compare equal however they were written
+ */
+export function normalizeDOI(doi?: string | null): string | undefined {
+    if (!doi) return undefined;
+    const cleaned = doi
+        .trim()
+        .replace(/^https?:\/\/(dx\.)?doi\.org\//i, "")
+        .replace(/^doi:\s*/i, "")
+        .toLowerCase();
+    return cleaned || undefined;
+}
+
+/**
+ * Lowercase, punctuation-free title used for duplicate detection. Latin accents
+ * are folded; letters (with their marks) and digits of any script are kept.
+ */
+export function normalizeTitle(title?: string | null): string {
+    return (title || "")
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * First plausible four-digit year in a date-like string
+ */
+export function extractYear(value?: string | number | null): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    const match = String(value).match(/\b(1[5-9]\d{2}|20\d{2})\b/);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Words that mark an organisation rather than a person ("World Health Organization")
+const CORPORATE_WORDS =
+    /\b(organi[sz]ation|association|institute|institution|university|college|academy|society|agency|council|committee|commission|department|ministry|foundation|consortium|cent(er|re)s?|bureau|office|board|federation|union|collaboration|network|group|corporation|company|inc|ltd|llc|gmbh|trust|authority|service|services|program|programme|initiative|laboratory|hospital|bank|fund|nations|panel)\b/i;
+// Lowercase connectives that appear in organisation names but not in personal names
+const CORPORATE_CONNECTIVES = /\s(of|for|on|the|and|&)\s/;
+
+/**
+ * Whether an author string names an organisation, which must never be split or
+ * inverted ("World Health Organization", "Centers for Disease Control and Prevention")
+ */
+export function isCorporateName(raw: string): boolean {
+    const name = raw.trim();
+    if (!name || name.includes(",")) return false;
+    return CORPORATE_WORDS.test(name) || CORPORATE_CONNECTIVES.test(name);
+}
+
+/**
+ * Parse a single name written as "Family, Given" or "Given Family";
+ * organisation names are kept whole as `literal`
+ */
+export function parseName(raw: string): LibraryAuthor {
+    const name = raw.trim().replace(/\s+/g, " ");
+
+    if (isCorporateName(name)) {
+        return { literal: name };
+    }
+
+    if (name.includes(",")) {
+        const [family, ...rest] = name.split(",");
+        return { family: family.trim(), given: rest.join(",").trim() || undefined };
+    }
+
+    const parts = name.split(" ");
+    if (parts.length === 1) {
+        return { family: parts[0] };
+    }
+
+    // Keep lowercase particles ("van", "de", "von") with the family name
+    let familyStart = parts.length - 1;
+    while (familyStart > 1 && /^[a-z]/.test(parts[familyStart - 1])) {
+        familyStart--;
+    }
+
+    return {
+        given: parts.slice(0, familyStart).join(" "),
+        family: parts.slice(familyStart).join(" "),
+    };
+}
+
+/**
+ * "Given Family" display form used in `Citation.author`
+ */
+export function formatAuthorName(author: LibraryAuthor): string {
+    if (author.literal) return author.literal;
+    return [author.given, author.family].filter(Boolean).join(" ").trim();
+}
+
+/**
+ * Join authors the way the rest of the app stores them (comma separated)
+ */
+export function formatAuthorList(authors: LibraryAuthor[]): string {
+    const names = authors.map(formatAuthorName).filter(Boolean);
+    return names.length > 0 ? names.join(", ") : "Unknown";
+}
+
+/**
+ * Split a stored `Citation.author` string back into structured names
+ */
+export function parseAuthorList(author?: string | null): LibraryAuthor[] {
+    if (!author || author.trim() === "" || author.trim() === "Unknown") return [];
+
+    // A single organisation, possibly with "and"/"&" in its name
+    if (!author.includes(";") && isCorporateName(author)) {
+        return [{ literal: author.trim().replace(/\s+/g, " ") }];
+    }
+
+    // Stored lists are "Given Family, Given Family"; some sources use semicolons
+    const separator = author.includes(";") ? /;| and | & / : /,| and | & /;
+
+    return author
+        .split(separator)
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0 && name.toLowerCase() !== "et al.")
+        .map((name) => parseName(name));
+}
+
+/**
+ * Normalise page ranges ("12--19" -> "12-19")
+ */
+export function normalizePages(pages?: string): string | undefined {
+    if (!pages) return undefined;
+    return pages.replace(/\s*[-–—]+\s*/g, "-").trim() || undefined;
+}
@@ -0,0 +1,206 @@
+import {
+    LibraryEntry,
+    LibraryEntryType,
+    LibraryParseResult,
+} from "../../types/citationLibrary";
+import { extractYear, normalizeDOI, normalizePages, parseName } from "./libraryUtils";
+
+const TYPE_MAP: Record<string, LibraryEntryType> = {
+    JOUR: "journal-article",
+    JFULL: "journal-article",
+    EJOUR: "journal-article",
+    MGZN: "journal-article",
+    NEWS: "journal-article",
+    BOOK: "book",
+    EBOOK: "book",
+    EDBOOK: "book",
+    CHAP: "book-chapter",
+    ECHAP: "book-chapter",
+    CONF: "proceedings-article",
+    CPAPER: "proceedings-article",
+    RPRT: "report",
+    GOVDOC: "report",
+    THES: "thesis",
+    ELEC: "website",
+    WEB: "website",
+    BLOG: "website",
+    DATA: "dataset",
+    GEN: "other",
+};
+
+// "TY  - JOUR" - two-letter tag, two spaces, dash, optional value
+const TAG_LINE = /^([A-Z][A-Z0-9])  -(?: (.*))?$/;
+
+/**
+ * RIS parser
+ *
+ * Reads tagged records (TY ... ER) as exported by EndNote, Zotero and Mendeley.
+ * Lines without a tag are treated as continuations of the previous value.
+ */
+export function parseRIS(content: string): LibraryParseResult {
+    const result: LibraryParseResult = { entries: [], errors: [] };
+    const lines = content.replace(/^﻿/, "").split(/\r?\n/);
+
+    let record: Record<string, string[]> | null = null;
+    let lastTag: string | null = null;
+    let index = 0;
+
+    for (const line of lines) {
+        const match = TAG_LINE.exec(line.trimEnd());
+
+        if (!match) {
+            // Continuation line for multi-line abstracts/notes
+            if (record && lastTag && line.trim()) {
+                const values = record[lastTag];
+                values[values.length - 1] += " " + line.trim();
+            }
+            continue;
+        }
+
+        const tag = match[1];
+        const value = (match[2] || "").trim();
+
+        if (tag === "TY") {
+            if (record) {
+                result.errors.push({ index, message: "Record is missing its ER line" });
+                index++;
+            }
+            record = { TY: [value] };
+            lastTag = tag;
+            continue;
+        }
+
+        if (!record) continue;
+
+        if (tag === "ER") {
+            try {
+                result.entries.push(toEntry(record));
+            } catch (error: any) {
+                result.errors.push({ index, key: record.ID?.[0], message: error.message });
+            }
+            record = null;
+            lastTag = null;
+            index++;
+            continue;
+        }
+
+        (record[tag] = record[tag] || []).push(value);
+        lastTag = tag;
+    }
+
+    if (record) {
+        result.errors.push({ index, key: record.ID?.[0], message: "Record is missing its ER line" });
+    }
+
+    return result;
+}
+
+function toEntry(record: Record<string, string[]>): LibraryEntry {
+    const first = (...tags: string[]) => {
+        for (const tag of tags) {
+            const value = record[tag]?.find((v) => v.length > 0);
+            if (value) return value;
+        }
+        return undefined;
+    };
+
+    const title = first("TI", "T1", "CT", "BT");
+    if (!title) {
+        throw new Error("Record has no title");
+    }
+
+    const type = TYPE_MAP[(record.TY[0] || "").toUpperCase()] || "other";
+    const authorValues = [...(record.AU || []), ...(record.A1 || [])];
+    const authors = (authorValues.length > 0 ? authorValues : record.A2 || [])
+        .filter(Boolean)
+        .map((name) => parseName(name));
+
+    const startPage = first("SP");
+    const endPage = first("EP");
+    let pages = startPage;
+    if (startPage && endPage && !startPage.includes("-")) {
+        pages = `${startPage}-${endPage}`;
+    }
+
+    // For chapters, T2 is the book title; for articles it is the journal
+    const journal = first("JO", "JF", "T2", "JA", "J2");
+
+    const notes = [...(record.N1 || [])].filter(Boolean);
+
+    return {
+        key: first("ID"),
+        type,
+        title,
+        authors,
+        year: extractYear(first("PY", "Y1", "DA")),
+        journal: type === "book" ? undefined : journal,
+        volume: first("VL"),
+        issue: first("IS"),
+        pages: normalizePages(pages),
+        publisher: first("PB"),
+        doi: normalizeDOI(first("DO")),
+        url: first("UR", "L2"),
+        abstract: first("AB", "N2"),
+        keywords: record.KW?.filter(Boolean),
+        notes: notes.length > 0 ? notes : undefined,
+    };
+}
+
+const EXPORT_TYPES: Record<LibraryEntryType, string> = {
+    "journal-article": "JOUR",
+    book: "BOOK",
+    "book-chapter": "CHAP",
+    "proceedings-article": "CPAPER",
+    report: "RPRT",
+    thesis: "THES",
+    website: "ELEC",
+    dataset: "DATA",
+    other: "GEN",
+};
+
+/**
+ * Serialize entries as RIS records
+ */
+export function serializeRIS(entries: LibraryEntry[]): string {
+    return entries.map(serializeRecord).join("\n");
+}
+
+function serializeRecord(entry: LibraryEntry): string {
+    const lines: string[] = [];
+    const add = (tag: string, value?: string | number) => {
+        if (value === undefined || value === null || value === "") return;
+        // RIS is line based - fold embedded newlines into spaces
+        lines.push(`${tag}  - ${String(value).replace(/\s*\r?\n\s*/g, " ")}`);
+    };
+
+    add("TY", EXPORT_TYPES[entry.type] || "GEN");
+    add("ID", entry.key);
+    for (const author of entry.authors) {
+        add("AU", author.literal || [author.family, author.given].filter(Boolean).join(", "));
+    }
+    add("TI", entry.title);
+    if (entry.type === "journal-article") {
+        add("JO", entry.journal);
+    } else if (entry.type !== "book") {
+        add("T2", entry.journal);
+    }
+    add("PY", entry.year);
+    add("VL", entry.volume);
+    add("IS", entry.issue);
+
+    if (entry.pages) {
+        const [start, end] = entry.pages.split("-");
+        add("SP", start);
+        add("EP", end);
+    }
+
+    add("PB", entry.publisher);
+    add("DO", entry.doi);
+    add("UR", entry.url);
+    add("AB", entry.abstract);
+    entry.keywords?.forEach((keyword) => add("KW", keyword));
+    entry.notes?.forEach((note) => add("N1", note));
+    lines.push("ER  - ");
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,299 @@
+import crypto from "crypto";
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { EmailService } from "./emailService";
+import { SecretsService } from "./secrets-service";
+import { CollaboratorRole, ProjectAccessService, ProjectRole } from "./projectAccessService";
+
+export class CollaborationService {
+  /**
+   * List active and pending collaborators of a project, with the creator first
+   */
+  static async listCollaborators(projectId: string) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        user_id: true,
+        user: { select: { id: true, email: true, full_name: true } },
+      },
+    });
+
+    if (!project) {
+      throw new Error("Project not found or access denied");
+    }
+
+    const collaborators = await prisma.projectCollaborator.findMany({
+      where: {
+        project_id: projectId,
+        status: { in: ["pending", "accepted"] },
+      },
+      include: {
+        user: { select: { id: true, email: true, full_name: true } },
+      },
+      orderBy: { invited_at: "asc" },
+    });
+
+    return {
+      owner: {
+        userId: project.user.id,
+        email: project.user.email,
+        fullName: project.user.full_name,
+        role: "owner" as ProjectRole,
+      },
+      collaborators: collaborators.map((c: any) => this.toResponse(c)),
+    };
+  }
+
+  /**
+   * Invite a user (by email) to collaborate on a project.
+   * Re-inviting a revoked email re-opens the same row with a fresh token.
+   */
+  static async inviteCollaborator(
+    projectId: string,
+    inviterId: string,
+    email: string,
+    role: CollaboratorRole
+  ) {
+    this.assertCollaboratorRole(role);
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: { user: { select: { email: true } } },
+    });
+
+    if (!project) {
+      throw new Error("Project not found or access denied");
+    }
+
+    if (project.user.email.toLowerCase() === normalizedEmail) {
+      throw new Error("The project owner is already a collaborator");
+    }
+
+    const existing = await prisma.projectCollaborator.findUnique({
+      where: {
+        project_id_email: { project_id: projectId, email: normalizedEmail },
+      },
+    });
+
+    if (existing && existing.status !== "revoked") {
+      throw new Error("This email has already been invited to the project");
+    }
+
+    const inviteToken = crypto.randomBytes(32).toString("hex");
+    const data = {
+      role,
+      status: "pending",
+      invite_token: inviteToken,
+      invited_by: inviterId,
+      invited_at: new Date(),
+      user_id: null,
+      accepted_at: null,
+      revoked_at: null,
+    };
+
+    const collaborator = existing
+      ? await prisma.projectCollaborator.update({
+        where: { id: existing.id },
+        data,
+      })
+      : await prisma.projectCollaborator.create({
+        data: { ...data, project_id: projectId, email: normalizedEmail },
+      });
+
+    logger.info("Project collaborator invited", {
+      projectId,
+      inviterId,
+      role,
+    });
+
+    // Email is best-effort: the invite is still valid if delivery fails
+    try {
+      const inviter = await prisma.user.findUnique({ where: { id: inviterId } });
+      const inviterName = inviter?.full_name || inviter?.email || "A ColabWize user";
+      const acceptUrl = `${await SecretsService.getFrontendUrl()}/dashboard/projects/${projectId}/accept-invite?token=${inviteToken}`;
+
+      // Names, titles and emails are user input; the email body is HTML
+      await EmailService.sendCollaborationNotificationEmail(
+        normalizedEmail,
+        escapeHtml(normalizedEmail),
+        "You've been invited to collaborate",
+        `${escapeHtml(inviterName)} invited you to join "${escapeHtml(project.title)}" as ${role === "editor" ? "an editor" : `a ${role}`}. <a href="${escapeHtml(acceptUrl)}">Accept the invitation</a> to start working together.`,
+        projectId,
+        escapeHtml(project.title)
+      );
+    } catch (emailError: any) {
+      logger.error("Failed to send collaboration invite email", {
+        error: emailError.message,
+        projectId,
+      });
+    }
+
+    return this.toResponse(collaborator);
+  }
+
+  /**
+   * Accept an invitation. The accepting account must use the invited email.
+   */
+  static async acceptInvitation(
+    projectId: string,
+    token: string,
+    userId: string,
+    userEmail: string
+  ) {
+    const invitation = await prisma.projectCollaborator.findUnique({
+      where: { invite_token: token },
+      include: { project: { select: { title: true, user_id: true } } },
+    });
+
+    if (
+      !invitation ||
+      invitation.project_id !== projectId ||
+      invitation.status !== "pending"
+    ) {
+      throw new Error("Invitation not found or no longer valid");
+    }
+
+    if (invitation.email !== (userEmail || "").toLowerCase()) {
+      throw new Error("This invitation was sent to a different email address");
+    }
+
+    const collaborator = await prisma.projectCollaborator.update({
+      where: { id: invitation.id },
+      data: {
+        user_id: userId,
+        status: "accepted",
+        accepted_at: new Date(),
+      },
+    });
+
+    // Let the owner know their invite was accepted
+    try {
+      const owner = await prisma.user.findUnique({
+        where: { id: invitation.project.user_id },
+      });
+
+      if (owner?.email) {
+        await EmailService.sendCollaborationNotificationEmail(
+          owner.email,
+          escapeHtml(owner.full_name || "ColabWize User"),
+          "Collaboration invite accepted",
+          `${escapeHtml(userEmail)} joined "${escapeHtml(invitation.project.title)}" as ${invitation.role}.`,
+          projectId,
+          escapeHtml(invitation.project.title)
+        );
+      }
+    } catch (emailError: any) {
+      logger.error("Failed to send collaboration accepted email", {
+        error: emailError.message,
+        projectId,
+      });
+    }
+
+    return this.toResponse(collaborator);
+  }
+
+  /**
+   * Ownership cannot be granted by invite or role change
+   */
+  private static assertCollaboratorRole(role: string) {
+    if (!ProjectAccessService.isCollaboratorRole(role)) {
+      throw new Error("Role must be one of editor, commenter, viewer");
+    }
+  }
+
+  /**
+   * Change the role of an existing collaborator
+   */
+  static async updateRole(
+    projectId: string,
+    collaboratorId: string,
+    role: CollaboratorRole
+  ) {
+    this.assertCollaboratorRole(role);
+    const collaborator = await this.findActiveCollaborator(projectId, collaboratorId);
+
+    const updated = await prisma.projectCollaborator.update({
+      where: { id: collaborator.id },
+      data: { role },
+    });
+
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Revoke access (or cancel a pending invite).
+   * Owners can revoke anyone; other collaborators can only remove themselves.
+   */
+  static async revokeCollaborator(
+    projectId: string,
+    collaboratorId: string,
+    requesterId: string
+  ) {
+    const collaborator = await this.findActiveCollaborator(projectId, collaboratorId);
+
+    if (collaborator.user_id !== requesterId) {
+      await ProjectAccessService.assertAccess(projectId, requesterId, "owner");
+    }
+
+    const revoked = await prisma.projectCollaborator.update({
+      where: { id: collaborator.id },
+      data: {
+        status: "revoked",
+        revoked_at: new Date(),
+      },
+    });
+
+    logger.info("Project collaborator revoked", {
+      projectId,
+      collaboratorId,
+      requesterId,
+    });
+
+    return this.toResponse(revoked);
+  }
+
+  private static async findActiveCollaborator(
+    projectId: string,
+    collaboratorId: string
+  ) {
+    const collaborator = await prisma.projectCollaborator.findFirst({
+      where: {
+        id: collaboratorId,
+        project_id: projectId,
+        status: { in: ["pending", "accepted"] },
+      },
+    });
+
+    if (!collaborator) {
+      throw new Error("Collaborator not found");
+    }
+
+    return collaborator;
+  }
+
+  // Map snake_case to camelCase for frontend (invite token is never exposed)
+  private static toResponse(c: any) {
+    return {
+      id: c.id,
+      projectId: c.project_id,
+      userId: c.user_id,
+      email: c.email,
+      fullName: c.user?.full_name || null,
+      role: c.role,
+      status: c.status,
+      invitedBy: c.invited_by,
+      invitedAt: c.invited_at,
+      acceptedAt: c.accepted_at,
+      revokedAt: c.revoked_at,
+    };
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
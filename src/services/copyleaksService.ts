@@ -1,4 +1,5 @@
 import axios from "axios";
+import crypto from "crypto";
 import { SecretsService } from "./secrets-service";
 import logger from "../monitoring/logger";
 
@@ -43,6 +44,29 @@ export class CopyleaksService {
         }
     }
 
+    /**
+     * Token the status webhooks for a scan carry (X-Webhook-Token), so the
+     * webhook can tell Copyleaks' callbacks from forged ones
+     */
+    static async webhookToken(scanId: string): Promise<string> {
+        const secret = await SecretsService.getCopyLeaksWebhookSecret();
+        if (!secret) {
+            throw new Error("Copyleaks webhook secret not configured");
+        }
+        return crypto.createHmac("sha256", secret).update(scanId).digest("hex");
+    }
+
+    /**
+     * Whether a webhook token is the one issued for the scan
+     */
+    static async verifyWebhookToken(scanId: string, token: string | undefined): Promise<boolean> {
+        if (!scanId || !token || !(await SecretsService.getCopyLeaksWebhookSecret())) return false;
+
+        const expected = Buffer.from(await this.webhookToken(scanId));
+        const received = Buffer.from(token);
+        return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+    }
+
     /**
      * Submit text for scanning
      */
@@ -53,6 +77,7 @@ export class CopyleaksService {
     ): Promise<void> {
         try {
             const token = await this.authenticate();
+            const webhookToken = await this.webhookToken(scanId);
 
             // Submit to file endpoint (text mode)
             await axios.put(
@@ -62,8 +87,10 @@ export class CopyleaksService {
                     filename: "document.txt",
                     properties: {
                         webhooks: {
-                            status: `${webhookResultUrl}/{STATUS}` // e.g. /copyleaks/completed
+                            status: `${webhookResultUrl}/{STATUS}`, // e.g. /copyleaks/completed
+                            statusHeaders: [["X-Webhook-Token", webhookToken]]
                         },
+                        developerPayload: JSON.stringify({ scanId }), // Read back by the webhook handler
                         sandbox: process.env.NODE_ENV === "development" // Use sandbox in dev
                     }
                 },
@@ -0,0 +1,214 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { FingerprintService } from "./fingerprintService";
+import { OrganizationRole } from "./organizationService";
+
+const WINDOW_SIZE = 8;
+const HASH_QUERY_CHUNK = 1000;
+const FINGERPRINT_INSERT_CHUNK = 5000;
+const MAX_POSITIONS_PER_HASH = 20; // Boilerplate repeated all over a document adds noise, not evidence
+
+export interface CorpusMatchSegment {
+  text: string; // Matched passage in the scanned document
+  start: number; // Character offsets in the scanned document
+  end: number;
+  wordPosition: number;
+  sourceWordPosition: number; // Word offset in the other member's document
+  wordLength: number;
+}
+
+export interface CorpusDocumentMatch {
+  documentId: string;
+  projectId: string | null; // Hidden from non-admins
+  title: string;
+  owner: { id: string; name: string | null; email: string } | null; // Hidden from non-admins
+  matchedWords: number;
+  coverage: number; // % of the scanned document matching this document
+  segments: CorpusMatchSegment[];
+}
+
+export interface CorpusScanResult {
+  organizationId: string;
+  totalWords: number;
+  matchedWords: number;
+  similarityScore: number; // % of the scanned document matching any indexed document
+  matches: CorpusDocumentMatch[];
+  indexedDocuments: number;
+}
+
+/**
+ * Corpus Index Service
+ * Organization-scoped fingerprint index (opt-in per organization). Every document
+ * scanned in corpus mode is stored, and later scans report overlaps with other
+ * members' documents - copying between members that web-only checks never see.
+ */
+export class CorpusIndexService {
+  /**
+   * Store (or refresh) a project's fingerprints in the organization index
+   */
+  static async indexDocument(
+    organizationId: string,
+    project: { id: string; user_id: string; title: string },
+    text: string
+  ) {
+    const fingerprints = FingerprintService.generateFingerprints(text, WINDOW_SIZE);
+    const wordCount = FingerprintService.tokenize(text).length;
+
+    const document = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const doc = await tx.corpusDocument.upsert({
+        where: { organization_id_project_id: { organization_id: organizationId, project_id: project.id } },
+        create: {
+          organization_id: organizationId,
+          project_id: project.id,
+          user_id: project.user_id,
+          title: project.title,
+          word_count: wordCount,
+          fingerprint_count: fingerprints.size,
+        },
+        update: {
+          title: project.title,
+          word_count: wordCount,
+          fingerprint_count: fingerprints.size,
+          indexed_at: new Date(),
+        },
+      });
+
+      await tx.corpusFingerprint.deleteMany({ where: { document_id: doc.id } });
+
+      const rows = Array.from(fingerprints.entries()).map(([hash, positions]) => ({
+        document_id: doc.id,
+        organization_id: organizationId,
+        hash,
+        positions: positions.slice(0, MAX_POSITIONS_PER_HASH),
+      }));
+      for (let i = 0; i < rows.length; i += FINGERPRINT_INSERT_CHUNK) {
+        await tx.corpusFingerprint.createMany({ data: rows.slice(i, i + FINGERPRINT_INSERT_CHUNK) });
+      }
+
+      return doc;
+    });
+
+    logger.info("Document indexed in organization corpus", {
+      organizationId,
+      projectId: project.id,
+      fingerprints: fingerprints.size,
+    });
+
+    return document;
+  }
+
+  /**
+   * Compare text against the organization index, excluding the owner's own documents.
+   * Titles and owners of matching documents are only revealed to admins (instructors).
+   */
+  static async findOverlaps(
+    organizationId: string,
+    ownerId: string,
+    text: string,
+    viewerRole: OrganizationRole
+  ): Promise<CorpusScanResult> {
+    const tokens = FingerprintService.tokenize(text);
+    const fingerprints = FingerprintService.generateFingerprints(text, WINDOW_SIZE);
+    const hashes = Array.from(fingerprints.keys());
+
+    // documentId -> matching (scanned position, source position) pairs
+    const pairsByDocument = new Map<string, Set<string>>();
+
+    for (let i = 0; i < hashes.length; i += HASH_QUERY_CHUNK) {
+      const hits = await prisma.corpusFingerprint.findMany({
+        where: {
+          organization_id: organizationId,
+          hash: { in: hashes.slice(i, i + HASH_QUERY_CHUNK) },
+          document: { user_id: { not: ownerId } },
+        },
+        select: { document_id: true, hash: true, positions: true },
+      });
+
+      for (const hit of hits) {
+        const pairs = pairsByDocument.get(hit.document_id) || new Set<string>();
+        const scannedPositions = (fingerprints.get(hit.hash) || []).slice(0, MAX_POSITIONS_PER_HASH);
+        for (const position of scannedPositions) {
+          for (const sourcePosition of hit.positions) {
+            pairs.add(`${position}:${sourcePosition}`);
+          }
+        }
+        pairsByDocument.set(hit.document_id, pairs);
+      }
+    }
+
+    const indexedDocuments = await prisma.corpusDocument.count({
+      where: { organization_id: organizationId, user_id: { not: ownerId } },
+    });
+
+    const documents: { id: string; project_id: string; user_id: string; title: string }[] = pairsByDocument.size
+      ? await prisma.corpusDocument.findMany({
+          where: { id: { in: Array.from(pairsByDocument.keys()) } },
+          select: { id: true, project_id: true, user_id: true, title: true },
+        })
+      : [];
+
+    const owners: { id: string; email: string; full_name: string | null }[] = documents.length
+      ? await prisma.user.findMany({
+          where: { id: { in: Array.from(new Set(documents.map((doc) => doc.user_id))) } },
+          select: { id: true, email: true, full_name: true },
+        })
+      : [];
+    const ownersById = new Map(owners.map((owner) => [owner.id, owner]));
+
+    const isAdmin = viewerRole === "admin";
+    const coveredOverall = new Set<number>();
+
+    const matches: CorpusDocumentMatch[] = documents.map((doc) => {
+      const segments: CorpusMatchSegment[] = FingerprintService.mergeMatchingWindows(
+        pairsByDocument.get(doc.id)!,
+        tokens,
+        WINDOW_SIZE
+      ).map((passage) => ({ text: text.substring(passage.start, passage.end), ...passage }));
+
+      const covered = new Set<number>();
+      for (const segment of segments) {
+        for (let w = segment.wordPosition; w < segment.wordPosition + segment.wordLength; w++) {
+          covered.add(w);
+          coveredOverall.add(w);
+        }
+      }
+
+      const owner = ownersById.get(doc.user_id);
+
+      return {
+        documentId: doc.id,
+        projectId: isAdmin ? doc.project_id : null,
+        title: isAdmin ? doc.title : "Another member's submission",
+        owner: isAdmin && owner ? { id: owner.id, name: owner.full_name, email: owner.email } : null,
+        matchedWords: covered.size,
+        coverage: tokens.length ? Math.round((covered.size / tokens.length) * 1000) / 10 : 0,
+        segments,
+      };
+    });
+
+    matches.sort((a, b) => b.matchedWords - a.matchedWords);
+
+    return {
+      organizationId,
+      totalWords: tokens.length,
+      matchedWords: coveredOverall.size,
+      similarityScore: tokens.length ? Math.round((coveredOverall.size / tokens.length) * 1000) / 10 : 0,
+      matches,
+      indexedDocuments,
+    };
+  }
+
+  /**
+   * Remove a project from the organization index
+   */
+  static async removeDocument(organizationId: string, projectId: string) {
+    const removed = await prisma.corpusDocument.deleteMany({
+      where: { organization_id: organizationId, project_id: projectId },
+    });
+
+    if (removed.count === 0) {
+      throw new Error("Document not found in the organization corpus");
+    }
+  }
+}
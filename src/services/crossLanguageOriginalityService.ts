@@ -0,0 +1,132 @@
+import logger from "../monitoring/logger";
+import { FingerprintService } from "./fingerprintService";
+import { LanguageDetectionService } from "./languageDetectionService";
+
+// Multilingual sentence model: translations of one sentence land close together
+const MULTILINGUAL_MODEL = "Xenova/paraphrase-multilingual-MiniLM-L12-v2";
+const MATCH_THRESHOLD = 0.8; // Cosine similarity for a cross-language paraphrase
+const MIN_SENTENCE_WORDS = 8;
+const MAX_DOCUMENT_SENTENCES = 200;
+const MAX_SOURCE_SENTENCES = 400;
+
+export interface CrossLanguageSource {
+  title: string;
+  url: string | null;
+  text: string;
+}
+
+export interface CrossLanguageHit<S extends CrossLanguageSource = CrossLanguageSource> {
+  start: number; // Character offsets in the scanned content
+  end: number;
+  similarity: number; // 0-1
+  sourceSentence: string;
+  sourceLanguage: string;
+  source: S;
+}
+
+let extractor: any = null;
+
+async function getExtractor() {
+  if (!extractor) {
+    logger.info("Loading multilingual sentence model...");
+    // Dynamic import to avoid top-level ESM issues in CJS environment
+    const { pipeline, env } = await import("@xenova/transformers");
+    env.allowLocalModels = false;
+    env.useBrowserCache = false;
+    extractor = await pipeline("feature-extraction", MULTILINGUAL_MODEL);
+    logger.info("Multilingual sentence model loaded");
+  }
+  return extractor;
+}
+
+/**
+ * Cross-Language Originality Service
+ * Embeds sentences of the document and of sources written in another language into
+ * one multilingual vector space, so a Spanish paragraph paraphrasing an English
+ * abstract is flagged even though no words are shared.
+ */
+export class CrossLanguageOriginalityService {
+  static async findMatches<S extends CrossLanguageSource>(
+    content: string,
+    sources: S[]
+  ): Promise<CrossLanguageHit<S>[]> {
+    const contentLanguage = LanguageDetectionService.detect(content).language;
+
+    // Same-language sources are covered by the fingerprint and paraphrase checks
+    const foreignSources = sources
+      .map((source) => ({ source, language: LanguageDetectionService.detect(source.text).language }))
+      .filter(({ language }) => language !== "und" && language !== contentLanguage);
+
+    if (!foreignSources.length) return [];
+
+    const sentences = this.splitSentences(content).slice(0, MAX_DOCUMENT_SENTENCES);
+    const sourceSentences = foreignSources
+      .flatMap(({ source, language }) =>
+        this.splitSentences(source.text).map((sentence) => ({ text: sentence.text, language, source }))
+      )
+      .slice(0, MAX_SOURCE_SENTENCES);
+
+    if (!sentences.length || !sourceSentences.length) return [];
+
+    const model = await getExtractor();
+    const embed = async (text: string): Promise<Float32Array> =>
+      (await model(text, { pooling: "mean", normalize: true })).data;
+
+    const sourceVectors: Float32Array[] = [];
+    for (const sentence of sourceSentences) {
+      sourceVectors.push(await embed(sentence.text));
+    }
+
+    const hits: CrossLanguageHit<S>[] = [];
+    for (const sentence of sentences) {
+      const vector = await embed(sentence.text);
+
+      let best = { score: 0, index: -1 };
+      sourceVectors.forEach((sourceVector, index) => {
+        const score = this.dot(vector, sourceVector); // Vectors are normalized
+        if (score > best.score) best = { score, index };
+      });
+
+      if (best.index >= 0 && best.score >= MATCH_THRESHOLD) {
+        const match = sourceSentences[best.index];
+        hits.push({
+          start: sentence.start,
+          end: sentence.end,
+          similarity: best.score,
+          sourceSentence: match.text,
+          sourceLanguage: match.language,
+          source: match.source,
+        });
+      }
+    }
+
+    logger.info("Cross-language check finished", {
+      contentLanguage,
+      sources: foreignSources.length,
+      sentences: sentences.length,
+      hits: hits.length,
+    });
+
+    return hits;
+  }
+
+  private static splitSentences(text: string): Array<{ start: number; end: number; text: string }> {
+    const sentences: Array<{ start: number; end: number; text: string }> = [];
+    for (const match of text.matchAll(/[^.!?。！？\n]+[.!?。！？]*/gu)) {
+      const raw = match[0];
+      const leading = raw.length - raw.trimStart().length;
+      const trimmed = raw.trim();
+      if (FingerprintService.tokenize(trimmed).length < MIN_SENTENCE_WORDS) continue;
+
+      const start = match.index! + leading;
+      sentences.push({ start, end: start + trimmed.length, text: trimmed });
+    }
+    return sentences;
+  }
+
+  private static dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+  }
+}
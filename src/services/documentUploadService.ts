@@ -9,6 +9,8 @@ import mammoth from "mammoth";
 import { RecycleBinService } from "./recycleBinService";
 import logger from "../monitoring/logger";
 import { PdfConversionService } from "./pdfConversionService";
+import { ProjectAccessService } from "./projectAccessService";
+import { ProjectVersionService } from "./projectVersionService";
 
 interface ExtendedRequest extends Request {
   user?: {
@@ -73,16 +75,21 @@ export class DocumentUploadService {
       },
     });
 
+    await this.recordVersion(project, userId, "create");
+
     return project;
   }
 
   /**
-   * Gets all projects for a user
+   * Gets all projects for a user, including projects shared with them
    */
   static async getUserProjects(userId: string) {
     return await prisma.project.findMany({
       where: {
-        user_id: userId,
+        OR: [
+          { user_id: userId },
+          { collaborators: { some: { user_id: userId, status: "accepted" } } },
+        ],
       },
       orderBy: {
         created_at: "desc",
@@ -111,13 +118,19 @@ export class DocumentUploadService {
   }
 
   /**
-   * Gets a specific project by ID for a user
+   * Gets a specific project by ID for a user (owner or collaborator).
+   * The caller's collaboration role is returned alongside the project.
    */
   static async getProjectById(projectId: string, userId: string) {
-    return await prisma.project.findFirst({
+    const role = await ProjectAccessService.getRole(projectId, userId);
+
+    if (!role) {
+      return null;
+    }
+
+    const project = await prisma.project.findUnique({
       where: {
         id: projectId,
-        user_id: userId,
       },
       include: {
         originality_scans: {
@@ -129,6 +142,8 @@ export class DocumentUploadService {
         citations: true,
       },
     });
+
+    return project ? { ...project, role } : null;
   }
 
   /**
@@ -150,7 +165,8 @@ export class DocumentUploadService {
   }
 
   /**
-   * Updates a project
+   * Updates a project (requires the editor role or above).
+   * `changeSource` "ai" marks an AI rewrite, which always gets its own version.
    */
   static async updateProject(
     projectId: string,
@@ -160,13 +176,19 @@ export class DocumentUploadService {
     content: any,
     wordCount: number,
     citationStyle?: string,
-    outline?: any
+    outline?: any,
+    changeSource: "save" | "ai" = "save"
   ) {
+    const role = await ProjectAccessService.getRole(projectId, userId);
+
+    if (!ProjectAccessService.hasRole(role, "editor")) {
+      return null;
+    }
+
     // Update project record
     const updatedProject = await (prisma.project as any).update({
       where: {
         id: projectId,
-        user_id: userId,
       },
       data: {
         title,
@@ -183,6 +205,8 @@ export class DocumentUploadService {
       },
     });
 
+    await this.recordVersion(updatedProject, userId, changeSource);
+
     return updatedProject;
   }
 
@@ -268,9 +292,35 @@ export class DocumentUploadService {
       },
     });
 
+    await this.recordVersion(project, userId, "create");
+
     return project;
   }
 
+  /**
+   * Snapshot the saved project into its version history.
+   * A failed snapshot is logged but never fails the save itself.
+   */
+  private static async recordVersion(
+    project: any,
+    userId: string,
+    changeSource: "create" | "save" | "ai"
+  ) {
+    try {
+      await ProjectVersionService.createSnapshot(project.id, userId, {
+        title: project.title,
+        content: project.content,
+        wordCount: project.word_count,
+        changeSource,
+      });
+    } catch (error: any) {
+      logger.error("Failed to record project version", {
+        projectId: project.id,
+        error: error.message,
+      });
+    }
+  }
+
   /**
    * Extracts text or HTML from various document formats
    * Returns an object with content and format type
@@ -86,16 +86,23 @@ export class DraftComparisonService {
    * Find matching segments between two texts
    * Uses a sentence-based approach for granularity
    */
-  private static findMatchingSegments(current: string, previous: string) {
+  static findMatchingSegments(current: string, previous: string) {
     const sentences = current.match(/[^.!?]+[.!?]+/g) || [current];
     const prevSentences = previous.match(/[^.!?]+[.!?]+/g) || [previous];
     const matches: any[] = [];
 
-    // Simple cache for previous sentences normalized
-    const prevNorm = prevSentences.map((s) => ({
-      text: s,
-      norm: this.normalizeText(s),
-    }));
+    // Simple cache for previous sentences normalized (with their offsets)
+    let prevPos = 0;
+    const prevNorm = prevSentences.map((s) => {
+      const start = previous.indexOf(s, prevPos);
+      prevPos = start >= 0 ? start + s.length : prevPos;
+      return {
+        text: s,
+        norm: this.normalizeText(s),
+        start,
+        end: start >= 0 ? start + s.length : -1,
+      };
+    });
 
     let currentPos = 0;
 
@@ -126,7 +133,10 @@ export class DraftComparisonService {
             start: currentPos,
             end: currentPos + sentence.length,
           },
-          targetParams: { start: -1, end: -1 }, // We don't track exact prev pos in this simple version
+          targetParams: {
+            start: prevNorm[bestMatch.index].start,
+            end: prevNorm[bestMatch.index].end,
+          },
         });
       }
 
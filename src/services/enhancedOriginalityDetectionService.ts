@@ -6,6 +6,9 @@ import axios from "axios";
 import * as crypto from "crypto";
 import { EmailService } from "./emailService";
 import { SecretsService } from "./secrets-service";
+import { ProgressReporter } from "../types/progress";
+import { FingerprintService } from "./fingerprintService";
+import { LanguageDetectionService } from "./languageDetectionService";
 
 // @ts-ignore
 // import { pipeline, env } from "@xenova/transformers";
@@ -157,24 +160,21 @@ You ONLY:
    * Return segment IDs and text only.
    */
   private static splitIntoWindows(text: string, windowSize: number = 30, overlap: number = 10): Array<{ id: string, text: string, start: number, end: number }> {
-    const words = text.split(/\s+/);
+    // Unicode-aware words with exact character offsets (works for any script)
+    const words = FingerprintService.tokenize(text);
     const windows = [];
-    let currentWordIndex = 0;
-
-    // Simple word-based pointer tracking to map back to char positions (approximate but fast)
-    // For a real production system, we'd need exact character mapping, but for MVP this suffices
-    // if we just need the text segments.
 
     for (let i = 0; i < words.length; i += (windowSize - overlap)) {
       const windowWords = words.slice(i, i + windowSize);
       if (windowWords.length < 10) break; // Skip tiny tail fragments
 
-      const windowText = windowWords.join(" ");
+      const start = windowWords[0].start;
+      const end = windowWords[windowWords.length - 1].end;
       windows.push({
         id: `seg-${i}`,
-        text: windowText,
-        start: i,
-        end: i + windowSize
+        text: text.substring(start, end),
+        start,
+        end
       });
     }
 
@@ -188,7 +188,8 @@ You ONLY:
     projectId: string,
     userId: string,
     content: string,
-    plan: string = "free"
+    plan: string = "free",
+    onProgress?: ProgressReporter
   ): Promise<OriginalityScanResult> {
     try {
       logger.info("Starting enhanced originality scan", { projectId, userId });
@@ -225,6 +226,7 @@ You ONLY:
       });
 
       // Split content into overlapping windows (PROMPT 1)
+      await onProgress?.({ stage: "windowing", message: "Splitting document into windows", progress: 5 });
       const windows = this.splitIntoWindows(content, 30, 10);
       logger.info(`Processing ${windows.length} overlapping windows`);
 
@@ -235,12 +237,19 @@ You ONLY:
       const matches: SimilarityMatchResult[] = [];
       let totalSimilarity = 0;
 
-      for (const window of windows) {
+      for (const [windowIndex, window] of windows.entries()) {
+        await onProgress?.({
+          stage: "searching_sources",
+          message: `Searching sources for window ${windowIndex + 1}/${windows.length}`,
+          current: windowIndex + 1,
+          total: windows.length,
+          progress: 10 + Math.round((windowIndex / windows.length) * 85),
+        });
+
         const sentence = window.text; // Treating window as the unit of analysis now
-        let position = window.start; // Approximate start index (word based in our simple impl)
+        const position = window.start; // Character offset of the window in the content
         // Skip very short sentences
         if (sentence.trim().length < 20) {
-          position += sentence.length;
           continue;
         }
 
@@ -320,8 +329,8 @@ You ONLY:
                 matched_source: bestMatch.title,
                 source_url: bestMatch.url,
                 similarity_score: similarityPercentage,
-                position_start: position, // This is word index now, be careful if frontend expects char index
-                position_end: position + sentence.split(" ").length, // Approximate
+                position_start: position,
+                position_end: window.end,
                 classification,
               },
             });
@@ -343,8 +352,6 @@ You ONLY:
           }
         }
 
-        position += window.text.split(" ").length; // Increment position by word count
-
         // Rate limiting
         await new Promise((resolve) => setTimeout(resolve, 50)); // Faster than 150ms since we have more windows
       }
@@ -607,24 +614,26 @@ You ONLY:
     // Convert to lowercase
     let normalized = text.toLowerCase();
 
-    // Remove special characters but keep spaces
-    normalized = normalized.replace(/[^\w\s]/g, " ");
+    // Remove special characters but keep spaces (and letters of every script)
+    normalized = normalized.replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ");
 
     // Remove extra whitespace
     normalized = normalized.replace(/\s+/g, " ").trim();
 
-    // Remove stopwords
+    // Remove stopwords of the text's language
     const words = normalized.split(" ");
     const { removeStopwords } = await import("stopword");
-    const filtered = removeStopwords(words);
+    const { language } = LanguageDetectionService.detect(text);
+    const filtered = removeStopwords(words, LanguageDetectionService.stopwordsFor(language));
 
     return filtered.join(" ");
   }
 
   /**
    * Search online for similar content using Google Custom Search API
+   * (also used by the `web_search` originality provider)
    */
-  private static async searchOnline(
+  static async searchOnline(
     sentence: string
   ): Promise<Array<{ snippet: string; link: string }>> {
     try {
@@ -904,10 +913,11 @@ Keep it advisory, not intrusive.`;
   }
 
   /**
-   * Check if sentence is a common academic phrase
+   * Check if sentence is a common academic phrase (English, Spanish, Portuguese, French)
    */
   private static isCommonAcademicPhrase(sentence: string): boolean {
     const commonAcademicPhrases = [
+      // English
       "in conclusion",
       "on the other hand",
       "for example",
@@ -928,6 +938,45 @@ Keep it advisory, not intrusive.`;
       "on the basis of",
       "in light of",
       "it is important to note",
+      // Spanish
+      "en conclusión",
+      "por otro lado",
+      "por ejemplo",
+      "en otras palabras",
+      "como resultado",
+      "debido a",
+      "de acuerdo con",
+      "en particular",
+      "en general",
+      "en términos de",
+      "con respecto a",
+      "sin embargo",
+      "es importante señalar",
+      // Portuguese
+      "em conclusão",
+      "por outro lado",
+      "por exemplo",
+      "em outras palavras",
+      "como resultado",
+      "devido a",
+      "de acordo com",
+      "em particular",
+      "em geral",
+      "em termos de",
+      "no entanto",
+      "é importante ressaltar",
+      // French
+      "en conclusion",
+      "d'autre part",
+      "par exemple",
+      "en d'autres termes",
+      "en raison de",
+      "selon",
+      "en particulier",
+      "en général",
+      "en ce qui concerne",
+      "cependant",
+      "il est important de noter",
     ];
 
     const lowerSentence = sentence.toLowerCase().trim();
@@ -977,7 +1026,7 @@ Keep it advisory, not intrusive.`;
   private static splitIntoSentences(text: string): string[] {
     // More sophisticated sentence splitting considering academic writing patterns
     const sentences = text
-      .split(/(?<=[.!?])\s+(?=[A-Z])/) // Split on punctuation + space + capital letter
+      .split(/(?<=[.!?])\s+(?=[\p{Lu}¿¡])|(?<=[。！？])\s*/u) // Punctuation + space + capital letter (any script); CJK full stops
       .map((s) => s.trim())
       .filter((s) => s.length > 0);
 
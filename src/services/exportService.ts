@@ -2,6 +2,9 @@ import logger from "../monitoring/logger";
 import { prisma } from "../lib/prisma";
 import { SecretsService } from "./secrets-service";
 import { PublicationExportService } from "./publicationExportService";
+import { ProjectAccessService } from "./projectAccessService";
+import { CitationFormatter } from "./citationFormatting/citationFormatter";
+import { CitationStyleId, FormattedSegment } from "../types/citationFormatting";
 import { promises as fs } from "fs";
 import path from "path";
 import archiver from "archiver";
@@ -12,7 +15,7 @@ interface ExportOptions {
   includeCitations?: boolean;
   includeComments?: boolean;
   includeAuthorshipCertificate?: boolean;
-  citationStyle?: "apa" | "mla" | "chicago";
+  citationStyle?: CitationStyleId;
   pageSize?: "A4" | "letter";
   orientation?: "portrait" | "landscape";
   journalTemplate?: string;
@@ -55,11 +58,12 @@ export class ExportService {
         format: options.format,
       });
 
-      // Fetch project data
-      const project = await prisma.project.findFirst({
+      // Fetch project data (any collaborator may export)
+      await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+
+      const project = await prisma.project.findUnique({
         where: {
           id: projectId,
-          user_id: userId,
         },
         include: {
           citations: true,
@@ -147,8 +151,10 @@ export class ExportService {
 
     // 1. Fetch project data (re-fetching to ensure we have it if coming from internal call)
     // Optimization: If project is already passed or available, use it. But current flow fetches in exportProject.
-    const project = await prisma.project.findFirst({
-      where: { id: projectId, user_id: userId },
+    await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
       include: { citations: true },
     });
 
@@ -230,8 +236,12 @@ export class ExportService {
     if (options.includeCitations && project.citations) {
       content += "Citations:\n";
       content += "----------\n";
-      project.citations.forEach((citation: any, index: number) => {
-        content += `${index + 1}. ${this.formatCitation(citation, options.citationStyle || "apa")}\n`;
+      CitationFormatter.buildBibliography(
+        project.citations,
+        options.citationStyle,
+        project.content
+      ).forEach((entry) => {
+        content += `${CitationFormatter.toText(entry.segments)}\n`;
       });
     }
 
@@ -271,12 +281,19 @@ export class ExportService {
       project.citations.length > 0
     ) {
       content += "\\begin{thebibliography}{9}\n";
-      project.citations.forEach((citation: any, index: number) => {
+      // thebibliography numbers entries itself, so render without the style's label
+      CitationFormatter.orderCitations(
+        project.citations,
+        options.citationStyle,
+        project.content
+      ).forEach((citation: any) => {
         content +=
           "\\bibitem{" +
           citation.id +
           "} " +
-          this.formatCitation(citation, options.citationStyle || "apa") +
+          this.segmentsToLaTeX(
+            CitationFormatter.formatReferenceSegments(citation, options.citationStyle)
+          ) +
           "\n";
       });
       content += "\\end{thebibliography}\n";
@@ -317,10 +334,14 @@ export class ExportService {
     // Add citations if requested
     if (options.includeCitations && project.citations) {
       content += "\\pard\\sa200\\sl276\\slmult1\\b\\fs28 Citations:\\par\n";
-      project.citations.forEach((citation: any, index: number) => {
+      CitationFormatter.buildBibliography(
+        project.citations,
+        options.citationStyle,
+        project.content
+      ).forEach((entry) => {
         content +=
           "\\pard\\sa200\\sl276\\slmult1 " +
-          this.formatCitation(citation, options.citationStyle || "apa") +
+          this.segmentsToRTF(entry.segments) +
           "\\par\n";
       });
     }
@@ -337,7 +358,7 @@ export class ExportService {
   /**
    * Extract plain text from TipTap JSON content
    */
-  private static extractTextFromTipTap(content: any): string {
+  static extractTextFromTipTap(content: any): string {
     if (!content || !content.content) {
       return "";
     }
@@ -959,54 +980,41 @@ export class ExportService {
     return finalBufferPromise;
   }
 
-  private static sanitizeFilename(filename: string): string {
-    return filename.replace(/[^a-z0-9]/gi, "_").toLowerCase();
+  /**
+   * Formatted reference -> LaTeX (escaped, italics as \textit)
+   */
+  private static segmentsToLaTeX(segments: FormattedSegment[]): string {
+    return segments
+      .map((segment) => {
+        const text = segment.text
+          .replace(/\\/g, "\\textbackslash ")
+          .replace(/([{}$&#_%])/g, "\\$1")
+          .replace(/\^/g, "\\^{}");
+        return segment.italic ? `\\textit{${text}}` : text;
+      })
+      .join("");
   }
 
   /**
-   * Format citation in specified style
+   * Formatted reference -> RTF (escaped, italics as \i)
    */
-  private static formatCitation(citation: any, style: string): string {
-    const authors = citation.author || citation.authors || "Unknown";
-    const title = citation.title || "Untitled";
-    const year = citation.year || "n.d.";
-    const journal = citation.journal || "";
-    const volume = citation.volume || "";
-    const issue = citation.issue || "";
-    const pages = citation.pages || "";
-
-    if (style === "apa") {
-      let formatted = `${authors} (${year}). `;
-      formatted += `${title}.`;
-      if (journal) {
-        formatted += ` ${journal}`;
-        if (volume) formatted += `, ${volume}`;
-        if (issue) formatted += `(${issue})`;
-        if (pages) formatted += `, ${pages}`;
-      }
-      return formatted;
-    } else if (style === "mla") {
-      let formatted = `${authors}. "${title}." `;
-      if (journal) {
-        formatted += `${journal}`;
-        if (volume) formatted += `, vol. ${volume}`;
-        if (issue) formatted += `, no. ${issue}`;
-        if (pages) formatted += `, pp. ${pages}`;
-      }
-      formatted += ` ${year}.`;
-      return formatted;
-    } else {
-      // Chicago style
-      let formatted = `${authors}. "${title}." `;
-      if (journal) {
-        formatted += `${journal} `;
-        if (volume) formatted += `${volume}, no. ${issue} `;
-        if (pages) formatted += `(${year}): ${pages}.`;
-      } else {
-        formatted += `(${year}).`;
-      }
-      return formatted;
-    }
+  private static segmentsToRTF(segments: FormattedSegment[]): string {
+    return segments
+      .map((segment) => {
+        const text = segment.text
+          .replace(/\\/g, "\\\\")
+          .replace(/\{/g, "\\{")
+          .replace(/\}/g, "\\}")
+          .replace(/[‘’]/g, "'")
+          .replace(/[“”]/g, '"')
+          .replace(/–/g, "-");
+        return segment.italic ? `{\\i ${text}}` : text;
+      })
+      .join("");
+  }
+
+  private static sanitizeFilename(filename: string): string {
+    return filename.replace(/[^a-z0-9]/gi, "_").toLowerCase();
   }
 
   /**
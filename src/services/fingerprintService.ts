@@ -1,6 +1,10 @@
 import crypto from "crypto";
 import logger from "../monitoring/logger";
 
+// A word is a run of letters/marks/digits in any script; Han and Kana are written
+// without spaces, so each of their characters counts as a word
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{M}\p{N}_]+/gu;
+
 /**
  * Fingerprint Service for Turnitin-style rolling window text matching
  *
@@ -12,6 +16,25 @@ import logger from "../monitoring/logger";
  * - Copy-paste with minor modifications
  */
 export class FingerprintService {
+  /**
+   * Split text into the normalized words that fingerprints are built from,
+   * with each word's character offsets in the original text.
+   * Unicode-aware: accented Latin, Cyrillic, Arabic, CJK etc. survive intact.
+   */
+  static tokenize(text: string): Array<{ word: string; start: number; end: number }> {
+    const tokens: Array<{ word: string; start: number; end: number }> = [];
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      // Normalize each word on its own so offsets into the original text stay valid
+      tokens.push({
+        word: match[0].normalize("NFC").toLowerCase(),
+        start: match.index!,
+        end: match.index! + match[0].length,
+      });
+    }
+
+    return tokens;
+  }
+
   /**
    * Generate fingerprints using rolling window approach (like Turnitin)
    *
@@ -23,12 +46,7 @@ export class FingerprintService {
     text: string,
     windowSize: number = 8
   ): Map<string, number[]> {
-    // Normalize text: lowercase, remove punctuation, split into words
-    const words = text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, " ") // Remove punctuation
-      .split(/\s+/)
-      .filter((w) => w.length > 0); // Remove empty strings
+    const words = this.tokenize(text).map((token) => token.word);
 
     const fingerprints = new Map<string, number[]>();
 
@@ -125,8 +143,7 @@ export class FingerprintService {
       length: number;
     }> = [];
 
-    const words1 = text1.toLowerCase().split(/\s+/);
-    const words2 = text2.toLowerCase().split(/\s+/);
+    const words1 = this.tokenize(text1).map((token) => token.word);
 
     // Find all matching fingerprints
     for (const [hash, positions1] of fp1.entries()) {
@@ -165,10 +182,7 @@ export class FingerprintService {
       return 0;
     }
 
-    const words1 = text1
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((w) => w.length > 0);
+    const words1 = this.tokenize(text1);
     const coveredPositions = new Set<number>();
 
     // Mark all positions covered by matches
@@ -189,6 +203,80 @@ export class FingerprintService {
     return coveragePercentage;
   }
 
+  /**
+   * Merge matching windows into passages. `pairs` holds "position:sourcePosition"
+   * word offsets of windows found in both documents; a passage continues while the
+   * next window matches at the next position in both.
+   *
+   * @param pairs - Matching window offsets
+   * @param tokens - Tokens of the first document (from tokenize)
+   * @param windowSize - Window size the fingerprints were built with
+   * @returns Passages with character offsets in the first document
+   */
+  static mergeMatchingWindows(
+    pairs: Set<string>,
+    tokens: Array<{ word: string; start: number; end: number }>,
+    windowSize: number = 8
+  ): Array<{
+    start: number;
+    end: number;
+    wordPosition: number;
+    sourceWordPosition: number;
+    wordLength: number;
+  }> {
+    const passages = [];
+
+    for (const pair of pairs) {
+      const [position, sourcePosition] = pair.split(":").map(Number);
+
+      // Only start a passage at its first window
+      if (pairs.has(`${position - 1}:${sourcePosition - 1}`)) continue;
+
+      let windows = 1;
+      while (pairs.has(`${position + windows}:${sourcePosition + windows}`)) {
+        windows++;
+      }
+
+      const lastWord = Math.min(position + windows + windowSize - 1, tokens.length) - 1;
+
+      passages.push({
+        start: tokens[position].start,
+        end: tokens[lastWord].end,
+        wordPosition: position,
+        sourceWordPosition: sourcePosition,
+        wordLength: lastWord - position + 1,
+      });
+    }
+
+    return passages.sort((a, b) => a.wordPosition - b.wordPosition);
+  }
+
+  /**
+   * Find passages of text1 that also appear verbatim (after normalization) in text2
+   *
+   * @param text1 - Document being checked
+   * @param text2 - Source document
+   * @param windowSize - Window size for fingerprinting
+   * @returns Passages with character offsets in text1
+   */
+  static findMatchingPassages(text1: string, text2: string, windowSize: number = 8) {
+    const fp1 = this.generateFingerprints(text1, windowSize);
+    const fp2 = this.generateFingerprints(text2, windowSize);
+
+    const pairs = new Set<string>();
+    for (const [hash, positions1] of fp1.entries()) {
+      const positions2 = fp2.get(hash);
+      if (!positions2) continue;
+      for (const pos1 of positions1) {
+        for (const pos2 of positions2) {
+          pairs.add(`${pos1}:${pos2}`);
+        }
+      }
+    }
+
+    return this.mergeMatchingWindows(pairs, this.tokenize(text1), windowSize);
+  }
+
   /**
    * Serialize fingerprints for storage (convert Map to plain object)
    */
@@ -1,8 +1,10 @@
 import { Project } from "@prisma/client";
 import { SecretsService } from "./secrets-service";
+import { CitationFormatter } from "./citationFormatting/citationFormatter";
+import { CitationStyleId } from "../types/citationFormatting";
 
 interface HtmlExportOptions {
-  citationStyle?: "apa" | "mla" | "chicago";
+  citationStyle?: CitationStyleId;
   includeCoverPage?: boolean;
   coverPageStyle?: "apa" | "mla";
   includeTOC?: boolean;
@@ -203,19 +205,27 @@ export class HtmlExportService {
     if (!options.includeCoverPage) {
       html += `<div style="text-align: center; font-weight: bold; margin-bottom: 1em; text-indent: 0;">${project.title}</div>`;
     }
+    // Bibliography order also fixes the numbers used by numeric in-text citations
+    const style = CitationFormatter.resolveStyle(options.citationStyle);
+    const orderedCitations = CitationFormatter.orderCitations(
+      project.citations || [],
+      style,
+      project.content
+    );
+
     html += await this.convertTipTapToHtml(
       project.content,
-      project.citations || [],
-      options.citationStyle || "apa"
+      orderedCitations,
+      style
     );
     html += `</div>`;
 
     // 4. References
-    if (project.citations && project.citations.length > 0) {
+    if (orderedCitations.length > 0) {
       html += `<div class="page-break"></div>`;
       html += `<div class="references-title">References</div>`;
-      project.citations.forEach((citation: any) => {
-        html += `<div class="reference-item">${this.formatCitation(citation, options.citationStyle || "apa")}</div>`;
+      orderedCitations.forEach((citation: any, index: number) => {
+        html += `<div class="reference-item">${CitationFormatter.formatReferenceHtml(citation, style, { number: index + 1 })}</div>`;
       });
     }
 
@@ -438,7 +448,9 @@ export class HtmlExportService {
         if (citationId && citations.length > 0) {
           const citationData = citations.find((c: any) => c.id === citationId);
           if (citationData) {
-            const inText = this.formatInTextCitation(citationData, style);
+            const inText = CitationFormatter.formatInText(citationData, style, {
+              number: citations.indexOf(citationData) + 1,
+            });
             html += `<span class="citation">${inText}</span>`;
           } else {
             html += `<span class="citation" style="color: red;">${fallback}</span>`;
@@ -451,45 +463,4 @@ export class HtmlExportService {
 
     return html || "&nbsp;"; // Return non-breaking space if empty to maintain height
   }
-
-  /**
-   * Format in-text citation
-   */
-  private static formatInTextCitation(citation: any, style: string): string {
-    const authors = Array.isArray(citation.authors) ? citation.authors : [citation.author || "Unknown"];
-    const year = citation.year || "n.d.";
-
-    // Get last name of first author
-    const firstAuthor = authors[0] || "Unknown";
-    let authorText = typeof firstAuthor === 'string' ? firstAuthor : (firstAuthor.lastName || firstAuthor.firstName || "Unknown");
-
-    if (authors.length > 2) {
-      authorText += " et al.";
-    } else if (authors.length === 2) {
-      const secondAuthor = authors[1];
-      const secondAuthorText = typeof secondAuthor === 'string' ? secondAuthor : (secondAuthor.lastName || "Unknown");
-      authorText += ` & ${secondAuthorText}`;
-    }
-
-    if (style === "apa") {
-      return `(${authorText}, ${year})`;
-    } else if (style === "mla") {
-      return `(${authorText})`;
-    }
-
-    return `(${authorText}, ${year})`;
-  }
-
-  private static formatCitation(citation: any, style: string): string {
-    const authors = citation.authors || citation.author || "Unknown";
-    const title = citation.title || "Untitled";
-    const year = citation.year || "n.d.";
-
-    if (style === "apa") {
-      return `${authors} (${year}). <i>${title}</i>.`;
-    } else if (style === "mla") {
-      return `${authors}. "${title}." ${year}.`;
-    }
-    return `${authors}. ${title}. ${year}.`;
-  }
 }
@@ -0,0 +1,341 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import {
+  EnqueueJobOptions,
+  JobStatus,
+  JobStatusResponse,
+  JobType,
+} from "../types/jobs";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30s, 60s, 120s, ...
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Thrown by a handler when retrying cannot help (bad input, access revoked, ...)
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableJobError";
+  }
+}
+
+/**
+ * Thrown from reportProgress when the job was cancelled while running
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Job Queue Service
+ * Persistent queue (the `jobs` table) for work too slow for an HTTP request:
+ * endpoints enqueue and return the job id, the worker claims and runs jobs,
+ * clients poll /api/jobs/:id for progress and the result.
+ */
+export class JobQueueService {
+  static async enqueue(
+    type: JobType,
+    userId: string,
+    payload: Record<string, any>,
+    options: EnqueueJobOptions = {}
+  ) {
+    const job = await prisma.job.create({
+      data: {
+        type,
+        user_id: userId,
+        project_id: options.projectId,
+        payload,
+        max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        run_at: options.runAt ?? new Date(),
+      },
+    });
+
+    logger.info("Job enqueued", { jobId: job.id, type, userId });
+
+    return job;
+  }
+
+  /**
+   * Claim the next due job for a worker. The status check in the update keeps
+   * two workers from claiming the same job.
+   */
+  static async claimNext(workerId: string, types?: JobType[]) {
+    const candidates = await prisma.job.findMany({
+      where: {
+        status: "queued",
+        run_at: { lte: new Date() },
+        ...(types ? { type: { in: types } } : {}),
+      },
+      orderBy: { run_at: "asc" },
+      take: 5,
+      select: { id: true },
+    });
+
+    for (const candidate of candidates) {
+      const now = new Date();
+      const claimed = await prisma.job.updateMany({
+        where: { id: candidate.id, status: "queued" },
+        data: {
+          status: "running",
+          locked_by: workerId,
+          locked_at: now,
+          started_at: now,
+          attempts: { increment: 1 },
+          error: null,
+        },
+      });
+
+      if (claimed.count === 1) {
+        return prisma.job.findUnique({ where: { id: candidate.id } });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Update progress of a running job. Also refreshes the lock so a long job
+   * that keeps reporting is not treated as stale.
+   */
+  static async reportProgress(
+    jobId: string,
+    workerId: string,
+    progress: number | undefined,
+    message?: string,
+    stage?: string
+  ): Promise<void> {
+    const updated = await prisma.job.updateMany({
+      where: { id: jobId, status: "running", locked_by: workerId },
+      data: {
+        progress: progress === undefined ? undefined : Math.max(0, Math.min(100, Math.round(progress))),
+        progress_message: message ?? undefined,
+        progress_stage: stage ?? undefined,
+        locked_at: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new JobCancelledError(jobId);
+    }
+  }
+
+  /**
+   * Refresh the lock of a running job. The worker calls this on a timer while a
+   * handler runs, so a long provider call or render that reports no progress is
+   * not mistaken for a dead worker and run twice. False once the job is no
+   * longer this worker's (cancelled).
+   */
+  static async heartbeat(jobId: string, workerId: string): Promise<boolean> {
+    const updated = await prisma.job.updateMany({
+      where: { id: jobId, status: "running", locked_by: workerId },
+      data: { locked_at: new Date() },
+    });
+    return updated.count === 1;
+  }
+
+  static async complete(jobId: string, workerId: string, result: any) {
+    await prisma.job.updateMany({
+      where: { id: jobId, status: "running", locked_by: workerId },
+      data: {
+        status: "completed",
+        result: result ?? undefined,
+        progress: 100,
+        progress_stage: "completed",
+        locked_by: null,
+        locked_at: null,
+        completed_at: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record a failed attempt: requeue with exponential backoff while attempts
+   * remain, otherwise mark the job failed
+   */
+  static async fail(job: any, workerId: string, error: Error) {
+    const retryable =
+      !(error instanceof NonRetryableJobError) && job.attempts < job.max_attempts;
+
+    if (retryable) {
+      const delay = this.retryDelay(job.attempts);
+      await prisma.job.updateMany({
+        where: { id: job.id, status: "running", locked_by: workerId },
+        data: {
+          status: "queued",
+          error: error.message,
+          run_at: new Date(Date.now() + delay),
+          locked_by: null,
+          locked_at: null,
+        },
+      });
+
+      logger.warn("Job attempt failed, retrying", {
+        jobId: job.id,
+        type: job.type,
+        attempt: job.attempts,
+        retryInMs: delay,
+        error: error.message,
+      });
+      return;
+    }
+
+    await prisma.job.updateMany({
+      where: { id: job.id, status: "running", locked_by: workerId },
+      data: {
+        status: "failed",
+        error: error.message,
+        locked_by: null,
+        locked_at: null,
+        completed_at: new Date(),
+      },
+    });
+
+    logger.error("Job failed", {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      error: error.message,
+    });
+  }
+
+  /**
+   * Requeue jobs whose worker died mid-run (lock not refreshed within the timeout)
+   */
+  static async recoverStale(lockTimeoutMs: number): Promise<number> {
+    const cutoff = new Date(Date.now() - lockTimeoutMs);
+    const stale = await prisma.job.findMany({
+      where: { status: "running", locked_at: { lt: cutoff } },
+      select: { id: true, attempts: true, max_attempts: true },
+    });
+
+    for (const job of stale) {
+      const exhausted = job.attempts >= job.max_attempts;
+      await prisma.job.updateMany({
+        where: { id: job.id, status: "running", locked_at: { lt: cutoff } },
+        data: exhausted
+          ? {
+              status: "failed",
+              error: "Worker stopped responding",
+              locked_by: null,
+              locked_at: null,
+              completed_at: new Date(),
+            }
+          : {
+              status: "queued",
+              error: "Worker stopped responding",
+              run_at: new Date(),
+              locked_by: null,
+              locked_at: null,
+            },
+      });
+    }
+
+    if (stale.length > 0) {
+      logger.warn("Recovered stale jobs", { count: stale.length });
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * Wait for a job to finish (completed, failed or cancelled). Null when it is
+   * still queued or running after `timeoutMs`.
+   */
+  static async waitFor(jobId: string, timeoutMs: number, pollIntervalMs: number = 1000) {
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      const job = await prisma.job.findUnique({ where: { id: jobId } });
+      if (!job || ["completed", "failed", "cancelled"].includes(job.status)) return job;
+      if (Date.now() + pollIntervalMs > deadline) return null;
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  /**
+   * Get a job for its owner
+   */
+  static async getJob(jobId: string, userId: string): Promise<JobStatusResponse> {
+    const job = await prisma.job.findFirst({
+      where: { id: jobId, user_id: userId },
+    });
+
+    if (!job) {
+      throw new Error("Job not found or access denied");
+    }
+
+    return this.toResponse(job);
+  }
+
+  static async listJobs(
+    userId: string,
+    filters: { status?: JobStatus; type?: JobType; limit?: number } = {}
+  ): Promise<JobStatusResponse[]> {
+    const jobs = await prisma.job.findMany({
+      where: {
+        user_id: userId,
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.type ? { type: filters.type } : {}),
+      },
+      orderBy: { created_at: "desc" },
+      take: Math.min(filters.limit || 20, 100),
+    });
+
+    return jobs.map((job: any) => this.toResponse(job));
+  }
+
+  /**
+   * Cancel a queued or running job. A running handler stops at its next progress report.
+   */
+  static async cancel(jobId: string, userId: string): Promise<JobStatusResponse> {
+    const cancelled = await prisma.job.updateMany({
+      where: {
+        id: jobId,
+        user_id: userId,
+        status: { in: ["queued", "running"] },
+      },
+      data: {
+        status: "cancelled",
+        locked_by: null,
+        locked_at: null,
+        completed_at: new Date(),
+      },
+    });
+
+    if (cancelled.count === 0) {
+      const job = await this.getJob(jobId, userId); // Throws if not found
+      throw new Error(`Job is already ${job.status}`);
+    }
+
+    return this.getJob(jobId, userId);
+  }
+
+  private static retryDelay(attempt: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_DELAY_MS);
+  }
+
+  private static toResponse(job: any): JobStatusResponse {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      progress: job.progress,
+      progressMessage: job.progress_message,
+      progressStage: job.progress_stage,
+      projectId: job.project_id,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      result: job.status === "completed" ? job.result : null,
+      error: job.error,
+      nextRunAt: job.status === "queued" ? job.run_at : null,
+      createdAt: job.created_at,
+      startedAt: job.started_at,
+      completedAt: job.completed_at,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import * as stopword from "stopword";
+
+export interface LanguageDetection {
+  language: string; // ISO 639-1 code, "und" when undetermined
+  script: string;
+  confidence: number; // 0-1
+}
+
+// Latin-script languages told apart by stopword frequency (stopword package lists)
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: stopword.eng,
+  es: stopword.spa,
+  pt: stopword.por,
+  fr: stopword.fra,
+  de: stopword.deu,
+  it: stopword.ita,
+  nl: stopword.nld,
+};
+
+// Scripts that (mostly) identify the language on their own
+const SCRIPTS: Array<{ script: string; language: string; pattern: RegExp }> = [
+  { script: "Hiragana", language: "ja", pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { script: "Han", language: "zh", pattern: /\p{Script=Han}/gu },
+  { script: "Hangul", language: "ko", pattern: /\p{Script=Hangul}/gu },
+  { script: "Cyrillic", language: "ru", pattern: /\p{Script=Cyrillic}/gu },
+  { script: "Arabic", language: "ar", pattern: /\p{Script=Arabic}/gu },
+  { script: "Devanagari", language: "hi", pattern: /\p{Script=Devanagari}/gu },
+  { script: "Greek", language: "el", pattern: /\p{Script=Greek}/gu },
+  { script: "Hebrew", language: "he", pattern: /\p{Script=Hebrew}/gu },
+  { script: "Thai", language: "th", pattern: /\p{Script=Thai}/gu },
+];
+
+// ISO 639-1 -> stopword package list
+const STOPWORD_LISTS: Record<string, string[]> = {
+  ...LATIN_STOPWORDS,
+  zh: stopword.zho,
+  ja: stopword.jpn,
+  ko: stopword.kor,
+  ru: stopword.rus,
+  ar: stopword.ara,
+  hi: stopword.hin,
+  el: stopword.ell,
+  he: stopword.heb,
+  th: stopword.tha,
+};
+
+const SAMPLE_CHARACTERS = 5000;
+const MIN_LATIN_WORDS = 5;
+
+/**
+ * Language Detection Service
+ * Lightweight, offline detection: the dominant script decides non-Latin languages;
+ * Latin-script text is scored against per-language stopword lists.
+ */
+export class LanguageDetectionService {
+  static detect(text: string): LanguageDetection {
+    const sample = (text || "").slice(0, SAMPLE_CHARACTERS);
+    const latinLetters = (sample.match(/\p{Script=Latin}/gu) || []).length;
+
+    let best = { script: "Latin", language: "und", letters: latinLetters };
+    for (const candidate of SCRIPTS) {
+      const letters = (sample.match(candidate.pattern) || []).length;
+      // Japanese text mixes Kana with Han; any meaningful Kana share means Japanese
+      const weight = candidate.script === "Hiragana" && letters > 0 ? letters * 3 : letters;
+      if (weight > best.letters) best = { script: candidate.script, language: candidate.language, letters: weight };
+    }
+
+    const totalLetters = (sample.match(/\p{L}/gu) || []).length;
+    if (totalLetters === 0) return { language: "und", script: "Unknown", confidence: 0 };
+
+    if (best.script !== "Latin") {
+      return {
+        language: best.language,
+        script: best.script,
+        confidence: Math.min(1, Math.round((best.letters / totalLetters) * 100) / 100),
+      };
+    }
+
+    const words = (sample.toLowerCase().match(/\p{L}+/gu) || []);
+    if (words.length < MIN_LATIN_WORDS) return { language: "und", script: "Latin", confidence: 0 };
+
+    const scores = Object.entries(LATIN_STOPWORDS).map(([language, list]) => {
+      const set = new Set(list);
+      return { language, hits: words.filter((word) => set.has(word)).length };
+    });
+    scores.sort((a, b) => b.hits - a.hits);
+
+    const [first, second] = scores;
+    if (first.hits === 0) return { language: "und", script: "Latin", confidence: 0 };
+
+    return {
+      language: first.language,
+      script: "Latin",
+      // Margin over the runner-up: Spanish and Portuguese share many stopwords
+      confidence: Math.round(((first.hits - (second?.hits || 0)) / first.hits) * 100) / 100,
+    };
+  }
+
+  /**
+   * Stopword list for a detected language (English when unknown)
+   */
+  static stopwordsFor(language: string): string[] {
+    return STOPWORD_LISTS[language] || stopword.eng;
+  }
+}
@@ -1,5 +1,6 @@
 import axios from "axios";
 import logger from "../monitoring/logger";
+import { CitationFormatter } from "./citationFormatting/citationFormatter";
 
 export interface Paper {
   title: string;
@@ -31,7 +32,8 @@ export class MissingLinkService {
   static async suggestPapers(
     keywords: string[],
     field: string = "default",
-    limit: number = 3
+    limit: number = 3,
+    citationStyle: string = "apa"
   ): Promise<SuggestedPaper[]> {
     try {
       logger.info("Finding paper suggestions", { keywords, field, limit });
@@ -74,7 +76,10 @@ export class MissingLinkService {
       // Format and return top results
       const suggestions = rankedPapers.slice(0, limit).map((paper) => ({
         ...paper,
-        citation: this.formatCitation(paper, "APA"),
+        citation: CitationFormatter.formatReference(
+          { ...paper, type: "journal-article" },
+          citationStyle
+        ),
       }));
 
       logger.info(`Found ${suggestions.length} paper suggestions`);
@@ -358,19 +363,4 @@ export class MissingLinkService {
 
     return Math.min(100, score);
   }
-
-  /**
-   * Format citation in APA style
-   */
-  private static formatCitation(paper: Paper, style: string = "APA"): string {
-    const authors = paper.authors.slice(0, 3).join(", ");
-    const moreAuthors = paper.authors.length > 3 ? ", et al." : "";
-
-    if (style === "APA") {
-      return `${authors}${moreAuthors} (${paper.year}). ${paper.title}. ${paper.journal || ""}${paper.doi ? ` https://doi.org/${paper.doi}` : ""}`;
-    }
-
-    // Default format
-    return `${authors}${moreAuthors}. "${paper.title}." ${paper.year}.`;
-  }
 }
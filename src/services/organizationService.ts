@@ -0,0 +1,314 @@
+import crypto from "crypto";
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { EmailService } from "./emailService";
+import { SecretsService } from "./secrets-service";
+
+export type OrganizationRole = "admin" | "member";
+
+/**
+ * Organization Service
+ * Groups users (e.g. an instructor and their class) for organization-scoped
+ * features such as the internal corpus index.
+ */
+export class OrganizationService {
+  static async createOrganization(userId: string, name: string) {
+    const trimmed = typeof name === "string" ? name.trim() : "";
+    if (!trimmed || trimmed.length > 200) {
+      throw new Error("Organization name is required (max 200 characters)");
+    }
+
+    const organization = await prisma.organization.create({
+      data: {
+        name: trimmed,
+        created_by: userId,
+        members: {
+          create: { user_id: userId, role: "admin" },
+        },
+      },
+    });
+
+    logger.info("Organization created", { organizationId: organization.id, userId });
+
+    return organization;
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  static async listForUser(userId: string) {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { user_id: userId },
+      include: {
+        organization: {
+          include: { _count: { select: { members: true, corpus_documents: true } } },
+        },
+      },
+      orderBy: { joined_at: "asc" },
+    });
+
+    return memberships.map((membership: any) => ({
+      id: membership.organization.id,
+      name: membership.organization.name,
+      role: membership.role as OrganizationRole,
+      corpusIndexEnabled: membership.organization.corpus_index_enabled,
+      memberCount: membership.organization._count.members,
+      indexedDocuments: membership.organization._count.corpus_documents,
+      joinedAt: membership.joined_at,
+    }));
+  }
+
+  static async getRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { organization_id_user_id: { organization_id: organizationId, user_id: userId } },
+      select: { role: true },
+    });
+
+    return (membership?.role as OrganizationRole) || null;
+  }
+
+  /**
+   * Assert membership (and optionally the admin role).
+   * Throws "Organization not found or access denied" for non-members.
+   */
+  static async assertMember(
+    organizationId: string,
+    userId: string,
+    requireAdmin: boolean = false
+  ): Promise<OrganizationRole> {
+    const role = await this.getRole(organizationId, userId);
+
+    if (!role) {
+      throw new Error("Organization not found or access denied");
+    }
+    if (requireAdmin && role !== "admin") {
+      throw new Error("This action requires the organization admin role");
+    }
+
+    return role;
+  }
+
+  static async listMembers(organizationId: string, userId: string) {
+    await this.assertMember(organizationId, userId);
+
+    const members = await prisma.organizationMember.findMany({
+      where: { organization_id: organizationId },
+      include: { user: { select: { id: true, email: true, full_name: true } } },
+      orderBy: { joined_at: "asc" },
+    });
+
+    return members.map((member: any) => ({
+      userId: member.user.id,
+      email: member.user.email,
+      fullName: member.user.full_name,
+      role: member.role as OrganizationRole,
+      joinedAt: member.joined_at,
+    }));
+  }
+
+  /**
+   * Invite someone by email (admin only). They join once they accept; their
+   * documents can be indexed for the organization only from then on.
+   * Re-inviting a revoked or former member re-opens the same row with a fresh token.
+   */
+  static async inviteMember(
+    organizationId: string,
+    adminId: string,
+    email: string,
+    role: OrganizationRole = "member"
+  ) {
+    await this.assertMember(organizationId, adminId, true);
+
+    if (role !== "admin" && role !== "member") {
+      throw new Error("Invalid role: must be admin or member");
+    }
+
+    const normalizedEmail = String(email || "").trim().toLowerCase();
+
+    const member = await prisma.organizationMember.findFirst({
+      where: { organization_id: organizationId, user: { email: normalizedEmail } },
+      select: { id: true },
+    });
+    if (member) {
+      throw new Error("This user is already a member of the organization");
+    }
+
+    const existing = await prisma.organizationInvitation.findUnique({
+      where: { organization_id_email: { organization_id: organizationId, email: normalizedEmail } },
+    });
+    if (existing?.status === "pending") {
+      throw new Error("This email has already been invited to the organization");
+    }
+
+    const inviteToken = crypto.randomBytes(32).toString("hex");
+    const data = {
+      role,
+      status: "pending",
+      invite_token: inviteToken,
+      invited_by: adminId,
+      invited_at: new Date(),
+      accepted_at: null,
+      revoked_at: null,
+    };
+
+    const invitation = existing
+      ? await prisma.organizationInvitation.update({ where: { id: existing.id }, data })
+      : await prisma.organizationInvitation.create({
+        data: { ...data, organization_id: organizationId, email: normalizedEmail },
+      });
+
+    logger.info("Organization member invited", { organizationId, adminId, role });
+
+    // Email is best-effort: the invite is still valid if delivery fails
+    try {
+      const [organization, admin] = await Promise.all([
+        prisma.organization.findUnique({ where: { id: organizationId }, select: { name: true } }),
+        prisma.user.findUnique({ where: { id: adminId }, select: { full_name: true, email: true } }),
+      ]);
+      const adminName = admin?.full_name || admin?.email || "A ColabWize user";
+      const acceptUrl = `${await SecretsService.getFrontendUrl()}/dashboard/organizations/${organizationId}/accept-invite?token=${inviteToken}`;
+
+      // Names and emails are user input; the email body is HTML
+      await EmailService.sendNotificationEmail(
+        normalizedEmail,
+        escapeHtml(normalizedEmail),
+        "You've been invited to an organization",
+        `${escapeHtml(adminName)} invited you to join "${escapeHtml(organization?.name || "an organization")}" as ${role === "admin" ? "an admin" : "a member"}. Members' submitted documents may be compared with each other when the organization turns on its internal index. <a href="${escapeHtml(acceptUrl)}">Accept the invitation</a> to join.`,
+        "organization_invite"
+      );
+    } catch (emailError: any) {
+      logger.error("Failed to send organization invite email", {
+        error: emailError.message,
+        organizationId,
+      });
+    }
+
+    return this.toInvitationResponse(invitation);
+  }
+
+  /**
+   * Pending invitations (admin only)
+   */
+  static async listInvitations(organizationId: string, adminId: string) {
+    await this.assertMember(organizationId, adminId, true);
+
+    const invitations = await prisma.organizationInvitation.findMany({
+      where: { organization_id: organizationId, status: "pending" },
+      orderBy: { invited_at: "asc" },
+    });
+
+    return invitations.map((invitation: any) => this.toInvitationResponse(invitation));
+  }
+
+  /**
+   * Withdraw a pending invitation (admin only)
+   */
+  static async revokeInvitation(organizationId: string, adminId: string, invitationId: string) {
+    await this.assertMember(organizationId, adminId, true);
+
+    const revoked = await prisma.organizationInvitation.updateMany({
+      where: { id: invitationId, organization_id: organizationId, status: "pending" },
+      data: { status: "revoked", revoked_at: new Date() },
+    });
+    if (revoked.count === 0) {
+      throw new Error("Invitation not found");
+    }
+
+    logger.info("Organization invitation revoked", { organizationId, invitationId, adminId });
+  }
+
+  /**
+   * Accept an invitation. The accepting account must use the invited email.
+   */
+  static async acceptInvitation(organizationId: string, token: string, userId: string, userEmail: string) {
+    const invitation = await prisma.organizationInvitation.findUnique({
+      where: { invite_token: token },
+    });
+
+    if (!invitation || invitation.organization_id !== organizationId || invitation.status !== "pending") {
+      throw new Error("Invitation not found or no longer valid");
+    }
+
+    if (invitation.email !== (userEmail || "").toLowerCase()) {
+      throw new Error("This invitation was sent to a different email address");
+    }
+
+    const [member] = await prisma.$transaction([
+      prisma.organizationMember.upsert({
+        where: { organization_id_user_id: { organization_id: organizationId, user_id: userId } },
+        create: { organization_id: organizationId, user_id: userId, role: invitation.role },
+        update: { role: invitation.role },
+      }),
+      prisma.organizationInvitation.update({
+        where: { id: invitation.id },
+        data: { status: "accepted", accepted_at: new Date() },
+      }),
+    ]);
+
+    logger.info("Organization invitation accepted", { organizationId, userId, role: invitation.role });
+
+    return member;
+  }
+
+  /**
+   * Remove a member (admin, or the member themselves). Their documents leave the corpus index.
+   */
+  static async removeMember(organizationId: string, actorId: string, memberId: string) {
+    await this.assertMember(organizationId, actorId, actorId !== memberId);
+
+    const removed = await prisma.organizationMember.deleteMany({
+      where: { organization_id: organizationId, user_id: memberId },
+    });
+    if (removed.count === 0) {
+      throw new Error("Member not found");
+    }
+
+    await prisma.corpusDocument.deleteMany({
+      where: { organization_id: organizationId, user_id: memberId },
+    });
+
+    logger.info("Organization member removed", { organizationId, memberId, actorId });
+  }
+
+  /**
+   * Turn the internal corpus index on or off (admin only). Turning it off
+   * deletes every stored fingerprint for the organization.
+   */
+  static async setCorpusIndexing(organizationId: string, adminId: string, enabled: boolean) {
+    await this.assertMember(organizationId, adminId, true);
+
+    const organization = await prisma.organization.update({
+      where: { id: organizationId },
+      data: { corpus_index_enabled: enabled },
+    });
+
+    if (!enabled) {
+      await prisma.corpusDocument.deleteMany({ where: { organization_id: organizationId } });
+    }
+
+    logger.info("Organization corpus indexing updated", { organizationId, enabled, adminId });
+
+    return organization;
+  }
+
+  // Map snake_case to camelCase for frontend
+  private static toInvitationResponse(invitation: any) {
+    return {
+      id: invitation.id,
+      organizationId: invitation.organization_id,
+      email: invitation.email,
+      role: invitation.role as OrganizationRole,
+      status: invitation.status,
+      invitedBy: invitation.invited_by,
+      invitedAt: invitation.invited_at,
+    };
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,244 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import {
+  DEFAULT_EXCLUSION_SETTINGS,
+  ExclusionReason,
+  OriginalityExclusionInput,
+  OriginalityExclusionSettings,
+} from "../types/originalityExclusions";
+
+const MAX_MIN_MATCH_WORDS = 100;
+const MAX_EXCLUDED_SOURCES = 50;
+const QUOTED_COVERAGE = 0.9; // Share of a match that must sit inside quotation marks
+
+const QUOTE_PATTERN = /"[^"\n]+"|“[^”]+”|«[^»]+»/g;
+const BIBLIOGRAPHY_HEADING =
+  /(^|\n)[ \t]*(references|bibliography|works cited|literature cited|reference list|sources cited)[ \t]*:?[ \t]*(?=\n|$)/gi;
+
+const EXCLUSION_INPUT_SCHEMA = z
+  .strictObject({
+    excludeQuotes: z.boolean({ error: "excludeQuotes must be a boolean" }),
+    excludeBibliography: z.boolean({ error: "excludeBibliography must be a boolean" }),
+    minMatchWords: z
+      .number({ error: `minMatchWords must be an integer between 0 and ${MAX_MIN_MATCH_WORDS}` })
+      .int({ error: `minMatchWords must be an integer between 0 and ${MAX_MIN_MATCH_WORDS}` })
+      .min(0, { error: `minMatchWords must be an integer between 0 and ${MAX_MIN_MATCH_WORDS}` })
+      .max(MAX_MIN_MATCH_WORDS, { error: `minMatchWords must be an integer between 0 and ${MAX_MIN_MATCH_WORDS}` }),
+    excludedSources: z.array(z.string({ error: "excludedSources must be an array of strings" }), {
+      error: "excludedSources must be an array of strings",
+    }),
+    excludeOwnWork: z.boolean({ error: "excludeOwnWork must be a boolean" }),
+  }, { error: "expected an object" })
+  .partial();
+
+export interface ExclusionCandidate {
+  start: number;
+  end: number;
+  sourceUrl: string | null;
+  matchedWords?: number;
+  ownWork?: boolean;
+}
+
+/**
+ * Originality Exclusion Service
+ * User-configurable rules (quotes, bibliography, small matches, sources, own work)
+ * deciding which similarity matches count toward a scan's filtered score.
+ */
+export class OriginalityExclusionService {
+  /**
+   * The user's default rules, merged over the built-in defaults
+   */
+  static async getUserSettings(userId: string): Promise<OriginalityExclusionSettings> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { originality_exclusions: true },
+    });
+
+    return this.validate(user?.originality_exclusions);
+  }
+
+  static async updateUserSettings(
+    userId: string,
+    input: OriginalityExclusionInput
+  ): Promise<OriginalityExclusionSettings> {
+    const current = await this.getUserSettings(userId);
+    const settings = this.validate({ ...current, ...input });
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { originality_exclusions: this.toJson(settings) },
+    });
+
+    return settings;
+  }
+
+  /**
+   * Rules for one scan: the user's defaults with per-scan overrides on top
+   */
+  static async resolveSettings(
+    userId: string,
+    overrides: OriginalityExclusionInput = {}
+  ): Promise<OriginalityExclusionSettings> {
+    const defaults = await this.getUserSettings(userId);
+    return this.validate({ ...defaults, ...overrides });
+  }
+
+  /**
+   * Check a request body (or stored JSON) holding some of the rules; unknown
+   * fields and wrong types throw "Invalid exclusion settings: ..."
+   */
+  static parseInput(input: unknown): OriginalityExclusionInput {
+    if (input === undefined || input === null) return {};
+
+    const parsed = EXCLUSION_INPUT_SCHEMA.safeParse(input);
+    if (!parsed.success) {
+      throw new Error(`Invalid exclusion settings: ${parsed.error.issues.map((issue) => issue.message).join("; ")}`);
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * Complete, normalized settings from a partial input, throwing on invalid values
+   */
+  static validate(input: unknown): OriginalityExclusionSettings {
+    const settings = { ...DEFAULT_EXCLUSION_SETTINGS, ...this.parseInput(input) };
+
+    const excludedSources = Array.from(
+      new Set<string>(settings.excludedSources.map((s) => this.normalizeSource(s)).filter(Boolean))
+    );
+    if (excludedSources.length > MAX_EXCLUDED_SOURCES) {
+      throw new Error(`Invalid exclusion settings: at most ${MAX_EXCLUDED_SOURCES} excluded sources`);
+    }
+
+    return {
+      excludeQuotes: settings.excludeQuotes,
+      excludeBibliography: settings.excludeBibliography,
+      minMatchWords: settings.minMatchWords,
+      excludedSources,
+      excludeOwnWork: settings.excludeOwnWork,
+    };
+  }
+
+  /**
+   * Settings as stored in the JSON columns (User.originality_exclusions, OriginalityScan.exclusion_settings)
+   */
+  static toJson(settings: OriginalityExclusionSettings): Prisma.InputJsonObject {
+    return {
+      excludeQuotes: settings.excludeQuotes,
+      excludeBibliography: settings.excludeBibliography,
+      minMatchWords: settings.minMatchWords,
+      excludedSources: settings.excludedSources,
+      excludeOwnWork: settings.excludeOwnWork,
+    };
+  }
+
+  /**
+   * Reason each match is excluded (null = counts toward the filtered score)
+   */
+  static evaluate(
+    content: string,
+    matches: ExclusionCandidate[],
+    settings: OriginalityExclusionSettings
+  ): Array<ExclusionReason | null> {
+    const quoted = settings.excludeQuotes ? this.findQuotedRanges(content) : [];
+    const bibliographyStart = settings.excludeBibliography ? this.findBibliographyStart(content) : null;
+
+    return matches.map((match) => {
+      if (settings.excludeOwnWork && match.ownWork) return "own_work";
+
+      if (match.sourceUrl && this.isExcludedSource(match.sourceUrl, settings.excludedSources)) {
+        return "excluded_source";
+      }
+
+      if (bibliographyStart !== null && match.start >= bibliographyStart) return "bibliography";
+
+      if (quoted.length && this.quotedShare(match, quoted) >= QUOTED_COVERAGE) return "quoted";
+
+      if (settings.minMatchWords > 0) {
+        const spanWords = content.substring(match.start, match.end).split(/\s+/).filter(Boolean).length;
+        if ((spanWords || match.matchedWords || 0) < settings.minMatchWords) return "small_match";
+      }
+
+      return null;
+    });
+  }
+
+  /**
+   * Filtered score: the raw score scaled by the share of matched text that survives
+   * the rules, so it equals the raw score when nothing is excluded
+   */
+  static filteredScore(
+    content: string,
+    matches: ExclusionCandidate[],
+    reasons: Array<ExclusionReason | null>,
+    rawScore: number
+  ): number {
+    const all = this.coveredCharacters(content, matches);
+    if (all === 0) return rawScore;
+
+    const kept = this.coveredCharacters(content, matches.filter((_, i) => reasons[i] === null));
+    return Math.round(rawScore * (kept / all) * 10) / 10;
+  }
+
+  static findQuotedRanges(content: string): Array<{ start: number; end: number }> {
+    const ranges: Array<{ start: number; end: number }> = [];
+    for (const match of content.matchAll(QUOTE_PATTERN)) {
+      ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+    return ranges;
+  }
+
+  /**
+   * Offset of the last References / Bibliography heading, if any
+   */
+  static findBibliographyStart(content: string): number | null {
+    let start: number | null = null;
+    for (const match of content.matchAll(BIBLIOGRAPHY_HEADING)) {
+      start = match.index! + match[1].length;
+    }
+    return start;
+  }
+
+  private static quotedShare(match: ExclusionCandidate, quoted: Array<{ start: number; end: number }>): number {
+    const length = match.end - match.start;
+    if (length <= 0) return 0;
+
+    let inside = 0;
+    for (const range of quoted) {
+      inside += Math.max(0, Math.min(match.end, range.end) - Math.max(match.start, range.start));
+    }
+    return inside / length;
+  }
+
+  private static isExcludedSource(url: string, excludedSources: string[]): boolean {
+    const target = this.normalizeSource(url);
+    const host = target.split("/")[0];
+
+    return excludedSources.some((entry) =>
+      entry.includes("/")
+        ? target === entry || target.startsWith(`${entry}/`)
+        : host === entry || host.endsWith(`.${entry}`)
+    );
+  }
+
+  private static normalizeSource(value: string): string {
+    return value
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, "")
+      .replace(/^www\./, "")
+      .replace(/[?#].*$/, "")
+      .replace(/\/+$/, "");
+  }
+
+  private static coveredCharacters(content: string, matches: ExclusionCandidate[]): number {
+    const covered = new Set<number>();
+    for (const match of matches) {
+      const end = Math.min(match.end, content.length);
+      for (let i = Math.max(0, match.start); i < end; i++) covered.add(i);
+    }
+    return covered.size;
+  }
+}
@@ -1,33 +1,71 @@
 import { prisma } from "../lib/prisma";
-import { CopyscapeService, PlagiarismMatch } from "./copyscapeService";
-import { SecretsService } from "./secrets-service";
+import { OriginalityProviderChain } from "./originalityProviders/providerChain";
+import { CopyleaksProvider } from "./originalityProviders/copyleaksProvider";
 import logger from "../monitoring/logger";
 import * as crypto from "crypto";
+import { ProjectAccessService } from "./projectAccessService";
+import { ProgressReporter } from "../types/progress";
+import { ProviderMatch, ProviderScanContext, ProviderScanSummary } from "../types/originalityProviders";
+import { OriginalityExclusionService } from "./originalityExclusionService";
+import { OriginalityExclusionInput, OriginalityExclusionSettings } from "../types/originalityExclusions";
+import { LocalProvider } from "./originalityProviders/localProvider";
+import { LanguageDetectionService } from "./languageDetectionService";
+
+export interface OriginalityScanOptions {
+  exclusions?: OriginalityExclusionInput; // Overrides the user's default exclusion rules
+  crossLanguage?: boolean; // Also match sources written in another language
+  jobId?: string; // Queue job running the scan; a retry of the job resumes its scan instead of starting another
+}
 
 export class OriginalityMapService {
 
   /**
-   * Start a Copyscape-ONLY Scan
-   * Strict textual plagiarism detection. No AI. No Semantics.
+   * Start a textual plagiarism scan (no AI, no semantics on the primary providers)
+   * Runs the plan's provider chain (Copyscape first); falls back down the chain,
+   * ending with the offline provider, when a provider is down or out of credit.
    */
-  static async startScan(projectId: string, userId: string, content: string) {
-    logger.info("Starting Copyscape-only plagiarism scan", { projectId, userId });
+  static async startScan(
+    projectId: string,
+    userId: string,
+    content: string,
+    onProgress?: ProgressReporter,
+    plan: string = "free",
+    options: OriginalityScanOptions = {}
+  ) {
+    logger.info("Starting plagiarism scan", { projectId, userId, plan, crossLanguage: !!options.crossLanguage });
+    const settings = await OriginalityExclusionService.resolveSettings(userId, options.exclusions);
 
-    // 1. Check Cache
+    // A retried job must not submit the text to a provider again (credits are taken once per request)
+    if (options.jobId) {
+      const previous = await this.resumeJobScan(options.jobId, userId);
+      if (previous) return previous;
+    }
+
+    // 1. Check Cache - only full web scans of this project's text; an offline or
+    // fallback result must not stand in for a scan the provider chain can now run
+    await onProgress?.({ stage: "checking_cache", message: "Checking previous scans", progress: 5 });
     const contentHash = crypto.createHash('md5').update(content).digest('hex');
     const existingScan = await prisma.originalityScan.findFirst({
       where: {
+        project_id: projectId,
         content_hash: contentHash,
         user_id: userId,
-        scan_status: "completed"
+        scan_status: "completed",
+        provider: { not: "local" },
+        degraded: false,
+        ...(options.crossLanguage ? { cross_language: true } : {})
       },
+      orderBy: { scanned_at: "desc" },
       include: { matches: true }
     });
 
     if (existingScan) {
-      // Return cached result if it's successfully completed
+      // Reuse the provider's matches in a new scan filtered with this request's rules;
+      // the earlier scan keeps its own rules and score
       logger.info("Found cached scan result", { scanId: existingScan.id });
-      return existingScan;
+      const copy = await this.copyScan(existingScan, settings, options.jobId);
+      const result = await this.getScanResults(copy.id, userId);
+      return { ...result, degraded: copy.degraded };
     }
 
     // 2. Create DB Record (Processing)
@@ -39,72 +77,43 @@ export class OriginalityMapService {
         overall_score: 0,
         classification: "safe", // Default until proven guilty
         scan_status: "processing",
-        scanned_content: content // Store snapshot of text
+        scanned_content: content, // Store snapshot of text
+        exclusion_settings: OriginalityExclusionService.toJson(settings),
+        language: LanguageDetectionService.detect(content).language,
+        cross_language: !!options.crossLanguage,
+        job_id: options.jobId
       }
     });
 
     try {
-      // 3. Call Copyscape (Source of Truth)
-      // New return signature: { matches, summary }
-      const { matches, summary } = await CopyscapeService.scanText(content);
-
-      let maxSimilarity = 0;
-
-      if (matches.length > 0) {
-        // Insert matches
-        for (const match of matches) {
-          // strict mapping: 
-          // >70% -> Red
-          // 40-70% -> Yellow (Amber)
-          // <40% -> Green (Safe/Minor)
-          let classification: "red" | "yellow" | "green" = "green";
-          if (match.similarity >= 40) classification = "yellow";
-          if (match.similarity >= 70) classification = "red";
-
-          // Track max score locally for match-level logic
-          if (match.similarity > maxSimilarity) maxSimilarity = match.similarity;
-
-          await prisma.similarityMatch.create({
-            data: {
-              scan_id: scan.id,
-              sentence_text: content.substring(match.start, match.end),
-              matched_source: match.sourceUrl,
-              source_url: match.sourceUrl,
-              view_url: match.viewUrl || null,
-              matched_words: Math.floor(Number(match.matchedWords || 0)),
-              source_words: Math.floor(Number(match.sourceWords || 0)),
-              match_percent: Number(match.matchPercent || 0),
-              similarity_score: Number(match.similarity || 0),
-              position_start: Math.floor(Number(match.start)),
-              position_end: Math.floor(Number(match.end)),
-              classification: classification,
-            }
-          });
-        }
-      }
-
-      // 4. Update Final Status
-      // Use Copyscape's official "All Percent Matched" as the Overall Score
-      const finalScore = summary.allPercentMatched || maxSimilarity; // Fallback only if 0
-      const status = finalScore > 10 ? "action_required" : "safe"; // >10% is usually significant
+      // 3. Run the provider chain
+      await onProgress?.({ stage: "searching_sources", message: "Searching sources", progress: 15 });
+      const context: ProviderScanContext = { scanId: scan.id, projectId, userId };
+      const { provider, outcome, attempts, degraded } = await OriginalityProviderChain.scan(plan, content, context);
 
       await prisma.originalityScan.update({
         where: { id: scan.id },
-        data: {
-          overall_score: Number(finalScore),
-          classification: status,
-          scan_status: "completed",
-          words_scanned: Math.floor(Number(summary.queryWords || 0)),
-          cost_amount: Number(summary.cost || 0),
-          match_count: Math.floor(Number(summary.count || 0))
-        }
+        data: { provider, degraded }
       });
 
+      // Asynchronous provider: results arrive through its webhook
+      if (outcome.status === "pending") {
+        const pending = await this.getScanResults(scan.id, userId);
+        return { ...pending, providerAttempts: attempts, degraded };
+      }
+
+      const { matches, summary } = options.crossLanguage
+        ? await this.addCrossLanguageMatches(content, outcome.matches, outcome.summary, context, onProgress)
+        : outcome;
+
+      await this.recordResults(scan.id, content, matches, summary, settings, onProgress);
+
       // Return full fresh result
-      return this.getScanResults(scan.id, userId);
+      const result = await this.getScanResults(scan.id, userId);
+      return { ...result, providerAttempts: attempts, degraded };
 
     } catch (e: any) {
-      logger.error("Copyscape Scan Failed", { error: e.message });
+      logger.error("Originality Scan Failed", { error: e.message });
 
       // Mark as failed regardless of reason so UI shows "Error" state (Dashes)
       await prisma.originalityScan.update({
@@ -129,21 +138,322 @@ export class OriginalityMapService {
     }
   }
 
+  /**
+   * The scan an earlier attempt of a job already created, if any. Completed and
+   * failed scans, and webhook scans still waiting for their provider, are returned
+   * as they are; a scan left processing by a crashed worker is marked failed
+   * rather than sent to the provider a second time.
+   */
+  private static async resumeJobScan(jobId: string, userId: string) {
+    const scan = await prisma.originalityScan.findUnique({
+      where: { job_id: jobId },
+      select: { id: true, scan_status: true, provider: true }
+    });
+    if (!scan) return null;
+
+    logger.info("Resuming scan of a retried job", { jobId, scanId: scan.id, status: scan.scan_status });
+
+    const awaitingWebhook = scan.scan_status === "processing" && scan.provider === "copyleaks";
+    if (scan.scan_status === "processing" && !awaitingWebhook) {
+      await prisma.originalityScan.update({
+        where: { id: scan.id },
+        data: {
+          scan_status: "failed",
+          classification: "action_required",
+          overall_score: -1,
+          match_count: 0
+        }
+      });
+      const result = await this.getScanResults(scan.id, userId);
+      return { ...result, failureMessage: "Scan was interrupted" };
+    }
+
+    return this.getScanResults(scan.id, userId);
+  }
+
   /**
    * Alias for startScan to support API expectations
    */
-  static async scanDocument(projectId: string, userId: string, content: string, plan: string = "free") {
-    return this.startScan(projectId, userId, content);
+  static async scanDocument(
+    projectId: string,
+    userId: string,
+    content: string,
+    plan: string = "free",
+    onProgress?: ProgressReporter,
+    options: OriginalityScanOptions = {}
+  ) {
+    return this.startScan(projectId, userId, content, onProgress, plan, options);
+  }
+
+  /**
+   * Cross-language mode: add matches against sources in other languages that do
+   * not overlap what the provider already found. Best effort - a failure (e.g. the
+   * multilingual model cannot be loaded) leaves the provider's result untouched.
+   */
+  private static async addCrossLanguageMatches(
+    content: string,
+    matches: ProviderMatch[],
+    summary: ProviderScanSummary,
+    context: ProviderScanContext,
+    onProgress?: ProgressReporter
+  ): Promise<{ matches: ProviderMatch[]; summary: ProviderScanSummary }> {
+    try {
+      await onProgress?.({ stage: "cross_language", message: "Checking sources in other languages", progress: 70 });
+      const local = OriginalityProviderChain.getProvider("local") as LocalProvider;
+      const extra = (await local.scanCrossLanguage(content, context)).filter(
+        (hit) => !matches.some((m) => hit.start < m.end && hit.end > m.start)
+      );
+
+      if (!extra.length) return { matches, summary };
+
+      const covered = new Set<number>();
+      for (const match of [...matches, ...extra]) {
+        for (let i = match.start; i < match.end; i++) covered.add(i);
+      }
+      const coverage = content.length ? Math.round((covered.size / content.length) * 1000) / 10 : 0;
+
+      return {
+        matches: [...matches, ...extra],
+        summary: {
+          ...summary,
+          overallScore: Math.max(summary.overallScore, coverage),
+          matchCount: summary.matchCount + extra.length,
+        },
+      };
+    } catch (error: any) {
+      logger.warn("Cross-language check failed, keeping provider result", {
+        scanId: context.scanId,
+        error: error.message,
+      });
+      return { matches, summary };
+    }
+  }
+
+  /**
+   * Store normalized provider matches and complete the scan.
+   * Every match is kept; those caught by the exclusion rules are flagged and left
+   * out of the filtered overall score (the provider's score is kept as raw_score).
+   */
+  private static async recordResults(
+    scanId: string,
+    content: string,
+    matches: ProviderMatch[],
+    summary: ProviderScanSummary,
+    settings: OriginalityExclusionSettings,
+    onProgress?: ProgressReporter
+  ) {
+    let maxSimilarity = 0;
+    const reasons = OriginalityExclusionService.evaluate(content, matches, settings);
+
+    if (matches.length > 0) {
+      await onProgress?.({
+        stage: "recording_matches",
+        message: `Recording ${matches.length} matches`,
+        total: matches.length,
+        progress: 80,
+      });
+
+      // Insert matches
+      for (const [index, match] of matches.entries()) {
+        // strict mapping: 
+        // >70% -> Red
+        // 40-70% -> Yellow (Amber)
+        // <40% -> Green (Safe/Minor)
+        let classification: "red" | "yellow" | "green" = "green";
+        if (match.similarity >= 40) classification = "yellow";
+        if (match.similarity >= 70) classification = "red";
+
+        // Track max score locally for match-level logic
+        if (match.similarity > maxSimilarity) maxSimilarity = match.similarity;
+
+        await prisma.similarityMatch.create({
+          data: {
+            scan_id: scanId,
+            sentence_text: content.substring(match.start, match.end) || match.sourceTitle,
+            matched_source: match.sourceTitle,
+            source_url: match.sourceUrl,
+            view_url: match.viewUrl || null,
+            matched_words: Math.floor(Number(match.matchedWords || 0)),
+            source_words: Math.floor(Number(match.sourceWords || 0)),
+            match_percent: Number(match.matchPercent || 0),
+            similarity_score: Number(match.similarity || 0),
+            position_start: Math.floor(Number(match.start)),
+            position_end: Math.floor(Number(match.end)),
+            classification: classification,
+            own_work: !!match.ownWork,
+            cross_language: !!match.crossLanguage,
+            source_language: match.sourceLanguage || null,
+            excluded: reasons[index] !== null,
+            exclusion_reason: reasons[index],
+          }
+        });
+      }
+    }
+
+    // 4. Update Final Status
+    await onProgress?.({ stage: "scoring", message: "Calculating originality score", progress: 95 });
+    const rawScore = Number(summary.overallScore || maxSimilarity); // Fallback only if 0
+    const finalScore = OriginalityExclusionService.filteredScore(content, matches, reasons, rawScore);
+    const status = finalScore > 10 ? "action_required" : "safe"; // >10% is usually significant
+
+    await prisma.originalityScan.update({
+      where: { id: scanId },
+      data: {
+        raw_score: rawScore,
+        overall_score: finalScore,
+        exclusion_settings: OriginalityExclusionService.toJson(settings),
+        classification: status,
+        scan_status: "completed",
+        words_scanned: Math.floor(Number(summary.wordsScanned || 0)),
+        cost_amount: Number(summary.cost || 0),
+        match_count: Math.floor(Number(summary.matchCount || 0))
+      }
+    });
+  }
+
+  /**
+   * Exclusion reasons and scores of a completed scan's stored matches under `settings`
+   */
+  private static scoreExclusions(scan: any, settings: OriginalityExclusionSettings) {
+    const content = scan.scanned_content || "";
+    const matches = (scan.matches || []).map((m: any) => ({
+      id: m.id,
+      start: m.position_start,
+      end: m.position_end,
+      sourceUrl: m.source_url,
+      matchedWords: m.matched_words,
+      ownWork: m.own_work,
+    }));
+    const reasons = OriginalityExclusionService.evaluate(content, matches, settings);
+
+    // Scans recorded before exclusion rules existed have no raw score yet
+    const rawScore = scan.raw_score ?? scan.overall_score;
+    const finalScore = OriginalityExclusionService.filteredScore(content, matches, reasons, rawScore);
+
+    return { matches, reasons, rawScore, finalScore };
+  }
+
+  /**
+   * A new completed scan with a cached scan's matches, scored under `settings`.
+   * It keeps the original scan time: that is when the sources were searched.
+   */
+  private static async copyScan(scan: any, settings: OriginalityExclusionSettings, jobId?: string) {
+    const { reasons, rawScore, finalScore } = this.scoreExclusions(scan, settings);
+
+    return prisma.originalityScan.create({
+      data: {
+        project_id: scan.project_id,
+        user_id: scan.user_id,
+        content_hash: scan.content_hash,
+        raw_score: rawScore,
+        overall_score: finalScore,
+        classification: finalScore > 10 ? "action_required" : "safe",
+        scan_status: "completed",
+        scanned_content: scan.scanned_content,
+        words_scanned: scan.words_scanned,
+        match_count: scan.match_count,
+        provider: scan.provider,
+        degraded: scan.degraded,
+        exclusion_settings: OriginalityExclusionService.toJson(settings),
+        language: scan.language,
+        cross_language: scan.cross_language,
+        job_id: jobId,
+        scanned_at: scan.scanned_at,
+        matches: {
+          create: (scan.matches || []).map((m: any, index: number) => ({
+            sentence_text: m.sentence_text,
+            matched_source: m.matched_source,
+            source_url: m.source_url,
+            view_url: m.view_url,
+            matched_words: m.matched_words,
+            source_words: m.source_words,
+            match_percent: m.match_percent,
+            similarity_score: m.similarity_score,
+            position_start: m.position_start,
+            position_end: m.position_end,
+            classification: m.classification,
+            own_work: m.own_work,
+            cross_language: m.cross_language,
+            source_language: m.source_language,
+            excluded: reasons[index] !== null,
+            exclusion_reason: reasons[index],
+          }))
+        }
+      }
+    });
+  }
+
+  /**
+   * Re-apply exclusion rules to a completed scan's stored matches and rescore it
+   */
+  private static async applyExclusions(scan: any, settings: OriginalityExclusionSettings) {
+    const { matches, reasons, rawScore, finalScore } = this.scoreExclusions(scan, settings);
+
+    await prisma.$transaction([
+      ...matches.map((match: any, index: number) =>
+        prisma.similarityMatch.update({
+          where: { id: match.id },
+          data: { excluded: reasons[index] !== null, exclusion_reason: reasons[index] }
+        })
+      ),
+      prisma.originalityScan.update({
+        where: { id: scan.id },
+        data: {
+          raw_score: rawScore,
+          overall_score: finalScore,
+          classification: finalScore > 10 ? "action_required" : "safe",
+          exclusion_settings: OriginalityExclusionService.toJson(settings),
+          report_path: null // The stored report shows the previous rules
+        }
+      })
+    ]);
+
+    if (scan.report_path) {
+      const { SupabaseStorageService } = await import("./supabaseStorageService");
+      await SupabaseStorageService.deleteFile(scan.report_path);
+    }
+  }
+
+  /**
+   * Change the exclusion rules of a completed scan (owner or project editor)
+   * without rescanning; `overrides` are merged over the scan's current rules
+   */
+  static async updateScanExclusions(scanId: string, userId: string, overrides: OriginalityExclusionInput) {
+    const scan = await prisma.originalityScan.findUnique({
+      where: { id: scanId },
+      include: { matches: true }
+    });
+
+    if (!scan) {
+      throw new Error("Scan not found or access denied");
+    }
+
+    if (scan.user_id !== userId) {
+      await ProjectAccessService.assertAccess(scan.project_id, userId, "editor");
+    }
+
+    if (scan.scan_status !== "completed") {
+      throw new Error("Exclusion rules can only be changed on completed scans");
+    }
+
+    const current = scan.exclusion_settings
+      ? OriginalityExclusionService.validate(scan.exclusion_settings)
+      : await OriginalityExclusionService.getUserSettings(scan.user_id);
+    const settings = OriginalityExclusionService.validate({ ...current, ...overrides });
+
+    await this.applyExclusions(scan, settings);
+
+    return this.getScanResults(scanId, userId);
   }
 
   /**
    * Get results for a specific scan
+   * Visible to whoever ran it and to anyone with access to the scanned project
    */
   static async getScanResults(scanId: string, userId: string) {
-    const scan = await prisma.originalityScan.findFirst({
+    const scan = await prisma.originalityScan.findUnique({
       where: {
-        id: scanId,
-        user_id: userId
+        id: scanId
       },
       include: {
         matches: true
@@ -154,33 +464,58 @@ export class OriginalityMapService {
       throw new Error("Scan not found or access denied");
     }
 
+    if (scan.user_id !== userId) {
+      const role = await ProjectAccessService.getRole(scan.project_id, userId);
+      if (!role) {
+        throw new Error("Scan not found or access denied");
+      }
+    }
+
     // Map snake_case to camelCase for frontend
     return {
       id: scan.id,
       projectId: scan.project_id,
       userId: scan.user_id,
       overallScore: scan.overall_score,
+      rawScore: scan.raw_score ?? scan.overall_score,
+      exclusionSettings: scan.exclusion_settings,
+      language: scan.language,
+      crossLanguage: scan.cross_language,
       classification: scan.classification,
       scanStatus: scan.scan_status,
+      provider: scan.provider,
       scannedAt: scan.scanned_at,
       wordsScanned: scan.words_scanned,
       costAmount: scan.cost_amount,
       matchCount: scan.match_count,
-      matches: scan.matches?.map((m: any) => ({
-        id: m.id,
-        scanId: m.scan_id,
-        sentenceText: m.sentence_text,
-        matchedSource: m.matched_source,
-        sourceUrl: m.source_url,
-        viewUrl: m.view_url,
-        matchedWords: m.matched_words,
-        sourceWords: m.source_words,
-        matchPercent: m.match_percent,
-        similarityScore: m.similarity_score,
-        positionStart: m.position_start,
-        positionEnd: m.position_end,
-        classification: m.classification,
-      })) || []
+      scannedContent: scan.scanned_content,
+      matches: scan.matches?.map((m: any) => this.toMatchResponse(m)) || []
+    };
+  }
+
+  /**
+   * Map a SimilarityMatch row to its camelCase API shape
+   */
+  static toMatchResponse(m: any) {
+    return {
+      id: m.id,
+      scanId: m.scan_id,
+      sentenceText: m.sentence_text,
+      matchedSource: m.matched_source,
+      sourceUrl: m.source_url,
+      viewUrl: m.view_url,
+      matchedWords: m.matched_words,
+      sourceWords: m.source_words,
+      matchPercent: m.match_percent,
+      similarityScore: m.similarity_score,
+      positionStart: m.position_start,
+      positionEnd: m.position_end,
+      classification: m.classification,
+      ownWork: m.own_work,
+      crossLanguage: m.cross_language,
+      sourceLanguage: m.source_language,
+      excluded: m.excluded,
+      exclusionReason: m.exclusion_reason,
     };
   }
 
@@ -211,6 +546,7 @@ export class OriginalityMapService {
       documentTitle: scan.project?.title || "Untitled Document",
       userId: scan.user_id,
       overallScore: scan.overall_score,
+      rawScore: scan.raw_score ?? scan.overall_score,
       classification: scan.classification,
       scanStatus: scan.scan_status,
       scannedAt: scan.scanned_at,
@@ -221,13 +557,14 @@ export class OriginalityMapService {
   }
 
   /**
-   * Get all scans for a project
+   * Get all scans for a project (shared with every collaborator)
    */
   static async getProjectScans(projectId: string, userId: string) {
+    await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+
     const scans = await prisma.originalityScan.findMany({
       where: {
-        project_id: projectId,
-        user_id: userId
+        project_id: projectId
       },
       orderBy: {
         created_at: "desc"
@@ -242,35 +579,65 @@ export class OriginalityMapService {
       projectId: scan.project_id,
       userId: scan.user_id,
       overallScore: scan.overall_score,
+      rawScore: scan.raw_score ?? scan.overall_score,
+      exclusionSettings: scan.exclusion_settings,
+      language: scan.language,
+      crossLanguage: scan.cross_language,
       classification: scan.classification,
       scanStatus: scan.scan_status,
       scannedAt: scan.scanned_at,
       wordsScanned: scan.words_scanned,
       costAmount: scan.cost_amount,
       matchCount: scan.match_count,
-      matches: scan.matches?.map((m: any) => ({
-        id: m.id,
-        scanId: m.scan_id,
-        sentenceText: m.sentence_text,
-        matchedSource: m.matched_source,
-        sourceUrl: m.source_url,
-        viewUrl: m.view_url,
-        matchedWords: m.matched_words,
-        sourceWords: m.source_words,
-        matchPercent: m.match_percent,
-        similarityScore: m.similarity_score,
-        positionStart: m.position_start,
-        positionEnd: m.position_end,
-        classification: m.classification,
-      })) || []
+      matches: scan.matches?.map((m: any) => this.toMatchResponse(m)) || []
     }));
   }
 
   /**
-   * Process Async Result from Webhook
+   * Process Async Result from Webhook (Copyleaks completion payload)
    */
   static async processCopyleaksResult(scanId: string, payload: any) {
-    // No-op
+    const scan = await prisma.originalityScan.findUnique({ where: { id: scanId } });
+
+    if (!scan || scan.scan_status !== "processing" || scan.provider !== "copyleaks") {
+      logger.warn("Ignoring Copyleaks result for unknown or finished scan", { scanId });
+      return;
+    }
+
+    const content = scan.scanned_content || "";
+    const outcome = new CopyleaksProvider().toOutcome(content, payload);
+    if (outcome.status !== "completed") return;
+
+    const settings = OriginalityExclusionService.validate(scan.exclusion_settings);
+    const { matches, summary } = scan.cross_language
+      ? await this.addCrossLanguageMatches(content, outcome.matches, outcome.summary, {
+          scanId,
+          projectId: scan.project_id,
+          userId: scan.user_id,
+        })
+      : outcome;
+
+    await this.recordResults(scanId, content, matches, summary, settings);
+    logger.info("Copyleaks scan completed", { scanId, matches: outcome.matches.length });
+  }
+
+  /**
+   * Mark a pending Copyleaks scan failed (error webhook)
+   */
+  static async failCopyleaksScan(scanId: string, reason: string) {
+    const { count } = await prisma.originalityScan.updateMany({
+      where: { id: scanId, scan_status: "processing", provider: "copyleaks" },
+      data: {
+        scan_status: "failed",
+        classification: "action_required",
+        overall_score: -1,
+        match_count: 0,
+      },
+    });
+
+    if (count) {
+      logger.warn("Copyleaks scan failed", { scanId, reason });
+    }
   }
 
   /**
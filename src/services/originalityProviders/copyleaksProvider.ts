@@ -0,0 +1,92 @@
+import { CopyleaksService } from "../copyleaksService";
+import { SecretsService } from "../secrets-service";
+import {
+    OriginalityProvider,
+    ProviderMatch,
+    ProviderScanContext,
+    ProviderScanOutcome,
+} from "../../types/originalityProviders";
+
+/**
+ * Copyleaks (asynchronous). The scan is submitted and stays pending until the
+ * completion webhook (/api/originality/webhook/copyleaks/completed) arrives.
+ */
+export class CopyleaksProvider implements OriginalityProvider {
+    readonly name = "copyleaks" as const;
+
+    async isConfigured(): Promise<boolean> {
+        const email = await SecretsService.getSecret("COPYLEAKS_EMAIL");
+        const key = await SecretsService.getSecret("COPYLEAKS_API_KEY");
+        // Without it the completion webhook can't be authenticated and scans would never finish
+        const webhookSecret = await SecretsService.getCopyLeaksWebhookSecret();
+        return !!(email && key && webhookSecret);
+    }
+
+    async scan(content: string, context: ProviderScanContext): Promise<ProviderScanOutcome> {
+        const backendUrl = await SecretsService.getBackendUrl();
+        await CopyleaksService.submitScan(
+            context.scanId,
+            content,
+            `${backendUrl}/api/originality/webhook/copyleaks`
+        );
+
+        return { status: "pending", externalId: context.scanId };
+    }
+
+    async poll(externalId: string, content: string): Promise<ProviderScanOutcome> {
+        const report = await CopyleaksService.getReport(externalId);
+        if (!report) {
+            return { status: "pending", externalId };
+        }
+
+        return this.toOutcome(content, report);
+    }
+
+    /**
+     * Outcome from a completion payload (webhook body or exported report)
+     */
+    toOutcome(content: string, report: any): ProviderScanOutcome {
+        const matches = this.normalize(content, report);
+
+        return {
+            status: "completed",
+            matches,
+            summary: {
+                overallScore: Number(report?.results?.score?.aggregatedScore || 0),
+                wordsScanned: Math.floor(Number(report?.scannedDocument?.totalWords || 0)),
+                cost: Number(report?.scannedDocument?.credits || 0),
+                matchCount: matches.length,
+            },
+        };
+    }
+
+    normalize(content: string, raw: any): ProviderMatch[] {
+        const results = raw?.results || {};
+        const sources: any[] = [
+            ...(results.internet || []),
+            ...(results.database || []),
+            ...(results.batch || []),
+        ];
+        const totalWords = Number(raw?.scannedDocument?.totalWords || 0);
+
+        return sources.map(source => {
+            // The completion payload has no offsets; locate the introduction snippet when possible
+            const snippet: string = source.introduction || "";
+            const index = snippet ? content.indexOf(snippet) : -1;
+            const matchedWords = Math.floor(Number(source.matchedWords || 0));
+
+            return {
+                start: index >= 0 ? index : 0,
+                end: index >= 0 ? index + snippet.length : 0,
+                similarity: totalWords ? Math.min(100, (matchedWords / totalWords) * 100) : 0,
+                sourceUrl: source.url || null,
+                sourceTitle: source.title || source.url || "Copyleaks source",
+                viewUrl: null,
+                matchedWords,
+                sourceWords: 0,
+                matchPercent: 0,
+                provider: this.name,
+            };
+        });
+    }
+}
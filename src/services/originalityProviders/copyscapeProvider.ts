@@ -0,0 +1,54 @@
+import { CopyscapeService, PlagiarismMatch } from "../copyscapeService";
+import { SecretsService } from "../secrets-service";
+import {
+    OriginalityProvider,
+    ProviderMatch,
+    ProviderScanOutcome,
+} from "../../types/originalityProviders";
+
+/**
+ * Copyscape Premium (synchronous web search). Source of truth when available.
+ */
+export class CopyscapeProvider implements OriginalityProvider {
+    readonly name = "copyscape" as const;
+
+    async isConfigured(): Promise<boolean> {
+        const username = await SecretsService.getCopyscapeUsername();
+        const apiKey = await SecretsService.getCopyscapeApiKey();
+        return !!(username && apiKey);
+    }
+
+    async scan(content: string): Promise<ProviderScanOutcome> {
+        const { matches, summary } = await CopyscapeService.scanText(content);
+        const normalized = this.normalize(content, matches);
+
+        const maxSimilarity = normalized.reduce((max, m) => Math.max(max, m.similarity), 0);
+
+        return {
+            status: "completed",
+            matches: normalized,
+            summary: {
+                // Copyscape's "All Percent Matched"; the best match only if it reports 0
+                overallScore: Number(summary.allPercentMatched || maxSimilarity),
+                wordsScanned: Math.floor(Number(summary.queryWords || 0)),
+                cost: Number(summary.cost || 0),
+                matchCount: Math.floor(Number(summary.count || normalized.length)),
+            },
+        };
+    }
+
+    normalize(_content: string, raw: PlagiarismMatch[]): ProviderMatch[] {
+        return (raw || []).map(match => ({
+            start: Math.floor(Number(match.start)),
+            end: Math.floor(Number(match.end)),
+            similarity: Number(match.similarity || 0),
+            sourceUrl: match.sourceUrl,
+            sourceTitle: match.sourceUrl,
+            viewUrl: match.viewUrl || null,
+            matchedWords: Math.floor(Number(match.matchedWords || 0)),
+            sourceWords: Math.floor(Number(match.sourceWords || 0)),
+            matchPercent: Number(match.matchPercent || 0),
+            provider: this.name,
+        }));
+    }
+}
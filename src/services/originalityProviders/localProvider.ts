@@ -0,0 +1,209 @@
+import { compareTwoStrings } from "string-similarity";
+import { prisma } from "../../lib/prisma";
+import logger from "../../monitoring/logger";
+import { EnhancedOriginalityDetectionService } from "../enhancedOriginalityDetectionService";
+import { ExportService } from "../exportService";
+import { CrossLanguageOriginalityService } from "../crossLanguageOriginalityService";
+import { FingerprintService } from "../fingerprintService";
+import {
+    OriginalityProvider,
+    ProviderMatch,
+    ProviderScanContext,
+    ProviderScanOutcome,
+} from "../../types/originalityProviders";
+
+const MAX_OTHER_PROJECTS = 10;
+const PARAPHRASE_PREFILTER = 0.4; // Dice coefficient needed before running the embedding model
+const PARAPHRASE_THRESHOLD = 0.7;
+const MAX_SEMANTIC_CHECKS = 40;
+
+interface LocalSource {
+    title: string;
+    url: string | null;
+    text: string;
+    kind: "citation" | "project";
+}
+
+interface LocalHit {
+    start: number;
+    end: number;
+    similarity: number;
+    words: number;
+    source: LocalSource;
+}
+
+/**
+ * Fully offline provider: no external API. Compares the document with what we
+ * already hold - abstracts of the project's cited sources and the user's other
+ * projects - using 8-word fingerprints (verbatim reuse) and the local embedding
+ * model (close paraphrase of a cited abstract). Last link of every provider chain.
+ */
+export class LocalProvider implements OriginalityProvider {
+    readonly name = "local" as const;
+
+    async isConfigured(): Promise<boolean> {
+        return true;
+    }
+
+    async scan(content: string, context: ProviderScanContext): Promise<ProviderScanOutcome> {
+        const sources = await this.loadSources(context.projectId, context.userId);
+        const hits: LocalHit[] = [];
+
+        // 1. Verbatim reuse (fingerprints)
+        for (const source of sources) {
+            for (const passage of FingerprintService.findMatchingPassages(content, source.text)) {
+                hits.push({
+                    start: passage.start,
+                    end: passage.end,
+                    similarity: 100,
+                    words: passage.wordLength,
+                    source,
+                });
+            }
+        }
+
+        // 2. Close paraphrase of cited abstracts (embeddings), outside verbatim passages
+        const sentences = this.splitSentences(content).filter(
+            s => s.text.split(/\s+/).length >= 10 && !hits.some(h => s.start < h.end && s.end > h.start)
+        );
+        const candidates: Array<{ sentence: { start: number; end: number; text: string }; sourceSentence: string; source: LocalSource; prefilter: number }> = [];
+        for (const source of sources.filter(s => s.kind === "citation")) {
+            for (const sourceSentence of this.splitSentences(source.text)) {
+                for (const sentence of sentences) {
+                    const prefilter = compareTwoStrings(sentence.text.toLowerCase(), sourceSentence.text.toLowerCase());
+                    if (prefilter >= PARAPHRASE_PREFILTER) {
+                        candidates.push({ sentence, sourceSentence: sourceSentence.text, source, prefilter });
+                    }
+                }
+            }
+        }
+
+        candidates.sort((a, b) => b.prefilter - a.prefilter);
+        for (const candidate of candidates.slice(0, MAX_SEMANTIC_CHECKS)) {
+            if (hits.some(h => candidate.sentence.start < h.end && candidate.sentence.end > h.start)) continue;
+
+            const similarity = await EnhancedOriginalityDetectionService.calculateEnhancedSimilarity(
+                candidate.sentence.text,
+                candidate.sourceSentence
+            );
+            if (similarity >= PARAPHRASE_THRESHOLD) {
+                hits.push({
+                    start: candidate.sentence.start,
+                    end: candidate.sentence.end,
+                    similarity: Math.round(similarity * 100),
+                    words: candidate.sentence.text.split(/\s+/).length,
+                    source: candidate.source,
+                });
+            }
+        }
+
+        const matches = this.normalize(content, hits);
+
+        const covered = new Set<number>();
+        for (const match of matches) {
+            for (let i = match.start; i < match.end; i++) covered.add(i);
+        }
+
+        logger.info("Local originality scan finished", {
+            scanId: context.scanId,
+            sources: sources.length,
+            matches: matches.length,
+        });
+
+        return {
+            status: "completed",
+            matches,
+            summary: {
+                overallScore: content.length ? Math.round((covered.size / content.length) * 1000) / 10 : 0,
+                wordsScanned: FingerprintService.tokenize(content).length,
+                cost: 0,
+                matchCount: matches.length,
+            },
+        };
+    }
+
+    /**
+     * Cross-language mode: sentences paraphrasing (translating) a source written in
+     * another language. Runs on top of whichever provider answered the scan.
+     */
+    async scanCrossLanguage(content: string, context: ProviderScanContext): Promise<ProviderMatch[]> {
+        const sources = await this.loadSources(context.projectId, context.userId);
+        const hits = await CrossLanguageOriginalityService.findMatches(content, sources);
+
+        return hits.map(hit => ({
+            start: hit.start,
+            end: hit.end,
+            similarity: Math.round(hit.similarity * 100),
+            sourceUrl: hit.source.url,
+            sourceTitle: hit.source.kind === "project" ? `Your project: ${hit.source.title}` : hit.source.title,
+            viewUrl: null,
+            matchedWords: FingerprintService.tokenize(content.substring(hit.start, hit.end)).length,
+            sourceWords: FingerprintService.tokenize(hit.source.text).length,
+            ownWork: hit.source.kind === "project",
+            crossLanguage: true,
+            sourceLanguage: hit.sourceLanguage,
+            provider: this.name,
+        }));
+    }
+
+    normalize(_content: string, raw: LocalHit[]): ProviderMatch[] {
+        return (raw || [])
+            .sort((a, b) => a.start - b.start)
+            .map(hit => ({
+                start: hit.start,
+                end: hit.end,
+                similarity: hit.similarity,
+                sourceUrl: hit.source.url,
+                sourceTitle: hit.source.kind === "project" ? `Your project: ${hit.source.title}` : hit.source.title,
+                viewUrl: null,
+                matchedWords: hit.words,
+                sourceWords: hit.source.text.split(/\s+/).filter(Boolean).length,
+                ownWork: hit.source.kind === "project",
+                provider: this.name,
+            }));
+    }
+
+    private async loadSources(projectId: string, userId: string): Promise<LocalSource[]> {
+        const [citations, projects] = await Promise.all([
+            prisma.citation.findMany({
+                where: { project_id: projectId, abstract: { not: null } },
+                select: { title: true, url: true, doi: true, abstract: true },
+            }),
+            prisma.project.findMany({
+                where: { user_id: userId, id: { not: projectId } },
+                select: { title: true, content: true },
+                orderBy: { updated_at: "desc" },
+                take: MAX_OTHER_PROJECTS,
+            }),
+        ]);
+
+        return [
+            ...citations.map((c: any) => ({
+                title: c.title,
+                url: c.url || (c.doi ? `https://doi.org/${c.doi}` : null),
+                text: c.abstract as string,
+                kind: "citation" as const,
+            })),
+            ...projects.map((p: any) => ({
+                title: p.title,
+                url: null,
+                text: ExportService.extractTextFromTipTap(p.content),
+                kind: "project" as const,
+            })),
+        ].filter(source => source.text && source.text.trim().length > 0);
+    }
+
+    private splitSentences(text: string): Array<{ start: number; end: number; text: string }> {
+        const sentences: Array<{ start: number; end: number; text: string }> = [];
+        const pattern = /[^.!?\n]+[.!?]*/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            const raw = match[0];
+            const leading = raw.length - raw.trimStart().length;
+            const trimmed = raw.trim();
+            if (!trimmed) continue;
+            sentences.push({ start: match.index + leading, end: match.index + leading + trimmed.length, text: trimmed });
+        }
+        return sentences;
+    }
+}
@@ -0,0 +1,93 @@
+import logger from "../../monitoring/logger";
+import { SubscriptionService } from "../subscriptionService";
+import { CopyscapeProvider } from "./copyscapeProvider";
+import { CopyleaksProvider } from "./copyleaksProvider";
+import { WebSearchProvider } from "./webSearchProvider";
+import { LocalProvider } from "./localProvider";
+import {
+    OriginalityProvider,
+    OriginalityProviderName,
+    ProviderAttempt,
+    ProviderScanContext,
+    ProviderScanOutcome,
+} from "../../types/originalityProviders";
+
+const PROVIDERS: Record<OriginalityProviderName, OriginalityProvider> = {
+    copyscape: new CopyscapeProvider(),
+    copyleaks: new CopyleaksProvider(),
+    web_search: new WebSearchProvider(),
+    local: new LocalProvider(),
+};
+
+export interface ChainScanResult {
+    provider: OriginalityProviderName;
+    outcome: ProviderScanOutcome;
+    attempts: ProviderAttempt[];
+    degraded: boolean; // A later provider answered because an earlier one was unavailable
+}
+
+/**
+ * Originality Provider Chain
+ * Tries the plan's providers in order (PLAN_LIMITS.originality_providers, or the
+ * ORIGINALITY_PROVIDERS env override, e.g. "copyscape,local"). A provider that is
+ * unconfigured or fails is skipped; the offline `local` provider always ends the
+ * chain, so a scan still completes when Copyscape is down or out of credit.
+ */
+export class OriginalityProviderChain {
+    static getProvider(name: OriginalityProviderName): OriginalityProvider {
+        return PROVIDERS[name];
+    }
+
+    static providersForPlan(plan: string): OriginalityProviderName[] {
+        const override = (process.env.ORIGINALITY_PROVIDERS || "")
+            .split(",")
+            .map(name => name.trim())
+            .filter((name): name is OriginalityProviderName => name in PROVIDERS);
+
+        const chain = override.length
+            ? override
+            : SubscriptionService.getPlanLimits(plan).originality_providers;
+
+        return chain.includes("local") ? chain : [...chain, "local"];
+    }
+
+    static async scan(plan: string, content: string, context: ProviderScanContext): Promise<ChainScanResult> {
+        const chain = this.providersForPlan(plan);
+        const attempts: ProviderAttempt[] = [];
+
+        for (const name of chain) {
+            const provider = PROVIDERS[name];
+
+            if (!(await provider.isConfigured())) {
+                attempts.push({ provider: name, status: "skipped", error: "Not configured" });
+                continue;
+            }
+
+            try {
+                const outcome = await provider.scan(content, context);
+                attempts.push({ provider: name, status: outcome.status });
+
+                const degraded = name !== chain[0];
+                if (degraded) {
+                    logger.warn("Originality scan served by fallback provider", {
+                        scanId: context.scanId,
+                        provider: name,
+                        attempts,
+                    });
+                }
+
+                return { provider: name, outcome, attempts, degraded };
+            } catch (error: any) {
+                attempts.push({ provider: name, status: "failed", error: error.message });
+                logger.warn("Originality provider failed, trying next", {
+                    scanId: context.scanId,
+                    provider: name,
+                    error: error.message,
+                });
+            }
+        }
+
+        const lastError = [...attempts].reverse().find(a => a.error)?.error;
+        throw new Error(lastError || "No originality provider available");
+    }
+}
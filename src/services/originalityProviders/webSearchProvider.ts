@@ -0,0 +1,86 @@
+import { compareTwoStrings } from "string-similarity";
+import { EnhancedOriginalityDetectionService } from "../enhancedOriginalityDetectionService";
+import { FingerprintService } from "../fingerprintService";
+import { SecretsService } from "../secrets-service";
+import {
+    OriginalityProvider,
+    ProviderMatch,
+    ProviderScanOutcome,
+} from "../../types/originalityProviders";
+
+const WINDOW_WORDS = 30;
+const MAX_QUERIES = 15; // Google CSE bills per query
+const MIN_SNIPPET_SIMILARITY = 0.5;
+
+/**
+ * Google Custom Search: queries a sample of 30-word windows and compares
+ * the result snippets with the window text
+ */
+export class WebSearchProvider implements OriginalityProvider {
+    readonly name = "web_search" as const;
+
+    async isConfigured(): Promise<boolean> {
+        const apiKey = await SecretsService.getSecret("GOOGLE_CUSTOM_SEARCH_API_KEY");
+        const engineId = await SecretsService.getSecret("GOOGLE_SEARCH_ENGINE_ID");
+        return !!(apiKey && engineId);
+    }
+
+    async scan(content: string): Promise<ProviderScanOutcome> {
+        const tokens = FingerprintService.tokenize(content);
+        const windows: Array<{ start: number; end: number }> = [];
+        for (let i = 0; i + 10 <= tokens.length; i += WINDOW_WORDS) {
+            const last = Math.min(i + WINDOW_WORDS, tokens.length) - 1;
+            windows.push({ start: tokens[i].start, end: tokens[last].end });
+        }
+
+        // Spread the query budget evenly over the document
+        const step = Math.max(1, Math.ceil(windows.length / MAX_QUERIES));
+        const sampled = windows.filter((_, index) => index % step === 0);
+
+        const raw: Array<{ start: number; end: number; snippet: string; link: string; score: number }> = [];
+        for (const window of sampled) {
+            const text = content.substring(window.start, window.end);
+            const results = await EnhancedOriginalityDetectionService.searchOnline(text);
+
+            let best: { snippet: string; link: string; score: number } | null = null;
+            for (const result of results) {
+                const score = compareTwoStrings(text.toLowerCase(), result.snippet.toLowerCase());
+                if (!best || score > best.score) best = { ...result, score };
+            }
+
+            if (best && best.score >= MIN_SNIPPET_SIMILARITY) {
+                raw.push({ ...window, ...best });
+            }
+        }
+
+        const matches = this.normalize(content, raw);
+        const matchedChars = matches.reduce((sum, m) => sum + (m.end - m.start), 0);
+
+        return {
+            status: "completed",
+            matches,
+            summary: {
+                // Only sampled windows were checked, so scale by the sampled share of the text
+                overallScore: sampled.length
+                    ? Math.min(100, (matchedChars / Math.max(1, content.length)) * step * 100)
+                    : 0,
+                wordsScanned: tokens.length,
+                cost: 0,
+                matchCount: matches.length,
+            },
+        };
+    }
+
+    normalize(content: string, raw: any[]): ProviderMatch[] {
+        return (raw || []).map(hit => ({
+            start: hit.start,
+            end: hit.end,
+            similarity: Math.round(hit.score * 100),
+            sourceUrl: hit.link || null,
+            sourceTitle: hit.link || "Web result",
+            viewUrl: null,
+            matchedWords: content.substring(hit.start, hit.end).split(/\s+/).filter(Boolean).length,
+            provider: this.name,
+        }));
+    }
+}
@@ -0,0 +1,385 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { AuthorshipCertificateGenerator } from "./authorshipCertificateGenerator";
+import { OriginalityMapService } from "./originalityMapService";
+import { SecretsService } from "./secrets-service";
+import { ProgressReporter } from "../types/progress";
+
+interface ReportSource {
+  number: number;
+  title: string;
+  url: string | null;
+  viewUrl: string | null;
+  matchedWords: number;
+  percent: number; // % of the scanned text matching this source
+  highestSimilarity: number;
+}
+
+interface ReportSpan {
+  start: number;
+  end: number;
+  classification: "red" | "yellow" | "green";
+  sourceNumber: number;
+}
+
+const HIGHLIGHT_COLORS: Record<ReportSpan["classification"], string> = {
+  red: "#FCA5A5",
+  yellow: "#FDE68A",
+  green: "#BBF7D0",
+};
+
+const CLASSIFICATION_RANK: Record<ReportSpan["classification"], number> = {
+  red: 3,
+  yellow: 2,
+  green: 1,
+};
+
+/**
+ * Originality Report Generator
+ * Renders a completed scan as a downloadable PDF: overall score, the scanned text
+ * with color-coded matched spans, and a numbered source appendix with per-source
+ * percentages. Carries a verification QR code like the authorship certificate.
+ */
+export class OriginalityReportGenerator {
+  /**
+   * Access check (owner or project collaborator) and camelCase mapping of a scan
+   * that a report can be rendered for
+   */
+  static async assertReportable(scanId: string, userId: string) {
+    const scan: any = await OriginalityMapService.getScanResults(scanId, userId);
+
+    if (scan.scanStatus !== "completed") {
+      throw new Error("Report is only available for completed scans");
+    }
+
+    return scan;
+  }
+
+  static async generateReport(
+    scanId: string,
+    userId: string,
+    onProgress?: ProgressReporter
+  ): Promise<{ buffer: Buffer; fileName: string }> {
+    const scan = await this.assertReportable(scanId, userId);
+
+    const [project, owner] = await Promise.all([
+      prisma.project.findUnique({ where: { id: scan.projectId }, select: { title: true } }),
+      prisma.user.findUnique({ where: { id: scan.userId }, select: { full_name: true, email: true } }),
+    ]);
+
+    const frontendUrl = await SecretsService.getFrontendUrl();
+    const verificationUrl = `${frontendUrl}/verify/${scan.projectId}?scan=${scan.id}`;
+    const qrCodeDataUrl = await AuthorshipCertificateGenerator.generateQRCodeDataURL(verificationUrl);
+
+    const html = this.generateReportHTML(
+      scan,
+      project?.title || "Untitled Project",
+      owner?.full_name || owner?.email || "ColabWize User",
+      qrCodeDataUrl,
+      verificationUrl
+    );
+
+    await onProgress?.({ stage: "rendering", message: "Rendering report PDF", progress: 40 });
+    const buffer = await this.convertHTMLToPDF(html);
+
+    logger.info("Originality report generated", { scanId, bufferSize: buffer.length });
+
+    return { buffer, fileName: this.reportFileName(scan.id) };
+  }
+
+  /**
+   * Render the report and upload it; run by the job worker (`originality_report`).
+   * The PDF is kept per scan and reused until the scan's exclusion rules change.
+   * The result carries the storage path and a download link valid for an hour.
+   */
+  static async generateAndStore(scanId: string, userId: string, onProgress?: ProgressReporter) {
+    await this.assertReportable(scanId, userId);
+    const { SupabaseStorageService } = await import("./supabaseStorageService");
+
+    const stored = await prisma.originalityScan.findUnique({
+      where: { id: scanId },
+      select: { report_path: true, updated_at: true },
+    });
+
+    if (stored?.report_path) {
+      const fileName = this.reportFileName(scanId);
+      try {
+        const downloadUrl = await SupabaseStorageService.createSignedUrl(stored.report_path, 3600, {
+          download: fileName,
+        });
+        return { scanId, fileName, filePath: stored.report_path, downloadUrl, reused: true };
+      } catch (error: any) {
+        logger.warn("Stored originality report unavailable, rendering again", { scanId, error: error.message });
+      }
+    }
+
+    const { buffer, fileName } = await this.generateReport(scanId, userId, onProgress);
+
+    // Derived from the scan, so no File record; applyExclusions deletes it when the rules change
+    await onProgress?.({ stage: "uploading", message: "Uploading report", progress: 85 });
+    const { path } = await SupabaseStorageService.uploadFile(buffer, fileName, "application/pdf", userId);
+
+    // Rules changed while rendering: serve this report once, but don't keep it
+    const kept = await prisma.originalityScan.updateMany({
+      where: { id: scanId, updated_at: stored?.updated_at },
+      data: { report_path: path },
+    });
+    if (kept.count === 0) {
+      logger.info("Originality report not kept - scan changed while rendering", { scanId });
+    }
+
+    const downloadUrl = await SupabaseStorageService.createSignedUrl(path, 3600, { download: fileName });
+
+    return { scanId, fileName, fileSize: buffer.length, filePath: path, downloadUrl, reused: false };
+  }
+
+  private static reportFileName(scanId: string): string {
+    return `originality-report-${scanId.substring(0, 8)}.pdf`;
+  }
+
+  /**
+   * Number sources by first appearance in the text and compute their share of it.
+   * Matches removed by the scan's exclusion rules are left out.
+   */
+  static buildSources(content: string, matches: any[]): { sources: ReportSource[]; spans: ReportSpan[] } {
+    const ordered = matches.filter((m) => !m.excluded).sort((a, b) => a.positionStart - b.positionStart);
+    const sourcesByKey = new Map<string, ReportSource & { covered: Set<number> }>();
+    const spans: ReportSpan[] = [];
+
+    for (const match of ordered) {
+      const key = match.sourceUrl || match.matchedSource || "Unknown source";
+      let source = sourcesByKey.get(key);
+      if (!source) {
+        source = {
+          number: sourcesByKey.size + 1,
+          title: match.matchedSource || match.sourceUrl || "Unknown source",
+          url: match.sourceUrl || null,
+          viewUrl: match.viewUrl || null,
+          matchedWords: 0,
+          percent: 0,
+          highestSimilarity: 0,
+          covered: new Set<number>(),
+        };
+        sourcesByKey.set(key, source);
+      }
+
+      const start = Math.max(0, Math.min(match.positionStart, content.length));
+      const end = Math.max(start, Math.min(match.positionEnd, content.length));
+      for (let i = start; i < end; i++) source.covered.add(i);
+
+      source.matchedWords += match.matchedWords || 0;
+      source.highestSimilarity = Math.max(source.highestSimilarity, match.similarityScore || 0);
+
+      if (end > start) {
+        spans.push({ start, end, classification: match.classification, sourceNumber: source.number });
+      }
+    }
+
+    const sources = Array.from(sourcesByKey.values()).map(({ covered, ...source }) => ({
+      ...source,
+      percent: content.length ? Math.round((covered.size / content.length) * 1000) / 10 : 0,
+    }));
+
+    return { sources, spans };
+  }
+
+  /**
+   * Render the scanned text with non-overlapping highlights; where matches overlap
+   * the most severe classification wins
+   */
+  static renderHighlightedText(content: string, spans: ReportSpan[]): string {
+    const owner: Array<ReportSpan | null> = new Array(content.length).fill(null);
+    for (const span of spans) {
+      for (let i = span.start; i < span.end; i++) {
+        const current = owner[i];
+        if (!current || CLASSIFICATION_RANK[span.classification] > CLASSIFICATION_RANK[current.classification]) {
+          owner[i] = span;
+        }
+      }
+    }
+
+    let html = "";
+    let i = 0;
+    while (i < content.length) {
+      const span = owner[i];
+      let j = i + 1;
+      while (j < content.length && owner[j] === span) j++;
+
+      const text = escapeHtml(content.substring(i, j)).replace(/\n/g, "<br>");
+      html += span
+        ? `<mark style="background:${HIGHLIGHT_COLORS[span.classification]}">${text}<sup>${span.sourceNumber}</sup></mark>`
+        : text;
+      i = j;
+    }
+
+    return html;
+  }
+
+  static generateReportHTML(
+    scan: any,
+    projectTitle: string,
+    authorName: string,
+    qrCodeDataUrl: string,
+    verificationUrl: string
+  ): string {
+    const content: string = scan.scannedContent || "";
+    const { sources, spans } = this.buildSources(content, scan.matches || []);
+    const scannedAt = new Date(scan.scannedAt).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+    const originality = Math.max(0, Math.round((100 - scan.overallScore) * 10) / 10);
+    const needsAction = scan.classification === "action_required";
+    const excludedCount = (scan.matches || []).filter((m: any) => m.excluded).length;
+
+    const sourceRows = sources
+      .map(
+        (source) => `
+        <tr>
+          <td class="num">${source.number}</td>
+          <td>
+            <div class="source-title">${escapeHtml(source.title)}</div>
+            ${source.url ? `<div class="source-url">${escapeHtml(source.url)}</div>` : ""}
+          </td>
+          <td class="right">${source.matchedWords.toLocaleString()}</td>
+          <td class="right">${source.highestSimilarity}%</td>
+          <td class="right"><strong>${source.percent}%</strong></td>
+        </tr>`
+      )
+      .join("");
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: Georgia, 'Times New Roman', serif; color: #1A2E44; font-size: 10.5pt; }
+    h1 { font-size: 20pt; margin-bottom: 4px; }
+    h2 { font-size: 13pt; margin: 22px 0 8px; border-bottom: 2px solid #1A2E44; padding-bottom: 4px; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; }
+    .meta { color: #555; font-size: 9.5pt; line-height: 1.5; }
+    .qr { text-align: center; font-size: 8pt; color: #555; }
+    .summary { display: flex; gap: 16px; margin-top: 16px; }
+    .card { flex: 1; border: 1px solid #D1D5DB; border-radius: 6px; padding: 10px 12px; }
+    .card .label { font-size: 8.5pt; text-transform: uppercase; letter-spacing: 0.05em; color: #6B7280; }
+    .card .value { font-size: 18pt; font-weight: 700; margin-top: 2px; }
+    .status-action { color: #B91C1C; }
+    .status-safe { color: #15803D; }
+    .legend span { display: inline-block; margin-right: 14px; font-size: 9pt; }
+    .legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; vertical-align: middle; }
+    .document { line-height: 1.7; text-align: justify; white-space: normal; }
+    mark { padding: 0 1px; border-radius: 2px; }
+    sup { font-size: 7pt; font-weight: 700; margin-left: 1px; }
+    table { width: 100%; border-collapse: collapse; font-size: 9.5pt; }
+    th { text-align: left; border-bottom: 1px solid #1A2E44; padding: 6px 4px; font-size: 8.5pt; text-transform: uppercase; }
+    td { border-bottom: 1px solid #E5E7EB; padding: 6px 4px; vertical-align: top; }
+    td.num { width: 28px; font-weight: 700; }
+    .right { text-align: right; white-space: nowrap; }
+    .source-title { font-weight: 600; }
+    .source-url { color: #2563EB; font-size: 8.5pt; word-break: break-all; }
+    .appendix { page-break-before: always; }
+    .footer { margin-top: 24px; font-size: 8pt; color: #6B7280; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>Originality Report</h1>
+      <div class="meta">
+        <div><strong>Document:</strong> ${escapeHtml(projectTitle)}</div>
+        <div><strong>Author:</strong> ${escapeHtml(authorName)}</div>
+        <div><strong>Scanned:</strong> ${scannedAt}${scan.provider ? ` &middot; <strong>Provider:</strong> ${escapeHtml(scan.provider)}` : ""}</div>
+        <div><strong>Report ID:</strong> ${scan.id}</div>
+      </div>
+    </div>
+    <div class="qr">
+      <img src="${qrCodeDataUrl}" width="80" height="80" alt="QR" />
+      <div>Scan to Verify Online</div>
+    </div>
+  </div>
+
+  <div class="summary">
+    <div class="card">
+      <div class="label">Similarity</div>
+      <div class="value">${scan.overallScore}%</div>
+      ${scan.rawScore !== scan.overallScore ? `<div class="label">Before exclusions: ${scan.rawScore}%</div>` : ""}
+    </div>
+    <div class="card">
+      <div class="label">Originality</div>
+      <div class="value">${originality}%</div>
+    </div>
+    <div class="card">
+      <div class="label">Matched Sources</div>
+      <div class="value">${sources.length}</div>
+    </div>
+    <div class="card">
+      <div class="label">Classification</div>
+      <div class="value ${needsAction ? "status-action" : "status-safe"}">${needsAction ? "Action Required" : "Safe"}</div>
+    </div>
+  </div>
+
+  <h2>Scanned Text</h2>
+  <div class="legend">
+    <span><i style="background:${HIGHLIGHT_COLORS.red}"></i>High similarity (70%+)</span>
+    <span><i style="background:${HIGHLIGHT_COLORS.yellow}"></i>Moderate (40-70%)</span>
+    <span><i style="background:${HIGHLIGHT_COLORS.green}"></i>Minor (&lt;40%)</span>
+  </div>
+  <div class="document">${this.renderHighlightedText(content, spans)}</div>
+
+  <div class="appendix">
+    <h2>Source Appendix</h2>
+    ${
+      sources.length
+        ? `<table>
+      <thead>
+        <tr><th>#</th><th>Source</th><th class="right">Words</th><th class="right">Max Similarity</th><th class="right">Of Document</th></tr>
+      </thead>
+      <tbody>${sourceRows}</tbody>
+    </table>`
+        : `<p>No matching sources were found.</p>`
+    }
+    <div class="footer">
+      ${(scan.wordsScanned || 0).toLocaleString()} words scanned.${excludedCount ? ` ${excludedCount} match${excludedCount === 1 ? "" : "es"} excluded by the scan's exclusion rules.` : ""} Percentages are the share of the scanned text matching each source; passages matching several sources count once toward the overall score.
+      Verify this report at ${escapeHtml(verificationUrl)}.
+    </div>
+  </div>
+</body>
+</html>
+    `;
+  }
+
+  /**
+   * Convert HTML to PDF using Puppeteer (portrait, with page numbers)
+   */
+  static async convertHTMLToPDF(html: string): Promise<Buffer> {
+    const browser = await AuthorshipCertificateGenerator.launchBrowser();
+    try {
+      const page = await browser.newPage();
+      await page.setContent(html, { waitUntil: "networkidle0" });
+
+      const pdfBuffer = await page.pdf({
+        format: "Letter",
+        printBackground: true,
+        displayHeaderFooter: true,
+        headerTemplate: "<span></span>",
+        footerTemplate: `<div style="font-size:8px;width:100%;text-align:center;color:#6B7280;">ColabWize Originality Report &middot; Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>`,
+        margin: { top: "0.75in", right: "0.75in", bottom: "0.75in", left: "0.75in" },
+      });
+
+      return Buffer.from(pdfBuffer);
+    } finally {
+      await browser.close();
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,177 @@
+import { compareTwoStrings } from "string-similarity";
+import { prisma } from "../lib/prisma";
+import { DraftComparisonService } from "./draftComparisonService";
+import { OriginalityMapService } from "./originalityMapService";
+import { ProjectAccessService } from "./projectAccessService";
+
+const SAME_PASSAGE_SIMILARITY = 0.8; // Fallback when the passage moved to a rewritten sentence
+
+interface SentenceAlignment {
+  fromStart: number;
+  fromEnd: number;
+  toStart: number;
+  toEnd: number;
+}
+
+/**
+ * Originality Scan Comparison Service
+ * Diffs two scans of the same project (e.g. before and after a revision):
+ * matches are aligned by source and by text span - the earlier span is mapped
+ * into the later draft through DraftComparisonService's sentence alignment - and
+ * sorted into resolved, persisting and new.
+ */
+export class OriginalityScanComparisonService {
+  /**
+   * Compare two completed scans of a project. `toScanId` defaults to the latest
+   * completed scan and `fromScanId` to the one before it.
+   */
+  static async compareScans(projectId: string, userId: string, fromScanId?: string, toScanId?: string) {
+    await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+
+    const scans = await prisma.originalityScan.findMany({
+      where: { project_id: projectId, scan_status: "completed" },
+      orderBy: { scanned_at: "asc" },
+      select: { id: true, scanned_at: true, overall_score: true, raw_score: true, match_count: true },
+    });
+
+    const toIndex = toScanId ? scans.findIndex((s: any) => s.id === toScanId) : scans.length - 1;
+    const fromIndex = fromScanId ? scans.findIndex((s: any) => s.id === fromScanId) : toIndex - 1;
+
+    if (toIndex < 0 || fromIndex < 0) {
+      throw new Error(
+        fromScanId || toScanId
+          ? "Scan not found among this project's completed scans"
+          : "At least two completed scans are needed for a comparison"
+      );
+    }
+    if (fromIndex === toIndex) {
+      throw new Error("Choose two different scans to compare");
+    }
+
+    const [from, to] = await Promise.all(
+      [scans[fromIndex].id, scans[toIndex].id].map((id) =>
+        prisma.originalityScan.findUnique({ where: { id }, include: { matches: true } })
+      )
+    );
+
+    const fromText = from.scanned_content || "";
+    const toText = to.scanned_content || "";
+    const alignments = this.alignSentences(fromText, toText);
+
+    // Only matches that count toward the (filtered) score take part in the diff
+    const fromMatches = from.matches.filter((m: any) => !m.excluded);
+    const toMatches = to.matches.filter((m: any) => !m.excluded);
+
+    const claimed = new Set<string>();
+    const persisting: Array<{ from: any; to: any }> = [];
+    const resolved: any[] = [];
+
+    for (const previous of fromMatches) {
+      const mapped = this.mapSpan(previous.position_start, previous.position_end, alignments);
+      const partner = toMatches.find(
+        (current: any) =>
+          !claimed.has(current.id) &&
+          this.sourceKey(current) === this.sourceKey(previous) &&
+          ((mapped && current.position_start < mapped.end && current.position_end > mapped.start) ||
+            compareTwoStrings(
+              (current.sentence_text || "").toLowerCase(),
+              (previous.sentence_text || "").toLowerCase()
+            ) >= SAME_PASSAGE_SIMILARITY)
+      );
+
+      if (partner) {
+        claimed.add(partner.id);
+        persisting.push({
+          from: OriginalityMapService.toMatchResponse(previous),
+          to: OriginalityMapService.toMatchResponse(partner),
+        });
+      } else {
+        resolved.push(OriginalityMapService.toMatchResponse(previous));
+      }
+    }
+
+    const introduced = toMatches
+      .filter((m: any) => !claimed.has(m.id))
+      .map((m: any) => OriginalityMapService.toMatchResponse(m));
+
+    const draft = fromText && toText ? await DraftComparisonService.compareDrafts(toText, fromText) : null;
+    const scoreDelta = Math.round((to.overall_score - from.overall_score) * 10) / 10;
+
+    return {
+      from: this.toScanSummary(from),
+      to: this.toScanSummary(to),
+      summary: {
+        resolved: resolved.length,
+        persisting: persisting.length,
+        new: introduced.length,
+        scoreDelta,
+        trend: scoreDelta < 0 ? "improved" : scoreDelta > 0 ? "worsened" : "unchanged",
+        textSimilarity: draft ? Math.round(draft.similarityScore * 10) / 10 : null,
+      },
+      resolved,
+      persisting,
+      new: introduced,
+      // Score of every completed scan of the project, oldest first
+      scoreHistory: scans.map((s: any) => ({
+        scanId: s.id,
+        scannedAt: s.scanned_at,
+        overallScore: s.overall_score,
+        rawScore: s.raw_score ?? s.overall_score,
+        matchCount: s.match_count,
+      })),
+    };
+  }
+
+  /**
+   * Sentences of the earlier draft that survive (possibly reworded) in the later one
+   */
+  private static alignSentences(fromText: string, toText: string): SentenceAlignment[] {
+    if (!fromText || !toText) return [];
+
+    return DraftComparisonService.findMatchingSegments(toText, fromText)
+      .filter((m: any) => m.targetParams.start >= 0)
+      .map((m: any) => ({
+        fromStart: m.targetParams.start,
+        fromEnd: m.targetParams.end,
+        toStart: m.sourceParams.start,
+        toEnd: m.sourceParams.end,
+      }));
+  }
+
+  /**
+   * Where an earlier span lives in the later draft (null if its sentences were removed)
+   */
+  private static mapSpan(
+    start: number,
+    end: number,
+    alignments: SentenceAlignment[]
+  ): { start: number; end: number } | null {
+    const overlapping = alignments.filter((a) => a.fromStart < end && a.fromEnd > start);
+    if (!overlapping.length) return null;
+
+    return {
+      start: Math.min(...overlapping.map((a) => a.toStart)),
+      end: Math.max(...overlapping.map((a) => a.toEnd)),
+    };
+  }
+
+  private static sourceKey(match: any): string {
+    return (match.source_url || match.matched_source || "")
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, "")
+      .replace(/^www\./, "")
+      .replace(/\/+$/, "");
+  }
+
+  private static toScanSummary(scan: any) {
+    return {
+      id: scan.id,
+      scannedAt: scan.scanned_at,
+      overallScore: scan.overall_score,
+      rawScore: scan.raw_score ?? scan.overall_score,
+      classification: scan.classification,
+      matchCount: scan.match_count,
+      provider: scan.provider,
+    };
+  }
+}
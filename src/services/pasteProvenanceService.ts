@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import { prisma } from "../lib/prisma";
+import { ExportService } from "./exportService";
+import { FingerprintService } from "./fingerprintService";
+
+export type PasteOrigin = "own_notes" | "uploaded_file" | "source" | "unattributed";
+
+export type PasteRetention = "verbatim" | "lightly_edited" | "heavily_edited";
+
+export interface PasteProvenance {
+  hash: string;
+  fingerprints: string[];
+  origin: PasteOrigin;
+  originRef: string | null; // Annotation id, File id or SourceInteraction.source_id
+}
+
+export interface PasteHint {
+  sourceFileId?: string; // Pasted from a file open in the in-app reader
+  sourceUrl?: string; // Source URL the clipboard carried, if any
+}
+
+export interface PasteProvenanceSummary {
+  totalPastes: number;
+  pastedCharacters: number;
+  byOrigin: Record<PasteOrigin, { count: number; characters: number }>;
+  largeExternalPastes: {
+    count: number;
+    characters: number;
+    verbatim: number;
+    lightlyEdited: number;
+    heavilyEdited: number; // Includes pastes that were deleted again
+    pastes: Array<{
+      timestamp: Date;
+      length: number;
+      origin: PasteOrigin;
+      originRef: string | null;
+      retainedPercentage: number; // Share of the pasted text still verbatim in the document
+      retention: PasteRetention;
+    }>;
+  };
+}
+
+const PASTE_WINDOW = 5; // Words per fingerprint; shorter than the originality window so short pastes still get some
+const MAX_STORED_FINGERPRINTS = 64; // Smallest hashes kept - a stable sample for overlap estimates
+const NOTE_MATCH_THRESHOLD = 0.5;
+const SOURCE_READING_WINDOW_MS = 15 * 60 * 1000;
+const LARGE_PASTE_CHARACTERS = 200;
+const VERBATIM_THRESHOLD = 0.8;
+const HEAVY_EDIT_THRESHOLD = 0.3;
+
+/**
+ * Paste Provenance Service
+ * Fingerprints pasted text (without storing it) and works out where it came
+ * from - the writer's own annotation notes, an uploaded file, or a source they
+ * were just reading - so authorship reports can tell pasting your own notes
+ * from pasting someone else's words, and whether those words were reworked.
+ */
+export class PasteProvenanceService {
+  static async resolve(
+    userId: string,
+    projectId: string,
+    pastedText: string,
+    pastedAt: Date,
+    hint: PasteHint = {}
+  ): Promise<PasteProvenance> {
+    const hash = crypto.createHash("sha256").update(this.normalize(pastedText)).digest("hex");
+    const fingerprints = this.sampleFingerprints(pastedText);
+
+    const origin =
+      (await this.matchOwnNotes(userId, pastedText, fingerprints)) ||
+      (await this.matchFile(userId, hint.sourceFileId)) ||
+      (await this.matchRecentSource(userId, projectId, pastedAt, hint.sourceUrl)) || {
+        origin: "unattributed" as PasteOrigin,
+        originRef: null,
+      };
+
+    return { hash, fingerprints, ...origin };
+  }
+
+  /**
+   * Paste summary for the authenticity report: where pasted text came from and
+   * how much of each large external paste is still verbatim in the document
+   */
+  static async summarize(projectId: string, userId: string): Promise<PasteProvenanceSummary> {
+    const [pastes, project] = await Promise.all([
+      prisma.realTimeActivity.findMany({
+        where: { project_id: projectId, user_id: userId, event_type: "paste" },
+        select: {
+          timestamp: true,
+          selection_length: true,
+          paste_fingerprints: true,
+          paste_origin: true,
+          paste_origin_ref: true,
+        },
+        orderBy: { timestamp: "asc" },
+      }),
+      prisma.project.findUnique({ where: { id: projectId }, select: { content: true } }),
+    ]);
+
+    const documentFingerprints = new Set(
+      FingerprintService.generateFingerprints(ExportService.extractTextFromTipTap(project?.content), PASTE_WINDOW).keys()
+    );
+
+    const byOrigin: PasteProvenanceSummary["byOrigin"] = {
+      own_notes: { count: 0, characters: 0 },
+      uploaded_file: { count: 0, characters: 0 },
+      source: { count: 0, characters: 0 },
+      unattributed: { count: 0, characters: 0 },
+    };
+    const large: PasteProvenanceSummary["largeExternalPastes"]["pastes"] = [];
+
+    for (const paste of pastes) {
+      // Pastes tracked before provenance existed have no origin
+      const origin: PasteOrigin = (paste.paste_origin as PasteOrigin) || "unattributed";
+      const length = paste.selection_length || 0;
+      byOrigin[origin].count++;
+      byOrigin[origin].characters += length;
+
+      const external = origin === "source" || origin === "unattributed";
+      if (!external || length < LARGE_PASTE_CHARACTERS || !paste.paste_fingerprints?.length) continue;
+
+      const retained =
+        paste.paste_fingerprints.filter((f: string) => documentFingerprints.has(f)).length / paste.paste_fingerprints.length;
+
+      large.push({
+        timestamp: paste.timestamp,
+        length,
+        origin,
+        originRef: paste.paste_origin_ref,
+        retainedPercentage: Math.round(retained * 100),
+        retention:
+          retained >= VERBATIM_THRESHOLD ? "verbatim" : retained > HEAVY_EDIT_THRESHOLD ? "lightly_edited" : "heavily_edited",
+      });
+    }
+
+    return {
+      totalPastes: pastes.length,
+      pastedCharacters: pastes.reduce((sum: number, p: any) => sum + (p.selection_length || 0), 0),
+      byOrigin,
+      largeExternalPastes: {
+        count: large.length,
+        characters: large.reduce((sum, p) => sum + p.length, 0),
+        verbatim: large.filter((p) => p.retention === "verbatim").length,
+        lightlyEdited: large.filter((p) => p.retention === "lightly_edited").length,
+        heavilyEdited: large.filter((p) => p.retention === "heavily_edited").length,
+        pastes: large,
+      },
+    };
+  }
+
+  /**
+   * The paste repeats one of the writer's own annotation notes
+   */
+  private static async matchOwnNotes(
+    userId: string,
+    pastedText: string,
+    fingerprints: string[]
+  ): Promise<Pick<PasteProvenance, "origin" | "originRef"> | null> {
+    const notes = await prisma.annotation.findMany({
+      where: { user_id: userId, content: { not: null } },
+      select: { id: true, content: true },
+      orderBy: { updated_at: "desc" },
+      take: 500,
+    });
+
+    const normalized = this.normalize(pastedText);
+    for (const note of notes) {
+      const noteText = note.content || "";
+
+      // Too short to fingerprint: require the paste to be part of the note
+      if (!fingerprints.length) {
+        if (normalized && this.normalize(noteText).includes(normalized)) {
+          return { origin: "own_notes", originRef: note.id };
+        }
+        continue;
+      }
+
+      const noteFingerprints = FingerprintService.generateFingerprints(noteText, PASTE_WINDOW);
+      const overlap = fingerprints.filter((f) => noteFingerprints.has(f)).length / fingerprints.length;
+      if (overlap >= NOTE_MATCH_THRESHOLD) {
+        return { origin: "own_notes", originRef: note.id };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The paste came from a file the writer has open in the reader
+   */
+  private static async matchFile(
+    userId: string,
+    fileId?: string
+  ): Promise<Pick<PasteProvenance, "origin" | "originRef"> | null> {
+    if (!fileId) return null;
+
+    const file = await prisma.file.findFirst({
+      where: { id: fileId, user_id: userId },
+      select: { id: true, metadata: true },
+    });
+    if (!file) return null;
+
+    // Papers opened from a citation are registered as files too, but they are someone else's work
+    const external = (file.metadata as any)?.source === "external_citation";
+    return { origin: external ? "source" : "uploaded_file", originRef: file.id };
+  }
+
+  /**
+   * The writer was reading a source of this project just before pasting
+   */
+  private static async matchRecentSource(
+    userId: string,
+    projectId: string,
+    pastedAt: Date,
+    sourceUrl?: string
+  ): Promise<Pick<PasteProvenance, "origin" | "originRef"> | null> {
+    const interactions = await prisma.sourceInteraction.findMany({
+      where: {
+        project_id: projectId,
+        user_id: userId,
+        last_read_at: { gte: new Date(pastedAt.getTime() - SOURCE_READING_WINDOW_MS), lte: pastedAt },
+      },
+      select: { source_id: true },
+      orderBy: { last_read_at: "desc" },
+    });
+
+    const byUrl = sourceUrl && interactions.find((i: any) => this.sameUrl(i.source_id, sourceUrl));
+    const interaction = byUrl || interactions[0];
+    if (interaction) return { origin: "source", originRef: interaction.source_id };
+
+    // The clipboard named a source the writer never opened in the app
+    return sourceUrl ? { origin: "source", originRef: sourceUrl } : null;
+  }
+
+  private static sampleFingerprints(text: string): string[] {
+    return Array.from(FingerprintService.generateFingerprints(text, PASTE_WINDOW).keys())
+      .sort()
+      .slice(0, MAX_STORED_FINGERPRINTS);
+  }
+
+  private static normalize(text: string): string {
+    return text.normalize("NFC").toLowerCase().replace(/\s+/g, " ").trim();
+  }
+
+  private static sameUrl(a: string, b: string): boolean {
+    const clean = (url: string) =>
+      url.toLowerCase().replace(/^[a-z]+:\/\//, "").replace(/^www\./, "").replace(/\/+$/, "");
+    return clean(a) === clean(b);
+  }
+}
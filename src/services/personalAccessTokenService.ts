@@ -0,0 +1,186 @@
+import { randomBytes } from "crypto";
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { hash } from "../lib/encryptionUtils";
+import {
+  AccessTokenResponse,
+  CreateAccessTokenRequest,
+  TOKEN_SCOPES,
+  TokenScope,
+} from "../types/accessTokens";
+
+const TOKEN_PREFIX = "cwz_pat_";
+const MAX_ACTIVE_TOKENS = 20;
+const MAX_EXPIRY_DAYS = 365;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Don't write last_used_at on every request
+
+/**
+ * Personal Access Token Service
+ * Long-lived tokens for scripts and CI (`Authorization: Bearer cwz_pat_...`).
+ * Only the SHA-256 hash is stored; the plain token is returned once, at creation.
+ */
+export class PersonalAccessTokenService {
+  static isAccessToken(token: string): boolean {
+    return token.startsWith(TOKEN_PREFIX);
+  }
+
+  static async createToken(
+    userId: string,
+    request: CreateAccessTokenRequest
+  ): Promise<AccessTokenResponse & { token: string }> {
+    const name = typeof request.name === "string" ? request.name.trim() : "";
+    if (!name || name.length > 100) {
+      throw new Error("Token name is required (max 100 characters)");
+    }
+
+    const scopes = Array.from(new Set(request.scopes || []));
+    const invalid = scopes.filter((scope) => !TOKEN_SCOPES.includes(scope));
+    if (scopes.length === 0 || invalid.length > 0) {
+      throw new Error(
+        `Invalid scopes${invalid.length ? `: ${invalid.join(", ")}` : ""}. Allowed: ${TOKEN_SCOPES.join(", ")}`
+      );
+    }
+
+    let expiresAt: Date | null = null;
+    if (request.expiresInDays !== undefined && request.expiresInDays !== null) {
+      const days = Number(request.expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+        throw new Error(`Invalid expiresInDays: must be between 1 and ${MAX_EXPIRY_DAYS}`);
+      }
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    }
+
+    const activeCount = await prisma.personalAccessToken.count({
+      where: {
+        user_id: userId,
+        revoked_at: null,
+        OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }],
+      },
+    });
+    if (activeCount >= MAX_ACTIVE_TOKENS) {
+      throw new Error(`Token limit reached: revoke an existing token first (max ${MAX_ACTIVE_TOKENS})`);
+    }
+
+    const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+    const record = await prisma.personalAccessToken.create({
+      data: {
+        user_id: userId,
+        name,
+        token_hash: hash(token),
+        token_prefix: token.substring(0, TOKEN_PREFIX.length + 6),
+        scopes,
+        expires_at: expiresAt,
+      },
+    });
+
+    logger.info("Personal access token created", { tokenId: record.id, userId, scopes });
+
+    return { ...this.toResponse(record), token };
+  }
+
+  static async listTokens(userId: string): Promise<AccessTokenResponse[]> {
+    const tokens = await prisma.personalAccessToken.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: "desc" },
+    });
+
+    return tokens.map((token: any) => this.toResponse(token));
+  }
+
+  /**
+   * Revoke a token. It goes to the recycle bin, so it can be restored until purged.
+   */
+  static async revokeToken(tokenId: string, userId: string): Promise<AccessTokenResponse> {
+    const revoked = await prisma.personalAccessToken.updateMany({
+      where: { id: tokenId, user_id: userId, revoked_at: null },
+      data: { revoked_at: new Date() },
+    });
+
+    const token = await prisma.personalAccessToken.findFirst({
+      where: { id: tokenId, user_id: userId },
+    });
+    if (!token) {
+      throw new Error("Token not found or access denied");
+    }
+    if (revoked.count === 0) {
+      throw new Error("Token is already revoked");
+    }
+
+    // The revocation stands even if the recycle bin entry can't be written
+    try {
+      const { RecycleBinService } = await import("./recycleBinService");
+      await RecycleBinService.addItemToRecycleBin(userId, "api_key", {
+        id: token.id,
+        name: token.name,
+        token_prefix: token.token_prefix,
+        scopes: token.scopes,
+      });
+    } catch (error: any) {
+      logger.warn("Failed to add revoked token to recycle bin", { tokenId, error: error.message });
+    }
+
+    logger.info("Personal access token revoked", { tokenId, userId });
+
+    return this.toResponse(token);
+  }
+
+  /**
+   * Undo a revocation (recycle bin restore)
+   */
+  static async restoreToken(tokenId: string, userId: string): Promise<void> {
+    const restored = await prisma.personalAccessToken.updateMany({
+      where: { id: tokenId, user_id: userId, revoked_at: { not: null } },
+      data: { revoked_at: null },
+    });
+
+    if (restored.count === 0) {
+      throw new Error("Token not found or not revoked");
+    }
+  }
+
+  /**
+   * Resolve a bearer token to its user and scopes; null if unknown, revoked or expired
+   */
+  static async authenticate(
+    token: string
+  ): Promise<{ tokenId: string; user: { id: string; email: string; full_name?: string }; scopes: TokenScope[] } | null> {
+    const record = await prisma.personalAccessToken.findUnique({
+      where: { token_hash: hash(token) },
+      include: { user: { select: { id: true, email: true, full_name: true } } },
+    });
+
+    if (!record || record.revoked_at) return null;
+    if (record.expires_at && record.expires_at <= new Date()) return null;
+
+    if (!record.last_used_at || Date.now() - record.last_used_at.getTime() > LAST_USED_RESOLUTION_MS) {
+      prisma.personalAccessToken
+        .update({ where: { id: record.id }, data: { last_used_at: new Date() } })
+        .catch((error: any) =>
+          logger.warn("Failed to record token usage", { tokenId: record.id, error: error.message })
+        );
+    }
+
+    return {
+      tokenId: record.id,
+      user: {
+        id: record.user.id,
+        email: record.user.email,
+        full_name: record.user.full_name || undefined,
+      },
+      scopes: record.scopes as TokenScope[],
+    };
+  }
+
+  private static toResponse(token: any): AccessTokenResponse {
+    return {
+      id: token.id,
+      name: token.name,
+      tokenPrefix: token.token_prefix,
+      scopes: token.scopes,
+      lastUsedAt: token.last_used_at,
+      expiresAt: token.expires_at,
+      revokedAt: token.revoked_at,
+      createdAt: token.created_at,
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { prisma } from "../lib/prisma";
+
+export type ProjectRole = "owner" | "editor" | "commenter" | "viewer";
+
+export const PROJECT_ROLES: ProjectRole[] = ["owner", "editor", "commenter", "viewer"];
+
+// Roles that can be granted to collaborators; ownership stays with the project creator
+export type CollaboratorRole = Exclude<ProjectRole, "owner">;
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ["editor", "commenter", "viewer"];
+
+// Higher rank includes every permission of the lower ranks
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4,
+};
+
+export class ProjectAccessService {
+  /**
+   * Check whether a role string is one of the supported project roles
+   */
+  static isValidRole(role: any): role is ProjectRole {
+    return PROJECT_ROLES.includes(role);
+  }
+
+  /**
+   * Check whether a role can be given to a collaborator (anything but owner)
+   */
+  static isCollaboratorRole(role: any): role is CollaboratorRole {
+    return COLLABORATOR_ROLES.includes(role);
+  }
+
+  /**
+   * Check whether a role grants at least the permissions of `minRole`
+   */
+  static hasRole(role: ProjectRole | null, minRole: ProjectRole): boolean {
+    if (!role) return false;
+    return ROLE_RANK[role] >= ROLE_RANK[minRole];
+  }
+
+  /**
+   * Resolve the user's role on a project.
+   * The project creator (`Project.user_id`) is always an owner; everyone else
+   * needs an accepted collaborator row.
+   */
+  static async getRole(
+    projectId: string,
+    userId: string
+  ): Promise<ProjectRole | null> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { user_id: true },
+    });
+
+    if (!project) return null;
+    if (project.user_id === userId) return "owner";
+
+    const collaborator = await prisma.projectCollaborator.findFirst({
+      where: {
+        project_id: projectId,
+        user_id: userId,
+        status: "accepted",
+      },
+      select: { role: true },
+    });
+
+    if (!collaborator || !this.isValidRole(collaborator.role)) return null;
+    return collaborator.role;
+  }
+
+  /**
+   * Assert that the user holds at least `minRole` on the project.
+   * Throws "Project not found or access denied" so callers keep their existing error handling.
+   */
+  static async assertAccess(
+    projectId: string,
+    userId: string,
+    minRole: ProjectRole = "viewer"
+  ): Promise<ProjectRole> {
+    const role = await this.getRole(projectId, userId);
+
+    if (!this.hasRole(role, minRole)) {
+      throw new Error("Project not found or access denied");
+    }
+
+    return role as ProjectRole;
+  }
+
+  /**
+   * IDs of projects shared with the user (excluding the ones they created)
+   */
+  static async getSharedProjectIds(userId: string): Promise<string[]> {
+    const rows = await prisma.projectCollaborator.findMany({
+      where: { user_id: userId, status: "accepted" },
+      select: { project_id: true },
+    });
+
+    return rows.map((row: { project_id: string }) => row.project_id);
+  }
+}
@@ -0,0 +1,426 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import { generateCaseSensitiveContentHash } from "../lib/contentHashUtils";
+import { DraftComparisonService } from "./draftComparisonService";
+import { ExportService } from "./exportService";
+import { SubscriptionService } from "./subscriptionService";
+
+export type VersionChangeSource = "create" | "save" | "ai" | "restore";
+
+// Saves by the same author within this window of a snapshot update it instead of adding
+// a version, so autosaves don't push useful history out of count-based plan retention
+const SAVE_COALESCE_WINDOW_MS = 10 * 60 * 1000;
+// ...unless the text grew or shrank this much since the snapshot (share of its length)
+const SAVE_COALESCE_MAX_CHANGE = 0.2;
+const SAVE_COALESCE_MIN_CHARS = 500; // Small documents may change by this many characters
+const SNAPSHOT_ATTEMPTS = 3; // Concurrent saves racing for the same version number
+
+interface SnapshotInput {
+  title: string;
+  content: any;
+  wordCount: number;
+  changeSource?: VersionChangeSource;
+  restoredFromId?: string;
+}
+
+interface DiffSegment {
+  text: string;
+  start: number;
+  end: number;
+  similarity?: number;
+}
+
+/**
+ * Project Version Service
+ * Keeps point-in-time snapshots of project content so saves and AI rewrites can be undone.
+ */
+export class ProjectVersionService {
+  /**
+   * Record a snapshot of the project.
+   * Saves whose content hash matches the latest snapshot are skipped (autosave no-ops),
+   * except restores, which are always recorded so the history shows them. A save
+   * shortly after the author's previous save replaces that snapshot's content, unless
+   * it changes the text's length a lot; AI rewrites and restores always get a version.
+   */
+  static async createSnapshot(
+    projectId: string,
+    userId: string,
+    snapshot: SnapshotInput
+  ) {
+    const changeSource = snapshot.changeSource || "save";
+    const contentHash = this.hashContent(snapshot.content);
+
+    let version = null;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        version = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+          this.writeSnapshot(tx, projectId, userId, snapshot, changeSource, contentHash)
+        );
+        break;
+      } catch (error) {
+        // Another save took the next version number first; recount and try again
+        if (attempt >= SNAPSHOT_ATTEMPTS || !this.isVersionNumberConflict(error)) throw error;
+      }
+    }
+
+    if (version) {
+      await this.pruneVersions(projectId);
+    }
+
+    return version;
+  }
+
+  private static async writeSnapshot(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    userId: string,
+    snapshot: SnapshotInput,
+    changeSource: VersionChangeSource,
+    contentHash: string
+  ) {
+    const latest = await tx.projectVersion.findFirst({
+      where: { project_id: projectId },
+      orderBy: { version_number: "desc" },
+      select: {
+        id: true,
+        version_number: true,
+        content_hash: true,
+        content: true,
+        title: true,
+        user_id: true,
+        change_source: true,
+        created_at: true,
+      },
+    });
+
+    if (
+      latest &&
+      changeSource !== "restore" &&
+      latest.content_hash === contentHash &&
+      latest.title === snapshot.title
+    ) {
+      return null;
+    }
+
+    if (
+      latest &&
+      changeSource === "save" &&
+      latest.change_source === "save" &&
+      latest.user_id === userId &&
+      Date.now() - latest.created_at.getTime() < SAVE_COALESCE_WINDOW_MS &&
+      !this.isLargeChange(latest.content, snapshot.content)
+    ) {
+      return tx.projectVersion.update({
+        where: { id: latest.id },
+        data: {
+          title: snapshot.title,
+          content: snapshot.content ?? undefined,
+          content_hash: contentHash,
+          word_count: snapshot.wordCount || 0,
+        },
+      });
+    }
+
+    return tx.projectVersion.create({
+      data: {
+        project_id: projectId,
+        user_id: userId,
+        version_number: (latest?.version_number || 0) + 1,
+        title: snapshot.title,
+        content: snapshot.content ?? undefined,
+        content_hash: contentHash,
+        word_count: snapshot.wordCount || 0,
+        change_source: changeSource,
+        restored_from_id: snapshot.restoredFromId,
+      },
+    });
+  }
+
+  /**
+   * List versions for a project (newest first, without content)
+   */
+  static async listVersions(projectId: string) {
+    const versions = await prisma.projectVersion.findMany({
+      where: { project_id: projectId },
+      orderBy: { version_number: "desc" },
+      select: {
+        id: true,
+        version_number: true,
+        title: true,
+        content_hash: true,
+        word_count: true,
+        change_source: true,
+        restored_from_id: true,
+        created_at: true,
+        updated_at: true,
+        user_id: true,
+        user: { select: { id: true, full_name: true, email: true } },
+      },
+    });
+
+    return versions.map((v: any) => this.toResponse(v));
+  }
+
+  /**
+   * Get a single version including its content
+   */
+  static async getVersion(projectId: string, versionId: string) {
+    const version = await prisma.projectVersion.findFirst({
+      where: { id: versionId, project_id: projectId },
+      include: {
+        user: { select: { id: true, full_name: true, email: true } },
+      },
+    });
+
+    if (!version) {
+      throw new Error("Version not found");
+    }
+
+    return { ...this.toResponse(version), content: version.content };
+  }
+
+  /**
+   * Diff two versions sentence by sentence.
+   * Sentences present (or nearly present) in both are aligned with
+   * DraftComparisonService.findMatchingSegments; everything else is added/removed.
+   */
+  static async diffVersions(
+    projectId: string,
+    fromVersionId: string,
+    toVersionId: string
+  ) {
+    const [from, to] = await Promise.all([
+      this.getVersion(projectId, fromVersionId),
+      this.getVersion(projectId, toVersionId),
+    ]);
+
+    const fromText = this.toPlainText(from.content);
+    const toText = this.toPlainText(to.content);
+
+    // Sentences of `to` that also exist in `from`, and vice versa
+    const retained = DraftComparisonService.findMatchingSegments(toText, fromText);
+    const retainedInFrom = DraftComparisonService.findMatchingSegments(fromText, toText);
+
+    const modified: DiffSegment[] = retained
+      .filter((m: any) => m.similarity < 1)
+      .map((m: any) => ({
+        text: m.segment,
+        start: m.sourceParams.start,
+        end: m.sourceParams.end,
+        similarity: m.similarity,
+      }));
+
+    const added = this.unmatchedSentences(toText, retained);
+    const removed = this.unmatchedSentences(fromText, retainedInFrom);
+
+    const { content: _fromContent, ...fromMeta } = from;
+    const { content: _toContent, ...toMeta } = to;
+
+    return {
+      from: fromMeta,
+      to: toMeta,
+      summary: {
+        added: added.length,
+        removed: removed.length,
+        modified: modified.length,
+        unchanged: retained.length - modified.length,
+        wordDelta: to.wordCount - from.wordCount,
+        identical: from.contentHash === to.contentHash,
+      },
+      added,
+      removed,
+      modified,
+    };
+  }
+
+  /**
+   * Restore a previous version.
+   * The current state is snapshotted first, so restoring never loses work.
+   */
+  static async restoreVersion(
+    projectId: string,
+    versionId: string,
+    userId: string
+  ) {
+    const version = await prisma.projectVersion.findFirst({
+      where: { id: versionId, project_id: projectId },
+    });
+
+    if (!version) {
+      throw new Error("Version not found");
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project) {
+      throw new Error("Project not found or access denied");
+    }
+
+    // 1. Capture the current state (no-op if it is already the latest snapshot)
+    await this.createSnapshot(projectId, userId, {
+      title: project.title,
+      content: project.content,
+      wordCount: project.word_count,
+    });
+
+    // 2. Overwrite the live project with the old version
+    const updatedProject = await prisma.project.update({
+      where: { id: projectId },
+      data: {
+        title: version.title,
+        content: version.content ?? undefined,
+        word_count: version.word_count,
+      },
+      include: {
+        originality_scans: true,
+        citations: true,
+      },
+    });
+
+    // 3. Record the restore itself
+    const restoredVersion = await this.createSnapshot(projectId, userId, {
+      title: version.title,
+      content: version.content,
+      wordCount: version.word_count,
+      changeSource: "restore",
+      restoredFromId: version.id,
+    });
+
+    logger.info("Project version restored", {
+      projectId,
+      versionId,
+      userId,
+    });
+
+    return {
+      project: updatedProject,
+      version: restoredVersion ? this.toResponse(restoredVersion) : null,
+    };
+  }
+
+  /**
+   * Delete the oldest snapshots beyond the project owner's plan retention
+   */
+  static async pruneVersions(projectId: string): Promise<number> {
+    try {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { user_id: true },
+      });
+
+      if (!project) return 0;
+
+      const plan = await SubscriptionService.getActivePlan(project.user_id);
+      const retention = SubscriptionService.getPlanLimits(plan).project_version_retention;
+
+      // -1 = unlimited retention
+      if (retention === -1) return 0;
+
+      const expired = await prisma.projectVersion.findMany({
+        where: { project_id: projectId },
+        orderBy: { version_number: "desc" },
+        skip: Math.max(retention, 1),
+        select: { id: true },
+      });
+
+      if (expired.length === 0) return 0;
+
+      const deleted = await prisma.projectVersion.deleteMany({
+        where: { id: { in: expired.map((v: { id: string }) => v.id) } },
+      });
+
+      logger.debug("Pruned project versions", {
+        projectId,
+        plan,
+        count: deleted.count,
+      });
+
+      return deleted.count;
+    } catch (error: any) {
+      logger.error("Error pruning project versions", {
+        projectId,
+        error: error.message,
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Plain text of stored project content (Tiptap JSON or HTML string)
+   */
+  static toPlainText(content: any): string {
+    if (!content) return "";
+    if (typeof content === "string") {
+      return content.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+    }
+    return ExportService.extractTextFromTipTap(content);
+  }
+
+  /**
+   * Did the text grow or shrink too much for a save to replace the snapshot?
+   * A large paste or deletion keeps the earlier snapshot so it can be restored.
+   */
+  private static isLargeChange(previous: any, next: any): boolean {
+    const before = this.toPlainText(previous).length;
+    const delta = Math.abs(this.toPlainText(next).length - before);
+    return delta > Math.max(SAVE_COALESCE_MIN_CHARS, before * SAVE_COALESCE_MAX_CHANGE);
+  }
+
+  private static isVersionNumberConflict(error: unknown): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+  }
+
+  private static hashContent(content: any): string {
+    const serialized =
+      typeof content === "string" ? content : JSON.stringify(content ?? null);
+    return generateCaseSensitiveContentHash(serialized);
+  }
+
+  /**
+   * Sentences of `text` whose range was not aligned to the other version
+   */
+  private static unmatchedSentences(text: string, matches: any[]): DiffSegment[] {
+    const sentences = text.match(/[^.!?]+[.!?]+/g) || (text ? [text] : []);
+    const matchedStarts = new Set(matches.map((m: any) => m.sourceParams.start));
+    const result: DiffSegment[] = [];
+
+    let pos = 0;
+    for (const sentence of sentences) {
+      // findMatchingSegments ignores fragments under 20 chars, so we do too
+      const isFragment = sentence.replace(/[^\w\s]/g, "").trim().length < 20;
+      if (!isFragment && !matchedStarts.has(pos)) {
+        result.push({
+          text: sentence.trim(),
+          start: pos,
+          end: pos + sentence.length,
+        });
+      }
+      pos += sentence.length;
+    }
+
+    return result;
+  }
+
+  // Map snake_case to camelCase for frontend
+  private static toResponse(v: any) {
+    return {
+      id: v.id,
+      versionNumber: v.version_number,
+      title: v.title,
+      contentHash: v.content_hash,
+      wordCount: v.word_count,
+      changeSource: v.change_source,
+      restoredFromId: v.restored_from_id,
+      createdAt: v.created_at,
+      updatedAt: v.updated_at,
+      author: v.user
+        ? { id: v.user.id, fullName: v.user.full_name, email: v.user.email }
+        : v.user_id
+          ? { id: v.user_id }
+          : null, // Author's account was deleted
+    };
+  }
+}
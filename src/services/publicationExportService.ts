@@ -1,6 +1,7 @@
 import logger from "../monitoring/logger";
 import { prisma } from "../lib/prisma";
 import { SecretsService } from "./secrets-service";
+import { ProjectAccessService } from "./projectAccessService";
 import {
   Document,
   Paragraph,
@@ -19,8 +20,11 @@ import {
   CommentRangeStart,
   CommentRangeEnd,
   CommentReference,
+  TextRun,
 } from "docx";
 import { PublicationService } from "./publicationService";
+import { CitationFormatter } from "./citationFormatting/citationFormatter";
+import { CitationStyleId } from "../types/citationFormatting";
 import AdmZip from "adm-zip";
 
 // --- NUCLEAR OPTION: DEBUG FLAGS ---
@@ -35,7 +39,7 @@ const DEBUG_FLAGS = {
 
 interface PublicationExportOptions {
   format: "pdf" | "docx";
-  citationStyle?: "apa" | "mla" | "chicago";
+  citationStyle?: CitationStyleId;
   includeCoverPage: boolean;
   coverPageStyle: "apa" | "mla";
   template?: string; // e.g., "ieee", "acm"
@@ -91,11 +95,12 @@ export class PublicationExportService {
         includeTOC: options.includeTOC,
       });
 
-      // 1. Fetch project data
-      const project = await prisma.project.findFirst({
+      // 1. Fetch project data (any collaborator may export)
+      await ProjectAccessService.assertAccess(projectId, userId, "viewer");
+
+      const project = await prisma.project.findUnique({
         where: {
           id: projectId,
-          user_id: userId,
         },
         include: {
           citations: true,
@@ -216,10 +221,17 @@ export class PublicationExportService {
       // 6. Convert body content to paragraphs (Collect comments here)
       const comments: any[] = [];
       const usedCitationIds = new Set<string>();
+      // Bibliography order also fixes the numbers used by numeric in-text citations
+      const citationStyle = CitationFormatter.resolveStyle(options.citationStyle);
+      const orderedCitations = CitationFormatter.orderCitations(
+        project.citations || [],
+        citationStyle,
+        project.content
+      );
       let bodyParagraphs = await this.convertTipTapToDOCXParagraphs(
         project.content,
-        project.citations || [],
-        options.citationStyle || "apa",
+        orderedCitations,
+        citationStyle,
         {
           ...options.citationPolicy,
           wordSafeMode: options.wordSafeMode // Pass through for image/column processing
@@ -311,7 +323,8 @@ export class PublicationExportService {
       // 7. Generate references section (Conditional)
       const referencesParagraphs: Paragraph[] = [];
 
-      let citationsToUse = project.citations || [];
+      // Uncited sources sort last, so dropping orphans keeps the numbering intact
+      let citationsToUse = orderedCitations;
       // Filter orphan references
       if (options.citationPolicy?.excludeOrphanReferences && usedCitationIds.size > 0) {
         citationsToUse = citationsToUse.filter((c: any) => usedCitationIds.has(c.id));
@@ -328,9 +341,18 @@ export class PublicationExportService {
           })
         );
         citationsToUse.forEach((citation: any, index: number) => {
+          const segments = CitationFormatter.formatReferenceSegments(citation, citationStyle, {
+            number: index + 1,
+          });
           referencesParagraphs.push(
             new Paragraph({
-              text: `${index + 1}. ${this.formatCitation(citation, options.citationStyle || "apa")}`,
+              children: segments.map(
+                (segment) =>
+                  new TextRun({
+                    text: this.sanitizeText(segment.text),
+                    italics: segment.italic,
+                  })
+              ),
               spacing: { after: 100 },
             })
           );
@@ -1194,7 +1216,9 @@ export class PublicationExportService {
             if (usedCitationIds) usedCitationIds.add(citationId);
             const citationData = citations.find(c => c.id === citationId);
             if (citationData) {
-              const inText = this.formatInTextCitation(citationData, style);
+              const inText = CitationFormatter.formatInText(citationData, style, {
+                number: citations.indexOf(citationData) + 1,
+              });
               runs.push(new TextRun({ text: inText, bold: child.marks?.some((m: any) => m.type === "bold"), italics: child.marks?.some((m: any) => m.type === "italic") }));
             } else {
               runs.push(new TextRun({ text: fallback, color: "FF0000" })); // Red for missing ref?
@@ -1214,55 +1238,4 @@ export class PublicationExportService {
 
     return runs;
   }
-
-  /**
-   * Format in-text citation (e.g., "(Smith, 2023)")
-   */
-  private static formatInTextCitation(citation: any, style: string): string {
-    const authors = Array.isArray(citation.authors) ? citation.authors : [citation.author || "Unknown"];
-    const year = citation.year || "n.d.";
-
-    // Get last name of first author
-    const firstAuthor = authors[0] || "Unknown";
-    let authorText = typeof firstAuthor === 'string' ? firstAuthor : (firstAuthor.lastName || firstAuthor.firstName || "Unknown");
-
-    if (authors.length > 2) {
-      authorText += " et al.";
-    } else if (authors.length === 2) {
-      const secondAuthor = authors[1];
-      const secondAuthorText = typeof secondAuthor === 'string' ? secondAuthor : (secondAuthor.lastName || "Unknown");
-      authorText += ` & ${secondAuthorText}`;
-    }
-
-    if (style === "apa") {
-      return `(${authorText}, ${year})`;
-    } else if (style === "mla") {
-      return `(${authorText})`;
-    } else if (style === "ieee") {
-      // In a real IEEE export, we would need the citation index. 
-      // For now, let's use the author/year format as a readable placeholder until we implement ordering.
-      return `[${authorText}, ${year}]`;
-    }
-
-    return `(${authorText}, ${year})`;
-  }
-
-  /**
-   * Format citation in specified style
-   */
-  private static formatCitation(citation: any, style: string): string {
-    // Basic citation formatting
-    const authors = citation.authors || citation.author || "Unknown";
-    const title = citation.title || "Untitled";
-    const year = citation.year || "n.d.";
-
-    if (style === "apa") {
-      return `${authors} (${year}). ${title}.`;
-    } else if (style === "mla") {
-      return `${authors}. "${title}." ${year}.`;
-    } else {
-      // Chicago
-      return `${authors}. ${title}. ${year}.`;
-    }
-  }
 }
@@ -1,6 +1,12 @@
 import { prisma } from "../lib/prisma";
 import logger from "../monitoring/logger";
 import { ActivityTrackingService } from "./activityTrackingService";
+import {
+  PasteHint,
+  PasteProvenance,
+  PasteProvenanceService,
+  PasteProvenanceSummary,
+} from "./pasteProvenanceService";
 
 export interface RealTimeActivityData {
   projectId: string;
@@ -39,8 +45,20 @@ export interface RealTimeActivityData {
     | "replacement";
   operationSize?: number;
   sessionId?: string;
+  pastedText?: string; // Paste events: fingerprinted for provenance, never stored
+  pasteHint?: PasteHint;
 }
 
+const ACTIVITY_EVENT_TYPES: RealTimeActivityData["eventType"][] = [
+  "keystroke", "edit", "paste", "copy", "selection-change", "session-start",
+  "session-end", "backspace", "delete", "format", "insert",
+];
+const EDIT_TYPES: NonNullable<RealTimeActivityData["editType"]>[] = [
+  "insertion", "deletion", "modification", "formatting", "replacement",
+];
+const MAX_BATCH_SIZE = 500;
+const MAX_TEXT_LENGTH = 100000; // Per content_before / content_after / pastedText
+
 export interface WritingPatternMetrics {
   typingSpeed: number; // Characters per minute
   pauseFrequency: number; // Pauses per minute
@@ -58,6 +76,25 @@ export class RealTimeAuthorshipTrackingService {
    */
   static async trackActivity(activity: RealTimeActivityData): Promise<void> {
     try {
+      let provenance: PasteProvenance | null = null;
+      if (activity.eventType === "paste" && activity.pastedText) {
+        try {
+          provenance = await PasteProvenanceService.resolve(
+            activity.userId,
+            activity.projectId,
+            activity.pastedText,
+            activity.timestamp,
+            activity.pasteHint
+          );
+        } catch (error: any) {
+          // Provenance is best-effort; the paste event itself must still be recorded
+          logger.warn("Paste provenance lookup failed", {
+            error: error.message,
+            projectId: activity.projectId,
+          });
+        }
+      }
+
       // Store the real-time activity event
       await prisma.realTimeActivity.create({
         data: {
@@ -75,10 +112,15 @@ export class RealTimeAuthorshipTrackingService {
           idle_time: activity.idleTime || 0,
           active_time: activity.activeTime || 0,
           word_count: activity.wordCount || 0,
-          selection_length: activity.selectionLength || 0,
+          selection_length:
+            activity.selectionLength || activity.pastedText?.length || 0,
           edit_type: activity.editType,
           operation_size: activity.operationSize || 0,
           session_id: activity.sessionId,
+          paste_hash: provenance?.hash,
+          paste_fingerprints: provenance?.fingerprints || [],
+          paste_origin: provenance?.origin,
+          paste_origin_ref: provenance?.originRef,
         },
       });
 
@@ -97,6 +139,99 @@ export class RealTimeAuthorshipTrackingService {
     }
   }
 
+  /**
+   * Record a batch of editor activity events posted by the client (see
+   * POST /api/behavioral-tracking/activities). Malformed events are skipped;
+   * paste events carrying their text get provenance through trackActivity.
+   * Returns the number of events recorded.
+   */
+  static async ingestActivities(
+    userId: string,
+    projectId: string,
+    sessionId: string | undefined,
+    events: unknown[]
+  ): Promise<{ recorded: number; skipped: number }> {
+    let recorded = 0;
+    let skipped = 0;
+
+    for (const raw of events.slice(0, MAX_BATCH_SIZE)) {
+      const activity = this.parseActivity(raw, userId, projectId, sessionId);
+      if (!activity) {
+        skipped++;
+        continue;
+      }
+      await this.trackActivity(activity);
+      recorded++;
+    }
+
+    return { recorded, skipped: skipped + Math.max(0, events.length - MAX_BATCH_SIZE) };
+  }
+
+  /**
+   * A client event as RealTimeActivityData, or null when it is malformed
+   */
+  private static parseActivity(
+    raw: unknown,
+    userId: string,
+    projectId: string,
+    sessionId: string | undefined
+  ): RealTimeActivityData | null {
+    if (!raw || typeof raw !== "object") return null;
+    const event = raw as Record<string, unknown>;
+
+    const eventType = event.eventType as RealTimeActivityData["eventType"];
+    if (!ACTIVITY_EVENT_TYPES.includes(eventType)) return null;
+
+    const timestamp = event.timestamp ? new Date(event.timestamp as string | number) : new Date();
+    if (isNaN(timestamp.getTime()) || timestamp.getTime() > Date.now() + 60000) return null;
+
+    const text = (value: unknown) =>
+      typeof value === "string" && value.length <= MAX_TEXT_LENGTH ? value : undefined;
+    const count = (value: unknown) =>
+      typeof value === "number" && Number.isFinite(value) && value >= 0 ? Math.floor(value) : undefined;
+
+    let contentChange: RealTimeActivityData["contentChange"];
+    const change = event.contentChange as Record<string, unknown> | undefined;
+    if (change && typeof change === "object") {
+      const before = text(change.before);
+      const after = text(change.after);
+      const position = count(change.position);
+      if (before === undefined || after === undefined || position === undefined) return null;
+      contentChange = { before, after, position };
+    }
+
+    let pasteHint: PasteHint | undefined;
+    const hint = event.pasteHint as Record<string, unknown> | undefined;
+    if (hint && typeof hint === "object") {
+      pasteHint = {
+        sourceFileId: typeof hint.sourceFileId === "string" ? hint.sourceFileId : undefined,
+        sourceUrl: typeof hint.sourceUrl === "string" ? hint.sourceUrl.substring(0, 2048) : undefined,
+      };
+    }
+
+    const editType = event.editType as RealTimeActivityData["editType"];
+
+    return {
+      projectId,
+      userId,
+      eventType,
+      timestamp,
+      contentChange,
+      keystrokes: count(event.keystrokes),
+      aiAssisted: event.aiAssisted === true,
+      aiModelUsed: typeof event.aiModelUsed === "string" ? event.aiModelUsed.substring(0, 100) : undefined,
+      idleTime: count(event.idleTime),
+      activeTime: count(event.activeTime),
+      wordCount: count(event.wordCount),
+      selectionLength: count(event.selectionLength),
+      editType: editType && EDIT_TYPES.includes(editType) ? editType : undefined,
+      operationSize: count(event.operationSize),
+      sessionId,
+      pastedText: eventType === "paste" ? text(event.pastedText) : undefined,
+      pasteHint: eventType === "paste" ? pasteHint : undefined,
+    };
+  }
+
   /**
    * Calculate writing pattern metrics from recent activity
    */
@@ -278,6 +413,7 @@ export class RealTimeAuthorshipTrackingService {
         reviewingTime: number;
         aiAssistedTime: number;
       };
+      pasteProvenance: PasteProvenanceSummary;
     };
   }> {
     try {
@@ -307,6 +443,12 @@ export class RealTimeAuthorshipTrackingService {
             100
           : 0;
 
+      // Where pasted text came from, and whether large external pastes were reworked
+      const pasteProvenance = await PasteProvenanceService.summarize(
+        projectId,
+        userId
+      );
+
       // Combine all metrics into a comprehensive authenticity score
       let authenticityScore = 50; // Base score
 
@@ -351,6 +493,7 @@ export class RealTimeAuthorshipTrackingService {
           typingPatterns: writingPatterns,
           activitySummary,
           timeDistribution,
+          pasteProvenance,
         },
       };
     } catch (error: any) {
@@ -371,11 +371,11 @@ export class RecycleBinService {
    * Restore an API key from the recycle bin
    */
   private static async restoreApiKey(item: RecycledItem): Promise<void> {
-    // Extract API key data from item_data
+    // Revoked personal access tokens keep their row; restoring clears the revocation
     const apiKeyData = item.item_data;
 
-    // For now, we'll just log that we would restore an API key
-    logger.info(`Would restore API key: ${JSON.stringify(apiKeyData)}`);
+    const { PersonalAccessTokenService } = await import("./personalAccessTokenService");
+    await PersonalAccessTokenService.restoreToken(apiKeyData.id, item.user_id);
   }
 
   /**
@@ -218,6 +218,33 @@ export class SecretsService {
     return (await this.getSecret("TOKEN_ENCRYPTION_KEY")) || "";
   }
 
+  // Get certificate signing key (Ed25519 private key, PKCS#8 PEM)
+  static async getCertificateSigningKey(): Promise<string | null> {
+    const key = await this.getSecret("CERTIFICATE_SIGNING_KEY");
+    // Single-line env values carry the PEM line breaks as "\n"
+    return key ? key.replace(/\\n/g, "\n") : null;
+  }
+
+  // Thresholds a project must meet before originality / completion certificates are issued
+  static async getCertificateThresholds(): Promise<{
+    maxSimilarityScore: number;
+    maxScanAgeDays: number;
+    minCitationMatchRate: number;
+    maxAiAssistedPercentage: number;
+  }> {
+    const number = async (name: string, fallback: number) => {
+      const value = parseFloat((await this.getSecret(name)) || "");
+      return isNaN(value) ? fallback : value;
+    };
+
+    return {
+      maxSimilarityScore: await number("CERTIFICATE_MAX_SIMILARITY_SCORE", 15),
+      maxScanAgeDays: await number("CERTIFICATE_MAX_SCAN_AGE_DAYS", 30),
+      minCitationMatchRate: await number("CERTIFICATE_MIN_CITATION_MATCH_RATE", 0.9),
+      maxAiAssistedPercentage: await number("CERTIFICATE_MAX_AI_ASSISTED_PERCENTAGE", 20),
+    };
+  }
+
   // Get base URL
   static async getBaseUrl(): Promise<string> {
     return (await this.getSecret("BASE_URL")) || "http://localhost:3001";
@@ -276,6 +303,10 @@ export class SecretsService {
     return this.getSecret("COPYLEAKS_API_KEY");
   }
 
+  static async getCopyLeaksWebhookSecret(): Promise<string | null> {
+    return this.getSecret("COPYLEAKS_WEBHOOK_SECRET");
+  }
+
   // Get Copyscape configuration
   static async getCopyscapeUsername(): Promise<string | null> {
     return this.getSecret("COPYSCAPE_USERNAME");
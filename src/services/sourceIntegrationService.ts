@@ -1,5 +1,6 @@
 import { prisma } from "../lib/prisma";
 import logger from "../monitoring/logger";
+import { SourceReadingService, toRanges } from "./sourceReadingService";
 
 export interface SourceReadingData {
     sourceId: string;
@@ -19,14 +20,32 @@ export interface SourceIntegrationReport {
     readingAuditTrail: Array<{
         sourceId: string;
         sourceTitle?: string;
-        timeSpent: number;
+        timeSpent: number; // Client-reported
         openCount: number;
+        observedTime: number; // Measured by the PDF proxy
+        observedOpenCount: number;
+        readingEvidence: 'observed' | 'self_reported' | 'none';
+        pagesViewed: string; // e.g. "1-4, 7"
+        pageCount: number | null;
+        highlights: number;
+        notes: number;
         citationTiming: string;
+        score: number; // 0-100, weighted as in authenticityScore
     }>;
     authenticityScore: number;
     isConsistentWithReading: boolean;
 }
 
+const MIN_READING_MS = 30000; // 30 seconds threshold
+
+// How much each kind of evidence counts towards a source's authenticity
+const SCORE_WEIGHTS = {
+    reading: 0.35, // Adequate reading time - full credit only when observed server-side
+    timing: 0.25, // Citation added after reading started
+    engagement: 0.25, // Highlights and notes on the source
+    coverage: 0.15, // Share of pages viewed
+};
+
 export class SourceIntegrationService {
     /**
      * Track a source interaction (opening, reading time)
@@ -75,6 +94,9 @@ export class SourceIntegrationService {
                         citation_preceded_by_reading: !citationAddedTime, // If citation added immediately, mark as suspicious
                     },
                 });
+
+                // Highlights and notes made before the source was first tracked
+                await SourceReadingService.syncAnnotationCounts(userId, sourceId);
             }
 
             logger.info("Source interaction tracked", { sourceId, projectId, userId });
@@ -106,7 +128,7 @@ export class SourceIntegrationService {
             if (interaction) {
                 // Citation was added after reading
                 const timeSinceFirstRead = Date.now() - interaction.first_read_at.getTime();
-                const citationPrecededByReading = timeSinceFirstRead > 30000; // 30 seconds threshold
+                const citationPrecededByReading = timeSinceFirstRead > MIN_READING_MS;
 
                 await prisma.sourceInteraction.update({
                     where: { id: interaction.id },
@@ -155,13 +177,27 @@ export class SourceIntegrationService {
             const readingAuditTrail: SourceIntegrationReport['readingAuditTrail'] = [];
 
             interactions.forEach((interaction: any) => {
+                const label = interaction.source_title || interaction.source_id;
+                const evidence = this.readingEvidence(interaction);
+                const readingTime = evidence === 'observed'
+                    ? interaction.observed_reading_time_ms
+                    : interaction.total_reading_time_ms;
+
                 // Build audit trail
                 readingAuditTrail.push({
                     sourceId: interaction.source_id,
                     sourceTitle: interaction.source_title || undefined,
                     timeSpent: interaction.total_reading_time_ms,
                     openCount: interaction.open_count,
+                    observedTime: interaction.observed_reading_time_ms || 0,
+                    observedOpenCount: interaction.observed_open_count || 0,
+                    readingEvidence: evidence,
+                    pagesViewed: toRanges(interaction.pages_viewed || []),
+                    pageCount: interaction.page_count ?? null,
+                    highlights: interaction.highlight_count || 0,
+                    notes: interaction.note_count || 0,
                     citationTiming: interaction.citation_preceded_by_reading ? 'after' : 'before',
+                    score: Math.round(this.scoreSource(interaction) * 100),
                 });
 
                 // Check for red flags
@@ -169,37 +205,40 @@ export class SourceIntegrationService {
                     redFlags.push({
                         sourceId: interaction.source_id,
                         flagType: 'citation_without_reading',
-                        message: `Citation added without reading source: ${interaction.source_title || interaction.source_id}`,
+                        message: `Citation added without reading source: ${label}`,
                     });
                 }
 
-                if (interaction.is_cited && interaction.total_reading_time_ms < 30000) {
+                if (interaction.is_cited && readingTime < MIN_READING_MS) {
                     redFlags.push({
                         sourceId: interaction.source_id,
                         flagType: 'insufficient_reading_time',
-                        message: `Source opened for less than 30 seconds: ${interaction.source_title || interaction.source_id}`,
+                        message: `Source opened for less than 30 seconds: ${label}`,
+                    });
+                }
+
+                if (interaction.is_cited && !interaction.highlight_count && !interaction.note_count) {
+                    redFlags.push({
+                        sourceId: interaction.source_id,
+                        flagType: 'no_annotations',
+                        message: `Cited source has no highlights or notes: ${label}`,
                     });
                 }
             });
 
             // Calculate authenticity score
-            const totalSources = interactions.length;
-            const sourcesWithAdequateReading = interactions.filter(
-                (i: any) => i.total_reading_time_ms >= 30000
-            ).length;
-            const sourcesWithProperTiming = interactions.filter(
-                (i: any) => i.citation_preceded_by_reading
-            ).length;
-
-            const authenticityScore = totalSources > 0
-                ? Math.round(((sourcesWithAdequateReading + sourcesWithProperTiming) / (totalSources * 2)) * 100)
+            const authenticityScore = interactions.length > 0
+                ? Math.round(
+                    (interactions.reduce((sum: number, i: any) => sum + this.scoreSource(i), 0) / interactions.length) * 100
+                )
                 : 100;
 
             return {
                 redFlags,
                 readingAuditTrail,
                 authenticityScore,
-                isConsistentWithReading: redFlags.length === 0,
+                // Missing annotations lower the score but are not inconsistent with reading
+                isConsistentWithReading: redFlags.every((flag) => flag.flagType === 'no_annotations'),
             };
         } catch (error: any) {
             logger.error("Error verifying source integration", { error: error.message });
@@ -207,6 +246,36 @@ export class SourceIntegrationService {
         }
     }
 
+    /**
+     * Weighted 0-1 score for one source: reading time, citation timing,
+     * highlights/notes and page coverage
+     */
+    private static scoreSource(interaction: any): number {
+        const evidence = this.readingEvidence(interaction);
+        const reading = evidence === 'observed' ? 1 : evidence === 'self_reported' ? 0.5 : 0;
+        const timing = interaction.citation_preceded_by_reading ? 1 : 0;
+        const engagement = Math.min(1, ((interaction.highlight_count || 0) + 2 * (interaction.note_count || 0)) / 3);
+
+        const pagesViewed = (interaction.pages_viewed || []).length;
+        const coverage = interaction.page_count
+            ? Math.min(1, (2 * pagesViewed) / interaction.page_count) // Half the pages counts as full coverage
+            : Math.min(1, pagesViewed / 5);
+
+        return SCORE_WEIGHTS.reading * reading
+            + SCORE_WEIGHTS.timing * timing
+            + SCORE_WEIGHTS.engagement * engagement
+            + SCORE_WEIGHTS.coverage * coverage;
+    }
+
+    /**
+     * Best evidence of adequate reading: measured by the proxy, or only claimed by the client
+     */
+    private static readingEvidence(interaction: any): 'observed' | 'self_reported' | 'none' {
+        if ((interaction.observed_reading_time_ms || 0) >= MIN_READING_MS) return 'observed';
+        if (interaction.total_reading_time_ms >= MIN_READING_MS) return 'self_reported';
+        return 'none';
+    }
+
     /**
      * Get source analytics for a project
      */
@@ -0,0 +1,214 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+
+const IDLE_GAP_MS = 5 * 60 * 1000; // Longer pauses end a session and are not counted as reading
+const MAX_PAGE = 100000;
+
+export interface ReadingActivity {
+    pages?: number[]; // Pages currently visible in the viewer
+    pageCount?: number;
+}
+
+/**
+ * Source Reading Service
+ * Server-observed reading: the PDF proxy opens (or resumes) a reading session
+ * whenever it serves a source, including the viewer's range requests, and the
+ * viewer's page-change beats extend it. Time is measured on the server between
+ * requests, with idle gaps dropped, and rolled up into SourceInteraction next to
+ * the client-reported figures. Annotation counts are synced in as well.
+ */
+export class SourceReadingService {
+    /**
+     * Record a proxy request for a source; resumes the user's session on it when
+     * the last activity was recent, otherwise opens a new one
+     */
+    static async recordProxyRequest(params: {
+        userId: string;
+        projectId: string;
+        sourceId: string;
+        sourceUrl: string;
+    }): Promise<{ sessionId: string; resumed: boolean }> {
+        const { userId, projectId, sourceId, sourceUrl } = params;
+        const now = new Date();
+
+        const current = await prisma.sourceReadingSession.findFirst({
+            where: {
+                user_id: userId,
+                project_id: projectId,
+                source_id: sourceId,
+                last_active_at: { gte: new Date(now.getTime() - IDLE_GAP_MS) },
+            },
+            orderBy: { last_active_at: "desc" },
+        });
+
+        if (current) {
+            const elapsed = now.getTime() - current.last_active_at.getTime();
+            await prisma.sourceReadingSession.update({
+                where: { id: current.id },
+                data: {
+                    last_active_at: now,
+                    active_ms: { increment: elapsed },
+                    request_count: { increment: 1 },
+                },
+            });
+            await this.rollUp(userId, projectId, sourceId, { readingMs: elapsed });
+            return { sessionId: current.id, resumed: true };
+        }
+
+        const session = await prisma.sourceReadingSession.create({
+            data: {
+                user_id: userId,
+                project_id: projectId,
+                source_id: sourceId,
+                source_url: sourceUrl,
+                opened_at: now,
+                last_active_at: now,
+            },
+        });
+        await this.rollUp(userId, projectId, sourceId, { opened: true });
+
+        logger.info("Source reading session opened", { sessionId: session.id, userId, projectId, sourceId });
+
+        return { sessionId: session.id, resumed: false };
+    }
+
+    /**
+     * Viewer beat (page change, scroll) within a session opened by the proxy
+     */
+    static async recordActivity(sessionId: string, userId: string, activity: ReadingActivity) {
+        const session = await prisma.sourceReadingSession.findFirst({
+            where: { id: sessionId, user_id: userId },
+        });
+        if (!session) throw new Error("Reading session not found");
+
+        const now = new Date();
+        const elapsed = now.getTime() - session.last_active_at.getTime();
+        // After a long pause the reader was away; the pause is not reading time
+        const readingMs = elapsed <= IDLE_GAP_MS ? elapsed : 0;
+
+        const pages = sanitizePages(activity.pages);
+        const pageCount =
+            Number.isInteger(activity.pageCount) && activity.pageCount! > 0 && activity.pageCount! <= MAX_PAGE
+                ? activity.pageCount!
+                : session.page_count;
+
+        const updated = await prisma.sourceReadingSession.update({
+            where: { id: session.id },
+            data: {
+                last_active_at: now,
+                active_ms: { increment: readingMs },
+                pages_viewed: mergePages(session.pages_viewed, pages),
+                page_count: pageCount,
+            },
+        });
+        await this.rollUp(userId, session.project_id, session.source_id, { readingMs, pages, pageCount });
+
+        return {
+            sessionId: updated.id,
+            activeMs: updated.active_ms,
+            pagesViewed: toRanges(updated.pages_viewed),
+            pageCount: updated.page_count,
+        };
+    }
+
+    /**
+     * Recount the user's highlights and notes on a source into every
+     * SourceInteraction for it (annotations belong to the source, not a project)
+     */
+    static async syncAnnotationCounts(userId: string, sourceId: string): Promise<void> {
+        const annotations = await prisma.annotation.findMany({
+            where: { user_id: userId, file_id: sourceId },
+            select: { type: true, content: true, coordinates: true },
+        });
+
+        const notes = annotations.filter((a: any) => a.type === "note" || (a.content && a.content.trim())).length;
+        const highlights = annotations.filter((a: any) => a.type === "highlight").length;
+        // Annotating a page means it was read
+        const annotatedPages = sanitizePages(annotations.map((a: any) => (a.coordinates as any)?.page));
+
+        const interactions = await prisma.sourceInteraction.findMany({
+            where: { user_id: userId, source_id: sourceId },
+            select: { id: true, pages_viewed: true },
+        });
+
+        for (const interaction of interactions) {
+            await prisma.sourceInteraction.update({
+                where: { id: interaction.id },
+                data: {
+                    highlight_count: highlights,
+                    note_count: notes,
+                    pages_viewed: mergePages(interaction.pages_viewed, annotatedPages),
+                },
+            });
+        }
+    }
+
+    /**
+     * Add observed reading to the project's SourceInteraction for the source
+     */
+    private static async rollUp(
+        userId: string,
+        projectId: string,
+        sourceId: string,
+        delta: { opened?: boolean; readingMs?: number; pages?: number[]; pageCount?: number | null }
+    ) {
+        const key = { project_id: projectId, user_id: userId, source_id: sourceId };
+        const existing = await prisma.sourceInteraction.findUnique({
+            where: { project_id_user_id_source_id: key },
+            select: { id: true, pages_viewed: true },
+        });
+
+        if (!existing) {
+            await prisma.sourceInteraction.create({
+                data: {
+                    ...key,
+                    observed_open_count: delta.opened ? 1 : 0,
+                    observed_reading_time_ms: delta.readingMs || 0,
+                    pages_viewed: sanitizePages(delta.pages),
+                    page_count: delta.pageCount ?? null,
+                    first_read_at: new Date(),
+                    last_read_at: new Date(),
+                },
+            });
+            // Annotations made before the source was opened through the proxy
+            await this.syncAnnotationCounts(userId, sourceId);
+            return;
+        }
+
+        await prisma.sourceInteraction.update({
+            where: { id: existing.id },
+            data: {
+                observed_open_count: { increment: delta.opened ? 1 : 0 },
+                observed_reading_time_ms: { increment: delta.readingMs || 0 },
+                last_read_at: new Date(),
+                ...(delta.pages?.length ? { pages_viewed: mergePages(existing.pages_viewed, delta.pages) } : {}),
+                ...(delta.pageCount ? { page_count: delta.pageCount } : {}),
+            },
+        });
+    }
+}
+
+/**
+ * Page numbers as compact ranges ("1-4, 7")
+ */
+export function toRanges(pages: number[]): string {
+    const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+    const ranges: string[] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+        const start = sorted[i];
+        while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+        ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+    }
+
+    return ranges.join(", ");
+}
+
+function sanitizePages(pages: unknown[] | undefined): number[] {
+    if (!Array.isArray(pages)) return [];
+    return pages.filter((p): p is number => Number.isInteger(p) && (p as number) > 0 && (p as number) <= MAX_PAGE);
+}
+
+function mergePages(existing: number[] | null | undefined, added: number[]): number[] {
+    return Array.from(new Set([...(existing || []), ...added])).sort((a, b) => a - b);
+}
@@ -0,0 +1,225 @@
+import { AIDetectionResult, AISentenceResult } from "./aiDetectionService";
+import { FingerprintService } from "./fingerprintService";
+import { LanguageDetectionService } from "./languageDetectionService";
+
+export interface StylometryFeatures {
+    language: string;
+    wordCount: number;
+    sentenceCount: number;
+    predictability: number; // Mean sentence log-perplexity over log(vocabulary size) (lower = more predictable)
+    burstiness: number; // Variation of sentence perplexity (humans vary more)
+    sentenceLengthVariation: number; // Coefficient of variation of sentence length
+    functionWordRatio: number;
+    functionWordVariation: number; // Coefficient of variation of the per-sentence function-word ratio
+    vocabularyRichness: number; // Moving-average type-token ratio (50-word windows)
+    hapaxRatio: number; // Share of the vocabulary used exactly once
+    markerDensity: number; // Stock "assistant" phrases per 100 words
+}
+
+interface SentenceStats {
+    text: string;
+    start: number;
+    end: number;
+    words: string[];
+    logPerplexity: number; // Relative to log(vocabulary size)
+    functionWordRatio: number;
+    markers: number;
+}
+
+const SMOOTHING = 0.5;
+const MATTR_WINDOW = 50;
+const MIN_RELIABLE_WORDS = 150;
+
+// Phrases over-represented in LLM output
+const MARKER_PHRASES = [
+    // English
+    "additionally", "furthermore", "moreover", "in conclusion", "overall,", "it is important to note",
+    "it is worth noting", "plays a crucial role", "crucial", "delve", "notably", "in today's",
+    "a testament to", "navigate the", "landscape of", "multifaceted", "underscores", "fostering",
+    // Spanish / Portuguese / French
+    "además", "en conclusión", "es importante destacar", "cabe destacar", "desempeña un papel crucial",
+    "além disso", "em conclusão", "é importante destacar", "desempenha um papel crucial",
+    "de plus", "en conclusion", "il est important de noter", "joue un rôle crucial",
+];
+
+// Feature weights in the document score
+const WEIGHTS = {
+    sentenceLengthVariation: 0.25,
+    burstiness: 0.2,
+    functionWordVariation: 0.15,
+    predictability: 0.1,
+    markerDensity: 0.2,
+    vocabulary: 0.1,
+};
+
+/**
+ * Stylometry Detection Service
+ * Offline AI-writing detector. Scores the statistical fingerprints of generated
+ * text - uniform sentence lengths, low burstiness, predictable vocabulary, flat
+ * function-word use, stock phrases - instead of calling an external model.
+ * Heuristic: meant as a fallback and second opinion, not as proof.
+ */
+export class StylometryDetectionService {
+    static detect(content: string): AIDetectionResult & { features: StylometryFeatures; reliability: "low" | "normal" } {
+        const language = LanguageDetectionService.detect(content).language;
+        const functionWords = new Set(LanguageDetectionService.stopwordsFor(language));
+
+        const sentences = this.splitSentences(content);
+        const allWords = sentences.flatMap(s => s.words);
+
+        // Document unigram model; each sentence is scored leaving its own words out
+        const counts = new Map<string, number>();
+        for (const word of allWords) counts.set(word, (counts.get(word) || 0) + 1);
+        const vocabulary = Math.max(2, counts.size);
+
+        const stats: SentenceStats[] = sentences.map(sentence => {
+            const own = new Map<string, number>();
+            for (const word of sentence.words) own.set(word, (own.get(word) || 0) + 1);
+            const total = allWords.length - sentence.words.length;
+
+            let logProb = 0;
+            for (const word of sentence.words) {
+                const count = (counts.get(word) || 0) - (own.get(word) || 0);
+                logProb += Math.log((count + SMOOTHING) / (total + SMOOTHING * vocabulary));
+            }
+
+            const lowered = sentence.text.toLowerCase();
+            return {
+                ...sentence,
+                logPerplexity: sentence.words.length ? -logProb / sentence.words.length / Math.log(vocabulary) : 1,
+                functionWordRatio: sentence.words.length
+                    ? sentence.words.filter(w => functionWords.has(w)).length / sentence.words.length
+                    : 0,
+                markers: MARKER_PHRASES.filter(phrase => lowered.includes(phrase)).length,
+            };
+        });
+
+        const lengths = stats.map(s => s.words.length);
+        const perplexities = stats.map(s => s.logPerplexity);
+        const functionRatios = stats.map(s => s.functionWordRatio);
+
+        const features: StylometryFeatures = {
+            language,
+            wordCount: allWords.length,
+            sentenceCount: stats.length,
+            predictability: round(mean(perplexities)),
+            burstiness: round(coefficientOfVariation(perplexities)),
+            sentenceLengthVariation: round(coefficientOfVariation(lengths)),
+            functionWordRatio: round(allWords.length ? allWords.filter(w => functionWords.has(w)).length / allWords.length : 0),
+            functionWordVariation: round(coefficientOfVariation(functionRatios)),
+            vocabularyRichness: round(this.movingTypeTokenRatio(allWords)),
+            hapaxRatio: round(counts.size ? Array.from(counts.values()).filter(c => c === 1).length / counts.size : 0),
+            markerDensity: round(allWords.length ? (stats.reduce((sum, s) => sum + s.markers, 0) / allWords.length) * 100 : 0),
+        };
+
+        // AI-likeness of each feature (0-1)
+        const signals = {
+            sentenceLengthVariation: sigmoid((0.45 - features.sentenceLengthVariation) / 0.08),
+            burstiness: sigmoid((0.06 - features.burstiness) / 0.015),
+            functionWordVariation: sigmoid((0.35 - features.functionWordVariation) / 0.08),
+            predictability: sigmoid((1.1 - features.predictability) / 0.05),
+            markerDensity: sigmoid((features.markerDensity - 0.8) / 0.3),
+            vocabulary: (sigmoid((0.72 - features.vocabularyRichness) / 0.05) + sigmoid((0.55 - features.hapaxRatio) / 0.08)) / 2,
+        };
+
+        const documentSignal = (Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>).reduce(
+            (sum, key) => sum + WEIGHTS[key] * signals[key],
+            0
+        );
+
+        // Sentence scores: the document signal tempered by how typical each sentence is of generated text
+        const meanLength = mean(lengths);
+        const lengthSpread = standardDeviation(lengths) || 1;
+        const meanPerplexity = mean(perplexities);
+
+        const sentenceResults: AISentenceResult[] = stats.map(sentence => {
+            const lengthTypicality = sigmoid((0.5 - Math.abs(sentence.words.length - meanLength) / lengthSpread) / 0.25);
+            const predictable = sigmoid((meanPerplexity - sentence.logPerplexity) / 0.05);
+            const local = 0.4 * predictable + 0.35 * lengthTypicality + 0.25 * (sentence.markers > 0 ? 1 : 0.3);
+            const score = Math.round((0.5 * documentSignal + 0.5 * local) * 1000) / 10;
+
+            return {
+                text: sentence.text,
+                score,
+                classification: this.classifySentence(score),
+                positionStart: sentence.start,
+                positionEnd: sentence.end,
+            };
+        });
+
+        const overallScore = Math.round(documentSignal * 1000) / 10;
+
+        return {
+            overallScore,
+            classification: this.classifyOverall(overallScore),
+            sentences: sentenceResults,
+            scannedAt: new Date(),
+            engine: "stylometry",
+            features,
+            reliability: allWords.length >= MIN_RELIABLE_WORDS && stats.length >= 5 ? "normal" : "low",
+        };
+    }
+
+    private static splitSentences(content: string): Array<{ text: string; start: number; end: number; words: string[] }> {
+        const sentences = [];
+        for (const match of content.matchAll(/[^.!?。！？\n]+[.!?。！？]*/gu)) {
+            const raw = match[0];
+            const leading = raw.length - raw.trimStart().length;
+            const text = raw.trim();
+            const words = FingerprintService.tokenize(text).map(t => t.word);
+            if (!words.length) continue;
+
+            const start = match.index! + leading;
+            sentences.push({ text, start, end: start + text.length, words });
+        }
+        return sentences;
+    }
+
+    private static movingTypeTokenRatio(words: string[]): number {
+        if (words.length === 0) return 0;
+        if (words.length <= MATTR_WINDOW) return new Set(words).size / words.length;
+
+        let total = 0;
+        const windows = words.length - MATTR_WINDOW + 1;
+        for (let i = 0; i < windows; i++) {
+            total += new Set(words.slice(i, i + MATTR_WINDOW)).size / MATTR_WINDOW;
+        }
+        return total / windows;
+    }
+
+    private static classifySentence(score: number): AISentenceResult["classification"] {
+        if (score < 20) return "human";
+        if (score < 50) return "likely_human";
+        if (score < 80) return "likely_ai";
+        return "ai";
+    }
+
+    private static classifyOverall(score: number): AIDetectionResult["classification"] {
+        if (score < 30) return "human";
+        if (score < 70) return "mixed";
+        return "ai";
+    }
+}
+
+function mean(values: number[]): number {
+    return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+}
+
+function coefficientOfVariation(values: number[]): number {
+    const m = mean(values);
+    return m ? standardDeviation(values) / m : 0;
+}
+
+function sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
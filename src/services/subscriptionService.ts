@@ -3,6 +3,7 @@ import { EntitlementService } from "./EntitlementService";
 import logger from "../monitoring/logger";
 import { LemonSqueezyService } from "./lemonSqueezyService";
 import { CreditService, CREDIT_COSTS } from "./CreditService";
+import { OriginalityProviderName } from "../types/originalityProviders";
 
 export type ConsumptionResult = {
   allowed: boolean;
@@ -32,6 +33,7 @@ const PLAN_LIMITS = {
 
     // Feature Flags
     certificate_retention_days: 7,
+    project_version_retention: 10, // Snapshots kept per project (-1 = unlimited)
     watermark: true,
     export_formats: false,
     priority_scanning: false,
@@ -39,6 +41,7 @@ const PLAN_LIMITS = {
     advanced_analytics: false,
     research_gaps: false,
     insight_map: false,
+    originality_providers: ["copyscape", "local"] as OriginalityProviderName[], // Tried in order; see OriginalityProviderChain
   },
   payg: {
     // Scan Limits (Credit-based)
@@ -55,6 +58,7 @@ const PLAN_LIMITS = {
 
     // Feature Flags
     certificate_retention_days: 0,
+    project_version_retention: 25, // Snapshots kept per project (-1 = unlimited)
     watermark: false,
     export_formats: true,
     priority_scanning: false,
@@ -62,6 +66,7 @@ const PLAN_LIMITS = {
     advanced_analytics: false,
     research_gaps: false,
     insight_map: false,
+    originality_providers: ["copyscape", "local"] as OriginalityProviderName[],
   },
   student: {
     // Scan Limits
@@ -78,6 +83,7 @@ const PLAN_LIMITS = {
 
     // Feature Flags
     certificate_retention_days: 30,
+    project_version_retention: 50, // Snapshots kept per project (-1 = unlimited)
     watermark: false,
     export_formats: true,
     priority_scanning: false,
@@ -85,6 +91,7 @@ const PLAN_LIMITS = {
     advanced_analytics: false,
     research_gaps: false,
     insight_map: false,
+    originality_providers: ["copyscape", "local"] as OriginalityProviderName[],
   },
   researcher: {
     // Scan Limits
@@ -101,6 +108,7 @@ const PLAN_LIMITS = {
 
     // Feature Flags
     certificate_retention_days: 90,
+    project_version_retention: -1, // Snapshots kept per project (-1 = unlimited)
     watermark: false,
     export_formats: true,
     priority_scanning: true,
@@ -108,6 +116,7 @@ const PLAN_LIMITS = {
     advanced_analytics: true,
     research_gaps: true,
     insight_map: true,
+    originality_providers: ["copyscape", "copyleaks", "web_search", "local"] as OriginalityProviderName[],
   },
   student_pro: {
     // Scan Limits
@@ -124,6 +133,7 @@ const PLAN_LIMITS = {
 
     // Feature Flags
     certificate_retention_days: 60,
+    project_version_retention: 100, // Snapshots kept per project (-1 = unlimited)
     watermark: false,
     export_formats: true,
     priority_scanning: true,
@@ -131,6 +141,7 @@ const PLAN_LIMITS = {
     advanced_analytics: true,
     research_gaps: true,
     insight_map: true,
+    originality_providers: ["copyscape", "web_search", "local"] as OriginalityProviderName[],
   },
 };
 
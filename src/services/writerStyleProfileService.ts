@@ -0,0 +1,534 @@
+import { prisma } from "../lib/prisma";
+import logger from "../monitoring/logger";
+import {
+  SENTENCE_LENGTH_BUCKETS,
+  StyleComponent,
+  StyleConsistencyClassification,
+  StyleConsistencyResult,
+  StyleFrequencyProfile,
+  StyleSectionScore,
+  StyleStatistic,
+  WriterStyleProfileData,
+} from "../types/writerStyle";
+import { ExportService } from "./exportService";
+import { FingerprintService } from "./fingerprintService";
+import { LanguageDetectionService } from "./languageDetectionService";
+import { OriginalityExclusionService } from "./originalityExclusionService";
+import { ProjectAccessService } from "./projectAccessService";
+
+const SAMPLE_WORDS = 400; // Profile statistics are measured on samples of this size
+const MIN_SAMPLES = 3;
+const MIN_PROJECT_WORDS = 200;
+const MAX_PROJECTS = 50;
+const SECTION_MIN_WORDS = 150;
+const MIN_SCORED_WORDS = 50;
+const FUNCTION_WORD_DIMENSIONS = 50;
+const FUNCTION_NGRAM_DIMENSIONS = 30;
+const COMMON_NGRAMS = 20;
+
+const CONSISTENT_THRESHOLD = 70;
+const INCONSISTENT_THRESHOLD = 45;
+
+// Rates per 100 words
+const PUNCTUATION_MARKS: Array<{ key: string; pattern: RegExp }> = [
+  { key: "comma", pattern: /[,،、]/g },
+  { key: "semicolon", pattern: /;/g },
+  { key: "colon", pattern: /:/g },
+  { key: "dash", pattern: /[—–]|\s-\s/g },
+  { key: "hyphen", pattern: /\p{L}-\p{L}/gu },
+  { key: "parenthesis", pattern: /\(/g },
+  { key: "quotation", pattern: /["“”«»„]/g },
+  { key: "apostrophe", pattern: /\p{L}['’]\p{L}/gu },
+  { key: "exclamation", pattern: /[!！]/g },
+  { key: "question", pattern: /[?？]/g },
+  { key: "ellipsis", pattern: /…|\.\.\./g },
+];
+
+const COMPONENT_WEIGHTS: Record<StyleComponent, number> = {
+  sentenceLength: 0.2,
+  lexicalDiversity: 0.15,
+  wordLength: 0.1,
+  punctuation: 0.2,
+  functionWords: 0.2,
+  functionNgrams: 0.15,
+};
+
+interface TextChunk {
+  start: number;
+  end: number;
+  text: string;
+  wordCount: number;
+}
+
+interface SampleFeatures {
+  wordCount: number;
+  meanSentenceLength: number;
+  sentenceLengthSpread: number;
+  histogram: number[];
+  lexicalDiversity: number;
+  wordLength: number;
+  punctuation: Record<string, number>; // Per 100 words
+  functionWords: Record<string, number>; // Per 1000 words
+  functionNgrams: Record<string, number>; // Per 1000 words
+}
+
+/**
+ * Writer Style Profile Service
+ * Models how a writer writes - sentence lengths, lexical diversity, punctuation
+ * habits, function-word and n-gram use - from their completed projects, and
+ * scores how consistent a new text is with that baseline. Each feature's normal
+ * range is learned from the spread between the writer's own samples.
+ */
+export class WriterStyleProfileService {
+  /**
+   * The user's style profile, rebuilt when their completed projects changed
+   */
+  static async getProfile(userId: string) {
+    const [stored, eligible] = await Promise.all([
+      prisma.writerStyleProfile.findUnique({ where: { user_id: userId } }),
+      this.findCompletedProjects(userId, { id: true, updated_at: true }),
+    ]);
+
+    const ids = eligible.map((p: any) => p.id).sort();
+    const upToDate =
+      stored &&
+      stored.source_project_ids.length === ids.length &&
+      [...stored.source_project_ids].sort().every((id: string, i: number) => id === ids[i]) &&
+      eligible.every((p: any) => p.updated_at <= stored.built_at);
+
+    return upToDate ? stored : this.rebuildProfile(userId);
+  }
+
+  /**
+   * Build the profile from scratch and store it
+   */
+  static async rebuildProfile(userId: string) {
+    const built = await this.buildProfile(userId);
+
+    const data = {
+      profile: built.profile as any,
+      source_project_ids: built.consideredIds,
+      project_count: built.projectIds.length,
+      word_count: built.wordCount,
+      built_at: new Date(),
+    };
+
+    const stored = await prisma.writerStyleProfile.upsert({
+      where: { user_id: userId },
+      create: { user_id: userId, ...data },
+      update: data,
+    });
+
+    logger.info("Writer style profile built", {
+      userId,
+      projects: built.projectIds.length,
+      words: built.wordCount,
+    });
+
+    return stored;
+  }
+
+  /**
+   * How consistent a text (or a project's current content) is with the author's
+   * style profile, overall and per section. A project is compared with its
+   * owner's profile, whoever on the project asks; a text with the caller's.
+   */
+  static async scoreConsistency(
+    userId: string,
+    input: { text?: string; projectId?: string }
+  ): Promise<StyleConsistencyResult> {
+    let text = input.text || "";
+    let authorId = userId;
+    if (input.projectId) {
+      await ProjectAccessService.assertAccess(input.projectId, userId, "viewer");
+      const project = await prisma.project.findUnique({
+        where: { id: input.projectId },
+        select: { content: true, user_id: true },
+      });
+      if (!project) throw new Error("Project not found");
+      text = ExportService.extractTextFromTipTap(project.content);
+      authorId = project.user_id;
+    }
+    text = this.stripBibliography(text);
+
+    const wordCount = FingerprintService.tokenize(text).length;
+    if (wordCount < MIN_SCORED_WORDS) {
+      throw new Error(`Text is too short to compare (at least ${MIN_SCORED_WORDS} words are needed)`);
+    }
+
+    // A project must not be judged against a profile that learned from it
+    const stored = await this.getProfile(authorId);
+    let profileMeta = {
+      builtAt: stored.built_at,
+      projectCount: stored.project_count,
+      wordCount: stored.word_count,
+    };
+    let profile = stored.profile as WriterStyleProfileData;
+
+    if (input.projectId && stored.source_project_ids.includes(input.projectId)) {
+      const adHoc = await this.buildProfile(authorId, input.projectId);
+      profile = adHoc.profile;
+      profileMeta = { builtAt: new Date(), projectCount: adHoc.projectIds.length, wordCount: adHoc.wordCount };
+    }
+
+    const functionWords = new Set(LanguageDetectionService.stopwordsFor(profile.language));
+    const overall = this.compare(this.measure(text, functionWords), profile);
+
+    const sections: StyleSectionScore[] = this.chunk(text, SECTION_MIN_WORDS).map((section) => {
+      const { consistency } = this.compare(this.measure(section.text, functionWords), profile);
+      const classification = this.classify(consistency);
+      return {
+        start: section.start,
+        end: section.end,
+        wordCount: section.wordCount,
+        consistency,
+        classification,
+        flagged: classification === "inconsistent",
+      };
+    });
+
+    return {
+      consistency: overall.consistency,
+      classification: this.classify(overall.consistency),
+      reliability: wordCount < SAMPLE_WORDS / 2 ? "low" : "normal",
+      components: overall.components,
+      sections,
+      profile: { ...profileMeta, language: profile.language },
+    };
+  }
+
+  private static async findCompletedProjects(userId: string, select: Record<string, boolean>, excludeProjectId?: string) {
+    // "Completed": certified (by a certificate that was not revoked), or past its due date
+    return prisma.project.findMany({
+      where: {
+        user_id: userId,
+        ...(excludeProjectId ? { id: { not: excludeProjectId } } : {}),
+        OR: [{ certificates: { some: { status: { not: "revoked" } } } }, { due_date: { lt: new Date() } }],
+      },
+      select,
+      orderBy: { updated_at: "desc" },
+      take: MAX_PROJECTS,
+    });
+  }
+
+  private static async buildProfile(
+    userId: string,
+    excludeProjectId?: string
+  ): Promise<{ profile: WriterStyleProfileData; projectIds: string[]; consideredIds: string[]; wordCount: number }> {
+    const projects = await this.findCompletedProjects(userId, { id: true, content: true }, excludeProjectId);
+
+    const texts: Array<{ id: string; text: string }> = projects
+      .map((p: any) => ({ id: p.id, text: this.stripBibliography(ExportService.extractTextFromTipTap(p.content)) }))
+      .filter((p: { text: string }) => FingerprintService.tokenize(p.text).length >= MIN_PROJECT_WORDS);
+
+    const language = LanguageDetectionService.detect(texts.map((p) => p.text).join("\n")).language;
+    const functionWords = new Set(LanguageDetectionService.stopwordsFor(language));
+
+    const samples = texts.flatMap((p) =>
+      this.chunk(p.text, SAMPLE_WORDS)
+        .filter((chunk) => chunk.wordCount >= SAMPLE_WORDS / 2)
+        .map((chunk) => this.measure(chunk.text, functionWords))
+    );
+
+    if (samples.length < MIN_SAMPLES) {
+      throw new Error(
+        `Not enough completed work to build a style profile (at least ${MIN_SAMPLES * SAMPLE_WORDS} words across completed projects are needed)`
+      );
+    }
+
+    const histogram = SENTENCE_LENGTH_BUCKETS.map((_, i) => mean(samples.map((s) => s.histogram[i])));
+
+    const profile: WriterStyleProfileData = {
+      version: 1,
+      language,
+      sampleWords: SAMPLE_WORDS,
+      sentenceLength: {
+        ...statistic(samples.map((s) => s.meanSentenceLength)),
+        histogram,
+        selfDistance: statistic(samples.map((s) => histogramDistance(s.histogram, histogram))),
+      },
+      sentenceLengthSpread: statistic(samples.map((s) => s.sentenceLengthSpread)),
+      lexicalDiversity: statistic(samples.map((s) => s.lexicalDiversity)),
+      wordLength: statistic(samples.map((s) => s.wordLength)),
+      punctuation: frequencyProfile(
+        samples.map((s) => s.punctuation),
+        PUNCTUATION_MARKS.map((m) => m.key),
+        0.1
+      ),
+      functionWords: frequencyProfile(
+        samples.map((s) => s.functionWords),
+        topKeys(samples.map((s) => s.functionWords), FUNCTION_WORD_DIMENSIONS),
+        0.5
+      ),
+      functionNgrams: frequencyProfile(
+        samples.map((s) => s.functionNgrams),
+        topKeys(samples.map((s) => s.functionNgrams), FUNCTION_NGRAM_DIMENSIONS),
+        0.5
+      ),
+      commonNgrams: this.commonNgrams(texts.map((p) => p.text), functionWords),
+    };
+
+    return {
+      profile,
+      projectIds: texts.map((p) => p.id),
+      // Too-short projects count too, so they don't force a rebuild on every request
+      consideredIds: projects.map((p: any) => p.id),
+      wordCount: samples.reduce((sum, s) => sum + s.wordCount, 0),
+    };
+  }
+
+  private static measure(text: string, functionWords: Set<string>): SampleFeatures {
+    const sentences = this.splitSentences(text);
+    const words = sentences.flat();
+    const wordCount = Math.max(1, words.length);
+    const lengths = sentences.map((s) => s.length);
+
+    const histogram = SENTENCE_LENGTH_BUCKETS.map(() => 0);
+    for (const length of lengths) {
+      histogram[SENTENCE_LENGTH_BUCKETS.findIndex((max) => length <= max)] += 1 / Math.max(1, lengths.length);
+    }
+
+    const punctuation: Record<string, number> = {};
+    for (const mark of PUNCTUATION_MARKS) {
+      punctuation[mark.key] = ((text.match(mark.pattern) || []).length / wordCount) * 100;
+    }
+
+    const functionCounts: Record<string, number> = {};
+    const ngramCounts: Record<string, number> = {};
+    for (const sentence of sentences) {
+      sentence.forEach((word, i) => {
+        if (!functionWords.has(word)) return;
+        functionCounts[word] = (functionCounts[word] || 0) + 1;
+        const next = sentence[i + 1];
+        if (next && functionWords.has(next)) {
+          ngramCounts[`${word} ${next}`] = (ngramCounts[`${word} ${next}`] || 0) + 1;
+        }
+      });
+    }
+
+    return {
+      wordCount: words.length,
+      meanSentenceLength: mean(lengths),
+      sentenceLengthSpread: standardDeviation(lengths),
+      histogram,
+      lexicalDiversity: movingTypeTokenRatio(words),
+      wordLength: mean(words.map((w) => Array.from(w).length)),
+      punctuation,
+      functionWords: perThousand(functionCounts, wordCount),
+      functionNgrams: perThousand(ngramCounts, wordCount),
+    };
+  }
+
+  private static compare(
+    features: SampleFeatures,
+    profile: WriterStyleProfileData
+  ): { consistency: number; components: Record<StyleComponent, number> } {
+    // Short texts are noisier than the profile's samples; widen the tolerance accordingly
+    const tolerance = Math.sqrt(Math.max(1, profile.sampleWords / Math.max(1, features.wordCount)));
+
+    const components: Record<StyleComponent, number> = {
+      sentenceLength: componentScore(
+        (Math.max(
+          scalarZ(features.meanSentenceLength, profile.sentenceLength),
+          distanceZ(histogramDistance(features.histogram, profile.sentenceLength.histogram), profile.sentenceLength.selfDistance)
+        ) +
+          scalarZ(features.sentenceLengthSpread, profile.sentenceLengthSpread)) /
+          2 /
+          tolerance
+      ),
+      lexicalDiversity: componentScore(scalarZ(features.lexicalDiversity, profile.lexicalDiversity) / tolerance),
+      wordLength: componentScore(scalarZ(features.wordLength, profile.wordLength) / tolerance),
+      punctuation: componentScore(
+        distanceZ(delta(features.punctuation, profile.punctuation), profile.punctuation.selfDistance) / tolerance
+      ),
+      functionWords: componentScore(
+        distanceZ(delta(features.functionWords, profile.functionWords), profile.functionWords.selfDistance) / tolerance
+      ),
+      functionNgrams: componentScore(
+        distanceZ(delta(features.functionNgrams, profile.functionNgrams), profile.functionNgrams.selfDistance) / tolerance
+      ),
+    };
+
+    const consistency = (Object.keys(COMPONENT_WEIGHTS) as StyleComponent[]).reduce(
+      (sum, key) => sum + COMPONENT_WEIGHTS[key] * components[key],
+      0
+    );
+
+    return { consistency: Math.round(consistency), components };
+  }
+
+  private static classify(consistency: number): StyleConsistencyClassification {
+    if (consistency >= CONSISTENT_THRESHOLD) return "consistent";
+    if (consistency >= INCONSISTENT_THRESHOLD) return "uncertain";
+    return "inconsistent";
+  }
+
+  /**
+   * Most frequent bigrams and trigrams that start and end with a content word
+   * (short fragments such as the "s" of "that's" don't count)
+   */
+  private static commonNgrams(texts: string[], functionWords: Set<string>): Array<{ ngram: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const sentence of texts.flatMap((text) => this.splitSentences(text))) {
+      for (let n = 2; n <= 3; n++) {
+        for (let i = 0; i + n <= sentence.length; i++) {
+          const gram = sentence.slice(i, i + n);
+          const edges = [gram[0], gram[n - 1]];
+          if (edges.some((w) => functionWords.has(w) || w.length < 3 || /^\p{N}+$/u.test(w))) continue;
+          const key = gram.join(" ");
+          counts.set(key, (counts.get(key) || 0) + 1);
+        }
+      }
+    }
+
+    return Array.from(counts.entries())
+      .filter(([, count]) => count >= 3)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, COMMON_NGRAMS)
+      .map(([ngram, count]) => ({ ngram, count }));
+  }
+
+  /**
+   * Words of each sentence
+   */
+  private static splitSentences(text: string): string[][] {
+    return Array.from(text.matchAll(/[^.!?。！？\n]+[.!?。！？]*/gu))
+      .map((match) => FingerprintService.tokenize(match[0]).map((t) => t.word))
+      .filter((words) => words.length > 0);
+  }
+
+  /**
+   * Consecutive paragraphs merged until each chunk has at least `minWords` words
+   * (a short remainder joins the last chunk)
+   */
+  private static chunk(text: string, minWords: number): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let current: TextChunk | null = null;
+
+    for (const match of text.matchAll(/[^\n]+/g)) {
+      const words = FingerprintService.tokenize(match[0]).length;
+      if (!words) continue;
+
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (!current) {
+        current = { start, end, text: "", wordCount: 0 };
+      }
+      current.end = end;
+      current.wordCount += words;
+
+      if (current.wordCount >= minWords) {
+        chunks.push(current);
+        current = null;
+      }
+    }
+
+    if (current) {
+      const last = chunks[chunks.length - 1];
+      if (last) {
+        last.end = current.end;
+        last.wordCount += current.wordCount;
+      } else {
+        chunks.push(current);
+      }
+    }
+
+    return chunks.map((c) => ({ ...c, text: text.slice(c.start, c.end) }));
+  }
+
+  private static stripBibliography(text: string): string {
+    const start = OriginalityExclusionService.findBibliographyStart(text);
+    return start === null ? text : text.slice(0, start);
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function statistic(values: number[]): StyleStatistic {
+  return { mean: round(mean(values)), std: round(standardDeviation(values)) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function perThousand(counts: Record<string, number>, words: number): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const [key, count] of Object.entries(counts)) rates[key] = (count / words) * 1000;
+  return rates;
+}
+
+function movingTypeTokenRatio(words: string[], window: number = 50): number {
+  if (words.length === 0) return 0;
+  if (words.length <= window) return new Set(words).size / words.length;
+
+  let total = 0;
+  const windows = words.length - window + 1;
+  for (let i = 0; i < windows; i++) {
+    total += new Set(words.slice(i, i + window)).size / window;
+  }
+  return total / windows;
+}
+
+function histogramDistance(a: number[], b: number[]): number {
+  // Total variation distance, 0-1
+  return a.reduce((sum, value, i) => sum + Math.abs(value - (b[i] || 0)), 0) / 2;
+}
+
+function topKeys(vectors: Array<Record<string, number>>, limit: number): string[] {
+  const totals = new Map<string, number>();
+  for (const vector of vectors) {
+    for (const [key, value] of Object.entries(vector)) totals.set(key, (totals.get(key) || 0) + value);
+  }
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+function frequencyProfile(
+  vectors: Array<Record<string, number>>,
+  keys: string[],
+  minStd: number
+): StyleFrequencyProfile {
+  const dimensions = keys.map((key) => {
+    const values = vectors.map((v) => v[key] || 0);
+    const m = mean(values);
+    // Floor the spread so a habit that never varied in the samples doesn't dominate
+    return { key, mean: round(m), std: round(Math.max(standardDeviation(values), m * 0.15, minStd)) };
+  });
+
+  const profile = { dimensions, selfDistance: { mean: 0, std: 0 } };
+  profile.selfDistance = statistic(vectors.map((v) => delta(v, profile)));
+  return profile;
+}
+
+/**
+ * Burrows' Delta: mean absolute z-score over the profile's dimensions
+ */
+function delta(vector: Record<string, number>, profile: Pick<StyleFrequencyProfile, "dimensions">): number {
+  if (!profile.dimensions.length) return 0;
+  return mean(profile.dimensions.map((d) => Math.abs((vector[d.key] || 0) - d.mean) / d.std));
+}
+
+function scalarZ(value: number, stat: StyleStatistic): number {
+  return Math.abs(value - stat.mean) / Math.max(stat.std, Math.abs(stat.mean) * 0.05, 1e-6);
+}
+
+function distanceZ(distance: number, self: StyleStatistic): number {
+  // One-sided: being closer to the profile than usual is never suspicious
+  return Math.max(0, (distance - self.mean) / Math.max(self.std, self.mean * 0.1, 0.01));
+}
+
+function componentScore(z: number): number {
+  // z = 1 -> 88, z = 2 -> 61, z = 3 -> 32
+  return Math.round(100 * Math.exp(-(z * z) / 8));
+}
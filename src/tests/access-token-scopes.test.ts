@@ -0,0 +1,174 @@
+/**
+ * Personal Access Token Scope Tests
+ * Verifies token validation at creation and per-route scope enforcement
+ */
+
+import type { PersonalAccessToken, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { hash } from "../lib/encryptionUtils";
+import { PersonalAccessTokenService } from "../services/personalAccessTokenService";
+import { TokenScope } from "../types/accessTokens";
+import { tokenOrSessionAuth } from "../middleware/accessTokenAuth";
+import { resetPrismaMock } from "./mocks/prisma";
+import { accessTokenRow, mockNext, mockRequest, mockResponse } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const TOKEN = "cwz_pat_test-token";
+
+type TokenWithUser = PersonalAccessToken & { user: { id: string; email: string; full_name: string | null } };
+
+function tokenRequest(method: string, path: string, token = TOKEN) {
+  return mockRequest({ method, path, headers: { authorization: `Bearer ${token}` } });
+}
+
+describe("Personal Access Token Scope Tests", () => {
+  let record: TokenWithUser;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    record = {
+      ...accessTokenRow({
+        token_hash: hash(TOKEN),
+        scopes: ["citations:read", "exports:write"],
+        last_used_at: new Date(),
+      }),
+      user: { id: "user-1", email: "user@example.com", full_name: null },
+    };
+
+    jest.mocked(prisma.personalAccessToken.count).mockResolvedValue(0);
+    jest
+      .mocked(prisma.personalAccessToken.create)
+      .mockImplementation(async ({ data }: Prisma.PersonalAccessTokenCreateArgs) =>
+        accessTokenRow({ id: "token-2", name: data.name, scopes: data.scopes as string[] })
+      );
+    jest
+      .mocked(prisma.personalAccessToken.findUnique)
+      .mockImplementation(async ({ where }: Prisma.PersonalAccessTokenFindUniqueArgs) =>
+        where.token_hash === record.token_hash ? record : null
+      );
+    jest.mocked(prisma.personalAccessToken.update).mockResolvedValue(record);
+  });
+
+  describe("Token Creation", () => {
+    it("should reject unknown scopes", async () => {
+      await expect(
+        PersonalAccessTokenService.createToken("user-1", {
+          name: "CI",
+          scopes: ["citations:read", "admin:all" as TokenScope],
+        })
+      ).rejects.toThrow("Invalid scopes: admin:all");
+    });
+
+    it("should reject a token without scopes", async () => {
+      await expect(
+        PersonalAccessTokenService.createToken("user-1", { name: "CI", scopes: [] })
+      ).rejects.toThrow("Invalid scopes");
+    });
+
+    it("should store only the hash and return the token once", async () => {
+      const created = await PersonalAccessTokenService.createToken("user-1", {
+        name: "CI",
+        scopes: ["jobs:read", "jobs:read"],
+      });
+
+      expect(PersonalAccessTokenService.isAccessToken(created.token)).toBe(true);
+      expect(created.scopes).toEqual(["jobs:read"]);
+
+      const [{ data }] = jest.mocked(prisma.personalAccessToken.create).mock.calls[0] as [Prisma.PersonalAccessTokenCreateArgs];
+      expect(data.token_hash).toBe(hash(created.token));
+      expect(JSON.stringify(data)).not.toContain(created.token);
+    });
+  });
+
+  describe("Token Authentication", () => {
+    it("should reject revoked and expired tokens", async () => {
+      record.revoked_at = new Date();
+      expect(await PersonalAccessTokenService.authenticate(TOKEN)).toBeNull();
+
+      record.revoked_at = null;
+      record.expires_at = new Date(Date.now() - 1000);
+      expect(await PersonalAccessTokenService.authenticate(TOKEN)).toBeNull();
+    });
+
+    it("should resolve a valid token to its user and scopes", async () => {
+      const auth = await PersonalAccessTokenService.authenticate(TOKEN);
+
+      expect(auth).not.toBeNull();
+      expect(auth!.user.id).toBe("user-1");
+      expect(auth!.scopes).toEqual(["citations:read", "exports:write"]);
+    });
+  });
+
+  describe("Route Scopes", () => {
+    const citationScopes = { read: "citations:read", write: "citations:write" } as const;
+
+    it("should allow reads with the read scope", async () => {
+      const req = tokenRequest("GET", "/");
+      const res = mockResponse();
+      const next = mockNext();
+
+      await tokenOrSessionAuth(citationScopes)(req, res, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(req.user!.id).toBe("user-1");
+      expect(req.accessToken!.scopes).toContain("citations:read");
+    });
+
+    it("should refuse writes without the write scope", async () => {
+      const res = mockResponse();
+      const next = mockNext();
+
+      await tokenOrSessionAuth(citationScopes)(tokenRequest("POST", "/"), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Access token is missing the required scope: citations:write",
+        })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should map GET and HEAD on /api/files to exports:read", async () => {
+      const fileScopes = { read: "exports:read", write: "exports:write" } as const;
+
+      for (const method of ["GET", "HEAD"]) {
+        const res = mockResponse();
+        await tokenOrSessionAuth(fileScopes)(tokenRequest(method, "/"), res, mockNext());
+        expect(res.status).toHaveBeenCalledWith(403);
+      }
+
+      const next = mockNext();
+      await tokenOrSessionAuth(fileScopes)(tokenRequest("POST", "/export-pdf"), mockResponse(), next);
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let route overrides take precedence over the method scope", async () => {
+      const next = mockNext();
+      const scopes = { write: "citations:write", routes: { "POST /audit": "citations:read" } } as const;
+
+      await tokenOrSessionAuth(scopes)(tokenRequest("POST", "/audit"), mockResponse(), next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep endpoints without a scope session-only", async () => {
+      const res = mockResponse();
+
+      await tokenOrSessionAuth({ read: "citations:read" })(tokenRequest("DELETE", "/1"), res, mockNext());
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "This endpoint is not available to access tokens" })
+      );
+    });
+
+    it("should reject unknown tokens", async () => {
+      const res = mockResponse();
+      await tokenOrSessionAuth(citationScopes)(tokenRequest("GET", "/", "cwz_pat_unknown"), res, mockNext());
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Authorship Replay Tests
+ * Verifies that a document is rebuilt from its recorded changes, that replay
+ * streams can be scrubbed from any snapshot, and that verifiers only see the
+ * replay of a certificate its owner shared
+ */
+
+import type { Prisma, RealTimeActivity } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { AuthorshipReplayService, ReplayDelta } from "../services/authorshipReplayService";
+import { ProjectAccessService } from "../services/projectAccessService";
+import verifyRouter from "../api/certificates/verify";
+import { resetPrismaMock } from "./mocks/prisma";
+import {
+  certificateRow,
+  mockNext,
+  mockRequest,
+  mockResponse,
+  projectRow,
+  realTimeActivityRow,
+  routeHandler,
+} from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const START = new Date("2026-10-01T10:00:00Z").getTime();
+
+// A change `seconds` after START: `before` replaced by `after` at `position`
+function change(seconds: number, position: number | null, before: string, after: string): RealTimeActivity {
+  return realTimeActivityRow({
+    timestamp: new Date(START + seconds * 1000),
+    cursor_position: position,
+    content_before: before,
+    content_after: after,
+  });
+}
+
+function tiptap(text: string): Prisma.JsonObject {
+  return { type: "doc", content: [{ type: "paragraph", content: [{ type: "text", text }] }] };
+}
+
+function applyAll(text: string, deltas: ReplayDelta[]): string {
+  return deltas.reduce((state, delta) => state.slice(0, delta.p) + delta.i + state.slice(delta.p + delta.d), text);
+}
+
+describe("Authorship Replay Tests", () => {
+  let events: RealTimeActivity[];
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.spyOn(ProjectAccessService, "assertAccess").mockResolvedValue("viewer");
+    events = [
+      change(0, 0, "", "The fox"),
+      change(0.5, 7, "", " runs."),
+      change(5, 4, "fox", "quick fox"),
+      change(6, 0, "runs", "sleeps"), // Cursor drifted: "runs" is further along
+    ];
+    jest.mocked(prisma.realTimeActivity.findMany).mockImplementation(async () => events);
+    jest.mocked(prisma.project.findUnique).mockResolvedValue(projectRow({ content: tiptap("The quick fox sleeps.") }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Document State", () => {
+    it("should rebuild the document from its changes, re-anchoring drifted ones", async () => {
+      const state = await AuthorshipReplayService.getStateAt("project-1", "user-1", new Date(START + 60000));
+
+      expect(state.text).toBe("The quick fox sleeps.");
+      expect(state.integrity).toEqual({ events: 4, appliedCleanly: 3, resynced: 1, unmatched: 0 });
+    });
+
+    it("should only replay changes up to the requested time", async () => {
+      const at = new Date(START + 1000);
+
+      await AuthorshipReplayService.getStateAt("project-1", "user-1", at);
+
+      const [args] = jest.mocked(prisma.realTimeActivity.findMany).mock.calls[0] as [
+        Prisma.RealTimeActivityFindManyArgs,
+      ];
+      expect(args.where!.timestamp).toEqual({ lte: at });
+      expect(args.where!.project_id).toBe("project-1");
+    });
+
+    it("should take a whole-document change as the new text and count unconfirmed changes", async () => {
+      events = [
+        change(0, 0, "", "First draft."),
+        change(10, 0, "First draft.", "Second draft."),
+        change(20, 500, "missing", " The end."),
+      ];
+
+      const state = await AuthorshipReplayService.getStateAt("project-1", "user-1", new Date(START + 60000));
+
+      expect(state.text).toBe("Second draft. The end.");
+      expect(state.integrity.unmatched).toBe(1);
+    });
+  });
+
+  describe("Replay Streams", () => {
+    it("should merge continuous typing and end on the saved document", async () => {
+      const stream = await AuthorshipReplayService.getReplayStream("project-1", "user-1");
+
+      expect(stream.deltas).toEqual([
+        { t: 500, p: 0, d: 0, i: "The fox runs." },
+        { t: 5000, p: 4, d: 0, i: "quick " },
+        { t: 6000, p: 14, d: 3, i: "sleep" }, // Trimmed to the part that changed
+      ]);
+      expect(applyAll("", stream.deltas)).toBe("The quick fox sleeps.");
+      expect(stream.integrity.matchesCurrentDocument).toBe(true);
+    });
+
+    it("should let clients seek from any snapshot", async () => {
+      const words = Array.from({ length: 250 }, (_, i) => `word${i} `);
+      let length = 0;
+      events = words.map((word, i) => {
+        const event = change(i * 2, length, "", word);
+        length += word.length;
+        return event;
+      });
+
+      const stream = await AuthorshipReplayService.getReplayStream("project-1", "user-1", { snapshotEvery: 100 });
+
+      expect(stream.snapshots.map((snapshot) => snapshot.index)).toEqual([0, 100, 200]);
+      const [, , last] = stream.snapshots;
+      expect(last.text).toBe(words.slice(0, 200).join(""));
+      expect(applyAll(last.text, stream.deltas.slice(last.index))).toBe(words.join(""));
+    });
+  });
+
+  describe("Verifier Access", () => {
+    const replay = routeHandler(verifyRouter, "get", "/verify/:certificateId/replay");
+    const request = () => mockRequest({ params: { certificateId: "certificate-1" } });
+
+    it("should refuse until the owner shares the replay, and for revoked certificates", async () => {
+      jest.mocked(prisma.certificate.findUnique).mockResolvedValueOnce(certificateRow({ replay_shared: false }));
+      const unshared = mockResponse();
+      await replay(request(), unshared, mockNext());
+
+      jest
+        .mocked(prisma.certificate.findUnique)
+        .mockResolvedValueOnce(certificateRow({ replay_shared: true, status: "revoked" }));
+      const revoked = mockResponse();
+      await replay(request(), revoked, mockNext());
+
+      expect(unshared.status).toHaveBeenCalledWith(403);
+      expect(revoked.status).toHaveBeenCalledWith(410);
+      expect(prisma.realTimeActivity.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should replay a shared certificate's project up to issuance", async () => {
+      const issuedAt = new Date(START + 5500);
+      jest
+        .mocked(prisma.certificate.findUnique)
+        .mockResolvedValue(certificateRow({ replay_shared: true, created_at: issuedAt }));
+      const res = mockResponse();
+
+      await replay(request(), res, mockNext());
+
+      const [args] = jest.mocked(prisma.realTimeActivity.findMany).mock.calls[0] as [
+        Prisma.RealTimeActivityFindManyArgs,
+      ];
+      expect(args.where).toEqual(expect.objectContaining({ project_id: "project-1", timestamp: { lte: issuedAt } }));
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should only let the owner share a certificate's replay", async () => {
+      jest.mocked(prisma.certificate.findFirst).mockResolvedValue(null);
+
+      await expect(
+        AuthorshipReplayService.setCertificateReplaySharing("certificate-1", "user-2", true)
+      ).rejects.toThrow("Certificate not found");
+
+      const [args] = jest.mocked(prisma.certificate.findFirst).mock.calls[0] as [Prisma.CertificateFindFirstArgs];
+      expect(args.where).toEqual({ id: "certificate-1", user_id: "user-2" });
+      expect(prisma.certificate.update).not.toHaveBeenCalled();
+    });
+  });
+});
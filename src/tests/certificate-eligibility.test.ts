@@ -0,0 +1,301 @@
+/**
+ * Certificate Eligibility Tests
+ * Verifies the checks a project must pass before originality and completion certificates
+ * are issued, that requests are only charged once they pass, and that the evidence is signed
+ */
+
+import crypto from "crypto";
+import type { OriginalityScan, Prisma, SimilarityMatch } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { SecretsService } from "../services/secrets-service";
+import { AuthorshipReportService } from "../services/authorshipReportService";
+import { CertificateEligibilityService } from "../services/certificateEligibilityService";
+import { CertificateSigningService } from "../services/certificateSigningService";
+import { EntitlementService } from "../services/EntitlementService";
+import { JobQueueService } from "../services/jobQueueService";
+import { generateCertificate } from "../api/authorship/generate";
+import { resetPrismaMock } from "./mocks/prisma";
+import {
+  authorshipStats,
+  jobRow,
+  mockRequest,
+  mockResponse,
+  originalityScanRow,
+  projectRow,
+  signingKeyRow,
+  similarityMatchRow,
+  userRow,
+} from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+jest.mock("../lib/supabase/client", () => ({
+  getSupabaseClient: async () => ({
+    auth: { getUser: async () => ({ data: { user: { id: "user-1" } }, error: null }) },
+  }),
+}));
+
+const DOCUMENT_TEXT = "Foxes are quick and clever animals that live in many parts of the world.";
+
+const THRESHOLDS = {
+  maxSimilarityScore: 15,
+  maxScanAgeDays: 30,
+  minCitationMatchRate: 0.9,
+  maxAiAssistedPercentage: 20,
+};
+
+const paragraph = (text: string) => ({ type: "paragraph", content: [{ type: "text", text }] });
+
+const CITED_DOCUMENT = {
+  type: "doc",
+  content: [
+    paragraph("Foxes are quick (Smith, 2020). Cats are slow (Doe, 2019)."),
+    { type: "heading", content: [{ type: "text", text: "References" }] },
+    paragraph("Doe, A. (2019). Cats at rest. Feline Press."),
+    paragraph("Smith, J. (2020). Foxes in motion. Journal of Animals, 4, 1-10."),
+  ],
+};
+
+type ScanWithMatches = OriginalityScan & { matches: SimilarityMatch[] };
+
+function completedScan(overrides: Partial<OriginalityScan> = {}): ScanWithMatches {
+  return {
+    ...originalityScanRow({ scanned_content: DOCUMENT_TEXT, ...overrides }),
+    matches: [similarityMatchRow(), similarityMatchRow({ id: "match-2" })],
+  };
+}
+
+describe("Certificate Eligibility Tests", () => {
+  let scan: ScanWithMatches | null;
+  let content: Prisma.JsonValue;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    scan = completedScan();
+    content = DOCUMENT_TEXT;
+
+    jest
+      .mocked(prisma.project.findUnique)
+      .mockImplementation(async () => projectRow({ user_id: "user-1", content, citation_style: "apa" }));
+    jest.mocked(prisma.originalityScan.findFirst).mockImplementation(async () => scan);
+    jest.mocked(prisma.citation.findMany).mockResolvedValue([]);
+
+    jest.spyOn(SecretsService, "getCertificateThresholds").mockResolvedValue(THRESHOLDS);
+    jest
+      .spyOn(AuthorshipReportService, "generateAuthorshipReport")
+      .mockResolvedValue(authorshipStats({ aiAssistedPercentage: 10 }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Authorship Certificates", () => {
+    it("should always be eligible", async () => {
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "authorship");
+
+      expect(eligibility).toEqual({ certificateType: "authorship", eligible: true, failures: [] });
+    });
+  });
+
+  describe("Originality Certificates", () => {
+    it("should accept a recent web scan of the current text under the limit", async () => {
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "originality");
+
+      expect(eligibility.eligible).toBe(true);
+      expect(eligibility.originality).toEqual(
+        expect.objectContaining({ scanId: "scan-1", score: 8, filteredScore: 4, sourceCount: 1, matchCount: 2 })
+      );
+    });
+
+    it("should require a completed scan", async () => {
+      scan = null;
+
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "originality");
+
+      expect(eligibility.eligible).toBe(false);
+      expect(eligibility.failures).toEqual(["No completed originality scan - run a scan first"]);
+    });
+
+    it("should apply the limit to the score before exclusions", async () => {
+      scan = completedScan({ overall_score: 5, raw_score: 22 });
+
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "originality");
+
+      expect(eligibility.eligible).toBe(false);
+      expect(eligibility.failures).toEqual(["Similarity score 22% (before exclusions) exceeds the 15% limit"]);
+    });
+
+    it("should reject stale, offline and outdated scans", async () => {
+      scan = completedScan({
+        scanned_at: new Date(Date.now() - 45 * 24 * 60 * 60 * 1000),
+        provider: "local",
+      });
+      content = `${DOCUMENT_TEXT} A sentence added after the scan.`;
+
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "originality");
+
+      expect(eligibility.eligible).toBe(false);
+      expect(eligibility.failures).toEqual([
+        "The document has changed since the latest scan - scan it again",
+        "The latest scan did not search the web (provider unavailable) - scan it again",
+        "Latest scan is 45 days old (at most 30 allowed)",
+      ]);
+    });
+
+    it("should ignore whitespace and punctuation differences in the scanned text", async () => {
+      content = `<p>${DOCUMENT_TEXT.replace(/ /g, "  ").replace(".", "")}</p>`;
+
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "originality");
+
+      expect(eligibility.eligible).toBe(true);
+    });
+  });
+
+  describe("Completion Certificates", () => {
+    it("should accept a document whose citations all have reference entries", async () => {
+      content = CITED_DOCUMENT;
+
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "completion");
+
+      expect(eligibility.failures).toEqual([]);
+      expect(eligibility.eligible).toBe(true);
+      expect(eligibility.completion!.citationAudit).toEqual(
+        expect.objectContaining({ style: "APA", totalCitations: 2, matched: 2, referenceSectionFound: true })
+      );
+    });
+
+    it("should require citations and a reference section", async () => {
+      content = { type: "doc", content: [paragraph(DOCUMENT_TEXT)] };
+
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "completion");
+
+      expect(eligibility.eligible).toBe(false);
+      expect(eligibility.failures).toEqual(["The document has no citations", "No reference section found"]);
+    });
+
+    it("should reject unmatched citations and heavy AI assistance", async () => {
+      content = {
+        ...CITED_DOCUMENT,
+        content: [paragraph("Owls hunt at night (Brown, 2018)."), ...CITED_DOCUMENT.content],
+      };
+      jest
+        .spyOn(AuthorshipReportService, "generateAuthorshipReport")
+        .mockResolvedValue(authorshipStats({ aiAssistedPercentage: 35 }));
+
+      const eligibility = await CertificateEligibilityService.check("project-1", "user-1", "completion");
+
+      expect(eligibility.eligible).toBe(false);
+      expect(eligibility.failures).toEqual([
+        "1 of 3 citations have no reference entry (at least 90% must match)",
+        "AI-assisted content is 35% (at most 20% allowed)",
+      ]);
+    });
+
+    it("should explain every failed check when asserting eligibility", async () => {
+      content = { type: "doc", content: [paragraph(DOCUMENT_TEXT)] };
+
+      await expect(
+        CertificateEligibilityService.assertEligible("project-1", "user-1", "completion")
+      ).rejects.toThrow(
+        "Project does not qualify for a completion certificate: The document has no citations; No reference section found"
+      );
+    });
+  });
+
+  describe("Certificate Requests", () => {
+    const request = (certificateType: string) =>
+      mockRequest({
+        headers: { authorization: "Bearer session-token", prefer: "respond-async" },
+        body: { projectId: "project-1", certificateType },
+      });
+
+    beforeEach(() => {
+      jest.mocked(prisma.user.findUnique).mockResolvedValue(userRow());
+      jest.spyOn(EntitlementService, "assertCanUse").mockResolvedValue(true);
+      jest.spyOn(JobQueueService, "enqueue").mockResolvedValue(jobRow({ status: "queued" }));
+    });
+
+    it("should not charge for a project that does not qualify", async () => {
+      scan = null;
+      const res = mockResponse();
+
+      await generateCertificate(request("originality"), res);
+
+      expect(res.status).toHaveBeenCalledWith(422);
+      expect(EntitlementService.assertCanUse).not.toHaveBeenCalled();
+      expect(JobQueueService.enqueue).not.toHaveBeenCalled();
+    });
+
+    it("should charge once the checks pass and queue the certificate", async () => {
+      const res = mockResponse();
+
+      await generateCertificate(request("originality"), res);
+
+      expect(EntitlementService.assertCanUse).toHaveBeenCalledWith("user-1", "certificate");
+      expect(JobQueueService.enqueue).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(202);
+    });
+
+    it("should not charge for another user's project", async () => {
+      jest.mocked(prisma.project.findUnique).mockResolvedValue(projectRow({ user_id: "owner-1" }));
+      const res = mockResponse();
+
+      await generateCertificate(request("authorship"), res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(EntitlementService.assertCanUse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Signed Evidence", () => {
+    it("should sign the originality scan and citation audit the certificate relies on", async () => {
+      const { privateKey } = crypto.generateKeyPairSync("ed25519");
+      jest
+        .spyOn(SecretsService, "getCertificateSigningKey")
+        .mockResolvedValue(privateKey.export({ type: "pkcs8", format: "pem" }).toString());
+      jest
+        .mocked(prisma.certificateSigningKey.upsert)
+        .mockImplementation(async ({ create }: Prisma.CertificateSigningKeyUpsertArgs) =>
+          signingKeyRow({ id: create.id, public_key: create.public_key })
+        );
+      jest.mocked(prisma.certificateSigningKey.updateMany).mockResolvedValue({ count: 0 });
+
+      const originality = await CertificateEligibilityService.check("project-1", "user-1", "originality");
+      content = CITED_DOCUMENT;
+      const completion = await CertificateEligibilityService.check("project-1", "user-1", "completion");
+
+      const signed = await CertificateSigningService.signCertificate({
+        certificateId: "certificate-1",
+        certificateType: "originality",
+        issuedAt: new Date(),
+        userId: "user-1",
+        userName: "Sam Writer",
+        projectId: "project-1",
+        projectTitle: "Foxes and Cats",
+        documentText: DOCUMENT_TEXT,
+        stats: authorshipStats(),
+        originality: originality.originality,
+        citationAudit: completion.completion!.citationAudit,
+      });
+
+      expect(signed!.manifest.originality).toEqual(
+        expect.objectContaining({ scanId: "scan-1", score: 8, filteredScore: 4, provider: "copyleaks" })
+      );
+      expect(signed!.manifest.citationAudit).toEqual(completion.completion!.citationAudit);
+
+      jest
+        .mocked(prisma.certificateSigningKey.findUnique)
+        .mockResolvedValue(signingKeyRow({ id: signed!.keyId, public_key: publicKeyOf(privateKey) }));
+      const tampered = {
+        ...signed!.manifest,
+        originality: { ...signed!.manifest.originality!, score: 1 },
+      };
+      const verification = await CertificateSigningService.verifyManifest(tampered, signed!.signature);
+      expect(verification.signatureValid).toBe(false);
+    });
+  });
+});
+
+function publicKeyOf(privateKey: crypto.KeyObject): string {
+  return crypto.createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString();
+}
@@ -0,0 +1,164 @@
+/**
+ * Certificate Lifecycle Tests
+ * Verifies revocation, that re-issues are only charged for certificates that can
+ * still be re-issued, and how verifiers follow a re-issue chain
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { CertificateEligibilityService } from "../services/certificateEligibilityService";
+import { CertificateLifecycleService } from "../services/certificateLifecycleService";
+import { EntitlementService } from "../services/EntitlementService";
+import { JobQueueService } from "../services/jobQueueService";
+import { SecretsService } from "../services/secrets-service";
+import lifecycleRouter from "../api/authorship/lifecycle";
+import { resetPrismaMock } from "./mocks/prisma";
+import { certificateRow, jobRow, mockNext, mockRequest, mockResponse, routeHandler } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+describe("Certificate Lifecycle Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.spyOn(SecretsService, "getAdminUserIds").mockResolvedValue(["admin-1"]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Revocation", () => {
+    beforeEach(() => {
+      jest.mocked(prisma.certificate.findUnique).mockResolvedValue(certificateRow());
+      jest
+        .mocked(prisma.certificate.update)
+        .mockImplementation(async ({ data }: Prisma.CertificateUpdateArgs) =>
+          certificateRow({ status: data.status as string, status_reason: data.status_reason as string })
+        );
+    });
+
+    it("should let the owner and administrators revoke a certificate", async () => {
+      const byOwner = await CertificateLifecycleService.revoke("certificate-1", "user-1", "Misrepresented work");
+      const byAdmin = await CertificateLifecycleService.revoke("certificate-1", "admin-1", "Misrepresented work");
+
+      expect(byOwner.status).toBe("revoked");
+      expect(byAdmin.status_reason).toBe("Misrepresented work");
+    });
+
+    it("should hide other users' certificates", async () => {
+      await expect(CertificateLifecycleService.revoke("certificate-1", "user-2", "No")).rejects.toThrow(
+        "Certificate not found"
+      );
+      expect(prisma.certificate.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Re-issue Requests", () => {
+    const reissue = routeHandler(lifecycleRouter, "post", "/certificates/:id/reissue");
+    const request = (headers: Record<string, string> = { prefer: "respond-async" }) =>
+      mockRequest({ user: { id: "user-1" }, params: { id: "certificate-1" }, headers });
+
+    let previous: ReturnType<typeof certificateRow> & { superseded_by: { id: string } | null };
+
+    beforeEach(() => {
+      previous = { ...certificateRow({ certificate_type: "originality" }), superseded_by: null };
+      jest.mocked(prisma.certificate.findFirst).mockImplementation(async () => previous);
+      jest.mocked(prisma.job.findFirst).mockResolvedValue(null);
+      jest
+        .spyOn(CertificateEligibilityService, "check")
+        .mockResolvedValue({ certificateType: "originality", eligible: true, failures: [] });
+      jest.spyOn(EntitlementService, "assertCanUse").mockResolvedValue(true);
+      jest.spyOn(JobQueueService, "enqueue").mockResolvedValue(jobRow({ type: "certificate_generation" }));
+    });
+
+    it("should not charge for a certificate that was already re-issued or revoked", async () => {
+      previous = { ...previous, superseded_by: { id: "certificate-2" } };
+      const superseded = mockResponse();
+      await reissue(request(), superseded, mockNext());
+
+      previous = { ...previous, superseded_by: null, status: "revoked" };
+      const revoked = mockResponse();
+      await reissue(request(), revoked, mockNext());
+
+      expect(superseded.status).toHaveBeenCalledWith(409);
+      expect(revoked.status).toHaveBeenCalledWith(409);
+      expect(EntitlementService.assertCanUse).not.toHaveBeenCalled();
+    });
+
+    it("should not charge while a re-issue of the certificate is still running", async () => {
+      jest.mocked(prisma.job.findFirst).mockResolvedValue(jobRow({ status: "running" }));
+      const res = mockResponse();
+
+      await reissue(request(), res, mockNext());
+
+      const [args] = jest.mocked(prisma.job.findFirst).mock.calls[0] as [Prisma.JobFindFirstArgs];
+      expect(args.where).toEqual(
+        expect.objectContaining({ payload: { path: ["previousCertificateId"], equals: "certificate-1" } })
+      );
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(EntitlementService.assertCanUse).not.toHaveBeenCalled();
+    });
+
+    it("should not charge when the project no longer qualifies", async () => {
+      jest.spyOn(CertificateEligibilityService, "check").mockResolvedValue({
+        certificateType: "originality",
+        eligible: false,
+        failures: ["No completed originality scan - run a scan first"],
+      });
+      const res = mockResponse();
+
+      await reissue(request(), res, mockNext());
+
+      expect(res.status).toHaveBeenCalledWith(422);
+      expect(EntitlementService.assertCanUse).not.toHaveBeenCalled();
+    });
+
+    it("should charge and queue the re-issue for asynchronous clients", async () => {
+      const res = mockResponse();
+
+      await reissue(request(), res, mockNext());
+
+      expect(EntitlementService.assertCanUse).toHaveBeenCalledWith("user-1", "certificate");
+      expect(JobQueueService.enqueue).toHaveBeenCalledWith(
+        "certificate_generation",
+        "user-1",
+        { projectId: "project-1", certificateType: "originality", previousCertificateId: "certificate-1" },
+        { projectId: "project-1" }
+      );
+      expect(res.status).toHaveBeenCalledWith(202);
+      expect(res.setHeader).toHaveBeenCalledWith("Preference-Applied", "respond-async");
+    });
+
+    it("should wait for the new certificate when the client did not opt in", async () => {
+      jest
+        .spyOn(JobQueueService, "waitFor")
+        .mockResolvedValue(jobRow({ status: "completed", result: { certificateId: "certificate-2" } }));
+      const res = mockResponse();
+
+      await reissue(request({}), res, mockNext());
+
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json.mock.calls[0][0].data).toEqual({ certificateId: "certificate-2", supersedes: "certificate-1" });
+    });
+  });
+
+  describe("Verification Status", () => {
+    it("should point verifiers of a superseded certificate at the latest issued one", async () => {
+      const chain: Record<string, { id: string; status: string; superseded_by: { id: string } | null }> = {
+        "certificate-1": { id: "certificate-1", status: "superseded", superseded_by: { id: "certificate-2" } },
+        "certificate-2": { id: "certificate-2", status: "superseded", superseded_by: { id: "certificate-3" } },
+        "certificate-3": { id: "certificate-3", status: "issued", superseded_by: null },
+      };
+      jest
+        .mocked(prisma.certificate.findUnique)
+        .mockImplementation(async ({ where }: Prisma.CertificateFindUniqueArgs) =>
+          Object.assign(certificateRow(), chain[where.id!])
+        );
+
+      const lifecycle = await CertificateLifecycleService.describe(certificateRow({ status: "superseded" }));
+
+      expect(lifecycle.supersededBy).toBe("certificate-2");
+      expect(lifecycle.latestValidCertificateId).toBe("certificate-3");
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Certificate Signing Tests
+ * Verifies that certificate manifests are signed, verified against published keys
+ * and matched against the documents verifiers hold
+ */
+
+import crypto from "crypto";
+import type { CertificateSigningKey, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { SecretsService } from "../services/secrets-service";
+import { CertificateSigningService, canonicalJson } from "../services/certificateSigningService";
+import { CertificateLifecycleService } from "../services/certificateLifecycleService";
+import verifyRouter from "../api/certificates/verify";
+import { resetPrismaMock } from "./mocks/prisma";
+import {
+  authorshipStats,
+  certificateRow,
+  mockNext,
+  mockRequest,
+  mockResponse,
+  routeHandler,
+  signingKeyRow,
+} from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const DOCUMENT =
+  "The quick brown fox jumps over the lazy dog while the slow grey cat watches from the warm windowsill. " +
+  "Every morning the fox returns to the same field, and every morning the cat pretends not to notice it at all.";
+
+describe("Certificate Signing Tests", () => {
+  const { privateKey } = crypto.generateKeyPairSync("ed25519");
+  const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+  // Published once: the service caches the active key for the life of the process
+  const publishedKeys: Record<string, CertificateSigningKey> = {};
+
+  const sign = () =>
+    CertificateSigningService.signCertificate({
+      certificateId: "certificate-1",
+      certificateType: "authorship",
+      issuedAt: new Date("2026-10-03T12:00:00Z"),
+      userId: "user-1",
+      userName: "Sam Writer",
+      projectId: "project-1",
+      projectTitle: "Foxes and Cats",
+      documentText: DOCUMENT,
+      stats: authorshipStats(),
+    });
+
+  beforeEach(() => {
+    resetPrismaMock();
+    Object.values(publishedKeys).forEach((key) => (key.retired_at = null));
+
+    jest
+      .mocked(prisma.certificateSigningKey.upsert)
+      .mockImplementation(async ({ create }: Prisma.CertificateSigningKeyUpsertArgs) => {
+        publishedKeys[create.id] = signingKeyRow({ id: create.id, public_key: create.public_key });
+        return publishedKeys[create.id];
+      });
+    jest.mocked(prisma.certificateSigningKey.updateMany).mockResolvedValue({ count: 0 });
+    jest
+      .mocked(prisma.certificateSigningKey.findUnique)
+      .mockImplementation(async ({ where }: Prisma.CertificateSigningKeyFindUniqueArgs) =>
+        publishedKeys[where.id!] ?? null
+      );
+    jest.spyOn(SecretsService, "getCertificateSigningKey").mockResolvedValue(privatePem);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Signing", () => {
+    it("should issue certificates unsigned when no key is configured", async () => {
+      jest.spyOn(SecretsService, "getCertificateSigningKey").mockResolvedValue(null);
+
+      expect(await sign()).toBeNull();
+    });
+
+    it("should sign the canonical manifest and publish the public key", async () => {
+      const signed = await sign();
+
+      expect(signed).not.toBeNull();
+      expect(signed!.manifest.keyId).toBe(signed!.keyId);
+      expect(signed!.manifest.document.contentHash).toBe(CertificateSigningService.contentHash(DOCUMENT));
+      expect(signed!.manifest.activity.firstEditDate).toBe("2026-10-01T09:00:00.000Z");
+
+      const publicKey = crypto.createPublicKey(publishedKeys[signed!.keyId].public_key);
+      const valid = crypto.verify(
+        null,
+        Buffer.from(canonicalJson(signed!.manifest)),
+        publicKey,
+        Buffer.from(signed!.signature, "base64url")
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("should reject signing keys that are not Ed25519", async () => {
+      const { privateKey: rsaKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+      jest
+        .spyOn(SecretsService, "getCertificateSigningKey")
+        .mockResolvedValue(rsaKey.export({ type: "pkcs8", format: "pem" }).toString());
+
+      await expect(sign()).rejects.toThrow("CERTIFICATE_SIGNING_KEY must be an Ed25519 private key");
+    });
+  });
+
+  describe("Verification", () => {
+    it("should accept an untouched manifest", async () => {
+      const signed = await sign();
+
+      const verification = await CertificateSigningService.verifyManifest(signed!.manifest, signed!.signature);
+
+      expect(verification).toEqual({
+        signed: true,
+        signatureValid: true,
+        keyId: signed!.keyId,
+        keyRetired: false,
+      });
+    });
+
+    it("should not depend on the order of manifest keys", async () => {
+      const signed = await sign();
+      const reordered = Object.fromEntries(Object.entries(signed!.manifest).reverse());
+
+      const verification = await CertificateSigningService.verifyManifest(reordered, signed!.signature);
+
+      expect(verification.signatureValid).toBe(true);
+    });
+
+    it("should detect a tampered manifest", async () => {
+      const signed = await sign();
+      const tampered = {
+        ...signed!.manifest,
+        activity: { ...signed!.manifest.activity, aiAssistedPercentage: 0 },
+      };
+
+      const verification = await CertificateSigningService.verifyManifest(tampered, signed!.signature);
+
+      expect(verification.signatureValid).toBe(false);
+      expect(verification.reason).toBe("Signature does not match the manifest");
+    });
+
+    it("should report unsigned certificates and unknown keys", async () => {
+      const signed = await sign();
+
+      expect((await CertificateSigningService.verifyManifest(null, null)).signed).toBe(false);
+
+      const unknownKey = await CertificateSigningService.verifyManifest(
+        { ...signed!.manifest, keyId: "0000000000000000" },
+        signed!.signature
+      );
+      expect(unknownKey.signatureValid).toBe(false);
+      expect(unknownKey.reason).toBe("Unknown signing key");
+    });
+
+    it("should keep signatures of retired keys valid", async () => {
+      const signed = await sign();
+      publishedKeys[signed!.keyId].retired_at = new Date();
+
+      const verification = await CertificateSigningService.verifyManifest(signed!.manifest, signed!.signature);
+
+      expect(verification.signatureValid).toBe(true);
+      expect(verification.keyRetired).toBe(true);
+    });
+  });
+
+  describe("Public Verification Endpoint", () => {
+    const verify = routeHandler(verifyRouter, "get", "/verify/:certificateId");
+
+    const verifyCertificate = async (fields: Parameters<typeof certificateRow>[0]) => {
+      const certificate = {
+        ...certificateRow(fields),
+        user: { full_name: "Sam Writer" },
+        project: { title: "Foxes and Cats", word_count: 40 },
+      };
+      jest.mocked(prisma.certificate.findUnique).mockResolvedValue(certificate);
+
+      const res = mockResponse();
+      await verify(mockRequest({ params: { certificateId: "certificate-1" } }), res, mockNext());
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      return res.json.mock.calls[0][0].data;
+    };
+
+    beforeEach(() => {
+      jest.spyOn(CertificateLifecycleService, "describe").mockResolvedValue({
+        status: "issued",
+        statusReason: null,
+        statusChangedAt: null,
+        previousCertificateId: null,
+        supersededBy: null,
+        latestValidCertificateId: "certificate-1",
+      });
+    });
+
+    it("should report a correctly signed certificate as verified and valid", async () => {
+      const signed = await sign();
+
+      const data = await verifyCertificate({
+        manifest: signed!.manifest as unknown as Prisma.JsonObject,
+        signature: signed!.signature,
+      });
+
+      expect(data.verificationStatus).toBe("verified");
+      expect(data.isValid).toBe(true);
+    });
+
+    it("should never report an unsigned certificate as valid", async () => {
+      const data = await verifyCertificate({ manifest: null, signature: null });
+
+      expect(data.verificationStatus).toBe("unverified");
+      expect(data.isValid).toBe(false);
+      expect(data.signature.reason).toBe("Certificate is not signed");
+    });
+
+    it("should reject a signed manifest that belongs to another certificate", async () => {
+      const signed = await sign();
+
+      const data = await verifyCertificate({
+        id: "certificate-2",
+        manifest: signed!.manifest as unknown as Prisma.JsonObject,
+        signature: signed!.signature,
+      });
+
+      expect(data.verificationStatus).toBe("invalid");
+      expect(data.isValid).toBe(false);
+      expect(data.signature.reason).toBe("Manifest belongs to a different certificate");
+    });
+  });
+
+  describe("Document Matching", () => {
+    it("should match the certified text exactly despite whitespace changes", async () => {
+      const signed = await sign();
+
+      const match = CertificateSigningService.matchDocument(signed!.manifest, DOCUMENT.replace(/ /g, "\n  "));
+
+      expect(match).toEqual({ match: "exact", similarity: 1 });
+    });
+
+    it("should tell similar copies from different documents", async () => {
+      const signed = await sign();
+
+      const similar = CertificateSigningService.matchDocument(signed!.manifest, `${DOCUMENT} Page 1 of 1`);
+      const different = CertificateSigningService.matchDocument(
+        signed!.manifest,
+        "An entirely different essay about rivers, bridges and the engineers who build them across wide valleys."
+      );
+
+      expect(similar.match).toBe("similar");
+      expect(different.match).toBe("different");
+    });
+  });
+});
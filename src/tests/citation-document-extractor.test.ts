@@ -0,0 +1,111 @@
+/**
+ * Citation Document Extractor Tests
+ * Verifies how documents are split into body and reference section, and how the
+ * reference section is split into entries
+ */
+
+import { CitationDocumentExtractor } from "../services/citationAudit/documentExtractor";
+
+const entriesOf = (text: string) =>
+  CitationDocumentExtractor.fromText(text).referenceList!.entries.map((entry) => entry.rawText);
+
+describe("Citation Document Extractor Tests", () => {
+  describe("Sections", () => {
+    it("should split the body from the reference section and find inline citations", () => {
+      const extraction = CitationDocumentExtractor.fromText(
+        "Foxes are quick (Smith, 2020).\n\nReferences\nSmith, J. (2020). Foxes in motion. Animal Press.\n"
+      );
+
+      expect(extraction.sections.map((section) => section.type)).toEqual(["BODY", "REFERENCE_SECTION"]);
+      expect(extraction.referenceList!.sectionTitle).toBe("References");
+      expect(extraction.patterns.map((pattern) => pattern.text)).toContain("(Smith, 2020)");
+    });
+
+    it("should stop the reference section at a trailing appendix", () => {
+      const entries = entriesOf(
+        "Text.\nReferences\nSmith, J. (2020). Foxes in motion. Animal Press.\nAppendix A\nRaw data."
+      );
+
+      expect(entries).toEqual(["Smith, J. (2020). Foxes in motion. Animal Press."]);
+    });
+
+    it("should keep citation nodes and their library ids from Tiptap documents", () => {
+      const extraction = CitationDocumentExtractor.fromTiptap(
+        {
+          type: "doc",
+          content: [
+            {
+              type: "paragraph",
+              content: [
+                { type: "text", text: "Foxes are quick " },
+                { type: "citation", attrs: { citationId: "citation-1", fallback: "(Smith, 2020)" } },
+                { type: "text", text: "." },
+              ],
+            },
+          ],
+        },
+        { "citation-1": { id: "citation-1" } }
+      );
+
+      expect(extraction.patterns).toEqual([
+        expect.objectContaining({ text: "(Smith, 2020)", citationId: "citation-1", normalizationStatus: "resolved" }),
+      ]);
+    });
+  });
+
+  describe("Reference Entries", () => {
+    it("should start a new entry at authors whose names open with a lowercase particle", () => {
+      const entries = entriesOf(
+        [
+          "References",
+          "Smith, J. (2020). Foxes in motion. Animal Press.",
+          "da Silva, P. (2019). Cats at rest. Feline Press.",
+          "van der Berg, K. (2018). Owls at night. https://doi.org/10.1000/owls",
+          "de la Cruz, M. (2017). Birds. Journal of Birds, 2, 1-9.",
+        ].join("\n")
+      );
+
+      expect(entries).toEqual([
+        "Smith, J. (2020). Foxes in motion. Animal Press.",
+        "da Silva, P. (2019). Cats at rest. Feline Press.",
+        "van der Berg, K. (2018). Owls at night. https://doi.org/10.1000/owls",
+        "de la Cruz, M. (2017). Birds. Journal of Birds, 2, 1-9.",
+      ]);
+    });
+
+    it("should join lines that wrap an entry", () => {
+      const entries = entriesOf(
+        [
+          "References",
+          "Doe, A., & Smith, J. (2020). Foxes in motion. Journal of",
+          "animals, 4, 1-10.",
+          "Doe, A., & da Silva, P.",
+          "(2019). Cats at rest. Feline Press.",
+          "Brown, B. (2018). Owls at night.",
+          "    Bird Press.",
+        ].join("\n")
+      );
+
+      expect(entries).toEqual([
+        "Doe, A., & Smith, J. (2020). Foxes in motion. Journal of animals, 4, 1-10.",
+        "Doe, A., & da Silva, P. (2019). Cats at rest. Feline Press.",
+        "Brown, B. (2018). Owls at night. Bird Press.",
+      ]);
+    });
+
+    it("should split numbered and blank-line separated lists", () => {
+      const numbered = entriesOf(
+        "References\n1. Smith J. Foxes in motion. Animals. 2020;4:1-10.\n2. van der Berg K. Owls. Birds. 2018;2:1-9."
+      );
+      const blankSeparated = entriesOf(
+        "References\nSmith, J. (2020). Foxes in motion.\nAnimal Press.\n\nvan der Berg, K. (2018). Owls."
+      );
+
+      expect(numbered).toHaveLength(2);
+      expect(blankSeparated).toEqual([
+        "Smith, J. (2020). Foxes in motion. Animal Press.",
+        "van der Berg, K. (2018). Owls.",
+      ]);
+    });
+  });
+});
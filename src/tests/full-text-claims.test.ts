@@ -0,0 +1,305 @@
+/**
+ * Full-Text Claim Verification Tests
+ * Verifies that citation claims are checked against passages from the cited
+ * paper's full text, where that text comes from, and that fetching it stays off
+ * private networks
+ */
+
+import type { Prisma } from "@prisma/client";
+import axios, { AxiosHeaders } from "axios";
+import pdfParse from "pdf-parse";
+import { prisma } from "../lib/prisma";
+import { AcademicDatabaseService } from "../services/academicDatabaseService";
+import { ExternalVerificationService } from "../services/citationAudit/externalVerification";
+import { SemanticClaimService } from "../services/citationAudit/semanticClaimService";
+import { SourceFullTextService } from "../services/citationAudit/sourceFullTextService";
+import { OpenAIService } from "../services/openaiService";
+import { OpenAlexService } from "../services/openAlexService";
+import { SupabaseStorageService } from "../services/supabaseStorageService";
+import { assertPublicHttpUrl, isPrivateAddress, publicHttpRequestOptions } from "../utils/urlSafety";
+import { resetPrismaMock } from "./mocks/prisma";
+import { fileRow, sourceFullTextRow, sourceReadingSessionRow } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+jest.mock("axios");
+jest.mock("pdf-parse", () => jest.fn());
+
+const PAGES = [
+  "The study was conducted in three schools. Students completed questionnaires in the autumn term. " +
+    "Weather conditions were recorded daily. Attendance was stable across the period.",
+  "Participants who slept fewer than six hours showed lower working memory scores. " +
+    "Sleep deprivation reduced working memory performance in adolescents by twelve percent. " +
+    "The effect persisted after controlling for age. Caffeine intake did not explain the difference.",
+];
+const CLAIM = "Sleep deprivation reduces working memory performance in adolescents";
+const QUOTE = "Sleep deprivation reduced working memory performance in adolescents by twelve percent.";
+
+interface PdfPage {
+  pageIndex: number;
+  getTextContent: () => Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+}
+
+// One text line per string, as pdf.js reports them
+function pdfPage(pageIndex: number, lines: string[]): PdfPage {
+  return {
+    pageIndex,
+    getTextContent: async () => ({
+      items: lines.map((str, i) => ({ str, transform: [1, 0, 0, 1, 72, 700 - 14 * i] })),
+    }),
+  };
+}
+
+function completion(result: Record<string, unknown>): string {
+  return `\`\`\`json\n${JSON.stringify(result)}\n\`\`\``;
+}
+
+describe("Full-Text Claim Verification Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.mocked(prisma.file.findMany).mockResolvedValue([]);
+    jest.mocked(prisma.sourceReadingSession.findFirst).mockResolvedValue(null);
+    jest.mocked(prisma.sourceFullText.findUnique).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(axios.get).mockReset();
+    jest.mocked(pdfParse).mockReset();
+  });
+
+  describe("Passage Retrieval", () => {
+    it("should rank the passage that discusses the claim first", () => {
+      const passages = SourceFullTextService.retrievePassages(PAGES, CLAIM);
+
+      expect(passages[0].page).toBe(2);
+      expect(passages[0].text).toContain(QUOTE);
+      expect(passages.every((passage) => passage.page === 2)).toBe(true);
+    });
+
+    it("should find nothing for a claim the paper does not address", () => {
+      expect(SourceFullTextService.retrievePassages(PAGES, "Volcanic eruptions change ocean chemistry")).toEqual([]);
+    });
+  });
+
+  describe("Claim Check", () => {
+    const passages = [
+      { page: 1, text: PAGES[0] },
+      { page: 2, text: PAGES[1] },
+    ];
+
+    it("should keep a verbatim quote with its page", async () => {
+      jest.spyOn(OpenAIService, "generateCompletion").mockResolvedValue(
+        completion({
+          status: "SUPPORTED",
+          passage: 2,
+          quote: QUOTE.replace("working memory", "Working  Memory"),
+          reasoning: "The passage reports the effect.",
+          confidence: 0.9,
+        })
+      );
+
+      const result = await SemanticClaimService.verifyClaimAgainstPassages(CLAIM, passages);
+
+      expect(result).toEqual(expect.objectContaining({ status: "SUPPORTED", page: 2, confidence: 0.9 }));
+      expect(result?.quote).toContain("Working  Memory");
+    });
+
+    it("should drop a quote that is not in the passage and lower the confidence", async () => {
+      jest.spyOn(OpenAIService, "generateCompletion").mockResolvedValue(
+        completion({
+          status: "SUPPORTED",
+          passage: 2,
+          quote: "Sleep loss halves memory in all age groups.",
+          reasoning: "The passage reports the effect.",
+          confidence: 0.95,
+        })
+      );
+
+      const result = await SemanticClaimService.verifyClaimAgainstPassages(CLAIM, passages);
+
+      expect(result).toEqual(expect.objectContaining({ quote: null, page: 2, confidence: 0.5 }));
+    });
+
+    it("should return null when the model cannot be consulted", async () => {
+      jest.spyOn(OpenAIService, "generateCompletion").mockRejectedValue(new Error("rate limited"));
+
+      await expect(SemanticClaimService.verifyClaimAgainstPassages(CLAIM, passages)).resolves.toBeNull();
+    });
+  });
+
+  describe("Full Text Sources", () => {
+    beforeEach(() => {
+      jest
+        .mocked(pdfParse)
+        .mockImplementation(async (_buffer: Buffer, options: { pagerender: (page: PdfPage) => Promise<string> }) => {
+          await options.pagerender(pdfPage(0, ["Working mem-", "ory matters."]));
+          await options.pagerender(pdfPage(1, [PAGES[1]]));
+          return { numpages: 2, text: "" };
+        });
+    });
+
+    it("should extract and cache the user's uploaded copy of the paper, matched by DOI", async () => {
+      jest
+        .mocked(prisma.file.findMany)
+        .mockResolvedValue([fileRow({ id: "file-2" }), fileRow({ metadata: { doi: "10.1/Sleep" } })]);
+      jest.spyOn(SupabaseStorageService, "downloadFile").mockResolvedValue(Buffer.from("%PDF-1.7"));
+
+      const document = await SourceFullTextService.findFullText("user-1", { doi: "10.1/sleep" });
+
+      expect(SupabaseStorageService.downloadFile).toHaveBeenCalledWith("user-1/paper.pdf");
+      expect(document).toEqual({
+        documentSource: "uploaded_file",
+        fileId: "file-1",
+        pages: ["Working memory matters.", PAGES[1]],
+      });
+      const [args] = jest.mocked(prisma.sourceFullText.upsert).mock.calls[0] as [Prisma.SourceFullTextUpsertArgs];
+      expect(args.create).toEqual(
+        expect.objectContaining({ source_key: "file:file-1", user_id: "user-1", status: "ready", page_count: 2 })
+      );
+    });
+
+    it("should reuse cached text without downloading the file again", async () => {
+      jest.mocked(prisma.file.findMany).mockResolvedValue([fileRow({ file_name: "Sleep and Working Memory.pdf" })]);
+      jest.mocked(prisma.sourceFullText.findUnique).mockResolvedValue(sourceFullTextRow({ pages: PAGES }));
+      jest.spyOn(SupabaseStorageService, "downloadFile");
+
+      const document = await SourceFullTextService.findFullText("user-1", { title: "Sleep and working memory" });
+
+      expect(document?.pages).toEqual(PAGES);
+      expect(SupabaseStorageService.downloadFile).not.toHaveBeenCalled();
+    });
+
+    it("should fetch the open-access copy the user read through the PDF proxy", async () => {
+      jest
+        .mocked(prisma.sourceReadingSession.findFirst)
+        .mockResolvedValue(sourceReadingSessionRow({ source_url: "https://oa.example/sleep.pdf" }));
+      jest.spyOn(OpenAlexService, "searchPapers");
+      jest.mocked(axios.get).mockResolvedValue({
+        data: Buffer.from("%PDF-1.7"),
+        status: 200,
+        statusText: "OK",
+        headers: { "content-type": "application/pdf" },
+        config: { headers: new AxiosHeaders() },
+      });
+
+      const document = await SourceFullTextService.findFullText("user-1", { doi: "10.1/sleep" });
+
+      expect(document).toEqual(
+        expect.objectContaining({ documentSource: "open_access", url: "https://oa.example/sleep.pdf" })
+      );
+      expect(axios.get).toHaveBeenCalledWith(
+        "https://oa.example/sleep.pdf",
+        expect.objectContaining({ lookup: publicHttpRequestOptions.lookup, beforeRedirect: expect.any(Function) })
+      );
+      expect(OpenAlexService.searchPapers).not.toHaveBeenCalled();
+    });
+
+    it("should refuse private addresses and remember the failure", async () => {
+      const document = await SourceFullTextService.findFullText("user-1", {
+        openAccessPdf: "http://169.254.169.254/latest/paper.pdf",
+      });
+
+      expect(document).toBeNull();
+      expect(axios.get).not.toHaveBeenCalled();
+      const [args] = jest.mocked(prisma.sourceFullText.upsert).mock.calls[0] as [Prisma.SourceFullTextUpsertArgs];
+      expect(args.create).toEqual(
+        expect.objectContaining({ status: "failed", error: "URL points to a private network address" })
+      );
+    });
+
+    it("should not retry a source that failed within the last day", async () => {
+      jest
+        .mocked(prisma.sourceFullText.findUnique)
+        .mockResolvedValue(sourceFullTextRow({ status: "failed", pages: null, extracted_at: new Date() }));
+
+      const document = await SourceFullTextService.findFullText("user-1", {
+        openAccessPdf: "https://oa.example/sleep.pdf",
+      });
+
+      expect(document).toBeNull();
+      expect(axios.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("URL Safety", () => {
+    it("should tell private addresses from public ones", () => {
+      ["10.0.0.1", "127.0.0.1", "172.16.4.2", "192.168.1.1", "169.254.169.254", "::1", "fd00::1", "::ffff:10.0.0.1"]
+        .forEach((address) => expect(isPrivateAddress(address)).toBe(true));
+      ["93.184.216.34", "2606:2800:220:1::1"].forEach((address) => expect(isPrivateAddress(address)).toBe(false));
+    });
+
+    it("should only allow public http(s) URLs", () => {
+      expect(() => assertPublicHttpUrl("ftp://oa.example/paper.pdf")).toThrow("Only http and https");
+      expect(() => assertPublicHttpUrl("http://[::1]/paper.pdf")).toThrow("private network");
+      expect(() => assertPublicHttpUrl("not a url")).toThrow("Invalid URL");
+      expect(assertPublicHttpUrl("https://oa.example/paper.pdf").hostname).toBe("oa.example");
+    });
+  });
+
+  describe("Citation Audit", () => {
+    const pair = {
+      inline: {
+        text: "(Lee, 2024)",
+        start: 0,
+        end: 11,
+        patternType: "apa",
+        context: `${CLAIM} (Lee, 2024).`,
+      },
+      reference: {
+        rawText: "Lee, J. (2024). Sleep and working memory in adolescents. Journal of Sleep, 4, 1-10.",
+        index: 0,
+        extractedTitle: "Sleep and working memory in adolescents",
+        extractedDOI: "10.1/sleep",
+      },
+    };
+
+    beforeEach(() => {
+      jest.spyOn(AcademicDatabaseService, "searchByDOI").mockResolvedValue({
+        title: "Sleep and working memory in adolescents",
+        doi: "10.1/sleep",
+        url: "https://doi.org/10.1/sleep",
+        abstract: "We studied sleep and memory.",
+      });
+    });
+
+    it("should judge the claim on the full text and quote the supporting passage", async () => {
+      jest.spyOn(SourceFullTextService, "verifyClaim").mockResolvedValue({
+        documentSource: "open_access",
+        passages: [{ page: 2, text: PAGES[1], score: 3.2 }],
+        result: { status: "SUPPORTED", reasoning: "The passage reports it.", confidence: 0.9, quote: QUOTE, page: 2 },
+      });
+      jest.spyOn(SemanticClaimService, "verifyClaim");
+
+      const [result] = await ExternalVerificationService.verifyCitationPairs([pair], undefined, { userId: "user-1" });
+
+      expect(SourceFullTextService.verifyClaim).toHaveBeenCalledWith(
+        "user-1",
+        `${CLAIM} .`,
+        expect.objectContaining({ doi: "10.1/sleep" })
+      );
+      expect(result.supportStatus).toBe("SUPPORTED");
+      expect(result.semanticAnalysis).toEqual(expect.objectContaining({ quote: QUOTE, page: 2 }));
+      expect(result.evidence).toEqual(expect.objectContaining({ basis: "full_text", documentSource: "open_access" }));
+      expect(result.message).toContain(`p. 2: "${QUOTE}"`);
+      expect(SemanticClaimService.verifyClaim).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the abstract and keep the passages when the full text could not be judged", async () => {
+      jest.spyOn(SourceFullTextService, "verifyClaim").mockResolvedValue({
+        documentSource: "uploaded_file",
+        passages: [{ page: 2, text: PAGES[1], score: 3.2 }],
+        result: null,
+      });
+      jest
+        .spyOn(SemanticClaimService, "verifyClaim")
+        .mockResolvedValue({ status: "PARTIALLY_SUPPORTED", reasoning: "The abstract mentions it.", confidence: 0.6 });
+
+      const [result] = await ExternalVerificationService.verifyCitationPairs([pair], undefined, { userId: "user-1" });
+
+      expect(result.supportStatus).toBe("PLAUSIBLE");
+      expect(result.evidence).toEqual(
+        expect.objectContaining({ basis: "abstract", passages: [expect.objectContaining({ page: 2 })] })
+      );
+    });
+  });
+});
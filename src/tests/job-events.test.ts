@@ -0,0 +1,134 @@
+/**
+ * Job Event Stream Tests
+ * Verifies that job progress is streamed as Server-Sent Events, and that streams
+ * watching the same job share one status poller
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { JobQueueService } from "../services/jobQueueService";
+import jobsRouter from "../api/jobs";
+import { resetPrismaMock } from "./mocks/prisma";
+import { jobRow, mockNext, mockRequest, mockResponse, routeHandler } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+// A response that records the raw event stream and lets the test disconnect it
+function streamResponse() {
+  const closeListeners: Array<() => void> = [];
+  const base = mockResponse();
+  const res = Object.assign(base, {
+    write: jest.fn(),
+    flushHeaders: jest.fn(),
+    end: jest.fn(() => closeListeners.forEach((listener) => listener())), // Express emits "close" after end()
+    on: jest.fn((event: string, listener: () => void) => {
+      if (event === "close") closeListeners.push(listener);
+      return base;
+    }),
+  });
+
+  return {
+    res,
+    events: (): Array<{ event: string; data: Record<string, unknown> }> =>
+      res.write.mock.calls
+        .map(([chunk]: [string]) => chunk)
+        .filter((chunk: string) => chunk.startsWith("event:"))
+        .map((chunk: string) => {
+          const [event, data] = chunk.trim().split("\n");
+          return { event: event.replace("event: ", ""), data: JSON.parse(data.replace("data: ", "")) };
+        }),
+    disconnect: () => closeListeners.forEach((listener) => listener()),
+  };
+}
+
+describe("Job Event Stream Tests", () => {
+  const events = routeHandler(jobsRouter, "get", "/:id/events");
+  const request = () => mockRequest({ user: { id: "user-1" }, params: { id: "job-1" } });
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("should stream each new stage, then the result, and close", async () => {
+    jest
+      .mocked(prisma.job.findFirst)
+      .mockResolvedValueOnce(jobRow({ status: "running", progress_stage: "windowing", progress: 10 }))
+      .mockResolvedValueOnce(jobRow({ status: "running", progress_stage: "windowing", progress: 10 }))
+      .mockResolvedValueOnce(jobRow({ status: "running", progress_stage: "searching", progress: 50 }))
+      .mockResolvedValue(jobRow({ status: "completed", progress: 100, result: { scanId: "scan-1" } }));
+    const stream = streamResponse();
+
+    await events(request(), stream.res, mockNext());
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(stream.res.setHeader).toHaveBeenCalledWith("Content-Type", "text/event-stream");
+    expect(stream.events().map(({ event, data }) => [event, data.stage ?? data])).toEqual([
+      ["stage", "windowing"],
+      ["stage", "searching"],
+      ["stage", "completed"],
+      ["result", { scanId: "scan-1" }],
+    ]);
+    expect(stream.res.end).toHaveBeenCalled();
+  });
+
+  it("should report failed jobs as an error event", async () => {
+    jest.mocked(prisma.job.findFirst).mockResolvedValue(jobRow({ status: "failed", error: "Provider timeout" }));
+    const stream = streamResponse();
+
+    await events(request(), stream.res, mockNext());
+
+    expect(stream.events().pop()).toEqual({ event: "error", data: { status: "failed", error: "Provider timeout" } });
+    expect(jest.getTimerCount()).toBe(0); // No heartbeat or poller left running
+  });
+
+  it("should answer 404 as JSON for another user's job", async () => {
+    jest.mocked(prisma.job.findFirst).mockResolvedValue(null);
+    const stream = streamResponse();
+
+    await events(request(), stream.res, mockNext());
+
+    expect(stream.res.status).toHaveBeenCalledWith(404);
+    expect(stream.res.write).not.toHaveBeenCalled();
+  });
+
+  it("should poll once per interval however many streams watch the job", async () => {
+    jest.mocked(prisma.job.findFirst).mockResolvedValue(jobRow({ status: "running" }));
+    const first = streamResponse();
+    const second = streamResponse();
+
+    await events(request(), first.res, mockNext());
+    await events(request(), second.res, mockNext());
+    jest.mocked(prisma.job.findFirst).mockClear();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(prisma.job.findFirst).toHaveBeenCalledTimes(1);
+
+    first.disconnect();
+    second.disconnect();
+    jest.mocked(prisma.job.findFirst).mockClear();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(prisma.job.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("should store the stage reported by a worker", async () => {
+    jest.mocked(prisma.job.updateMany).mockResolvedValue({ count: 1 });
+
+    await JobQueueService.reportProgress("job-1", "worker-1", undefined, "Verifying 12/40 references", "verifying");
+
+    const [args] = jest.mocked(prisma.job.updateMany).mock.calls[0] as [Prisma.JobUpdateManyArgs];
+    expect(args.data).toEqual(
+      expect.objectContaining({
+        progress: undefined,
+        progress_message: "Verifying 12/40 references",
+        progress_stage: "verifying",
+      })
+    );
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Job Queue Tests
+ * Verifies job claiming between competing workers, retries with backoff and stale-job recovery
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { JobQueueService, NonRetryableJobError } from "../services/jobQueueService";
+import { CitationBatchAnalysisService } from "../services/citationBatchAnalysisService";
+import { JOB_HANDLERS } from "../jobs/jobHandlers";
+import { JobContext } from "../types/jobs";
+import { resetPrismaMock } from "./mocks/prisma";
+import { jobRow } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+describe("Job Queue Tests", () => {
+  const findMany = jest.mocked(prisma.job.findMany);
+  const findUnique = jest.mocked(prisma.job.findUnique);
+  const updateMany = jest.mocked(prisma.job.updateMany);
+
+  const updates = () => updateMany.mock.calls.map(([args]: [Prisma.JobUpdateManyArgs]) => args);
+
+  beforeEach(() => {
+    resetPrismaMock();
+    findMany.mockResolvedValue([]);
+    findUnique.mockResolvedValue(jobRow());
+    updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe("Claiming Jobs", () => {
+    it("should claim only due, queued jobs of the requested types", async () => {
+      findMany.mockResolvedValue([jobRow({ status: "queued" })]);
+
+      const job = await JobQueueService.claimNext("worker-1", ["export_pdf"]);
+
+      expect(job).toEqual(jobRow());
+      const where = findMany.mock.calls[0][0]!.where!;
+      expect(where.status).toBe("queued");
+      expect(where.run_at).toEqual({ lte: expect.any(Date) });
+      expect(where.type).toEqual({ in: ["export_pdf"] });
+    });
+
+    it("should lock the job to the worker and count the attempt", async () => {
+      findMany.mockResolvedValue([jobRow({ status: "queued" })]);
+
+      await JobQueueService.claimNext("worker-1");
+
+      const [{ where, data }] = updates();
+      expect(where).toEqual({ id: "job-1", status: "queued" });
+      expect(data).toEqual(
+        expect.objectContaining({ status: "running", locked_by: "worker-1", attempts: { increment: 1 } })
+      );
+    });
+
+    it("should move on when another worker claimed the job first", async () => {
+      findMany.mockResolvedValue([jobRow({ status: "queued" }), jobRow({ id: "job-2", status: "queued" })]);
+      findUnique.mockResolvedValue(jobRow({ id: "job-2" }));
+      updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+      const job = await JobQueueService.claimNext("worker-1");
+
+      expect(job!.id).toBe("job-2");
+      expect(updateMany).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return null when nothing could be claimed", async () => {
+      findMany.mockResolvedValue([jobRow({ status: "queued" })]);
+      updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await JobQueueService.claimNext("worker-1")).toBeNull();
+    });
+  });
+
+  describe("Retries", () => {
+    it("should requeue a failed attempt with exponential backoff", async () => {
+      const before = Date.now();
+
+      await JobQueueService.fail(jobRow({ attempts: 1 }), "worker-1", new Error("Provider timeout"));
+      await JobQueueService.fail(jobRow({ attempts: 2 }), "worker-1", new Error("Provider timeout"));
+
+      const [first, second] = updates();
+      expect(first.where).toEqual({ id: "job-1", status: "running", locked_by: "worker-1" });
+      expect(first.data).toEqual(
+        expect.objectContaining({ status: "queued", locked_by: null, error: "Provider timeout" })
+      );
+
+      const firstDelay = (first.data.run_at as Date).getTime() - before;
+      const secondDelay = (second.data.run_at as Date).getTime() - before;
+      expect(firstDelay).toBeGreaterThanOrEqual(30 * 1000);
+      expect(secondDelay).toBeGreaterThanOrEqual(2 * firstDelay - 1000);
+    });
+
+    it("should fail the job once attempts are exhausted", async () => {
+      await JobQueueService.fail(jobRow({ attempts: 3 }), "worker-1", new Error("Provider timeout"));
+
+      const [{ data }] = updates();
+      expect(data.status).toBe("failed");
+      expect(data.completed_at).toBeInstanceOf(Date);
+    });
+
+    it("should not retry errors that retrying cannot fix", async () => {
+      await JobQueueService.fail(jobRow({ attempts: 1 }), "worker-1", new NonRetryableJobError("Project not found"));
+
+      const [{ data }] = updates();
+      expect(data.status).toBe("failed");
+      expect(data.error).toBe("Project not found");
+    });
+  });
+
+  describe("Job Handlers", () => {
+    const context: JobContext = {
+      jobId: "job-1",
+      userId: "user-1",
+      projectId: "project-1",
+      attempt: 1,
+      reportProgress: jest.fn(),
+      reportStage: jest.fn(),
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should stop retrying a batch analysis of a missing project", async () => {
+      jest.spyOn(CitationBatchAnalysisService, "analyzeProject").mockRejectedValue(new Error("Project not found"));
+
+      await expect(
+        JOB_HANDLERS.citation_batch_analysis({ projectId: "project-1" }, context)
+      ).rejects.toBeInstanceOf(NonRetryableJobError);
+    });
+
+    it("should leave other batch analysis errors retryable", async () => {
+      jest.spyOn(CitationBatchAnalysisService, "analyzeProject").mockRejectedValue(new Error("Provider timeout"));
+
+      const failure = JOB_HANDLERS.citation_batch_analysis({ projectId: "project-1" }, context);
+
+      await expect(failure).rejects.toThrow("Provider timeout");
+      await expect(failure).rejects.not.toBeInstanceOf(NonRetryableJobError);
+    });
+  });
+
+  describe("Locks", () => {
+    it("should report a lost lock from the heartbeat", async () => {
+      expect(await JobQueueService.heartbeat("job-1", "worker-1")).toBe(true);
+
+      updateMany.mockResolvedValue({ count: 0 });
+      expect(await JobQueueService.heartbeat("job-1", "worker-1")).toBe(false);
+    });
+
+    it("should requeue stale jobs and fail those out of attempts", async () => {
+      findMany.mockResolvedValue([jobRow({ attempts: 1 }), jobRow({ id: "job-2", attempts: 3 })]);
+
+      expect(await JobQueueService.recoverStale(10 * 60 * 1000)).toBe(2);
+
+      const [requeued, failed] = updates();
+      expect(requeued.where).toEqual(expect.objectContaining({ id: "job-1" }));
+      expect(requeued.data.status).toBe("queued");
+      expect(failed.where).toEqual(expect.objectContaining({ id: "job-2" }));
+      expect(failed.data.status).toBe("failed");
+    });
+  });
+
+  describe("Waiting For Jobs", () => {
+    it("should return the job once it finishes", async () => {
+      findUnique
+        .mockResolvedValueOnce(jobRow())
+        .mockResolvedValueOnce(jobRow({ status: "completed", result: { ok: true } }));
+
+      const job = await JobQueueService.waitFor("job-1", 1000, 10);
+
+      expect(job!.status).toBe("completed");
+    });
+
+    it("should give up after the timeout", async () => {
+      expect(await JobQueueService.waitFor("job-1", 30, 10)).toBeNull();
+    });
+  });
+});
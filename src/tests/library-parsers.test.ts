@@ -0,0 +1,256 @@
+/**
+ * Citation Library Parser Tests
+ * Verifies BibTeX and RIS import, including the quirks reference managers export
+ */
+
+import { parseBibTeX, serializeBibTeX } from "../services/citationLibrary/bibtex";
+import { parseRIS, serializeRIS } from "../services/citationLibrary/ris";
+import { normalizeTitle } from "../services/citationLibrary/libraryUtils";
+
+describe("Citation Library Parser Tests", () => {
+  describe("BibTeX", () => {
+    it("should parse a journal article", () => {
+      const { entries, errors } = parseBibTeX(`
+        @article{smith2020foxes,
+          author = {Smith, John and Jane Doe},
+          title = {Foxes in {M}otion},
+          journal = {Journal of Animals},
+          year = 2020,
+          volume = {4},
+          number = {2},
+          pages = {1--10},
+          doi = {https://doi.org/10.1000/ABC.123},
+          keywords = {foxes, motion; animals}
+        }
+      `);
+
+      expect(errors).toEqual([]);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toEqual(
+        expect.objectContaining({
+          key: "smith2020foxes",
+          type: "journal-article",
+          title: "Foxes in Motion",
+          authors: [
+            { family: "Smith", given: "John" },
+            { given: "Jane", family: "Doe" },
+          ],
+          year: 2020,
+          journal: "Journal of Animals",
+          volume: "4",
+          issue: "2",
+          pages: "1-10",
+          doi: "10.1000/abc.123",
+          keywords: ["foxes", "motion", "animals"],
+        })
+      );
+    });
+
+    it("should expand @string macros, month names and # concatenation", () => {
+      const { entries } = parseBibTeX(`
+        @string{jan = "Journal of Animal Names"}
+        @string{ja = "Journal of Animals"}
+        @article(key1,
+          title = "Quoted " # "Title",
+          journal = ja,
+          note = "Published " # dec,
+          year = "2019"
+        )
+      `);
+
+      expect(entries[0].title).toBe("Quoted Title");
+      expect(entries[0].journal).toBe("Journal of Animals");
+      expect(entries[0].notes).toEqual(["Published December"]);
+    });
+
+    it("should turn LaTeX accents and escapes into Unicode", () => {
+      const { entries } = parseBibTeX(`
+        @book{key2,
+          author = {M{\\"u}ller, J{\\"o}rg and Gar{\\c{c}}on, Fran{\\c c}ois},
+          title = {Stra{\\ss}e \\& Caf{\\'e}: 50\\% of \\emph{everything}},
+          publisher = {Verlag}
+        }
+      `);
+
+      expect(entries[0].authors).toEqual([
+        { family: "Müller", given: "Jörg" },
+        { family: "Garçon", given: "François" },
+      ]);
+      expect(entries[0].title).toBe("Straße & Café: 50% of everything");
+      expect(entries[0].type).toBe("book");
+    });
+
+    it("should keep braced corporate authors whole", () => {
+      const { entries } = parseBibTeX(`
+        @techreport{who2021,
+          author = {{World Health Organization} and {Bill and Melinda Gates Foundation}},
+          title = {Global Report},
+          institution = {WHO},
+          year = {2021}
+        }
+      `);
+
+      expect(entries[0].authors).toEqual([
+        { literal: "World Health Organization" },
+        { literal: "Bill and Melinda Gates Foundation" },
+      ]);
+      expect(entries[0].type).toBe("report");
+      expect(entries[0].publisher).toBe("WHO");
+    });
+
+    it("should skip comments and report malformed entries without failing the file", () => {
+      const { entries, errors } = parseBibTeX(`
+        @comment{ignore me}
+        @misc{notitle, author = {Doe, Jane}, year = {2020}}
+        @misc{broken, title = {Stray words} after the value}
+        @misc{good, title = {Still Imported}}
+      `);
+
+      expect(entries.map((entry) => entry.key)).toEqual(["good"]);
+      expect(errors).toEqual([
+        { index: 0, key: "notitle", message: "Entry has no title" },
+        { index: 1, key: "broken", message: expect.stringContaining("Unexpected content") },
+      ]);
+    });
+
+    it("should report an unterminated entry", () => {
+      const { entries, errors } = parseBibTeX("@article{open, title = {Never closed}");
+
+      expect(entries).toEqual([]);
+      expect(errors[0].message).toBe("Unterminated @article entry");
+    });
+
+    it("should read back what it writes", () => {
+      const { entries } = parseBibTeX(`
+        @incollection{doe2018,
+          author = {Doe, Jane and {Acme Research Group}},
+          title = {Chapter on R\\&D},
+          booktitle = {Collected Works},
+          year = {2018},
+          pages = {5--9}
+        }
+      `);
+
+      const reparsed = parseBibTeX(serializeBibTeX(entries)).entries;
+
+      expect(reparsed).toEqual(entries);
+    });
+  });
+
+  describe("RIS", () => {
+    it("should parse tagged records", () => {
+      const { entries, errors } = parseRIS(
+        [
+          "TY  - JOUR",
+          "ID  - ref1",
+          "AU  - Smith, John",
+          "AU  - Doe, Jane",
+          "TI  - Foxes in Motion",
+          "JO  - Journal of Animals",
+          "PY  - 2020/05/01/",
+          "VL  - 4",
+          "IS  - 2",
+          "SP  - 1",
+          "EP  - 10",
+          "DO  - doi:10.1000/ABC.123",
+          "KW  - foxes",
+          "KW  - motion",
+          "ER  - ",
+        ].join("\r\n")
+      );
+
+      expect(errors).toEqual([]);
+      expect(entries[0]).toEqual(
+        expect.objectContaining({
+          key: "ref1",
+          type: "journal-article",
+          title: "Foxes in Motion",
+          authors: [
+            { family: "Smith", given: "John" },
+            { family: "Doe", given: "Jane" },
+          ],
+          year: 2020,
+          journal: "Journal of Animals",
+          pages: "1-10",
+          doi: "10.1000/abc.123",
+          keywords: ["foxes", "motion"],
+        })
+      );
+    });
+
+    it("should join continuation lines onto the previous value", () => {
+      const { entries } = parseRIS(
+        ["TY  - GEN", "TI  - Notes", "AB  - First line of the abstract", "  continues here.", "ER  - "].join("\n")
+      );
+
+      expect(entries[0].abstract).toBe("First line of the abstract continues here.");
+      expect(entries[0].type).toBe("other");
+    });
+
+    it("should fall back to editors and keep books free of a journal", () => {
+      const { entries } = parseRIS(
+        ["TY  - BOOK", "A2  - Brown, Alice", "TI  - Edited Volume", "T2  - Series Title", "PB  - Press", "ER  - "].join("\n")
+      );
+
+      expect(entries[0].authors).toEqual([{ family: "Brown", given: "Alice" }]);
+      expect(entries[0].journal).toBeUndefined();
+      expect(entries[0].publisher).toBe("Press");
+    });
+
+    it("should report records without a title or an ER line", () => {
+      const { entries, errors } = parseRIS(
+        [
+          "TY  - JOUR",
+          "ID  - untitled",
+          "ER  - ",
+          "TY  - JOUR",
+          "TI  - Missing end",
+          "TY  - JOUR",
+          "TI  - Complete",
+          "ER  - ",
+          "TY  - JOUR",
+          "TI  - Truncated file",
+        ].join("\n")
+      );
+
+      expect(entries.map((entry) => entry.title)).toEqual(["Complete"]);
+      expect(errors).toEqual([
+        { index: 0, key: "untitled", message: "Record has no title" },
+        { index: 1, message: "Record is missing its ER line" },
+        { index: 3, key: undefined, message: "Record is missing its ER line" },
+      ]);
+    });
+
+    it("should read back what it writes", () => {
+      const { entries } = parseRIS(
+        [
+          "TY  - CHAP",
+          "AU  - Doe, Jane",
+          "TI  - A Chapter",
+          "T2  - Collected Works",
+          "PY  - 2018",
+          "SP  - 5",
+          "EP  - 9",
+          "N1  - Read twice",
+          "ER  - ",
+        ].join("\n")
+      );
+
+      const reparsed = parseRIS(serializeRIS(entries)).entries;
+
+      expect(reparsed).toEqual(entries);
+    });
+  });
+
+  describe("Duplicate Detection", () => {
+    it("should compare titles without case, accents or punctuation", () => {
+      expect(normalizeTitle("Foxes in Motion: A Study")).toBe(normalizeTitle("foxes in motion - a study"));
+      expect(normalizeTitle("Café Études")).toBe("cafe etudes");
+    });
+
+    it("should keep titles in non-Latin scripts distinct", () => {
+      expect(normalizeTitle("机器学习的研究")).toBe("机器学习的研究");
+      expect(normalizeTitle("Исследование данных")).not.toBe(normalizeTitle("Анализ данных"));
+    });
+  });
+});
@@ -0,0 +1,472 @@
+/**
+ * Test Fixtures
+ * Complete database rows and Express request/response doubles shared by the tests
+ */
+
+import type { NextFunction, Request, Response, Router } from "express";
+import type {
+  Annotation,
+  Certificate,
+  CertificateSigningKey,
+  File,
+  Job,
+  OrganizationInvitation,
+  OrganizationMember,
+  OriginalityScan,
+  PersonalAccessToken,
+  Project,
+  ProjectCollaborator,
+  ProjectVersion,
+  RealTimeActivity,
+  SimilarityMatch,
+  SourceFullText,
+  SourceInteraction,
+  SourceReadingSession,
+  User,
+} from "@prisma/client";
+import type { AuthorshipStats } from "../../services/authorshipReportService";
+
+export type TestRequest = Request & {
+  user?: { id: string; email?: string };
+  accessToken?: { id: string; scopes: string[] };
+};
+
+export type TestResponse = Response & {
+  status: jest.Mock;
+  json: jest.Mock;
+  send: jest.Mock;
+  setHeader: jest.Mock;
+};
+
+export function mockRequest(fields: Record<string, unknown> = {}): TestRequest {
+  const req = { params: {}, body: {}, query: {}, headers: {}, ...fields } as unknown as TestRequest;
+  req.get = ((name: string) => req.headers[name.toLowerCase()]) as TestRequest["get"];
+  return req;
+}
+
+export function mockResponse(): TestResponse {
+  const res = {} as TestResponse;
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  res.send = jest.fn(() => res);
+  res.setHeader = jest.fn(() => res);
+  return res;
+}
+
+export function mockNext(): jest.MockedFunction<NextFunction> {
+  return jest.fn();
+}
+
+/**
+ * The final handler of a route, past its middleware (which is tested on its own)
+ */
+export function routeHandler(router: Router, method: string, path: string) {
+  const layer = router.stack.find(
+    (candidate) =>
+      candidate.route?.path === path && candidate.route.stack.some((handler) => handler.method === method)
+  );
+  if (!layer) throw new Error(`No route ${method.toUpperCase()} ${path}`);
+
+  const handlers = layer.route!.stack;
+  return handlers[handlers.length - 1].handle as (req: Request, res: Response, next: NextFunction) => Promise<void>;
+}
+
+export function userRow(overrides: Partial<User> = {}): User {
+  return {
+    id: "user-1",
+    email: "user@example.com",
+    full_name: "Sam Writer",
+    phone_number: null,
+    user_type: null,
+    field_of_study: null,
+    otp_method: null,
+    email_verified: true,
+    survey_completed: false,
+    storage_used: 0,
+    created_at: new Date("2026-09-01T09:00:00Z"),
+    updated_at: new Date("2026-09-01T09:00:00Z"),
+    avatar_url: null,
+    two_factor_enabled: false,
+    two_factor_secret: null,
+    two_factor_confirmed_at: null,
+    two_factor_backup_codes: [],
+    bio: null,
+    institution: null,
+    location: null,
+    retention_period: null,
+    first_upload_at: null,
+    onboarding_completed: true,
+    onboarding_skipped: false,
+    editor_tour_completed: true,
+    editor_tour_skipped: false,
+    policy_accepted_at: null,
+    auto_use_credits: true,
+    originality_exclusions: null,
+    ...overrides,
+  };
+}
+
+export function projectRow(overrides: Partial<Project> = {}): Project {
+  return {
+    id: "project-1",
+    user_id: "owner-1",
+    title: "Foxes and Cats",
+    description: null,
+    content: null,
+    outline: null,
+    word_count: 0,
+    file_path: null,
+    file_type: null,
+    citation_style: null,
+    due_date: null,
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    updated_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function collaboratorRow(overrides: Partial<ProjectCollaborator> = {}): ProjectCollaborator {
+  return {
+    id: "collaborator-1",
+    project_id: "project-1",
+    user_id: null,
+    email: "collaborator@example.com",
+    role: "viewer",
+    status: "accepted",
+    invite_token: "invite-token",
+    invited_by: "owner-1",
+    invited_at: new Date("2026-10-01T09:00:00Z"),
+    accepted_at: new Date("2026-10-01T10:00:00Z"),
+    revoked_at: null,
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    updated_at: new Date("2026-10-01T10:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function organizationMemberRow(overrides: Partial<OrganizationMember> = {}): OrganizationMember {
+  return {
+    id: "member-1",
+    organization_id: "organization-1",
+    user_id: "user-1",
+    role: "member",
+    joined_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function organizationInvitationRow(
+  overrides: Partial<OrganizationInvitation> = {}
+): OrganizationInvitation {
+  return {
+    id: "invitation-1",
+    organization_id: "organization-1",
+    email: "student@example.com",
+    role: "member",
+    status: "pending",
+    invite_token: "invite-token",
+    invited_by: "admin-1",
+    invited_at: new Date("2026-10-01T09:00:00Z"),
+    accepted_at: null,
+    revoked_at: null,
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    updated_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function projectVersionRow(overrides: Partial<ProjectVersion> = {}): ProjectVersion {
+  return {
+    id: "version-1",
+    project_id: "project-1",
+    user_id: "user-1",
+    version_number: 1,
+    title: "Foxes and Cats",
+    content: "Foxes are quick.",
+    content_hash: "hash",
+    word_count: 3,
+    change_source: "save",
+    restored_from_id: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+export function jobRow(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    type: "export_pdf",
+    status: "running",
+    user_id: "user-1",
+    project_id: null,
+    payload: {},
+    result: null,
+    error: null,
+    progress: 0,
+    progress_message: null,
+    progress_stage: null,
+    attempts: 1,
+    max_attempts: 3,
+    run_at: new Date("2026-10-01T09:00:00Z"),
+    locked_by: "worker-1",
+    locked_at: new Date("2026-10-01T09:00:00Z"),
+    started_at: new Date("2026-10-01T09:00:00Z"),
+    completed_at: null,
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    updated_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function accessTokenRow(overrides: Partial<PersonalAccessToken> = {}): PersonalAccessToken {
+  return {
+    id: "token-1",
+    user_id: "user-1",
+    name: "CI",
+    token_hash: "token-hash",
+    token_prefix: "cwz_pat_test",
+    scopes: [],
+    last_used_at: null,
+    expires_at: null,
+    revoked_at: null,
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function certificateRow(overrides: Partial<Certificate> = {}): Certificate {
+  return {
+    id: "certificate-1",
+    user_id: "user-1",
+    project_id: "project-1",
+    title: "authorship Certificate - Foxes and Cats",
+    file_name: "certificate-project-1.pdf",
+    file_path: "user-1/certificate-project-1.pdf",
+    file_size: 1024,
+    status: "issued",
+    status_reason: null,
+    status_changed_at: null,
+    status_changed_by: null,
+    previous_certificate_id: null,
+    certificate_type: "authorship",
+    metadata: null,
+    replay_shared: false,
+    replay_shared_at: null,
+    manifest: null,
+    signature: null,
+    signing_key_id: null,
+    content_hash: null,
+    created_at: new Date("2026-10-03T12:00:00Z"),
+    updated_at: new Date("2026-10-03T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function signingKeyRow(overrides: Partial<CertificateSigningKey> = {}): CertificateSigningKey {
+  return {
+    id: "0000000000000000",
+    algorithm: "Ed25519",
+    public_key: "",
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    retired_at: null,
+    ...overrides,
+  };
+}
+
+export function authorshipStats(overrides: Partial<AuthorshipStats> = {}): AuthorshipStats {
+  return {
+    projectId: "project-1",
+    userId: "user-1",
+    projectTitle: "Foxes and Cats",
+    wordCount: 40,
+    totalTimeInvestedMinutes: 90,
+    firstEditDate: new Date("2026-10-01T09:00:00Z"),
+    lastEditDate: new Date("2026-10-02T17:00:00Z"),
+    activeDays: 2,
+    totalSessions: 3,
+    manualEditsCount: 120,
+    totalCharacterChanges: 2400,
+    averageEditSize: 20,
+    aiAssistedPercentage: 5,
+    aiRequestCount: 1,
+    sessionFrequency: "Daily",
+    peakEditingHours: [9, 17],
+    ...overrides,
+  };
+}
+
+export function originalityScanRow(overrides: Partial<OriginalityScan> = {}): OriginalityScan {
+  return {
+    id: "scan-1",
+    project_id: "project-1",
+    user_id: "user-1",
+    content_hash: "hash",
+    overall_score: 4,
+    classification: "original",
+    words_scanned: 14,
+    cost_amount: 0,
+    match_count: 2,
+    scan_status: "completed",
+    scanned_content: null,
+    provider: "copyleaks",
+    degraded: false,
+    raw_score: 8,
+    exclusion_settings: null,
+    language: "en",
+    cross_language: false,
+    job_id: null,
+    report_path: null,
+    scanned_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+export function similarityMatchRow(overrides: Partial<SimilarityMatch> = {}): SimilarityMatch {
+  return {
+    id: "match-1",
+    scan_id: "scan-1",
+    sentence_text: "Foxes are quick and clever animals.",
+    matched_source: "https://a.example",
+    source_url: "https://a.example",
+    view_url: null,
+    matched_words: 6,
+    source_words: 600,
+    match_percent: 1,
+    similarity_score: 80,
+    position_start: 0,
+    position_end: 35,
+    classification: "needs_citation",
+    own_work: false,
+    excluded: false,
+    exclusion_reason: null,
+    cross_language: false,
+    source_language: null,
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+export function fileRow(overrides: Partial<File> = {}): File {
+  return {
+    id: "file-1",
+    user_id: "user-1",
+    project_id: null,
+    file_name: "paper.pdf",
+    file_path: "user-1/paper.pdf",
+    file_type: "application/pdf",
+    file_size: 1024,
+    metadata: null,
+    uploaded_at: new Date("2026-10-01T09:00:00Z"),
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    updated_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function annotationRow(overrides: Partial<Annotation> = {}): Annotation {
+  return {
+    id: "annotation-1",
+    file_id: "file-1",
+    user_id: "user-1",
+    content: null,
+    type: "note",
+    color: null,
+    coordinates: { page: 1, area: [] },
+    created_at: new Date("2026-10-01T09:00:00Z"),
+    updated_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function sourceInteractionRow(overrides: Partial<SourceInteraction> = {}): SourceInteraction {
+  return {
+    id: "interaction-1",
+    project_id: "project-1",
+    user_id: "user-1",
+    source_id: "https://a.example/paper",
+    source_title: null,
+    total_reading_time_ms: 60000,
+    open_count: 1,
+    last_read_at: new Date("2026-10-01T09:55:00Z"),
+    first_read_at: new Date("2026-10-01T09:50:00Z"),
+    citation_added_at: null,
+    is_cited: false,
+    citation_preceded_by_reading: true,
+    observed_open_count: 0,
+    observed_reading_time_ms: 0,
+    pages_viewed: [],
+    page_count: null,
+    highlight_count: 0,
+    note_count: 0,
+    created_at: new Date("2026-10-01T09:50:00Z"),
+    updated_at: new Date("2026-10-01T09:55:00Z"),
+    ...overrides,
+  };
+}
+
+export function sourceReadingSessionRow(overrides: Partial<SourceReadingSession> = {}): SourceReadingSession {
+  return {
+    id: "session-1",
+    user_id: "user-1",
+    project_id: "project-1",
+    source_id: "doi:10.1/paper",
+    source_url: "https://a.example/paper.pdf",
+    opened_at: new Date("2026-10-01T09:50:00Z"),
+    last_active_at: new Date("2026-10-01T09:59:00Z"),
+    active_ms: 0,
+    pages_viewed: [],
+    page_count: null,
+    request_count: 1,
+    ...overrides,
+  };
+}
+
+export function sourceFullTextRow(overrides: Partial<SourceFullText> = {}): SourceFullText {
+  return {
+    id: "full-text-1",
+    source_key: "file:file-1",
+    user_id: "user-1",
+    file_id: "file-1",
+    source_url: null,
+    status: "ready",
+    error: null,
+    pages: ["Page one."],
+    page_count: 1,
+    char_count: 9,
+    extracted_at: new Date("2026-10-01T09:00:00Z"),
+    ...overrides,
+  };
+}
+
+export function realTimeActivityRow(overrides: Partial<RealTimeActivity> = {}): RealTimeActivity {
+  return {
+    id: "activity-1",
+    project_id: "project-1",
+    user_id: "user-1",
+    event_type: "edit",
+    timestamp: new Date("2026-10-01T10:00:00Z"),
+    content_before: null,
+    content_after: null,
+    cursor_position: null,
+    keystrokes: 0,
+    ai_assisted: false,
+    ai_model_used: null,
+    session_type: "writing",
+    idle_time: 0,
+    active_time: 0,
+    word_count: 0,
+    selection_length: 0,
+    edit_type: null,
+    operation_size: 0,
+    session_id: null,
+    paste_hash: null,
+    paste_fingerprints: [],
+    paste_origin: null,
+    paste_origin_ref: null,
+    created_at: new Date("2026-10-01T10:00:00Z"),
+    ...overrides,
+  };
+}
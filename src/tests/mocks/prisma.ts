@@ -0,0 +1,63 @@
+/**
+ * Prisma Test Double
+ * Stands in for src/lib/prisma so tests never load the query engine. Every model
+ * method is a jest.fn() that resolves to undefined until a test gives it a value.
+ *
+ *   jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+ */
+
+import type { PrismaClient } from "@prisma/client";
+
+const delegates = new Map<string, Record<string, jest.Mock>>();
+const clientMethods = new Map<string, jest.Mock>();
+
+function delegate(model: string): Record<string, jest.Mock> {
+  let methods = delegates.get(model);
+  if (!methods) {
+    const cache: Record<string, jest.Mock> = {};
+    methods = new Proxy(cache, {
+      get: (target, method) => {
+        if (typeof method !== "string" || method === "then") return undefined;
+        target[method] ??= jest.fn();
+        return target[method];
+      },
+    });
+    delegates.set(model, methods);
+  }
+  return methods;
+}
+
+function clientMethod(name: string): jest.Mock {
+  let method = clientMethods.get(name);
+  if (!method) {
+    method = jest.fn();
+    clientMethods.set(name, method);
+  }
+  return method;
+}
+
+// Batches run their operations; interactive transactions get the mock itself
+function runTransaction(operations: unknown) {
+  return typeof operations === "function" ? operations(prisma) : Promise.all(operations as Promise<unknown>[]);
+}
+
+export const prisma = new Proxy({} as PrismaClient, {
+  get: (_target, property) => {
+    if (typeof property !== "string" || property === "then") return undefined;
+    if (property.startsWith("$")) return clientMethod(property);
+    return delegate(property);
+  },
+});
+
+/**
+ * Clear calls and return values between tests
+ */
+export function resetPrismaMock(): void {
+  delegates.forEach((methods) => Object.values(methods).forEach((method) => method.mockReset()));
+  clientMethods.forEach((method) => method.mockReset());
+  clientMethod("$transaction").mockImplementation(runTransaction);
+}
+
+resetPrismaMock();
+
+export default prisma;
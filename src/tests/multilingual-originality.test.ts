@@ -0,0 +1,94 @@
+/**
+ * Multilingual Originality Tests
+ * Verifies language detection, that fingerprints keep words of every script, and
+ * that cross-language matching only compares sources written in another language
+ */
+
+import { CrossLanguageOriginalityService } from "../services/crossLanguageOriginalityService";
+import { FingerprintService } from "../services/fingerprintService";
+import { LanguageDetectionService } from "../services/languageDetectionService";
+
+// Stand-in sentence model: sentences about foxes share one direction, everything else another
+jest.mock("@xenova/transformers", () => ({
+  env: {},
+  pipeline: jest.fn(async () => async (text: string) => ({
+    data: /fox|zorro|raposa|renard/i.test(text) ? new Float32Array([1, 0]) : new Float32Array([0, 1]),
+  })),
+}));
+
+const SPANISH =
+  "El zorro es un animal rápido y astuto que vive en los bosques de la región. " +
+  "Los gatos duermen durante la mayor parte del día en la casa.";
+const ENGLISH = "The fox is a quick and clever animal that lives in the forests of the region.";
+
+describe("Multilingual Originality Tests", () => {
+  describe("Language Detection", () => {
+    it("should tell Latin-script languages apart by their stopwords", () => {
+      expect(LanguageDetectionService.detect(SPANISH).language).toBe("es");
+      expect(LanguageDetectionService.detect(ENGLISH).language).toBe("en");
+      expect(
+        LanguageDetectionService.detect("A raposa é um animal rápido que vive nas florestas da região e não dorme.")
+          .language
+      ).toBe("pt");
+      expect(
+        LanguageDetectionService.detect("Le renard est un animal rapide qui vit dans les forêts de la région.").language
+      ).toBe("fr");
+    });
+
+    it("should recognize languages by their script", () => {
+      expect(LanguageDetectionService.detect("Лиса — быстрое и хитрое животное.")).toEqual(
+        expect.objectContaining({ language: "ru", script: "Cyrillic" })
+      );
+      expect(LanguageDetectionService.detect("狐はすばやく賢い動物です。").language).toBe("ja");
+    });
+
+    it("should leave short or letterless text undetermined", () => {
+      expect(LanguageDetectionService.detect("Hola mundo").language).toBe("und");
+      expect(LanguageDetectionService.detect("1234 5678").language).toBe("und");
+    });
+  });
+
+  describe("Fingerprints", () => {
+    it("should keep accented and non-Latin words with their offsets", () => {
+      const text = "Niño, ¿qué pasó? Лиса бежит.";
+
+      const tokens = FingerprintService.tokenize(text);
+
+      expect(tokens.map((token) => token.word)).toEqual(["niño", "qué", "pasó", "лиса", "бежит"]);
+      tokens.forEach((token) => expect(text.slice(token.start, token.end).toLowerCase()).toBe(token.word));
+    });
+
+    it("should count each Han character as a word", () => {
+      expect(FingerprintService.tokenize("狐は賢い").map((token) => token.word)).toEqual(["狐", "は", "賢", "い"]);
+    });
+
+    it("should find passages copied between texts that are not in English", () => {
+      const source = `Introducción. ${SPANISH}`;
+
+      const passages = FingerprintService.findMatchingPassages(SPANISH, source);
+
+      expect(passages).toHaveLength(1);
+      expect(SPANISH.slice(passages[0].start, passages[0].end)).toBe(SPANISH.replace(/\.$/, ""));
+    });
+  });
+
+  describe("Cross-language Matches", () => {
+    it("should flag a sentence paraphrasing a source in another language", async () => {
+      const source = { title: "Foxes", url: "https://a.example", text: ENGLISH };
+
+      const hits = await CrossLanguageOriginalityService.findMatches(SPANISH, [source]);
+
+      expect(hits).toHaveLength(1);
+      expect(SPANISH.slice(hits[0].start, hits[0].end)).toMatch(/^El zorro/);
+      expect(hits[0]).toEqual(expect.objectContaining({ sourceLanguage: "en", source, sourceSentence: ENGLISH }));
+    });
+
+    it("should leave same-language sources to the fingerprint checks", async () => {
+      const hits = await CrossLanguageOriginalityService.findMatches(SPANISH, [
+        { title: "Zorros", url: null, text: SPANISH },
+      ]);
+
+      expect(hits).toEqual([]);
+    });
+  });
+});
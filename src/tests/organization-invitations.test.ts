@@ -0,0 +1,209 @@
+/**
+ * Organization Invitation Tests
+ * Verifies that admins invite members instead of adding them, and that only the
+ * invited account can join
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { EmailService } from "../services/emailService";
+import { OrganizationService } from "../services/organizationService";
+import { SecretsService } from "../services/secrets-service";
+import organizationsRouter from "../api/organizations";
+import { resetPrismaMock } from "./mocks/prisma";
+import {
+  mockNext,
+  mockRequest,
+  mockResponse,
+  organizationInvitationRow,
+  organizationMemberRow,
+  routeHandler,
+  userRow,
+} from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+describe("Organization Invitation Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest
+      .mocked(prisma.organizationMember.findUnique)
+      .mockImplementation(async ({ where }: Prisma.OrganizationMemberFindUniqueArgs) =>
+        ({
+          "admin-1": organizationMemberRow({ user_id: "admin-1", role: "admin" }),
+          "user-1": organizationMemberRow(),
+        })[where.organization_id_user_id?.user_id ?? ""] ?? null
+      );
+    jest.spyOn(EmailService, "sendNotificationEmail").mockResolvedValue(true);
+    jest.spyOn(SecretsService, "getFrontendUrl").mockResolvedValue("https://app.example");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Inviting", () => {
+    beforeEach(() => {
+      jest.mocked(prisma.organizationMember.findFirst).mockResolvedValue(null);
+      jest.mocked(prisma.organizationInvitation.findUnique).mockResolvedValue(null);
+      jest.mocked(prisma.organizationInvitation.create).mockResolvedValue(organizationInvitationRow());
+      jest.mocked(prisma.user.findUnique).mockResolvedValue(userRow({ id: "admin-1", full_name: "<b>Admin</b>" }));
+    });
+
+    it("should create a pending invitation instead of a membership", async () => {
+      const invitation = await OrganizationService.inviteMember(
+        "organization-1",
+        "admin-1",
+        " Student@Example.com ",
+        "member"
+      );
+
+      const [args] = jest.mocked(prisma.organizationInvitation.create).mock.calls[0] as [
+        Prisma.OrganizationInvitationCreateArgs,
+      ];
+      expect(args.data).toEqual(
+        expect.objectContaining({ email: "student@example.com", role: "member", status: "pending" })
+      );
+      expect(prisma.organizationMember.upsert).not.toHaveBeenCalled();
+      expect(invitation).not.toHaveProperty("invite_token");
+      expect(invitation).not.toHaveProperty("inviteToken");
+    });
+
+    it("should email an escaped invite link", async () => {
+      await OrganizationService.inviteMember("organization-1", "admin-1", "student@example.com", "member");
+
+      const [to, , , message] = jest.mocked(EmailService.sendNotificationEmail).mock.calls[0];
+      expect(to).toBe("student@example.com");
+      expect(message).toContain("&lt;b&gt;Admin&lt;/b&gt; invited you");
+      expect(message).toContain(
+        '<a href="https://app.example/dashboard/organizations/organization-1/accept-invite?token='
+      );
+    });
+
+    it("should only let admins invite", async () => {
+      await expect(
+        OrganizationService.inviteMember("organization-1", "user-1", "student@example.com", "member")
+      ).rejects.toThrow("requires the organization admin role");
+      expect(prisma.organizationInvitation.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject members and pending invitations, and re-open revoked ones", async () => {
+      jest.mocked(prisma.organizationMember.findFirst).mockResolvedValueOnce(organizationMemberRow());
+      await expect(
+        OrganizationService.inviteMember("organization-1", "admin-1", "student@example.com", "member")
+      ).rejects.toThrow("already a member");
+
+      jest.mocked(prisma.organizationInvitation.findUnique).mockResolvedValueOnce(organizationInvitationRow());
+      await expect(
+        OrganizationService.inviteMember("organization-1", "admin-1", "student@example.com", "member")
+      ).rejects.toThrow("already been invited");
+
+      jest
+        .mocked(prisma.organizationInvitation.findUnique)
+        .mockResolvedValueOnce(organizationInvitationRow({ status: "revoked" }));
+      jest.mocked(prisma.organizationInvitation.update).mockResolvedValue(organizationInvitationRow());
+      await OrganizationService.inviteMember("organization-1", "admin-1", "student@example.com", "admin");
+
+      const [args] = jest.mocked(prisma.organizationInvitation.update).mock.calls[0] as [
+        Prisma.OrganizationInvitationUpdateArgs,
+      ];
+      expect(args.data).toEqual(expect.objectContaining({ status: "pending", role: "admin", revoked_at: null }));
+      expect(args.data.invite_token).not.toBe("invite-token");
+    });
+  });
+
+  describe("Accepting", () => {
+    beforeEach(() => {
+      jest.mocked(prisma.organizationInvitation.findUnique).mockResolvedValue(organizationInvitationRow());
+      jest.mocked(prisma.organizationMember.upsert).mockResolvedValue(organizationMemberRow({ user_id: "user-2" }));
+      jest.mocked(prisma.organizationInvitation.update).mockResolvedValue(organizationInvitationRow());
+    });
+
+    it("should add the invited account with the invited role", async () => {
+      const member = await OrganizationService.acceptInvitation(
+        "organization-1",
+        "invite-token",
+        "user-2",
+        "Student@example.com"
+      );
+
+      const [upsert] = jest.mocked(prisma.organizationMember.upsert).mock.calls[0] as [
+        Prisma.OrganizationMemberUpsertArgs,
+      ];
+      expect(upsert.create).toEqual({ organization_id: "organization-1", user_id: "user-2", role: "member" });
+      const [update] = jest.mocked(prisma.organizationInvitation.update).mock.calls[0] as [
+        Prisma.OrganizationInvitationUpdateArgs,
+      ];
+      expect(update.data.status).toBe("accepted");
+      expect(member.user_id).toBe("user-2");
+    });
+
+    it("should refuse other accounts and used invitations", async () => {
+      await expect(
+        OrganizationService.acceptInvitation("organization-1", "invite-token", "user-3", "other@example.com")
+      ).rejects.toThrow("different email");
+
+      jest
+        .mocked(prisma.organizationInvitation.findUnique)
+        .mockResolvedValue(organizationInvitationRow({ status: "revoked" }));
+      await expect(
+        OrganizationService.acceptInvitation("organization-1", "invite-token", "user-2", "student@example.com")
+      ).rejects.toThrow("no longer valid");
+
+      expect(prisma.organizationMember.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Routes", () => {
+    it("should no longer add members directly", () => {
+      expect(() => routeHandler(organizationsRouter, "post", "/:id/members")).toThrow();
+    });
+
+    it("should answer 409 for a repeated invitation and 403 for the wrong account", async () => {
+      jest.mocked(prisma.organizationMember.findFirst).mockResolvedValue(null);
+      jest.mocked(prisma.organizationInvitation.findUnique).mockResolvedValue(organizationInvitationRow());
+
+      const invited = mockResponse();
+      await routeHandler(organizationsRouter, "post", "/:id/invitations")(
+        mockRequest({
+          user: { id: "admin-1" },
+          params: { id: "organization-1" },
+          body: { email: "student@example.com" },
+        }),
+        invited,
+        mockNext()
+      );
+
+      const accepted = mockResponse();
+      await routeHandler(organizationsRouter, "post", "/:id/invitations/accept")(
+        mockRequest({
+          user: { id: "user-3", email: "other@example.com" },
+          params: { id: "organization-1" },
+          body: { token: "invite-token" },
+        }),
+        accepted,
+        mockNext()
+      );
+
+      expect(invited.status).toHaveBeenCalledWith(409);
+      expect(accepted.status).toHaveBeenCalledWith(403);
+    });
+
+    it("should let admins withdraw a pending invitation", async () => {
+      jest.mocked(prisma.organizationInvitation.updateMany).mockResolvedValue({ count: 1 });
+      const res = mockResponse();
+
+      await routeHandler(organizationsRouter, "delete", "/:id/invitations/:invitationId")(
+        mockRequest({ user: { id: "admin-1" }, params: { id: "organization-1", invitationId: "invitation-1" } }),
+        res,
+        mockNext()
+      );
+
+      const [args] = jest.mocked(prisma.organizationInvitation.updateMany).mock.calls[0] as [
+        Prisma.OrganizationInvitationUpdateManyArgs,
+      ];
+      expect(args.where).toEqual({ id: "invitation-1", organization_id: "organization-1", status: "pending" });
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+  });
+});
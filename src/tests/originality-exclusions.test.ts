@@ -0,0 +1,174 @@
+/**
+ * Originality Exclusion Tests
+ * Verifies which similarity matches the exclusion rules leave out of the filtered score,
+ * and that reusing a cached scan never rescores the scan it was copied from
+ */
+
+import type { OriginalityScan, Prisma, SimilarityMatch } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { OriginalityExclusionService } from "../services/originalityExclusionService";
+import { OriginalityMapService } from "../services/originalityMapService";
+import { ProjectAccessService } from "../services/projectAccessService";
+import { DEFAULT_EXCLUSION_SETTINGS } from "../types/originalityExclusions";
+import { resetPrismaMock } from "./mocks/prisma";
+import { originalityScanRow, similarityMatchRow, userRow } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const CONTENT =
+  'Foxes are quick and clever animals. As Smith wrote, "cats are slow and sleep all day long." Owls hunt.\n' +
+  "References\n" +
+  "Smith, J. (2020). Cats at rest. Feline Press.";
+
+const span = (text: string) => ({ start: CONTENT.indexOf(text), end: CONTENT.indexOf(text) + text.length });
+
+type ScanWithMatches = OriginalityScan & { matches: SimilarityMatch[] };
+
+function cachedScan(): ScanWithMatches {
+  const quoted = span('"cats are slow and sleep all day long."');
+  const reference = span("Smith, J. (2020). Cats at rest.");
+  return {
+    ...originalityScanRow({ scanned_content: CONTENT, overall_score: 20, raw_score: 20 }),
+    matches: [
+      similarityMatchRow({ position_start: 0, position_end: 35 }),
+      similarityMatchRow({ id: "match-2", position_start: quoted.start, position_end: quoted.end }),
+      similarityMatchRow({ id: "match-3", position_start: reference.start, position_end: reference.end }),
+    ],
+  };
+}
+
+describe("Originality Exclusion Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Rules", () => {
+    const candidates = [
+      { ...span("Foxes are quick and clever animals."), sourceUrl: "https://www.example.com/foxes" },
+      { ...span('"cats are slow and sleep all day long."'), sourceUrl: "https://b.example/cats" },
+      { ...span("Owls hunt."), sourceUrl: "https://c.example/owls" },
+      { ...span("Smith, J. (2020). Cats at rest."), sourceUrl: "https://d.example/refs" },
+    ];
+
+    it("should keep every match under the default rules", () => {
+      expect(OriginalityExclusionService.evaluate(CONTENT, candidates, DEFAULT_EXCLUSION_SETTINGS)).toEqual([
+        null,
+        null,
+        null,
+        null,
+      ]);
+    });
+
+    it("should give each excluded match its reason", () => {
+      const reasons = OriginalityExclusionService.evaluate(CONTENT, candidates, {
+        ...DEFAULT_EXCLUSION_SETTINGS,
+        excludeQuotes: true,
+        excludeBibliography: true,
+        minMatchWords: 3,
+        excludedSources: ["example.com"],
+      });
+
+      expect(reasons).toEqual(["excluded_source", "quoted", "small_match", "bibliography"]);
+    });
+
+    it("should scale the raw score by the share of matched text that is kept", () => {
+      const all = OriginalityExclusionService.filteredScore(CONTENT, candidates, [null, null, null, null], 20);
+      const filtered = OriginalityExclusionService.filteredScore(CONTENT, candidates, [null, "quoted", null, null], 20);
+
+      expect(all).toBe(20);
+      expect(filtered).toBeLessThan(20);
+      expect(filtered).toBeGreaterThan(0);
+    });
+
+    it("should reject unknown fields and values of the wrong type", () => {
+      expect(() => OriginalityExclusionService.parseInput({ minMatchWords: "5" })).toThrow(
+        "minMatchWords must be an integer between 0 and 100"
+      );
+      expect(() => OriginalityExclusionService.parseInput({ excludeFootnotes: true })).toThrow();
+    });
+  });
+
+  describe("Cached Scans", () => {
+    let scans: Record<string, ScanWithMatches>;
+
+    beforeEach(() => {
+      scans = { "scan-1": cachedScan() };
+
+      jest
+        .mocked(prisma.user.findUnique)
+        .mockResolvedValue(userRow({ originality_exclusions: { excludeQuotes: true } }));
+      jest.mocked(prisma.originalityScan.findFirst).mockResolvedValue(scans["scan-1"]);
+      jest
+        .mocked(prisma.originalityScan.create)
+        .mockImplementation(async ({ data }: Prisma.OriginalityScanCreateArgs) => {
+          const { matches, ...row } = data as Prisma.OriginalityScanUncheckedCreateInput;
+          const created = (matches?.create ?? []) as Prisma.SimilarityMatchCreateWithoutScanInput[];
+          scans["scan-2"] = {
+            ...originalityScanRow({ ...row, id: "scan-2" } as Partial<OriginalityScan>),
+            matches: created.map((match, index) =>
+              similarityMatchRow({ ...match, id: `copy-${index}`, scan_id: "scan-2" } as Partial<SimilarityMatch>)
+            ),
+          };
+          return scans["scan-2"];
+        });
+      jest
+        .mocked(prisma.originalityScan.findUnique)
+        .mockImplementation(async ({ where }: Prisma.OriginalityScanFindUniqueArgs) => scans[where.id!] ?? null);
+    });
+
+    it("should copy the matches into a new scan scored with the request's rules", async () => {
+      const result = await OriginalityMapService.startScan("project-1", "user-1", CONTENT);
+
+      expect(result!.id).toBe("scan-2");
+      expect(result!.rawScore).toBe(20);
+      expect(result!.overallScore).toBeLessThan(20);
+      const reasons = result!.matches.map((m: { exclusionReason: string | null }) => m.exclusionReason);
+      expect(reasons).toEqual([null, "quoted", null]);
+
+      const [args] = jest.mocked(prisma.originalityScan.create).mock.calls[0] as [Prisma.OriginalityScanCreateArgs];
+      expect(args.data).toEqual(
+        expect.objectContaining({ provider: "copyleaks", scanned_at: scans["scan-1"].scanned_at })
+      );
+    });
+
+    it("should leave the cached scan's rules and score untouched", async () => {
+      await OriginalityMapService.startScan("project-1", "user-1", CONTENT);
+
+      expect(prisma.originalityScan.update).not.toHaveBeenCalled();
+      expect(prisma.similarityMatch.update).not.toHaveBeenCalled();
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Changing a Scan's Rules", () => {
+    beforeEach(() => {
+      jest.mocked(prisma.originalityScan.findUnique).mockResolvedValue(cachedScan());
+      jest.mocked(prisma.similarityMatch.update).mockResolvedValue(similarityMatchRow());
+      jest.mocked(prisma.originalityScan.update).mockResolvedValue(originalityScanRow());
+    });
+
+    it("should rescore the scan with the merged rules", async () => {
+      await OriginalityMapService.updateScanExclusions("scan-1", "user-1", { excludeBibliography: true });
+
+      const [args] = jest.mocked(prisma.originalityScan.update).mock.calls[0] as [Prisma.OriginalityScanUpdateArgs];
+      expect(args.data.exclusion_settings).toEqual(
+        expect.objectContaining({ excludeBibliography: true, excludeQuotes: false })
+      );
+      expect(args.data.overall_score).toBeLessThan(20);
+    });
+
+    it("should require editor access to another user's scan", async () => {
+      jest.spyOn(ProjectAccessService, "assertAccess").mockRejectedValue(new Error("Access denied"));
+
+      await expect(
+        OriginalityMapService.updateScanExclusions("scan-1", "viewer-1", { excludeQuotes: true })
+      ).rejects.toThrow("Access denied");
+      expect(ProjectAccessService.assertAccess).toHaveBeenCalledWith("project-1", "viewer-1", "editor");
+      expect(prisma.originalityScan.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Originality Provider Tests
+ * Verifies the provider chain's fallback order and which earlier scans a new scan may reuse
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { OriginalityProviderChain } from "../services/originalityProviders/providerChain";
+import { OriginalityMapService } from "../services/originalityMapService";
+import { ProviderScanOutcome } from "../types/originalityProviders";
+import { resetPrismaMock } from "./mocks/prisma";
+import { originalityScanRow, userRow } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const CONTENT = "Foxes are quick and clever animals that live in many parts of the world.";
+const CONTEXT = { scanId: "scan-1", projectId: "project-1", userId: "user-1" };
+
+const completed: ProviderScanOutcome = {
+  status: "completed",
+  matches: [],
+  summary: { overallScore: 0, wordsScanned: 14, cost: 0, matchCount: 0 },
+};
+
+describe("Originality Provider Tests", () => {
+  const copyscape = OriginalityProviderChain.getProvider("copyscape");
+  const local = OriginalityProviderChain.getProvider("local");
+
+  beforeEach(() => {
+    resetPrismaMock();
+    process.env.ORIGINALITY_PROVIDERS = "copyscape,local";
+    jest.spyOn(copyscape, "isConfigured").mockResolvedValue(true);
+    jest.spyOn(local, "isConfigured").mockResolvedValue(true);
+    jest.spyOn(local, "scan").mockResolvedValue(completed);
+  });
+
+  afterEach(() => {
+    delete process.env.ORIGINALITY_PROVIDERS;
+    jest.restoreAllMocks();
+  });
+
+  describe("Provider Chain", () => {
+    it("should always end the chain with the offline provider", () => {
+      process.env.ORIGINALITY_PROVIDERS = "copyscape";
+
+      expect(OriginalityProviderChain.providersForPlan("free")).toEqual(["copyscape", "local"]);
+    });
+
+    it("should use the first provider that answers", async () => {
+      jest.spyOn(copyscape, "scan").mockResolvedValue(completed);
+
+      const result = await OriginalityProviderChain.scan("free", CONTENT, CONTEXT);
+
+      expect(result.provider).toBe("copyscape");
+      expect(result.degraded).toBe(false);
+      expect(local.scan).not.toHaveBeenCalled();
+    });
+
+    it("should fall back and flag the result as degraded when a provider fails", async () => {
+      jest.spyOn(copyscape, "scan").mockRejectedValue(new Error("Insufficient credit"));
+
+      const result = await OriginalityProviderChain.scan("free", CONTENT, CONTEXT);
+
+      expect(result.provider).toBe("local");
+      expect(result.degraded).toBe(true);
+      expect(result.attempts).toEqual([
+        { provider: "copyscape", status: "failed", error: "Insufficient credit" },
+        { provider: "local", status: "completed" },
+      ]);
+    });
+
+    it("should skip providers that are not configured", async () => {
+      jest.spyOn(copyscape, "isConfigured").mockResolvedValue(false);
+
+      const result = await OriginalityProviderChain.scan("free", CONTENT, CONTEXT);
+
+      expect(result.attempts[0]).toEqual({ provider: "copyscape", status: "skipped", error: "Not configured" });
+      expect(result.provider).toBe("local");
+    });
+  });
+
+  describe("Scan Cache", () => {
+    beforeEach(() => {
+      jest.mocked(prisma.user.findUnique).mockResolvedValue(userRow());
+      jest.mocked(prisma.originalityScan.findFirst).mockResolvedValue(null);
+      jest.mocked(prisma.originalityScan.create).mockResolvedValue(originalityScanRow({ scan_status: "processing" }));
+      jest.mocked(prisma.originalityScan.update).mockResolvedValue(originalityScanRow());
+      jest
+        .mocked(prisma.originalityScan.findUnique)
+        .mockResolvedValue(originalityScanRow({ provider: "copyscape" }));
+      jest.spyOn(copyscape, "scan").mockResolvedValue(completed);
+    });
+
+    it("should only reuse completed web scans of the same project", async () => {
+      await OriginalityMapService.startScan("project-1", "user-1", CONTENT);
+
+      const [args] = jest.mocked(prisma.originalityScan.findFirst).mock.calls[0] as [
+        Prisma.OriginalityScanFindFirstArgs,
+      ];
+      expect(args.where).toEqual(
+        expect.objectContaining({
+          project_id: "project-1",
+          user_id: "user-1",
+          scan_status: "completed",
+          provider: { not: "local" },
+          degraded: false,
+        })
+      );
+    });
+
+    it("should run the provider chain when no scan can be reused", async () => {
+      const result = await OriginalityMapService.startScan("project-1", "user-1", CONTENT);
+
+      expect(copyscape.scan).toHaveBeenCalledTimes(1);
+      expect(prisma.originalityScan.create).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(
+        expect.objectContaining({
+          id: "scan-1",
+          provider: "copyscape",
+          degraded: false,
+          providerAttempts: [{ provider: "copyscape", status: "completed" }],
+        })
+      );
+    });
+  });
+
+  describe("Copyleaks Webhooks", () => {
+    it("should only fail scans still waiting for Copyleaks", async () => {
+      jest.mocked(prisma.originalityScan.updateMany).mockResolvedValue({ count: 1 });
+
+      await OriginalityMapService.failCopyleaksScan("scan-1", "Timeout");
+
+      const [args] = jest.mocked(prisma.originalityScan.updateMany).mock.calls[0] as [
+        Prisma.OriginalityScanUpdateManyArgs,
+      ];
+      expect(args.where).toEqual({ id: "scan-1", scan_status: "processing", provider: "copyleaks" });
+      expect(args.data).toEqual(expect.objectContaining({ scan_status: "failed", overall_score: -1 }));
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Originality Report Tests
+ * Verifies the report's source appendix, and that a scan's stored report is reused
+ * until its exclusion rules change
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { OriginalityMapService } from "../services/originalityMapService";
+import { OriginalityReportGenerator } from "../services/originalityReportGenerator";
+import { SupabaseStorageService } from "../services/supabaseStorageService";
+import { resetPrismaMock } from "./mocks/prisma";
+import { originalityScanRow, similarityMatchRow } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const CONTENT = "Foxes are quick and clever animals. Cats are slow and sleep all day long.";
+const UPDATED_AT = new Date("2026-10-10T09:00:00Z");
+
+describe("Originality Report Tests", () => {
+  let reportPath: string | null;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    reportPath = null;
+
+    jest
+      .mocked(prisma.originalityScan.findUnique)
+      .mockImplementation(async () =>
+        Object.assign(
+          originalityScanRow({ scanned_content: CONTENT, report_path: reportPath, updated_at: UPDATED_AT }),
+          { matches: [similarityMatchRow()] }
+        )
+      );
+    jest.mocked(prisma.originalityScan.updateMany).mockResolvedValue({ count: 1 });
+
+    jest
+      .spyOn(OriginalityReportGenerator, "generateReport")
+      .mockResolvedValue({ buffer: Buffer.from("%PDF"), fileName: "originality-report-scan-1.pdf" });
+    jest
+      .spyOn(SupabaseStorageService, "uploadFile")
+      .mockResolvedValue({
+        path: "user-1/report.pdf",
+        url: "https://storage.example/report.pdf",
+        publicUrl: "https://storage.example/report.pdf",
+      });
+    jest.spyOn(SupabaseStorageService, "createSignedUrl").mockResolvedValue("https://storage.example/signed");
+    jest.spyOn(SupabaseStorageService, "deleteFile").mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Stored Reports", () => {
+    it("should render and keep the report on the scan without a file record", async () => {
+      const result = await OriginalityReportGenerator.generateAndStore("scan-1", "user-1");
+
+      expect(SupabaseStorageService.uploadFile).toHaveBeenCalledWith(
+        Buffer.from("%PDF"),
+        "originality-report-scan-1.pdf",
+        "application/pdf",
+        "user-1"
+      );
+      const [args] = jest.mocked(prisma.originalityScan.updateMany).mock.calls[0] as [
+        Prisma.OriginalityScanUpdateManyArgs,
+      ];
+      expect(args).toEqual({
+        where: { id: "scan-1", updated_at: UPDATED_AT },
+        data: { report_path: "user-1/report.pdf" },
+      });
+      expect(result).toEqual(expect.objectContaining({ filePath: "user-1/report.pdf", reused: false }));
+    });
+
+    it("should reuse the stored report", async () => {
+      reportPath = "user-1/stored.pdf";
+
+      const result = await OriginalityReportGenerator.generateAndStore("scan-1", "user-1");
+
+      expect(result).toEqual(expect.objectContaining({ filePath: "user-1/stored.pdf", reused: true }));
+      expect(OriginalityReportGenerator.generateReport).not.toHaveBeenCalled();
+      expect(SupabaseStorageService.uploadFile).not.toHaveBeenCalled();
+    });
+
+    it("should render again when the stored report is gone", async () => {
+      reportPath = "user-1/stored.pdf";
+      jest
+        .spyOn(SupabaseStorageService, "createSignedUrl")
+        .mockRejectedValueOnce(new Error("Object not found"))
+        .mockResolvedValue("https://storage.example/signed");
+
+      const result = await OriginalityReportGenerator.generateAndStore("scan-1", "user-1");
+
+      expect(result).toEqual(expect.objectContaining({ filePath: "user-1/report.pdf", reused: false }));
+    });
+
+    it("should drop the stored report when the scan's exclusion rules change", async () => {
+      reportPath = "user-1/stored.pdf";
+      jest.mocked(prisma.similarityMatch.update).mockResolvedValue(similarityMatchRow());
+      jest.mocked(prisma.originalityScan.update).mockResolvedValue(originalityScanRow());
+
+      await OriginalityMapService.updateScanExclusions("scan-1", "user-1", { excludeQuotes: true });
+
+      const [args] = jest.mocked(prisma.originalityScan.update).mock.calls[0] as [Prisma.OriginalityScanUpdateArgs];
+      expect(args.data.report_path).toBeNull();
+      expect(SupabaseStorageService.deleteFile).toHaveBeenCalledWith("user-1/stored.pdf");
+    });
+
+    it("should only report on completed scans", async () => {
+      jest
+        .mocked(prisma.originalityScan.findUnique)
+        .mockResolvedValue(originalityScanRow({ scan_status: "processing" }));
+
+      await expect(OriginalityReportGenerator.generateAndStore("scan-1", "user-1")).rejects.toThrow(
+        "Report is only available for completed scans"
+      );
+    });
+  });
+
+  describe("Source Appendix", () => {
+    it("should number sources by first appearance and leave out excluded matches", () => {
+      const { sources, spans } = OriginalityReportGenerator.buildSources(CONTENT, [
+        { sourceUrl: "https://b.example", positionStart: 36, positionEnd: 73, classification: "yellow" },
+        { sourceUrl: "https://a.example", positionStart: 0, positionEnd: 35, classification: "red" },
+        { sourceUrl: "https://c.example", positionStart: 0, positionEnd: 10, classification: "red", excluded: true },
+      ]);
+
+      expect(sources.map((source) => [source.number, source.url])).toEqual([
+        [1, "https://a.example"],
+        [2, "https://b.example"],
+      ]);
+      expect(sources[0].percent).toBeCloseTo((35 / CONTENT.length) * 100, 0);
+      expect(spans).toHaveLength(2);
+    });
+  });
+});
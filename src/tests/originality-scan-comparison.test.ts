@@ -0,0 +1,137 @@
+/**
+ * Originality Scan Comparison Tests
+ * Verifies that matches of two scans of a project are aligned across the revised
+ * draft and sorted into resolved, persisting and new
+ */
+
+import type { Prisma, SimilarityMatch } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { OriginalityScanComparisonService } from "../services/originalityScanComparisonService";
+import { ProjectAccessService } from "../services/projectAccessService";
+import originalityRouter from "../api/originality";
+import { resetPrismaMock } from "./mocks/prisma";
+import {
+  mockNext,
+  mockRequest,
+  mockResponse,
+  originalityScanRow,
+  routeHandler,
+  similarityMatchRow,
+} from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const FOXES = "Foxes are quick and clever animals.";
+const CATS = "Cats are slow and sleep all day long.";
+const BIRDS = "Birds sing early in the morning.";
+const FIRST_DRAFT = `${FOXES} ${CATS}`;
+const SECOND_DRAFT = `Owls hunt at night and rarely rest. ${FOXES} ${BIRDS}`;
+
+// A match on `sentence` at its position in `draft`
+function matchIn(draft: string, sentence: string, overrides: Partial<SimilarityMatch>): SimilarityMatch {
+  const start = draft.indexOf(sentence);
+  return similarityMatchRow({
+    sentence_text: sentence,
+    position_start: start,
+    position_end: start + sentence.length,
+    ...overrides,
+  });
+}
+
+describe("Originality Scan Comparison Tests", () => {
+  let scans: Record<string, ReturnType<typeof originalityScanRow> & { matches: SimilarityMatch[] }>;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.spyOn(ProjectAccessService, "assertAccess").mockResolvedValue("owner");
+
+    scans = {
+      "scan-1": Object.assign(
+        originalityScanRow({ id: "scan-1", overall_score: 12, scanned_content: FIRST_DRAFT }),
+        {
+          matches: [
+            matchIn(FIRST_DRAFT, FOXES, { id: "match-1", source_url: "https://a.example" }),
+            matchIn(FIRST_DRAFT, CATS, { id: "match-2", source_url: "https://b.example" }),
+          ],
+        }
+      ),
+      "scan-2": Object.assign(
+        originalityScanRow({ id: "scan-2", overall_score: 4, scanned_content: SECOND_DRAFT }),
+        {
+          matches: [
+            matchIn(SECOND_DRAFT, "quick and clever", { id: "match-3", source_url: "http://www.a.example/" }),
+            matchIn(SECOND_DRAFT, BIRDS, { id: "match-4", source_url: "https://c.example" }),
+            matchIn(SECOND_DRAFT, "Owls hunt at night", {
+              id: "match-5",
+              source_url: "https://d.example",
+              excluded: true,
+              exclusion_reason: "quote",
+            }),
+          ],
+        }
+      ),
+    };
+
+    jest
+      .mocked(prisma.originalityScan.findMany)
+      .mockImplementation(async () => [originalityScanRow({ id: "scan-1" }), originalityScanRow({ id: "scan-2" })]);
+    jest
+      .mocked(prisma.originalityScan.findUnique)
+      .mockImplementation(async ({ where }: Prisma.OriginalityScanFindUniqueArgs) => scans[where.id!]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should follow a match to where its passage moved in the revised draft", async () => {
+    const comparison = await OriginalityScanComparisonService.compareScans("project-1", "user-1");
+
+    expect(comparison.persisting.map(({ from, to }) => [from.id, to.id])).toEqual([["match-1", "match-3"]]);
+    expect(comparison.resolved.map((match: { id: string }) => match.id)).toEqual(["match-2"]);
+    expect(comparison.new.map((match: { id: string }) => match.id)).toEqual(["match-4"]);
+  });
+
+  it("should report the score trend and the history of the project's scans", async () => {
+    const comparison = await OriginalityScanComparisonService.compareScans("project-1", "user-1");
+
+    expect(comparison.summary).toEqual(
+      expect.objectContaining({ resolved: 1, persisting: 1, new: 1, scoreDelta: -8, trend: "improved" })
+    );
+    expect(comparison.scoreHistory.map((scan: { scanId: string }) => scan.scanId)).toEqual(["scan-1", "scan-2"]);
+  });
+
+  it("should compare the scans the client picked", async () => {
+    const comparison = await OriginalityScanComparisonService.compareScans("project-1", "user-1", "scan-2", "scan-1");
+
+    expect(comparison.from.id).toBe("scan-2");
+    expect(comparison.summary.trend).toBe("worsened");
+    expect(comparison.resolved.map((match: { id: string }) => match.id)).toEqual(["match-4"]);
+  });
+
+  it("should answer 400 until the project has two completed scans", async () => {
+    jest.mocked(prisma.originalityScan.findMany).mockResolvedValue([originalityScanRow()]);
+    const res = mockResponse();
+
+    await routeHandler(originalityRouter, "get", "/project/:projectId/compare")(
+      mockRequest({ user: { id: "user-1" }, params: { projectId: "project-1" } }),
+      res,
+      mockNext()
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].message).toBe("At least two completed scans are needed for a comparison");
+  });
+
+  it("should answer 404 for scans of another project", async () => {
+    const res = mockResponse();
+
+    await routeHandler(originalityRouter, "get", "/project/:projectId/compare")(
+      mockRequest({ user: { id: "user-1" }, params: { projectId: "project-1" }, query: { from: "scan-9" } }),
+      res,
+      mockNext()
+    );
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Paste Provenance Tests
+ * Verifies where pasted text is attributed to, that only its fingerprints are
+ * stored, and how large external pastes are summarized for the authenticity report
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { PasteProvenanceService } from "../services/pasteProvenanceService";
+import { RealTimeAuthorshipTrackingService } from "../services/realTimeAuthorshipTrackingService";
+import { resetPrismaMock } from "./mocks/prisma";
+import {
+  annotationRow,
+  fileRow,
+  projectRow,
+  realTimeActivityRow,
+  sourceInteractionRow,
+} from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const PASTED_AT = new Date("2026-10-01T10:00:00Z");
+const PASSAGE =
+  "Urban foxes have adapted to city life by shifting their activity to the night, feeding on waste left by " +
+  "people and denning under sheds and railway embankments, which brings them into close contact with residents.";
+const OWN_WORDS =
+  "My own argument is that cities should plan green corridors so that wildlife can move between parks without " +
+  "crossing busy roads, and that councils should fund surveys before they approve new building projects.";
+
+function tiptap(text: string): Prisma.JsonObject {
+  return { type: "doc", content: [{ type: "paragraph", content: [{ type: "text", text }] }] };
+}
+
+describe("Paste Provenance Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.mocked(prisma.annotation.findMany).mockResolvedValue([]);
+    jest.mocked(prisma.file.findFirst).mockResolvedValue(null);
+    jest.mocked(prisma.sourceInteraction.findMany).mockResolvedValue([]);
+  });
+
+  describe("Origins", () => {
+    it("should attribute a paste of the writer's own note to that note", async () => {
+      jest
+        .mocked(prisma.annotation.findMany)
+        .mockResolvedValue([annotationRow({ id: "annotation-7", content: `Draft idea. ${OWN_WORDS}` })]);
+
+      const provenance = await PasteProvenanceService.resolve("user-1", "project-1", OWN_WORDS, PASTED_AT);
+
+      expect(provenance).toEqual(expect.objectContaining({ origin: "own_notes", originRef: "annotation-7" }));
+      expect(provenance.hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(provenance.fingerprints.length).toBeGreaterThan(0);
+    });
+
+    it("should tell the writer's uploads from papers opened from a citation", async () => {
+      jest.mocked(prisma.file.findFirst).mockResolvedValueOnce(fileRow({ id: "file-1" }));
+      jest
+        .mocked(prisma.file.findFirst)
+        .mockResolvedValueOnce(fileRow({ id: "file-2", metadata: { source: "external_citation" } }));
+
+      const upload = await PasteProvenanceService.resolve("user-1", "project-1", PASSAGE, PASTED_AT, {
+        sourceFileId: "file-1",
+      });
+      const paper = await PasteProvenanceService.resolve("user-1", "project-1", PASSAGE, PASTED_AT, {
+        sourceFileId: "file-2",
+      });
+
+      expect(upload).toEqual(expect.objectContaining({ origin: "uploaded_file", originRef: "file-1" }));
+      expect(paper).toEqual(expect.objectContaining({ origin: "source", originRef: "file-2" }));
+    });
+
+    it("should attribute a paste to the source the writer was just reading", async () => {
+      jest
+        .mocked(prisma.sourceInteraction.findMany)
+        .mockResolvedValue([
+          sourceInteractionRow({ source_id: "https://b.example/other" }),
+          sourceInteractionRow({ source_id: "https://a.example/paper" }),
+        ]);
+
+      const provenance = await PasteProvenanceService.resolve("user-1", "project-1", PASSAGE, PASTED_AT, {
+        sourceUrl: "http://www.a.example/paper/",
+      });
+
+      expect(provenance).toEqual(expect.objectContaining({ origin: "source", originRef: "https://a.example/paper" }));
+      const [args] = jest.mocked(prisma.sourceInteraction.findMany).mock.calls[0] as [
+        Prisma.SourceInteractionFindManyArgs,
+      ];
+      expect(args.where!.last_read_at).toEqual({ gte: new Date("2026-10-01T09:45:00Z"), lte: PASTED_AT });
+    });
+
+    it("should leave pastes without any lead unattributed", async () => {
+      const provenance = await PasteProvenanceService.resolve("user-1", "project-1", PASSAGE, PASTED_AT);
+
+      expect(provenance).toEqual(expect.objectContaining({ origin: "unattributed", originRef: null }));
+    });
+  });
+
+  describe("Tracking", () => {
+    it("should store the paste's fingerprints but not its text", async () => {
+      await RealTimeAuthorshipTrackingService.trackActivity({
+        projectId: "project-1",
+        userId: "user-1",
+        eventType: "paste",
+        timestamp: PASTED_AT,
+        pastedText: PASSAGE,
+      });
+
+      const [args] = jest.mocked(prisma.realTimeActivity.create).mock.calls[0] as [
+        Prisma.RealTimeActivityCreateArgs,
+      ];
+      expect(args.data).toEqual(
+        expect.objectContaining({ selection_length: PASSAGE.length, paste_origin: "unattributed" })
+      );
+      expect(args.data.paste_fingerprints).not.toHaveLength(0);
+      expect(JSON.stringify(args.data)).not.toContain("Urban foxes");
+    });
+
+    it("should still record the paste when provenance cannot be resolved", async () => {
+      jest.mocked(prisma.annotation.findMany).mockRejectedValue(new Error("Connection lost"));
+
+      await RealTimeAuthorshipTrackingService.trackActivity({
+        projectId: "project-1",
+        userId: "user-1",
+        eventType: "paste",
+        timestamp: PASTED_AT,
+        pastedText: PASSAGE,
+      });
+
+      const [args] = jest.mocked(prisma.realTimeActivity.create).mock.calls[0] as [
+        Prisma.RealTimeActivityCreateArgs,
+      ];
+      expect(args.data).toEqual(expect.objectContaining({ event_type: "paste", paste_fingerprints: [] }));
+    });
+  });
+
+  describe("Summary", () => {
+    it("should tell large external pastes left verbatim from reworked ones", async () => {
+      const { fingerprints: passage } = await PasteProvenanceService.resolve("user-1", "project-1", PASSAGE, PASTED_AT);
+      const { fingerprints: reworked } = await PasteProvenanceService.resolve(
+        "user-1",
+        "project-1",
+        PASSAGE.replace("foxes", "badgers").split(" ").reverse().join(" "),
+        PASTED_AT
+      );
+      jest.mocked(prisma.realTimeActivity.findMany).mockResolvedValue([
+        realTimeActivityRow({
+          event_type: "paste",
+          selection_length: PASSAGE.length,
+          paste_fingerprints: passage,
+          paste_origin: "source",
+          paste_origin_ref: "https://a.example/paper",
+        }),
+        realTimeActivityRow({
+          event_type: "paste",
+          selection_length: PASSAGE.length,
+          paste_fingerprints: reworked,
+          paste_origin: "unattributed",
+        }),
+        realTimeActivityRow({ event_type: "paste", selection_length: OWN_WORDS.length, paste_origin: "own_notes" }),
+        realTimeActivityRow({ event_type: "paste", selection_length: 40 }),
+      ]);
+      jest
+        .mocked(prisma.project.findUnique)
+        .mockResolvedValue(projectRow({ content: tiptap(`${OWN_WORDS} ${PASSAGE}`) }));
+
+      const summary = await PasteProvenanceService.summarize("project-1", "user-1");
+
+      expect(summary.totalPastes).toBe(4);
+      expect(summary.byOrigin.own_notes.count).toBe(1);
+      expect(summary.byOrigin.unattributed.count).toBe(2); // Pastes recorded before provenance count as unattributed
+      expect(summary.largeExternalPastes).toEqual(
+        expect.objectContaining({ count: 2, verbatim: 1, heavilyEdited: 1 })
+      );
+      expect(summary.largeExternalPastes.pastes[0]).toEqual(
+        expect.objectContaining({ origin: "source", retention: "verbatim", retainedPercentage: 100 })
+      );
+    });
+  });
+});
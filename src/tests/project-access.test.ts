@@ -0,0 +1,209 @@
+/**
+ * Project Access Tests
+ * Verifies role resolution, the role hierarchy and the requireProjectRole middleware
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { CollaboratorRole, ProjectAccessService } from "../services/projectAccessService";
+import { CollaborationService } from "../services/collaborationService";
+import { EmailService } from "../services/emailService";
+import { SecretsService } from "../services/secrets-service";
+import { requireProjectRole } from "../middleware/projectAccess";
+import { resetPrismaMock } from "./mocks/prisma";
+import { collaboratorRow, mockNext, mockRequest, mockResponse, projectRow, userRow } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const COLLABORATOR_ROLES: Record<string, string> = {
+  "editor-1": "editor",
+  "viewer-1": "viewer",
+  "legacy-1": "admin",
+};
+
+describe("Project Access Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest
+      .mocked(prisma.project.findUnique)
+      .mockImplementation(async ({ where }: Prisma.ProjectFindUniqueArgs) =>
+        where.id === "project-1" ? projectRow() : null
+      );
+    jest
+      .mocked(prisma.projectCollaborator.findFirst)
+      .mockImplementation(async (args?: Prisma.ProjectCollaboratorFindFirstArgs) => {
+        const userId = args?.where?.user_id as string;
+        return COLLABORATOR_ROLES[userId]
+          ? collaboratorRow({ user_id: userId, role: COLLABORATOR_ROLES[userId] })
+          : null;
+      });
+  });
+
+  describe("Role Hierarchy", () => {
+    it("should grant higher roles every permission of lower roles", () => {
+      expect(ProjectAccessService.hasRole("owner", "editor")).toBe(true);
+      expect(ProjectAccessService.hasRole("editor", "commenter")).toBe(true);
+      expect(ProjectAccessService.hasRole("commenter", "viewer")).toBe(true);
+      expect(ProjectAccessService.hasRole("viewer", "commenter")).toBe(false);
+      expect(ProjectAccessService.hasRole(null, "viewer")).toBe(false);
+    });
+
+    it("should not treat owner as a collaborator role", () => {
+      expect(ProjectAccessService.isCollaboratorRole("editor")).toBe(true);
+      expect(ProjectAccessService.isCollaboratorRole("owner")).toBe(false);
+      expect(ProjectAccessService.isCollaboratorRole("admin")).toBe(false);
+    });
+  });
+
+  describe("Role Resolution", () => {
+    it("should make the project creator the owner", async () => {
+      expect(await ProjectAccessService.getRole("project-1", "owner-1")).toBe("owner");
+      expect(prisma.projectCollaborator.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should use the accepted collaborator's role", async () => {
+      expect(await ProjectAccessService.getRole("project-1", "editor-1")).toBe("editor");
+      expect(prisma.projectCollaborator.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: "accepted" }),
+        })
+      );
+    });
+
+    it("should return null for strangers, unknown roles and missing projects", async () => {
+      expect(await ProjectAccessService.getRole("project-1", "stranger")).toBeNull();
+      expect(await ProjectAccessService.getRole("project-1", "legacy-1")).toBeNull();
+      expect(await ProjectAccessService.getRole("missing", "owner-1")).toBeNull();
+    });
+
+    it("should reject users below the required role", async () => {
+      await expect(
+        ProjectAccessService.assertAccess("project-1", "viewer-1", "editor")
+      ).rejects.toThrow("Project not found or access denied");
+      await expect(
+        ProjectAccessService.assertAccess("project-1", "editor-1", "editor")
+      ).resolves.toBe("editor");
+    });
+  });
+
+  describe("Collaborator Roles", () => {
+    it("should refuse to invite or promote anyone to owner", async () => {
+      await expect(
+        CollaborationService.inviteCollaborator("project-1", "owner-1", "a@example.com", "owner" as CollaboratorRole)
+      ).rejects.toThrow("Role must be one of editor, commenter, viewer");
+      await expect(
+        CollaborationService.updateRole("project-1", "collaborator-1", "owner" as CollaboratorRole)
+      ).rejects.toThrow("Role must be one of editor, commenter, viewer");
+      expect(prisma.project.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Invitation Emails", () => {
+    const TITLE = '<img src=x onerror="alert(1)">';
+
+    beforeEach(() => {
+      jest.spyOn(EmailService, "sendCollaborationNotificationEmail").mockResolvedValue(true);
+      jest.spyOn(SecretsService, "getFrontendUrl").mockResolvedValue("https://app.example");
+      jest.mocked(prisma.user.findUnique).mockResolvedValue(userRow({ id: "owner-1", full_name: "<b>Owner</b>" }));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should escape the project title and inviter in the invitation", async () => {
+      const project = { ...projectRow({ title: TITLE }), user: { email: "owner@example.com" } };
+      jest.mocked(prisma.project.findUnique).mockResolvedValue(project);
+      jest.mocked(prisma.projectCollaborator.findUnique).mockResolvedValue(null);
+      jest.mocked(prisma.projectCollaborator.create).mockResolvedValue(collaboratorRow({ status: "pending" }));
+
+      await CollaborationService.inviteCollaborator("project-1", "owner-1", "a@example.com", "editor");
+
+      const [, , , message, , projectName] = jest.mocked(EmailService.sendCollaborationNotificationEmail).mock
+        .calls[0];
+      expect(message).toContain(
+        "&lt;b&gt;Owner&lt;/b&gt; invited you to join \"&lt;img src=x onerror=&quot;alert(1)&quot;&gt;\""
+      );
+      expect(message).toContain('<a href="https://app.example/dashboard/projects/project-1/accept-invite?token=');
+      expect(projectName).not.toContain("<");
+    });
+
+    it("should escape the accepting user's email in the owner's notification", async () => {
+      const invitation = {
+        ...collaboratorRow({ status: "pending", email: "a<script>@example.com" }),
+        project: { title: TITLE, user_id: "owner-1" },
+      };
+      jest.mocked(prisma.projectCollaborator.findUnique).mockResolvedValue(invitation);
+      jest.mocked(prisma.projectCollaborator.update).mockResolvedValue(collaboratorRow());
+
+      await CollaborationService.acceptInvitation("project-1", "invite-token", "user-2", "a<script>@example.com");
+
+      const [, fullName, , message] = jest.mocked(EmailService.sendCollaborationNotificationEmail).mock.calls[0];
+      expect(message).toBe(
+        "a&lt;script&gt;@example.com joined \"&lt;img src=x onerror=&quot;alert(1)&quot;&gt;\" as viewer."
+      );
+      expect(fullName).toBe("&lt;b&gt;Owner&lt;/b&gt;");
+    });
+  });
+
+  describe("requireProjectRole Middleware", () => {
+    it("should require authentication", async () => {
+      const res = mockResponse();
+      const next = mockNext();
+
+      await requireProjectRole("viewer")(mockRequest({ params: { projectId: "project-1" } }), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should require a project id unless optional", async () => {
+      const res = mockResponse();
+      const next = mockNext();
+      const req = mockRequest({ user: { id: "owner-1" } });
+
+      await requireProjectRole("viewer")(req, res, next);
+      expect(res.status).toHaveBeenCalledWith(400);
+
+      await requireProjectRole("viewer", "projectId", { optional: true })(req, mockResponse(), next);
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it("should hide projects the user has no role on", async () => {
+      const res = mockResponse();
+      const next = mockNext();
+      const req = mockRequest({ user: { id: "stranger" }, params: { projectId: "project-1" } });
+
+      await requireProjectRole("viewer")(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should forbid roles below the minimum", async () => {
+      const res = mockResponse();
+      const next = mockNext();
+      const req = mockRequest({ user: { id: "viewer-1" }, body: { projectId: "project-1" } });
+
+      await requireProjectRole("editor")(req, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, data: { role: "viewer" } })
+      );
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should attach the resolved role and continue", async () => {
+      const res = mockResponse();
+      const next = mockNext();
+      const req = mockRequest({ user: { id: "editor-1" }, query: { projectId: "project-1" } });
+
+      await requireProjectRole("commenter")(req, res, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(req.projectRole).toBe("editor");
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+});
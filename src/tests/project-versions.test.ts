@@ -0,0 +1,142 @@
+/**
+ * Project Version Tests
+ * Verifies when saves add, update or skip version snapshots, that concurrent saves
+ * racing for a version number are retried, and that old versions follow plan retention
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { ProjectVersionService } from "../services/projectVersionService";
+import { SubscriptionService } from "../services/subscriptionService";
+import { generateCaseSensitiveContentHash } from "../lib/contentHashUtils";
+import { resetPrismaMock } from "./mocks/prisma";
+import { projectRow, projectVersionRow } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+const TEXT = "Foxes are quick and clever animals that live in many parts of the world. ".repeat(10);
+const MINUTE = 60 * 1000;
+
+const save = (content: string, changeSource?: "save" | "ai") =>
+  ProjectVersionService.createSnapshot("project-1", "user-1", {
+    title: "Foxes and Cats",
+    content,
+    wordCount: content.split(" ").length,
+    changeSource,
+  });
+
+describe("Project Version Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+
+    jest.mocked(prisma.projectVersion.findFirst).mockResolvedValue(
+      projectVersionRow({
+        version_number: 4,
+        content: TEXT,
+        content_hash: generateCaseSensitiveContentHash(TEXT),
+        created_at: new Date(Date.now() - 2 * MINUTE),
+      })
+    );
+    jest.mocked(prisma.projectVersion.create).mockResolvedValue(projectVersionRow({ version_number: 5 }));
+    jest.mocked(prisma.projectVersion.update).mockResolvedValue(projectVersionRow({ version_number: 4 }));
+    jest.mocked(prisma.project.findUnique).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Snapshots", () => {
+    it("should skip saves that change nothing", async () => {
+      expect(await save(TEXT)).toBeNull();
+      expect(prisma.projectVersion.create).not.toHaveBeenCalled();
+      expect(prisma.projectVersion.update).not.toHaveBeenCalled();
+    });
+
+    it("should fold an autosave into the author's recent snapshot", async () => {
+      await save(`${TEXT} Owls hunt at night.`);
+
+      const [args] = jest.mocked(prisma.projectVersion.update).mock.calls[0] as [Prisma.ProjectVersionUpdateArgs];
+      expect(args.where).toEqual({ id: "version-1" });
+      expect(prisma.projectVersion.create).not.toHaveBeenCalled();
+    });
+
+    it("should keep the earlier snapshot when a save removes much of the text", async () => {
+      await save("Foxes are quick.");
+
+      const [args] = jest.mocked(prisma.projectVersion.create).mock.calls[0] as [Prisma.ProjectVersionCreateArgs];
+      expect(args.data).toEqual(expect.objectContaining({ version_number: 5, change_source: "save" }));
+      expect(prisma.projectVersion.update).not.toHaveBeenCalled();
+    });
+
+    it("should give AI rewrites their own version", async () => {
+      await save(`${TEXT} Owls hunt at night.`, "ai");
+
+      const [args] = jest.mocked(prisma.projectVersion.create).mock.calls[0] as [Prisma.ProjectVersionCreateArgs];
+      expect(args.data).toEqual(expect.objectContaining({ version_number: 5, change_source: "ai" }));
+    });
+
+    it("should add a version once the coalescing window has passed", async () => {
+      jest
+        .mocked(prisma.projectVersion.findFirst)
+        .mockResolvedValue(projectVersionRow({ version_number: 4, created_at: new Date(Date.now() - 11 * MINUTE) }));
+
+      await save(`${TEXT} Owls hunt at night.`);
+
+      expect(prisma.projectVersion.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should recount and retry when another save took the version number", async () => {
+      const conflict = new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "5.22.0",
+      });
+      jest.mocked(prisma.$transaction).mockRejectedValueOnce(conflict);
+
+      const version = await save("Foxes are quick.");
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(version).toEqual(expect.objectContaining({ version_number: 5 }));
+    });
+
+    it("should give up after repeated version number conflicts", async () => {
+      const conflict = new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "5.22.0",
+      });
+      jest.mocked(prisma.$transaction).mockRejectedValue(conflict);
+
+      await expect(save("Foxes are quick.")).rejects.toThrow("Unique constraint failed");
+      expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("Retention", () => {
+    beforeEach(() => {
+      jest.mocked(prisma.project.findUnique).mockResolvedValue(projectRow({ user_id: "owner-1" }));
+      jest.mocked(prisma.projectVersion.findMany).mockResolvedValue([projectVersionRow({ id: "version-old" })]);
+      jest.mocked(prisma.projectVersion.deleteMany).mockResolvedValue({ count: 1 });
+    });
+
+    it("should delete versions beyond the owner's plan retention", async () => {
+      jest.spyOn(SubscriptionService, "getActivePlan").mockResolvedValue("free");
+
+      expect(await ProjectVersionService.pruneVersions("project-1")).toBe(1);
+
+      const [args] = jest.mocked(prisma.projectVersion.findMany).mock.calls[0] as [Prisma.ProjectVersionFindManyArgs];
+      expect(args.skip).toBe(SubscriptionService.getPlanLimits("free").project_version_retention);
+      expect(SubscriptionService.getActivePlan).toHaveBeenCalledWith("owner-1");
+    });
+
+    it("should keep every version on plans with unlimited retention", async () => {
+      jest.spyOn(SubscriptionService, "getActivePlan").mockResolvedValue("free");
+      jest.spyOn(SubscriptionService, "getPlanLimits").mockReturnValue({
+        ...SubscriptionService.getPlanLimits("free"),
+        project_version_retention: -1,
+      });
+
+      expect(await ProjectVersionService.pruneVersions("project-1")).toBe(0);
+      expect(prisma.projectVersion.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Source Reading Tests
+ * Verifies that reading is measured server-side through the PDF proxy, that
+ * annotations are counted into the reading record, and how both weigh in the
+ * source integration report
+ */
+
+import type { Prisma } from "@prisma/client";
+import axios, { AxiosHeaders } from "axios";
+import { prisma } from "../lib/prisma";
+import { ProjectAccessService } from "../services/projectAccessService";
+import { SourceIntegrationService } from "../services/sourceIntegrationService";
+import { SourceReadingService, toRanges } from "../services/sourceReadingService";
+import proxyRouter from "../api/proxy";
+import { resetPrismaMock } from "./mocks/prisma";
+import {
+  annotationRow,
+  mockNext,
+  mockRequest,
+  mockResponse,
+  routeHandler,
+  sourceInteractionRow,
+  sourceReadingSessionRow,
+} from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+jest.mock("axios");
+
+const NOW = new Date("2026-10-01T10:00:00Z");
+const SOURCE = {
+  userId: "user-1",
+  projectId: "project-1",
+  sourceId: "doi:10.1/paper",
+  sourceUrl: "https://a.example/paper.pdf",
+};
+
+describe("Source Reading Tests", () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.useFakeTimers({ now: NOW });
+    jest.mocked(prisma.annotation.findMany).mockResolvedValue([]);
+    jest.mocked(prisma.sourceInteraction.findMany).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe("Proxy Sessions", () => {
+    it("should open a session and count the open on a new reading record", async () => {
+      jest.mocked(prisma.sourceReadingSession.findFirst).mockResolvedValue(null);
+      jest
+        .mocked(prisma.sourceReadingSession.create)
+        .mockResolvedValue(sourceReadingSessionRow({ last_active_at: NOW }));
+      jest.mocked(prisma.sourceInteraction.findUnique).mockResolvedValue(null);
+
+      const result = await SourceReadingService.recordProxyRequest(SOURCE);
+
+      expect(result).toEqual({ sessionId: "session-1", resumed: false });
+      const [args] = jest.mocked(prisma.sourceInteraction.create).mock.calls[0] as [
+        Prisma.SourceInteractionCreateArgs,
+      ];
+      expect(args.data).toEqual(
+        expect.objectContaining({ source_id: "doi:10.1/paper", observed_open_count: 1, observed_reading_time_ms: 0 })
+      );
+      // Annotations made before the first open are picked up
+      expect(prisma.annotation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { user_id: "user-1", file_id: "doi:10.1/paper" } })
+      );
+    });
+
+    it("should resume a recent session and add the time since its last request", async () => {
+      jest.mocked(prisma.sourceReadingSession.findFirst).mockResolvedValue(sourceReadingSessionRow());
+      jest.mocked(prisma.sourceInteraction.findUnique).mockResolvedValue(sourceInteractionRow());
+
+      const result = await SourceReadingService.recordProxyRequest(SOURCE);
+
+      expect(result).toEqual({ sessionId: "session-1", resumed: true });
+      const [session] = jest.mocked(prisma.sourceReadingSession.update).mock.calls[0] as [
+        Prisma.SourceReadingSessionUpdateArgs,
+      ];
+      expect(session.data).toEqual(
+        expect.objectContaining({ active_ms: { increment: 60000 }, request_count: { increment: 1 } })
+      );
+      const [interaction] = jest.mocked(prisma.sourceInteraction.update).mock.calls[0] as [
+        Prisma.SourceInteractionUpdateArgs,
+      ];
+      expect(interaction.data).toEqual(
+        expect.objectContaining({
+          observed_open_count: { increment: 0 },
+          observed_reading_time_ms: { increment: 60000 },
+        })
+      );
+    });
+  });
+
+  describe("Viewer Activity", () => {
+    beforeEach(() => {
+      jest.mocked(prisma.sourceInteraction.findUnique).mockResolvedValue(sourceInteractionRow({ pages_viewed: [1] }));
+      jest
+        .mocked(prisma.sourceReadingSession.update)
+        .mockImplementation(async ({ data }: Prisma.SourceReadingSessionUpdateArgs) =>
+          sourceReadingSessionRow({ active_ms: 90000, pages_viewed: data.pages_viewed as number[], page_count: 12 })
+        );
+    });
+
+    it("should merge the pages in view and report them as ranges", async () => {
+      jest
+        .mocked(prisma.sourceReadingSession.findFirst)
+        .mockResolvedValue(sourceReadingSessionRow({ pages_viewed: [1, 2] }));
+
+      const result = await SourceReadingService.recordActivity("session-1", "user-1", {
+        pages: [3, 4, 7, -1, 2.5],
+        pageCount: 12,
+      });
+
+      expect(result).toEqual({ sessionId: "session-1", activeMs: 90000, pagesViewed: "1-4, 7", pageCount: 12 });
+      const [interaction] = jest.mocked(prisma.sourceInteraction.update).mock.calls[0] as [
+        Prisma.SourceInteractionUpdateArgs,
+      ];
+      expect(interaction.data).toEqual(expect.objectContaining({ pages_viewed: [1, 3, 4, 7], page_count: 12 }));
+    });
+
+    it("should not count a long pause as reading", async () => {
+      jest
+        .mocked(prisma.sourceReadingSession.findFirst)
+        .mockResolvedValue(sourceReadingSessionRow({ last_active_at: new Date("2026-10-01T09:30:00Z") }));
+
+      await SourceReadingService.recordActivity("session-1", "user-1", { pages: [5] });
+
+      const [session] = jest.mocked(prisma.sourceReadingSession.update).mock.calls[0] as [
+        Prisma.SourceReadingSessionUpdateArgs,
+      ];
+      expect(session.data.active_ms).toEqual({ increment: 0 });
+    });
+
+    it("should answer 400 without a session id and 404 for another user's session", async () => {
+      const activity = routeHandler(proxyRouter, "post", "/pdf/activity");
+      jest.mocked(prisma.sourceReadingSession.findFirst).mockResolvedValue(null);
+
+      const missing = mockResponse();
+      await activity(mockRequest({ user: { id: "user-2" }, body: { pages: [1] } }), missing, mockNext());
+      const foreign = mockResponse();
+      await activity(mockRequest({ user: { id: "user-2" }, body: { sessionId: "session-1" } }), foreign, mockNext());
+
+      expect(missing.status).toHaveBeenCalledWith(400);
+      expect(foreign.status).toHaveBeenCalledWith(404);
+      expect(prisma.sourceReadingSession.findFirst).toHaveBeenCalledWith({
+        where: { id: "session-1", user_id: "user-2" },
+      });
+    });
+  });
+
+  describe("PDF Proxy", () => {
+    const pipe = jest.fn();
+
+    beforeEach(() => {
+      jest.mocked(axios).mockResolvedValue({
+        data: { pipe },
+        status: 206,
+        statusText: "Partial Content",
+        headers: { "content-type": "application/pdf", "content-range": "bytes 0-1023/4096" },
+        config: { headers: new AxiosHeaders() },
+      });
+      jest
+        .spyOn(SourceReadingService, "recordProxyRequest")
+        .mockResolvedValue({ sessionId: "session-1", resumed: true });
+    });
+
+    it("should forward range requests and return the reading session", async () => {
+      jest.spyOn(ProjectAccessService, "assertAccess").mockResolvedValue("viewer");
+      const res = mockResponse();
+
+      await routeHandler(proxyRouter, "get", "/pdf")(
+        mockRequest({
+          user: { id: "user-1" },
+          query: { url: "https://a.example/paper.pdf", projectId: "project-1", sourceId: "doi:10.1/paper" },
+          headers: { range: "bytes=0-1023" },
+        }),
+        res,
+        mockNext()
+      );
+
+      expect(axios).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: expect.objectContaining({ Range: "bytes=0-1023" }) })
+      );
+      expect(SourceReadingService.recordProxyRequest).toHaveBeenCalledWith(SOURCE);
+      expect(res.setHeader).toHaveBeenCalledWith("Content-Range", "bytes 0-1023/4096");
+      expect(res.setHeader).toHaveBeenCalledWith("X-Reading-Session", "session-1");
+      expect(res.status).toHaveBeenCalledWith(206);
+      expect(pipe).toHaveBeenCalledWith(res);
+    });
+
+    it("should still serve the PDF when the project is not accessible", async () => {
+      jest.spyOn(ProjectAccessService, "assertAccess").mockRejectedValue(new Error("Project not found"));
+      const res = mockResponse();
+
+      await routeHandler(proxyRouter, "get", "/pdf")(
+        mockRequest({ user: { id: "user-2" }, query: { url: "https://a.example/paper.pdf", projectId: "project-1" } }),
+        res,
+        mockNext()
+      );
+
+      expect(SourceReadingService.recordProxyRequest).not.toHaveBeenCalled();
+      expect(res.setHeader).not.toHaveBeenCalledWith("X-Reading-Session", expect.anything());
+      expect(pipe).toHaveBeenCalledWith(res);
+    });
+  });
+
+  describe("Annotations", () => {
+    it("should count highlights and notes and mark annotated pages as read", async () => {
+      jest.mocked(prisma.annotation.findMany).mockResolvedValue([
+        annotationRow({ type: "highlight", coordinates: { page: 2 } }),
+        annotationRow({ type: "highlight", content: "Key claim", coordinates: { page: 5 } }),
+        annotationRow({ type: "note", coordinates: { page: 2 } }),
+      ]);
+      jest.mocked(prisma.sourceInteraction.findMany).mockResolvedValue([
+        sourceInteractionRow({ pages_viewed: [1] }),
+        sourceInteractionRow({ id: "interaction-2" }),
+      ]);
+
+      await SourceReadingService.syncAnnotationCounts("user-1", "file-1");
+
+      const calls = jest.mocked(prisma.sourceInteraction.update).mock.calls as Array<
+        [Prisma.SourceInteractionUpdateArgs]
+      >;
+      expect(calls.map(([args]) => args.where.id)).toEqual(["interaction-1", "interaction-2"]);
+      expect(calls[0][0].data).toEqual({ highlight_count: 2, note_count: 2, pages_viewed: [1, 2, 5] });
+    });
+
+    it("should describe pages as compact ranges", () => {
+      expect(toRanges([7, 1, 2, 3, 3, 9, 10])).toBe("1-3, 7, 9-10");
+      expect(toRanges([])).toBe("");
+    });
+  });
+
+  describe("Source Integration", () => {
+    it("should prefer observed reading and flag cited sources without annotations", async () => {
+      jest.mocked(prisma.sourceInteraction.findMany).mockResolvedValue([
+        sourceInteractionRow({
+          is_cited: true,
+          observed_reading_time_ms: 120000,
+          highlight_count: 1,
+          note_count: 1,
+          pages_viewed: [1, 2, 3, 4, 5],
+          page_count: 10,
+        }),
+        sourceInteractionRow({ id: "interaction-2", source_id: "https://b.example/paper", is_cited: true }),
+      ]);
+
+      const report = await SourceIntegrationService.verifySourceIntegration("project-1", "user-1");
+
+      expect(report.readingAuditTrail.map((entry) => [entry.readingEvidence, entry.pagesViewed])).toEqual([
+        ["observed", "1-5"],
+        ["self_reported", ""],
+      ]);
+      expect(report.readingAuditTrail[0].score).toBe(100);
+      expect(report.redFlags).toEqual([expect.objectContaining({ flagType: "no_annotations" })]);
+      expect(report.isConsistentWithReading).toBe(true);
+      expect(report.authenticityScore).toBe(71);
+    });
+
+    it("should flag cited sources read too briefly", async () => {
+      jest
+        .mocked(prisma.sourceInteraction.findMany)
+        .mockResolvedValue([sourceInteractionRow({ is_cited: true, total_reading_time_ms: 10000, note_count: 1 })]);
+
+      const report = await SourceIntegrationService.verifySourceIntegration("project-1", "user-1");
+
+      expect(report.readingAuditTrail[0].readingEvidence).toBe("none");
+      expect(report.redFlags).toEqual([expect.objectContaining({ flagType: "insufficient_reading_time" })]);
+      expect(report.isConsistentWithReading).toBe(false);
+    });
+  });
+});
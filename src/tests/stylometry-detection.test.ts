@@ -0,0 +1,119 @@
+/**
+ * Stylometry Detection Tests
+ * Verifies the offline AI-writing detector and when AI detection falls back to it
+ * or attaches it as a second opinion
+ */
+
+import axios, { AxiosHeaders } from "axios";
+import { AIDetectionService } from "../services/aiDetectionService";
+import { StylometryDetectionService } from "../services/stylometryDetectionService";
+import aiDetectionRouter from "../api/ai-detection";
+import { mockNext, mockRequest, mockResponse, routeHandler } from "./mocks/fixtures";
+
+jest.mock("axios");
+
+// Even sentences built from the same stock phrases
+const GENERATED = Array.from(
+  { length: 12 },
+  (_, i) =>
+    `Additionally, technology plays a crucial role in fostering innovation across the modern landscape of education ${i}.`
+).join(" ");
+
+// Short and long sentences, plain words, little repetition
+const HANDWRITTEN = [
+  "I missed the bus again.",
+  "By the time the next one came, rain had soaked through my shoes and the notes I was supposed to hand in were a grey pulp.",
+  "Great start.",
+  "My professor, who has seen every excuse twice, just laughed and told me to email a scan before midnight.",
+  "So I did.",
+  "Then I made tea, burned my tongue, and spent an hour arguing with a printer that refused to admit it had paper.",
+  "Honestly the printer won.",
+  "Tomorrow I will leave early, carry an umbrella, and maybe buy waterproof folders from the shop near the station.",
+  "Maybe.",
+  "We will see how long that resolution lasts once winter properly arrives and the buses stop pretending to run on time.",
+  "Anyway, the essay is done.",
+  "It is not my best work, but it is finished, and on some weeks that counts as a small victory worth celebrating with cake.",
+].join(" ");
+
+describe("Stylometry Detection Tests", () => {
+  describe("Scores", () => {
+    it("should score uniform, formulaic text as more AI-like than varied prose", () => {
+      const generated = StylometryDetectionService.detect(GENERATED);
+      const handwritten = StylometryDetectionService.detect(HANDWRITTEN);
+
+      expect(generated.overallScore).toBeGreaterThan(handwritten.overallScore);
+      expect(generated.classification).toBe("ai");
+      expect(handwritten.classification).toBe("human");
+      expect(generated.features.sentenceLengthVariation).toBeLessThan(handwritten.features.sentenceLengthVariation);
+    });
+
+    it("should score every sentence at its position in the text", () => {
+      const result = StylometryDetectionService.detect(HANDWRITTEN);
+
+      expect(result.sentences).toHaveLength(12);
+      result.sentences.forEach((sentence) =>
+        expect(HANDWRITTEN.slice(sentence.positionStart, sentence.positionEnd)).toBe(sentence.text)
+      );
+      expect(result.engine).toBe("stylometry");
+    });
+
+    it("should mark short texts as low reliability", () => {
+      expect(StylometryDetectionService.detect("I missed the bus again. Great start.").reliability).toBe("low");
+      expect(StylometryDetectionService.detect(HANDWRITTEN).reliability).toBe("normal");
+    });
+  });
+
+  describe("Engine Selection", () => {
+    const apiKey = process.env.GPTZERO_API_KEY;
+
+    const gptZeroScore = (probability: number) =>
+      jest.mocked(axios.post).mockResolvedValue({
+        data: { documents: [{ completely_generated_prob: probability, sentences: [] }] },
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+      });
+
+    afterEach(() => {
+      if (apiKey === undefined) delete process.env.GPTZERO_API_KEY;
+      else process.env.GPTZERO_API_KEY = apiKey;
+      jest.resetAllMocks();
+    });
+
+    it("should fall back to stylometry when GPTZero is not configured", async () => {
+      delete process.env.GPTZERO_API_KEY;
+
+      const result = await AIDetectionService.detectAI(HANDWRITTEN);
+
+      expect(result.engine).toBe("stylometry");
+      expect(axios.post).not.toHaveBeenCalled();
+      await expect(AIDetectionService.detectAI(HANDWRITTEN, "gptzero")).rejects.toThrow("not configured");
+    });
+
+    it("should attach a second opinion to borderline GPTZero scores only", async () => {
+      process.env.GPTZERO_API_KEY = "key";
+
+      gptZeroScore(0.5);
+      const borderline = await AIDetectionService.detectAI(HANDWRITTEN);
+      gptZeroScore(0.95);
+      const clear = await AIDetectionService.detectAI(HANDWRITTEN);
+
+      expect(borderline.engine).toBe("gptzero");
+      expect(borderline.secondOpinion?.engine).toBe("stylometry");
+      expect(clear.secondOpinion).toBeUndefined();
+    });
+
+    it("should reject unknown engines", async () => {
+      const res = mockResponse();
+
+      await routeHandler(aiDetectionRouter, "post", "/scan")(
+        mockRequest({ body: { content: HANDWRITTEN, engine: "turnitin" } }),
+        res,
+        mockNext()
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Writer Style Profile Tests
+ * Verifies that a writer's profile is built from their completed projects and
+ * reused until those change, and how new text is scored against it
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { ProjectAccessService } from "../services/projectAccessService";
+import { WriterStyleProfileService } from "../services/writerStyleProfileService";
+import styleRouter from "../api/authorship/style";
+import { resetPrismaMock } from "./mocks/prisma";
+import { mockNext, mockRequest, mockResponse, projectRow, routeHandler } from "./mocks/fixtures";
+
+jest.mock("../lib/prisma", () => require("./mocks/prisma"));
+
+// Long sentences, commas and semicolons
+const MEASURED = [
+  "The committee, having reviewed the evidence at some length, concluded that the earlier findings were sound; however, it asked for further work on the sampling method.",
+  "In the spring of that year, the survey was repeated in three districts, and the results, though broadly similar, suggested that attendance had risen among older students.",
+  "It is worth considering, therefore, whether the change in policy was the cause of this rise, or whether it merely coincided with a wider shift in the region.",
+  "Several teachers, when asked about the matter, pointed to the new timetable; others, by contrast, credited the improved bus service that began in the autumn.",
+  "The data from the northern district, which had not changed its timetable, offer a useful comparison, since attendance there remained stable throughout the period.",
+  "Taken together, these observations support a cautious reading of the evidence, in which the policy played a part, but not the only part, in the outcome.",
+];
+
+// Short, exclamatory sentences without commas
+const CHOPPY = [
+  "Wow! This is huge!",
+  "Everyone came to school.",
+  "Nobody skipped!",
+  "The buses were great.",
+  "Kids loved the new times!",
+  "What a change!",
+  "Teachers were happy too.",
+  "Best year ever!",
+];
+
+// `paragraphs` paragraphs of `sentences`, each sentence tagged so the vocabulary keeps growing
+function writeIn(sentences: string[], paragraphs: number, seed: number): string[] {
+  return Array.from({ length: paragraphs }, (_, p) =>
+    sentences
+      .map((sentence, i) => sentence.replace(/\b(year|period|outcome|change|school|times)\b/, `$1 ${seed}${p}${i}`))
+      .join(" ")
+  );
+}
+
+function tiptap(paragraphs: string[]): Prisma.JsonObject {
+  return {
+    type: "doc",
+    content: paragraphs.map((text) => ({ type: "paragraph", content: [{ type: "text", text }] })),
+  };
+}
+
+describe("Writer Style Profile Tests", () => {
+  const completed = ["project-1", "project-2", "project-3"].map((id, i) =>
+    projectRow({ id, user_id: "user-1", content: tiptap(writeIn(MEASURED, 6, i)) })
+  );
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.spyOn(ProjectAccessService, "assertAccess").mockResolvedValue("viewer");
+    jest
+      .mocked(prisma.project.findMany)
+      .mockImplementation(async ({ where }: Prisma.ProjectFindManyArgs) =>
+        completed.filter((project) => !where?.id || project.id !== (where.id as Prisma.StringFilter).not)
+      );
+    jest.mocked(prisma.writerStyleProfile.findUnique).mockResolvedValue(null);
+    jest
+      .mocked(prisma.writerStyleProfile.upsert)
+      .mockImplementation(async ({ create }: Prisma.WriterStyleProfileUpsertArgs) =>
+        Object.assign(
+          { id: "profile-1", updated_at: new Date() },
+          create as Prisma.WriterStyleProfileUncheckedCreateInput
+        )
+      );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should build the profile from completed projects whose certificates were not revoked", async () => {
+    const stored = await WriterStyleProfileService.getProfile("user-1");
+
+    const [args] = jest.mocked(prisma.project.findMany).mock.calls[0] as [Prisma.ProjectFindManyArgs];
+    expect(args.where!.OR).toEqual([
+      { certificates: { some: { status: { not: "revoked" } } } },
+      { due_date: { lt: expect.any(Date) } },
+    ]);
+    expect(stored).toEqual(
+      expect.objectContaining({ project_count: 3, source_project_ids: ["project-1", "project-2", "project-3"] })
+    );
+  });
+
+  it("should reuse the stored profile until the completed projects change", async () => {
+    const built = await WriterStyleProfileService.getProfile("user-1");
+    jest.mocked(prisma.writerStyleProfile.findUnique).mockResolvedValue(built);
+    jest.mocked(prisma.writerStyleProfile.upsert).mockClear();
+
+    await WriterStyleProfileService.getProfile("user-1");
+    expect(prisma.writerStyleProfile.upsert).not.toHaveBeenCalled();
+
+    jest
+      .mocked(prisma.writerStyleProfile.findUnique)
+      .mockResolvedValue({ ...built, source_project_ids: ["project-1"] });
+    await WriterStyleProfileService.getProfile("user-1");
+    expect(prisma.writerStyleProfile.upsert).toHaveBeenCalled();
+  });
+
+  it("should score the writer's own style above a different one", async () => {
+    const own = await WriterStyleProfileService.scoreConsistency("user-1", {
+      text: writeIn(MEASURED, 2, 9).join("\n\n"),
+    });
+    const other = await WriterStyleProfileService.scoreConsistency("user-1", {
+      text: writeIn(CHOPPY, 12, 9).join("\n\n"),
+    });
+
+    expect(own.consistency).toBeGreaterThan(other.consistency);
+    expect(own.classification).toBe("consistent");
+    expect(other.classification).toBe("inconsistent");
+  });
+
+  it("should score a project against its owner's profile without the project itself", async () => {
+    jest.mocked(prisma.project.findUnique).mockResolvedValue(completed[0]);
+
+    await WriterStyleProfileService.scoreConsistency("user-2", { projectId: "project-1" });
+
+    const calls = jest.mocked(prisma.project.findMany).mock.calls as Array<[Prisma.ProjectFindManyArgs]>;
+    expect(new Set(calls.map(([args]) => args.where!.user_id))).toEqual(new Set(["user-1"]));
+    expect(calls[calls.length - 1][0].where!.id).toEqual({ not: "project-1" });
+  });
+
+  it("should answer 400 for text too short to compare and 409 without enough past work", async () => {
+    const consistency = routeHandler(styleRouter, "post", "/style-consistency");
+    const tooShort = mockResponse();
+    await consistency(mockRequest({ user: { id: "user-1" }, body: { text: "Too short." } }), tooShort, mockNext());
+
+    jest.mocked(prisma.project.findMany).mockResolvedValue([]);
+    const noProfile = mockResponse();
+    await consistency(
+      mockRequest({ user: { id: "user-1" }, body: { text: writeIn(MEASURED, 1, 9).join("\n\n") } }),
+      noProfile,
+      mockNext()
+    );
+
+    expect(tooShort.status).toHaveBeenCalledWith(400);
+    expect(noProfile.status).toHaveBeenCalledWith(409);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Capabilities a personal access token can be granted
+ */
+export const TOKEN_SCOPES = [
+  "citations:read",
+  "citations:write",
+  "citations:audit",
+  "originality:read",
+  "originality:scan",
+  "exports:read",
+  "exports:write",
+  "jobs:read",
+  "jobs:write",
+  "projects:read",
+  "projects:write",
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export interface CreateAccessTokenRequest {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays?: number; // Omit for a token that never expires
+}
+
+export interface AccessTokenResponse {
+  id: string;
+  name: string;
+  tokenPrefix: string; // First characters of the token, to tell tokens apart
+  scopes: TokenScope[];
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Scopes a router requires from token-authenticated requests.
+ * `read` covers GET/HEAD, `write` every other method; `routes` overrides
+ * both for specific "METHOD /path" entries (path relative to the mount point).
+ */
+export interface RouteScopes {
+  read?: TokenScope;
+  write?: TokenScope;
+  routes?: Record<string, TokenScope>;
+}
@@ -1,18 +1,20 @@
-export type CitationStyle = "APA" | "MLA" | "IEEE" | "Chicago";
+export type CitationStyle = "APA" | "MLA" | "IEEE" | "Chicago" | "Harvard" | "Vancouver" | "AMA";
 
 export type PatternType =
     | "NUMERIC_BRACKET"   // [1]
+    | "NUMERIC_PAREN"     // (1)
+    | "NUMERIC_SUPERSCRIPT" // ¹ or ^1
     | "AUTHOR_YEAR"       // (Smith, 2023)
+    | "AUTHOR_YEAR_NO_COMMA" // (Smith 2023)
     | "AUTHOR_PAGE"       // (Smith 24)
     | "et_al_no_period"   // et al
     | "et_al_with_period" // et al.
     | "AMPERSAND_IN_PAREN" // (Smith & Jones)
-    | "AMPERSAND_IN_PAREN" // (Smith & Jones)
     | "AND_IN_PAREN"      // (Smith and Jones)
     | "MIXED_STYLE";       // Multiple styles detected
 
 export interface DocumentMeta {
-    language: string;
+    language: string; // ISO 639-1 (or BCP 47) code; "auto" to detect from the text
     editor: string;
 }
 
@@ -55,6 +57,16 @@ export interface AuditRequest {
     patterns: ExtractedPattern[];
     referenceList: ReferenceListExtraction | null;
     citationLibrary?: Record<string, any>; // [NEW] Map of citationId -> metadata for Tier 1 matching
+    // Server-side extraction mode: send one of these instead of sections/patterns/referenceList
+    text?: string;
+    document?: any; // Tiptap JSON
+}
+
+export interface DocumentExtraction {
+    text: string; // Plain text all offsets refer to
+    sections: DocumentSection[];
+    patterns: ExtractedPattern[];
+    referenceList: ReferenceListExtraction | null;
 }
 
 export type CitationViolationType = "INLINE_STYLE" | "REF_LIST_ENTRY" | "STRUCTURAL" | "VERIFICATION" | "RISK";
@@ -103,6 +115,13 @@ export interface VerificationResult {
     semanticAnalysis?: {
         reasoning?: string;
         confidence?: number;
+        quote?: string; // Supporting sentence(s) from the paper's full text
+        page?: number;
+    };
+    evidence?: {
+        basis: "full_text" | "abstract"; // What the support check read
+        documentSource?: "uploaded_file" | "open_access";
+        passages?: { page: number; text: string; score: number }[]; // Retrieved full-text passages, best first
     };
 }
 
@@ -123,6 +142,8 @@ export enum AuditTier {
 
 export interface AuditResponse {
     style: CitationStyle;
+    language?: string; // Declared or detected document language
+    extraction?: Omit<DocumentExtraction, "text">; // Returned in server-side extraction mode so offsets can be mapped back
     flags: CitationFlag[];
     verificationResults?: VerificationResult[];
     integrityIndex?: number;
@@ -0,0 +1,119 @@
+export type CitationStyleId =
+    | "apa"
+    | "mla"
+    | "chicago"
+    | "ieee"
+    | "harvard"
+    | "vancouver"
+    | "ama";
+
+/**
+ * Name rendering options (same meaning as the CSL `<name>` / `<et-al>` attributes they are named after)
+ */
+export interface StyleNameOptions {
+    nameAsSortOrder: "first" | "all" | "none"; // Which names render "Family, Given"
+    initialize: boolean; // Reduce given names to initials
+    initializeWith: string; // ". " -> "J. R.", "" -> "JR"
+    sortSeparator: string; // Between family and given when inverted
+    delimiter: string; // Between names
+    and: "text" | "symbol" | "none"; // "and" / "&" / nothing before the last name
+    delimiterPrecedesLast: "always" | "never" | "contextual"; // contextual = only for 3+ names
+    etAlMin: number; // Truncate when there are at least this many names...
+    etAlUseFirst: number; // ...keeping this many
+    etAlTerm: string;
+    delimiterPrecedesEtAl?: "always" | "contextual"; // contextual = only when 2+ names are shown
+    form?: "long" | "short"; // short = family names only (in-text citations)
+}
+
+export type StyleVariable =
+    | "author"
+    | "issued"
+    | "title"
+    | "container-title"
+    | "volume"
+    | "issue"
+    | "page"
+    | "publisher"
+    | "DOI"
+    | "URL"; // URL is only rendered when there is no DOI
+
+/**
+ * One element of a layout: a variable, literal text, or a group that renders
+ * only when at least one of its variables is present (CSL `<group>` semantics)
+ */
+export type StyleLayoutNode =
+    | {
+          variable: StyleVariable;
+          prefix?: string;
+          suffix?: string;
+          fontStyle?: "italic";
+          /** double = US punctuation-in-quote ("Title."), single = British ('Title'.) */
+          quotes?: "double" | "single";
+      }
+    | { text: string; fontStyle?: "italic" }
+    | { group: StyleLayoutNode[]; prefix?: string; suffix?: string; delimiter?: string };
+
+/**
+ * A citation style in the formatter's own declarative schema (see services/citationFormatting/styles)
+ */
+export interface CitationStyleDefinition {
+    id: CitationStyleId;
+    title: string;
+    citationFormat: "author-date" | "author" | "numeric";
+    citation: {
+        names: StyleNameOptions;
+        prefix: string;
+        suffix: string;
+        /** Between author and year, e.g. ", " (APA) or " " (Chicago) */
+        yearDelimiter?: string;
+        /** Render numbers as superscript digits (AMA) */
+        superscript?: boolean;
+    };
+    bibliography: {
+        names: StyleNameOptions;
+        sort: "author" | "citation-number";
+        /** Label before each entry, `{n}` is the citation number */
+        numberLabel?: string;
+        layouts: {
+            article: StyleLayoutNode[];
+            book: StyleLayoutNode[];
+            webpage: StyleLayoutNode[];
+        };
+    };
+    /** Text used when the issued date is missing */
+    noDateTerm: string;
+    /** "https://doi.org/" or "doi:" etc. */
+    doiPrefix: string;
+    /** "–" for most styles, "-" for the medical styles */
+    pageRangeDelimiter: string;
+}
+
+/**
+ * A run of formatted output, so DOCX/HTML/plain text render the same reference
+ */
+export interface FormattedSegment {
+    text: string;
+    italic?: boolean;
+}
+
+/**
+ * Bibliographic fields the formatter understands (a `Citation` row, a search
+ * result or an import entry all map onto this)
+ */
+export interface FormattableCitation {
+    id?: string;
+    title?: string | null;
+    author?: string | null;
+    authors?: Array<
+        string | { firstName?: string; lastName?: string; given?: string; family?: string; literal?: string }
+    >;
+    year?: number | string | null;
+    type?: string | null;
+    journal?: string | null;
+    volume?: string | null;
+    issue?: string | null;
+    pages?: string | null;
+    publisher?: string | null;
+    doi?: string | null;
+    url?: string | null;
+}
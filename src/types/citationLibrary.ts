@@ -0,0 +1,75 @@
+export type LibraryFormat = "bibtex" | "ris" | "csljson";
+
+/**
+ * Canonical reference types stored in `Citation.type`
+ * (CrossRef-style names, matching what the search/import routes already write)
+ */
+export type LibraryEntryType =
+    | "journal-article"
+    | "book"
+    | "book-chapter"
+    | "proceedings-article"
+    | "report"
+    | "thesis"
+    | "website"
+    | "dataset"
+    | "other";
+
+export interface LibraryAuthor {
+    family?: string;
+    given?: string;
+    literal?: string; // Organisations / names that should not be split
+}
+
+/**
+ * Format-neutral representation of one reference-manager entry
+ */
+export interface LibraryEntry {
+    key?: string; // BibTeX cite key, RIS ID or CSL id
+    type: LibraryEntryType;
+    title: string;
+    authors: LibraryAuthor[];
+    year?: number;
+    journal?: string;
+    volume?: string;
+    issue?: string;
+    pages?: string;
+    publisher?: string;
+    doi?: string;
+    url?: string;
+    abstract?: string;
+    keywords?: string[];
+    notes?: string[];
+}
+
+export interface LibraryParseError {
+    index: number;
+    key?: string;
+    message: string;
+}
+
+export interface LibraryParseResult {
+    entries: LibraryEntry[];
+    errors: LibraryParseError[];
+}
+
+export type ImportEntryStatus = "created" | "merged" | "rejected";
+
+export interface ImportEntryReport {
+    index: number;
+    key?: string;
+    title?: string;
+    status: ImportEntryStatus;
+    citationId?: string;
+    mergedFields?: string[];
+    reason?: string;
+}
+
+export interface LibraryImportReport {
+    format: LibraryFormat;
+    total: number;
+    created: number;
+    merged: number;
+    rejected: number;
+    entries: ImportEntryReport[];
+}
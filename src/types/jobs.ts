@@ -0,0 +1,53 @@
+import { ProgressEvent } from "./progress";
+
+export type JobType =
+  | "originality_scan"
+  | "citation_batch_analysis"
+  | "certificate_generation"
+  | "export_pdf"
+  | "originality_report";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface EnqueueJobOptions {
+  projectId?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Handed to a job handler while it runs
+ */
+export interface JobContext {
+  jobId: string;
+  userId: string;
+  projectId: string | null;
+  attempt: number; // 1-based
+  /** Record progress (0-100); throws if the job was cancelled meanwhile */
+  reportProgress(progress: number, message?: string): Promise<void>;
+  /** Record a named stage (streamed by GET /api/jobs/:id/events); keeps the last progress when the event has none */
+  reportStage(event: ProgressEvent): Promise<void>;
+}
+
+/**
+ * Runs one job. The resolved value is stored as the job result (must be JSON-serializable).
+ */
+export type JobHandler<TPayload = any> = (payload: TPayload, context: JobContext) => Promise<any>;
+
+export interface JobStatusResponse {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress: number;
+  progressMessage: string | null;
+  progressStage: string | null;
+  projectId: string | null;
+  attempts: number;
+  maxAttempts: number;
+  result: any;
+  error: string | null;
+  nextRunAt: Date | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
@@ -0,0 +1,31 @@
+export type ExclusionReason =
+  | "quoted"
+  | "bibliography"
+  | "small_match"
+  | "excluded_source"
+  | "own_work";
+
+/**
+ * What an originality scan leaves out of the filtered score. Stored per user
+ * (defaults) and per scan (the rules actually applied).
+ */
+export interface OriginalityExclusionSettings {
+  excludeQuotes: boolean; // Matches inside quotation marks
+  excludeBibliography: boolean; // Matches after a References / Bibliography heading
+  minMatchWords: number; // Matches shorter than this many words (0 = keep all)
+  excludedSources: string[]; // Domains ("example.com") or URL prefixes ("example.com/papers")
+  excludeOwnWork: boolean; // Matches against the user's own projects
+}
+
+/**
+ * Request body changing exclusion rules; omitted fields keep their current value
+ */
+export type OriginalityExclusionInput = Partial<OriginalityExclusionSettings>;
+
+export const DEFAULT_EXCLUSION_SETTINGS: OriginalityExclusionSettings = {
+  excludeQuotes: false,
+  excludeBibliography: false,
+  minMatchWords: 0,
+  excludedSources: [],
+  excludeOwnWork: false,
+};
@@ -0,0 +1,61 @@
+export type OriginalityProviderName = "copyscape" | "copyleaks" | "web_search" | "local";
+
+/**
+ * A match normalized to the columns of `SimilarityMatch`, whatever the provider
+ */
+export interface ProviderMatch {
+  start: number; // Character offsets in the scanned content
+  end: number;
+  similarity: number; // 0-100
+  sourceUrl: string | null;
+  sourceTitle: string;
+  viewUrl?: string | null;
+  matchedWords?: number;
+  sourceWords?: number;
+  matchPercent?: number; // % of the source matched, when the provider reports it
+  ownWork?: boolean; // Source is one of the user's own projects
+  crossLanguage?: boolean; // Source is in another language (multilingual embedding match)
+  sourceLanguage?: string;
+  provider: OriginalityProviderName;
+}
+
+export interface ProviderScanSummary {
+  overallScore: number; // % of the content matched (0-100)
+  wordsScanned: number;
+  cost: number;
+  matchCount: number;
+}
+
+/**
+ * `pending` means the provider finishes asynchronously; poll with `externalId`
+ * (or wait for its webhook)
+ */
+export type ProviderScanOutcome =
+  | { status: "completed"; matches: ProviderMatch[]; summary: ProviderScanSummary }
+  | { status: "pending"; externalId: string };
+
+export interface ProviderScanContext {
+  scanId: string;
+  projectId: string;
+  userId: string;
+}
+
+/**
+ * Contract every originality backend implements
+ */
+export interface OriginalityProvider {
+  readonly name: OriginalityProviderName;
+  /** False when credentials/configuration are missing; the chain skips the provider */
+  isConfigured(): Promise<boolean>;
+  scan(content: string, context: ProviderScanContext): Promise<ProviderScanOutcome>;
+  /** Fetch the outcome of a pending scan (asynchronous providers only) */
+  poll?(externalId: string, content: string): Promise<ProviderScanOutcome>;
+  /** Map the provider's raw result onto ProviderMatch */
+  normalize(content: string, raw: any): ProviderMatch[];
+}
+
+export interface ProviderAttempt {
+  provider: OriginalityProviderName;
+  status: "completed" | "pending" | "failed" | "skipped";
+  error?: string;
+}
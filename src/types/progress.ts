@@ -0,0 +1,13 @@
+/**
+ * A stage of a long-running operation, streamed to the client over SSE
+ * (e.g. { stage: "verifying", message: "Verifying 12/40 references", current: 12, total: 40 })
+ */
+export interface ProgressEvent {
+  stage: string;
+  message: string;
+  current?: number;
+  total?: number;
+  progress?: number; // 0-100 when known
+}
+
+export type ProgressReporter = (event: ProgressEvent) => void | Promise<void>;
@@ -0,0 +1,74 @@
+/**
+ * A scalar style feature: its mean and spread across the writer's own samples
+ */
+export interface StyleStatistic {
+  mean: number;
+  std: number;
+}
+
+/**
+ * A frequency profile (rates per 1000 words, or per 100 words for punctuation)
+ * compared with Burrows' Delta: the mean absolute z-score over its dimensions.
+ */
+export interface StyleFrequencyProfile {
+  dimensions: Array<{ key: string; mean: number; std: number }>;
+  // Delta of the writer's own samples from the profile - what "normal" looks like
+  selfDistance: StyleStatistic;
+}
+
+/**
+ * Per-writer style baseline built from their completed projects (stored as
+ * WriterStyleProfile.profile).
+ */
+export interface WriterStyleProfileData {
+  version: 1;
+  language: string;
+  sampleWords: number; // Words per sample the statistics were measured on
+  sentenceLength: StyleStatistic & {
+    histogram: number[]; // Share of sentences per SENTENCE_LENGTH_BUCKETS bucket
+    selfDistance: StyleStatistic; // Histogram distance of own samples
+  };
+  sentenceLengthSpread: StyleStatistic; // Std of sentence length within a sample
+  lexicalDiversity: StyleStatistic; // Moving-average type-token ratio
+  wordLength: StyleStatistic;
+  punctuation: StyleFrequencyProfile;
+  functionWords: StyleFrequencyProfile;
+  functionNgrams: StyleFrequencyProfile; // Function-word bigrams ("of the", "it is")
+  commonNgrams: Array<{ ngram: string; count: number }>; // Most frequent content bigrams/trigrams, for display
+}
+
+export type StyleComponent =
+  | "sentenceLength"
+  | "lexicalDiversity"
+  | "wordLength"
+  | "punctuation"
+  | "functionWords"
+  | "functionNgrams";
+
+export type StyleConsistencyClassification = "consistent" | "uncertain" | "inconsistent";
+
+export interface StyleSectionScore {
+  start: number; // Character offsets in the scored text
+  end: number;
+  wordCount: number;
+  consistency: number; // 0-100
+  classification: StyleConsistencyClassification;
+  flagged: boolean;
+}
+
+export interface StyleConsistencyResult {
+  consistency: number; // 0-100, how much the text reads like the writer's past work
+  classification: StyleConsistencyClassification;
+  reliability: "low" | "normal"; // "low" for texts much shorter than a profile sample
+  components: Record<StyleComponent, number>; // 0-100 each
+  sections: StyleSectionScore[];
+  profile: {
+    builtAt: Date;
+    projectCount: number;
+    wordCount: number;
+    language: string;
+  };
+}
+
+// Upper bounds (inclusive) of the sentence-length histogram buckets, in words
+export const SENTENCE_LENGTH_BUCKETS = [5, 10, 15, 20, 25, 30, 40, Infinity];
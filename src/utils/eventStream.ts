@@ -0,0 +1,46 @@
+import { Response } from 'express';
+
+export interface EventStream {
+    send(event: string, data: unknown): void;
+    close(): void;
+    readonly closed: boolean;
+}
+
+/**
+ * Switches the response to Server-Sent Events.
+ * Sends a comment every `heartbeatMs` so proxies keep the connection open;
+ * `closed` turns true once the client disconnects.
+ */
+export function openEventStream(res: Response, heartbeatMs: number = 15000): EventStream {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    res.flushHeaders();
+
+    let closed = false;
+    const heartbeat = setInterval(() => {
+        if (!closed) res.write(': ping\n\n');
+    }, heartbeatMs);
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        res.end();
+    };
+
+    res.on('close', close); // Client went away (req 'close' fires once the body is read)
+
+    return {
+        send(event: string, data: unknown) {
+            if (closed) return;
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        close,
+        get closed() {
+            return closed;
+        },
+    };
+}
@@ -0,0 +1,49 @@
+import { Request, Response } from "express";
+import { JobQueueService } from "../services/jobQueueService";
+
+// How long a legacy (synchronous) request waits for its job before falling back to 202
+export const SYNC_JOB_WAIT_MS = 110 * 1000;
+
+/**
+ * Whether the client opted in to asynchronous job responses with
+ * `Prefer: respond-async` (RFC 7240). Without it, endpoints that queue work
+ * wait for the job and answer as they did before the job queue existed.
+ */
+export function prefersAsync(req: Request): boolean {
+  const prefer = req.get("prefer") || "";
+  return prefer
+    .split(",")
+    .some((preference) => preference.split(";")[0].trim().toLowerCase() === "respond-async");
+}
+
+/**
+ * 202 with the job id; poll GET /api/jobs/:jobId (or stream /events) for the result
+ */
+export function sendJobAccepted(
+  req: Request,
+  res: Response,
+  job: { id: string; status: string },
+  message?: string
+) {
+  if (prefersAsync(req)) {
+    res.setHeader("Preference-Applied", "respond-async");
+  }
+
+  return res.status(202).json({
+    success: true,
+    data: {
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`,
+    },
+    ...(message ? { message } : {}),
+  });
+}
+
+/**
+ * Legacy synchronous flow: wait for the job to finish. Null when it is still
+ * running after SYNC_JOB_WAIT_MS; the caller then answers with sendJobAccepted.
+ */
+export async function waitForJob(jobId: string) {
+  return JobQueueService.waitFor(jobId, SYNC_JOB_WAIT_MS);
+}
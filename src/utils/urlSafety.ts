@@ -0,0 +1,101 @@
+import type { AxiosRequestConfig } from "axios";
+import dns from "dns";
+import net from "net";
+
+/**
+ * Whether an IP address is loopback, private, link-local (including cloud
+ * metadata at 169.254.169.254), carrier-grade NAT, multicast or otherwise not
+ * a public internet address
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    // IPv4-mapped (::ffff:10.0.0.1) addresses are judged by their IPv4 part
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    return (
+      normalized === "::" ||
+      normalized === "::1" ||
+      /^f[cd]/.test(normalized) || // Unique local fc00::/7
+      /^fe[89ab]/.test(normalized) || // Link-local fe80::/10
+      normalized.startsWith("ff") // Multicast
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Reject URLs the server must not fetch on a user's behalf: anything but
+ * http(s), and hosts given as a private IP address. Host names are checked
+ * when they resolve (safeLookup).
+ */
+export function assertPublicHttpUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Only http and https URLs can be fetched");
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error("URL points to a private network address");
+  }
+
+  return parsed;
+}
+
+/**
+ * DNS lookup (for axios' `lookup` option) that refuses host names resolving to
+ * a private address; runs for every connection, so redirects and DNS rebinding
+ * are covered too
+ */
+export const safeLookup: AxiosRequestConfig["lookup"] = (hostname, options, callback) => {
+  const family = (options as { family?: number })?.family || 0;
+
+  dns.lookup(hostname, { all: true, family }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    if (!addresses.length || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      return callback(new Error(`${hostname} resolves to a private network address`), []);
+    }
+    callback(null, addresses[0].address, addresses[0].family as 4 | 6);
+  });
+};
+
+/**
+ * axios options that keep a request (and its redirects) on the public internet
+ */
+export const publicHttpRequestOptions: Pick<AxiosRequestConfig, "lookup" | "beforeRedirect"> = {
+  lookup: safeLookup,
+  beforeRedirect: (options: Record<string, any>) => {
+    assertPublicHttpUrl(options.href || `${options.protocol}//${options.hostname}${options.path || ""}`);
+  },
+};
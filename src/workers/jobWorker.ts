@@ -0,0 +1,154 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import logger from "../monitoring/logger";
+import { JobCancelledError, JobQueueService } from "../services/jobQueueService";
+import { JOB_HANDLERS } from "../jobs/jobHandlers";
+import { JobContext, JobType } from "../types/jobs";
+
+export interface JobWorkerOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+  lockTimeoutMs?: number; // Running jobs whose lock was not refreshed for this long are requeued
+  heartbeatIntervalMs?: number; // How often a running job's lock is refreshed
+  types?: JobType[];
+}
+
+/**
+ * Job Worker
+ * Polls the `jobs` table, runs claimed jobs through JOB_HANDLERS and records
+ * progress, results and retries. Runs embedded in the API server by default
+ * (JOB_WORKER_MODE=embedded) or as its own process via jobWorkerProcess.ts.
+ */
+export class JobWorker {
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private readonly lockTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly types?: JobType[];
+
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly active = new Set<Promise<void>>();
+  private lastRecovery = 0;
+
+  constructor(options: JobWorkerOptions = {}) {
+    this.concurrency = options.concurrency ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 15 * 60 * 1000;
+    // Several beats per timeout, so one slow database round-trip can't let the lock lapse
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? Math.min(60 * 1000, this.lockTimeoutMs / 4);
+    this.types = options.types;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    logger.info("Job worker started", {
+      workerId: this.workerId,
+      concurrency: this.concurrency,
+    });
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for in-flight jobs to finish
+   */
+  async stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await Promise.allSettled(Array.from(this.active));
+    logger.info("Job worker stopped", { workerId: this.workerId });
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.poll().finally(() => this.schedule(this.pollIntervalMs));
+    }, delayMs);
+  }
+
+  private async poll() {
+    try {
+      if (Date.now() - this.lastRecovery > this.lockTimeoutMs / 2) {
+        this.lastRecovery = Date.now();
+        await JobQueueService.recoverStale(this.lockTimeoutMs);
+      }
+
+      while (this.running && this.active.size < this.concurrency) {
+        const job = await JobQueueService.claimNext(this.workerId, this.types);
+        if (!job) break;
+
+        const execution = this.execute(job).finally(() => this.active.delete(execution));
+        this.active.add(execution);
+      }
+    } catch (error: any) {
+      logger.error("Job worker poll failed", { workerId: this.workerId, error: error.message });
+    }
+  }
+
+  private async execute(job: any) {
+    const handler = JOB_HANDLERS[job.type as JobType];
+    const startedAt = Date.now();
+
+    const context: JobContext = {
+      jobId: job.id,
+      userId: job.user_id,
+      projectId: job.project_id,
+      attempt: job.attempts,
+      reportProgress: (progress, message) =>
+        JobQueueService.reportProgress(job.id, this.workerId, progress, message),
+      reportStage: (event) =>
+        JobQueueService.reportProgress(job.id, this.workerId, event.progress, event.message, event.stage),
+    };
+
+    // The lock is kept fresh for as long as the handler runs, whether or not it reports progress
+    const heartbeat = setInterval(() => {
+      JobQueueService.heartbeat(job.id, this.workerId).catch((error: any) =>
+        logger.warn("Job heartbeat failed", { jobId: job.id, error: error.message })
+      );
+    }, this.heartbeatIntervalMs);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type "${job.type}"`);
+      }
+
+      logger.info("Job started", { jobId: job.id, type: job.type, attempt: job.attempts });
+      const result = await handler(job.payload, context);
+      await JobQueueService.complete(job.id, this.workerId, result);
+
+      logger.info("Job completed", {
+        jobId: job.id,
+        type: job.type,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error: any) {
+      if (error instanceof JobCancelledError) {
+        logger.info("Job cancelled while running", { jobId: job.id, type: job.type });
+        return;
+      }
+
+      try {
+        await JobQueueService.fail(job, this.workerId, error instanceof Error ? error : new Error(String(error)));
+      } catch (failError: any) {
+        logger.error("Failed to record job failure", { jobId: job.id, error: failError.message });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+/**
+ * Worker options from the environment (JOB_WORKER_CONCURRENCY, JOB_POLL_INTERVAL_MS)
+ */
+export function jobWorkerOptionsFromEnv(): JobWorkerOptions {
+  return {
+    concurrency: Number(process.env.JOB_WORKER_CONCURRENCY) || 1,
+    pollIntervalMs: Number(process.env.JOB_POLL_INTERVAL_MS) || 2000,
+  };
+}
+
@@ -0,0 +1,28 @@
+// Standalone job worker entry point: `npm run worker`
+import dotenv from "dotenv";
+// Load environment variables immediately
+dotenv.config();
+
+import logger from "../monitoring/logger";
+import { initializePrisma } from "../lib/prisma-async";
+import { JobWorker, jobWorkerOptionsFromEnv } from "./jobWorker";
+
+const run = async () => {
+  await initializePrisma();
+
+  const worker = new JobWorker(jobWorkerOptionsFromEnv());
+  worker.start();
+
+  const shutdown = async (signal: string) => {
+    logger.info(`Received ${signal}, stopping job worker`);
+    await worker.stop();
+    process.exit(0);
+  };
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+};
+
+run().catch((error: any) => {
+  logger.error("Job worker failed to start", { error: error.message });
+  process.exit(1);
+});